@@ -1,21 +1,105 @@
 import { NextRequest } from "next/server";
-import { SYSTEM_PROMPT } from "@/lib/prompts";
+import {
+  GRAPH_SYSTEM_PROMPT,
+  SNAPSHOT_PROMPT,
+  SUMMARY_SYSTEM_PROMPT,
+  SYSTEM_PROMPT,
+  TOOLS_SYSTEM_PROMPT,
+  buildHistoryPrompt,
+  buildImagePrompt,
+  buildRepairPrompt,
+  buildSelectionPrompt,
+  buildSummaryPrompt,
+  buildToolRepairPrompt,
+} from "@/lib/prompts";
+import { capabilitiesMatch, chooseStrategy, isProviderCapabilities, type OutputMode } from "@/lib/capabilities";
+import { getDiagramType } from "@/lib/diagram-types";
+import {
+  DEFAULT_CONTEXT_TOKENS,
+  estimateTokens,
+  formatTranscript,
+  historyBudget,
+  planHistory,
+  type HistorySummary,
+} from "@/lib/history";
+import { isPlacedGraph, layoutGraph, type LayoutDirection } from "@/lib/layout";
+import type { DiagramAction, DiagramOperation } from "@/lib/skeleton";
+import {
+  parseGraphResponse,
+  parseLLMJson,
+  parseOperation,
+  validateDiagramResponse,
+  type OperationValidationResult,
+} from "@/lib/validator";
+import {
+  getAdapter,
+  hasImages,
+  isProviderType,
+  isStreamingResponse,
+  readCompletion,
+  toMessageContent,
+  toParts,
+  type ChatMessage,
+  type Completion,
+} from "@/lib/providers";
+import {
+  DIAGRAM_TOOLS,
+  OPERATION_SCHEMA,
+  describeToolCalls,
+  validateToolCalls,
+  type OperationsResult,
+} from "@/lib/tools";
 
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
+interface RepairAttempt {
+  attempt: number;
+  maxAttempts: number;
+  error: string;
+}
+
+const MAX_REPAIR_ATTEMPTS = 5;
+
+// The LLM server answered a follow-up request (a repair) with an HTTP error
+class LLMServerError extends Error {
+  detail: string;
+
+  constructor(message: string, detail: string) {
+    super(message);
+    this.detail = detail;
+  }
 }
 
 export async function POST(req: NextRequest) {
   const timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || 120000;
 
   let body: {
-    messages: Array<{ role: string; content: string }>;
+    // Content is a string or OpenAI-style parts with image_url entries
+    messages: Array<{ role: string; content: unknown }>;
+    // Summary of the turns before `messages`, from an earlier response
+    historySummary?: string;
     canvasContext?: string;
+    canvasElementIds?: string[];
+    // Selected elements the request is limited to
+    selectedIds?: string[];
+    // Rendered image of the canvas (data: URL) for vision models
+    canvasSnapshot?: string;
+    canvasBounds?: { minX: number; minY: number; maxX: number; maxY: number } | null;
+    // Shapes and bound arrows on the canvas (lib/layout.ts PlacedGraph)
+    canvasGraph?: unknown;
+    // "graph" asks for nodes/edges only and lays them out on the server;
+    // "tools" offers the operations as function calls; "auto" picks from
+    // the capabilities
+    outputMode?: OutputMode | "auto";
+    // Capability probe results for this server and model (lib/capabilities.ts)
+    capabilities?: unknown;
+    graphLayout?: LayoutDirection | "auto";
+    // Diagram-type specialist (lib/diagram-types.ts); replaces the output mode
+    diagramType?: string;
     llmSettings?: {
+      providerType?: string;
       baseUrl?: string;
       model?: string;
       apiKey?: string;
+      repairAttempts?: number;
     };
   };
   try {
@@ -28,9 +112,22 @@ export async function POST(req: NextRequest) {
   }
 
   // Use client-provided settings, falling back to env vars
+  const providerType = body.llmSettings?.providerType ?? process.env.LLM_PROVIDER ?? "openai";
+  if (!isProviderType(providerType)) {
+    return new Response(
+      JSON.stringify({ error: `Unknown provider type: ${providerType}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+  const adapter = getAdapter(providerType);
   const baseUrl = body.llmSettings?.baseUrl || process.env.LLM_BASE_URL || "http://localhost:11434/v1";
   const model = body.llmSettings?.model || process.env.LLM_MODEL || "llama3";
   const apiKey = body.llmSettings?.apiKey || process.env.LLM_API_KEY || "";
+  const requestedRepairs =
+    body.llmSettings?.repairAttempts ?? Number(process.env.LLM_REPAIR_ATTEMPTS ?? 2);
+  const maxRepairAttempts = Number.isFinite(requestedRepairs)
+    ? Math.max(0, Math.min(MAX_REPAIR_ATTEMPTS, Math.floor(requestedRepairs)))
+    : 2;
 
   if (!Array.isArray(body.messages) || body.messages.length === 0) {
     return new Response(
@@ -39,50 +136,308 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // Build LLM messages: system prompt + optional canvas context + conversation history (last 10)
+  // Build LLM messages: system prompt + optional canvas context + conversation
+  // history, trimmed to the model's context
   const llmMessages: ChatMessage[] = [];
 
-  let systemContent = SYSTEM_PROMPT;
+  // Specialists answer in their own JSON, which is laid out like graph mode.
+  // Otherwise the mode, and how output is constrained, follow what the
+  // capability probe found the model supports.
+  const specialist = getDiagramType(body.diagramType);
+  const capabilities =
+    isProviderCapabilities(body.capabilities) &&
+    capabilitiesMatch(body.capabilities, providerType, baseUrl, model)
+      ? body.capabilities
+      : undefined;
+  const strategy = chooseStrategy(
+    specialist
+      ? "graph"
+      : body.outputMode === "graph" || body.outputMode === "tools" || body.outputMode === "auto"
+        ? body.outputMode
+        : "skeleton",
+    capabilities,
+  );
+  const { outputMode } = strategy;
+  let systemContent = specialist
+    ? specialist.systemPrompt
+    : outputMode === "graph"
+      ? GRAPH_SYSTEM_PROMPT
+      : outputMode === "tools"
+        ? TOOLS_SYSTEM_PROMPT
+        : SYSTEM_PROMPT;
   if (body.canvasContext) {
     systemContent += `\n\n## Current Canvas State\n${body.canvasContext}`;
   }
-  llmMessages.push({ role: "system", content: systemContent });
-
-  // Take last 10 messages to prevent token overflow
-  const recentMessages = body.messages.slice(-10);
-  for (const msg of recentMessages) {
-    if (msg.role === "user" || msg.role === "assistant") {
-      llmMessages.push({
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
+  if (Array.isArray(body.selectedIds) && body.selectedIds.length > 0) {
+    systemContent += `\n\n${buildSelectionPrompt(body.selectedIds)}`;
+  }
+  const history: ChatMessage[] = [];
+  for (const msg of body.messages) {
+    const content = toMessageContent(msg.content);
+    if ((msg.role === "user" || msg.role === "assistant") && content !== null) {
+      history.push({ role: msg.role, content });
+    }
+  }
+  // A photo or screenshot in the latest request is to be recreated
+  const lastUser = [...history].reverse().find((m) => m.role === "user");
+  if (lastUser && hasImages(lastUser.content) && !strategy.images) {
+    return new Response(
+      JSON.stringify({
+        error: `The model "${model}" does not accept images (per the capability check). Choose a vision model or run the check again.`,
+      }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+  if (lastUser && hasImages(lastUser.content)) {
+    systemContent += `\n\n${buildImagePrompt(specialist ? "specialist" : outputMode)}`;
+  }
+  // The canvas snapshot rides along with the latest request only
+  if (
+    lastUser &&
+    strategy.images &&
+    typeof body.canvasSnapshot === "string" &&
+    body.canvasSnapshot.startsWith("data:image/")
+  ) {
+    lastUser.content = [
+      ...toParts(lastUser.content),
+      { type: "text", text: "Current canvas:" },
+      { type: "image_url", image_url: { url: body.canvasSnapshot } },
+    ];
+    systemContent += `\n\n${SNAPSHOT_PROMPT}`;
+  }
+
+  // Fold turns into the running summary. When the model cannot be asked the
+  // turns are only dropped, and the reason goes back to the client.
+  const summarizeHistory = async (
+    previous: string | undefined,
+    messages: ChatMessage[],
+    budget: number,
+  ): Promise<{ text: string } | { error: string }> => {
+    const { url, headers, body: payload } = adapter.buildRequest(
+      { baseUrl, apiKey },
+      {
+        model,
+        messages: [
+          { role: "system", content: SUMMARY_SYSTEM_PROMPT },
+          { role: "user", content: buildSummaryPrompt(previous, formatTranscript(messages, budget)) },
+        ],
+        temperature: 0.2,
+        maxTokens: 1024,
+        stream: false,
+      },
+    );
+    const summaryController = new AbortController();
+    const timeout = setTimeout(() => summaryController.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        signal: summaryController.signal,
+        body: JSON.stringify(payload),
       });
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        return { error: `LLM server error while summarizing: ${response.status} ${text.slice(0, 200)}` };
+      }
+      const completion = await readCompletion(adapter, response);
+      const text = completion.text.trim();
+      return text ? { text } : { error: "The summary came back empty" };
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        return { error: "Summarizing older messages timed out" };
+      }
+      return { error: `Summarizing older messages failed: ${err instanceof Error ? err.message : String(err)}` };
+    } finally {
+      clearTimeout(timeout);
     }
+  };
+
+  // The budget follows the model's context length from the capability check.
+  // Older turns that do not fit are summarized, and the new summary goes
+  // back to the client with the response.
+  const contextLength =
+    capabilities?.contextLength ?? (Number(process.env.LLM_CONTEXT_TOKENS) || DEFAULT_CONTEXT_TOKENS);
+  const budget = historyBudget(contextLength, estimateTokens(systemContent));
+  let summary =
+    typeof body.historySummary === "string" && body.historySummary.trim() ? body.historySummary : undefined;
+  const { kept, fold } = planHistory(history, summary, budget);
+  let newSummary: HistorySummary | undefined;
+  let summaryError: string | undefined;
+  if (fold.length > 0) {
+    const folded = await summarizeHistory(summary, fold, budget);
+    if ("text" in folded) {
+      summary = folded.text;
+      newSummary = { text: folded.text, covers: fold.length };
+    } else {
+      summaryError = folded.error;
+    }
+  }
+  if (summary || kept.length > 1) {
+    systemContent += `\n\n${buildHistoryPrompt(summary)}`;
   }
+  llmMessages.push({ role: "system", content: systemContent }, ...kept);
 
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  // Arrows in the response may bind to shapes that are already on the canvas
+  const validateOptions = {
+    existingIds: Array.isArray(body.canvasElementIds) ? body.canvasElementIds : [],
+  };
 
-  try {
-    const headers: Record<string, string> = { "Content-Type": "application/json" };
-    if (apiKey) {
-      headers["Authorization"] = `Bearer ${apiKey}`;
+  // New diagrams go to the right of existing content instead of on top of it
+  const diagramOrigin = (action: DiagramAction) => {
+    const bounds = body.canvasBounds;
+    if (bounds && action === "add") return { x: bounds.maxX + 200, y: bounds.minY };
+    if (bounds && action === "modify") return { x: bounds.minX, y: bounds.minY };
+    return { x: 0, y: 0 };
+  };
+
+  // In graph mode the model's nodes/edges are laid out here, and a
+  // specialist's JSON by its own layout; both are then checked by the same
+  // validator as skeleton output
+  const parseResponse = (content: string): OperationValidationResult => {
+    if (outputMode !== "graph") return parseOperation(content, validateOptions);
+
+    let built: OperationValidationResult;
+    if (specialist) {
+      const json = parseLLMJson(content);
+      if (!json.ok) {
+        return { ok: false, error: `Invalid JSON: ${json.error}`, report: { fixed: [], dropped: [] } };
+      }
+      built = specialist.build(json.value, {
+        origin: diagramOrigin,
+        canvas: {
+          ids: validateOptions.existingIds,
+          placed: isPlacedGraph(body.canvasGraph) ? body.canvasGraph : undefined,
+        },
+      });
+    } else {
+      const parsed = parseGraphResponse(content);
+      if (!parsed.ok) return parsed;
+      const { action, layout, graph } = parsed.response;
+      const direction =
+        body.graphLayout && body.graphLayout !== "auto" ? body.graphLayout : layout;
+      // A modified graph keeps its shapes where they are on the canvas
+      const placed = action === "modify" && isPlacedGraph(body.canvasGraph) ? body.canvasGraph : undefined;
+      built = {
+        ok: true,
+        response: { action, elements: layoutGraph(graph, { direction, origin: diagramOrigin(action), placed }) },
+        report: parsed.report,
+      };
     }
+    if (!built.ok) return built;
 
-    const response = await fetch(`${baseUrl}/chat/completions`, {
+    const validation = validateDiagramResponse(built.response, validateOptions);
+    const report = {
+      fixed: [...built.report.fixed, ...validation.report.fixed],
+      dropped: [...built.report.dropped, ...validation.report.dropped],
+    };
+    return { ...validation, report };
+  };
+
+  // Every mode reduces to a list of operations; the JSON modes yield one
+  const parseCompletion = (completion: Completion): OperationsResult => {
+    if (outputMode === "tools") {
+      // Servers that ignore the tools may still answer in the JSON format
+      if (completion.toolCalls.length === 0 && completion.text.trim()) {
+        const fallback = parseOperation(completion.text, validateOptions);
+        if (fallback.ok) {
+          return { ok: true, operations: [fallback.response], report: fallback.report };
+        }
+      }
+      return validateToolCalls(completion.toolCalls, validateOptions);
+    }
+    const validation = parseResponse(completion.text);
+    return validation.ok
+      ? { ok: true, operations: [validation.response], report: validation.report }
+      : validation;
+  };
+
+  // The JSON modes keep sending a single {action, elements} result
+  const resultPayload = (operations: DiagramOperation[]) =>
+    outputMode === "tools" ? { operations } : { result: operations[0] };
+
+  const controller = new AbortController();
+
+  // Each request gets timeoutMs until its body has been read in full, not
+  // only until the headers arrive; readers clear it when they are done
+  let requestTimeout: ReturnType<typeof setTimeout> | undefined;
+  const clearRequestTimeout = () => clearTimeout(requestTimeout);
+
+  const requestCompletion = async (messages: ChatMessage[]) => {
+    const { url, headers, body: payload } = adapter.buildRequest(
+      { baseUrl, apiKey },
+      {
+        model,
+        messages,
+        json: strategy.json === "object",
+        jsonSchema: strategy.json === "schema" ? { name: "diagram_operation", schema: OPERATION_SCHEMA } : undefined,
+        tools: outputMode === "tools" ? DIAGRAM_TOOLS : undefined,
+        temperature: 0.3,
+        stream: strategy.stream,
+      },
+    );
+    clearRequestTimeout();
+    requestTimeout = setTimeout(() => controller.abort(), timeoutMs);
+    return fetch(url, {
       method: "POST",
       headers,
       signal: controller.signal,
-      body: JSON.stringify({
-        model,
-        messages: llmMessages,
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-        stream: true,
-      }),
+      body: JSON.stringify(payload),
     });
+  };
+
+  // Send the broken output back with the exact error and ask for a fix,
+  // until it validates or the attempts run out
+  const repairUntilValid = async (
+    initial: Completion,
+    onAttempt: (attempt: RepairAttempt) => void,
+    onToken?: (token: string) => void,
+    onToolCall?: (call: { index: number; name: string }) => void,
+  ): Promise<{ completion: Completion; validation: OperationsResult; repairs: RepairAttempt[] }> => {
+    let completion = initial;
+    let validation = parseCompletion(completion);
+    const repairs: RepairAttempt[] = [];
+
+    while (!validation.ok && repairs.length < maxRepairAttempts) {
+      const attempt: RepairAttempt = {
+        attempt: repairs.length + 1,
+        maxAttempts: maxRepairAttempts,
+        error: validation.error,
+      };
+      repairs.push(attempt);
+      onAttempt(attempt);
+
+      const previous =
+        outputMode === "tools"
+          ? [completion.text, describeToolCalls(completion.toolCalls)].filter(Boolean).join("\n")
+          : completion.text;
+      const response = await requestCompletion([
+        ...llmMessages,
+        { role: "assistant", content: previous },
+        {
+          role: "user",
+          content:
+            outputMode === "tools"
+              ? buildToolRepairPrompt(validation.error)
+              : buildRepairPrompt(validation.error),
+        },
+      ]);
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new LLMServerError(`LLM server error during repair: ${response.status}`, text.slice(0, 500));
+      }
+      completion = await readCompletion(adapter, response, onToken, onToolCall);
+      validation = parseCompletion(completion);
+    }
+
+    return { completion, validation, repairs };
+  };
+
+  try {
+    const response = await requestCompletion(llmMessages);
 
     if (!response.ok) {
       const text = await response.text();
+      clearRequestTimeout();
       return new Response(
         JSON.stringify({
           error: `LLM server error: ${response.status}`,
@@ -93,23 +448,40 @@ export async function POST(req: NextRequest) {
     }
 
     // If the LLM doesn't support streaming, fall back to non-streaming
-    const contentType = response.headers.get("content-type") || "";
-    if (
-      !contentType.includes("text/event-stream") &&
-      !contentType.includes("text/plain") &&
-      contentType.includes("application/json")
-    ) {
+    if (!isStreamingResponse(response)) {
       // Non-streaming response
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-      if (!content) {
+      const initial = await readCompletion(adapter, response);
+      if (!initial.text && initial.toolCalls.length === 0) {
+        clearRequestTimeout();
         return new Response(
           JSON.stringify({ error: "No content in LLM response" }),
           { status: 502, headers: { "Content-Type": "application/json" } },
         );
       }
+      const { completion, validation, repairs } = await repairUntilValid(initial, () => {});
+      clearRequestTimeout();
+      if (!validation.ok) {
+        return new Response(
+          JSON.stringify({
+            error: validation.error,
+            report: validation.report,
+            repairs,
+            summary: newSummary,
+            summaryError,
+          }),
+          { status: 422, headers: { "Content-Type": "application/json" } },
+        );
+      }
       return new Response(
-        JSON.stringify({ content, done: true }),
+        JSON.stringify({
+          content: completion.text,
+          ...resultPayload(validation.operations),
+          report: validation.report,
+          repairs,
+          summary: newSummary,
+          summaryError,
+          done: true,
+        }),
         { status: 200, headers: { "Content-Type": "application/json" } },
       );
     }
@@ -118,68 +490,53 @@ export async function POST(req: NextRequest) {
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(streamController) {
-        const reader = response.body?.getReader();
-        if (!reader) {
+        const send = (data: unknown) => {
           streamController.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({ error: "No response body" })}\n\n`,
-            ),
+            encoder.encode(`data: ${JSON.stringify(data)}\n\n`),
           );
+        };
+
+        if (newSummary) send({ summary: newSummary });
+        if (summaryError) send({ summaryError });
+
+        if (!response.body) {
+          clearRequestTimeout();
+          send({ error: "No response body" });
           streamController.close();
           return;
         }
 
-        const decoder = new TextDecoder();
-        let buffer = "";
-
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (const line of lines) {
-              const trimmed = line.trim();
-              if (!trimmed || !trimmed.startsWith("data: ")) continue;
-
-              const payload = trimmed.slice(6);
-              if (payload === "[DONE]") {
-                streamController.enqueue(encoder.encode("data: [DONE]\n\n"));
-                continue;
-              }
-
-              try {
-                const chunk = JSON.parse(payload);
-                const delta = chunk.choices?.[0]?.delta?.content;
-                if (delta) {
-                  streamController.enqueue(
-                    encoder.encode(
-                      `data: ${JSON.stringify({ token: delta })}\n\n`,
-                    ),
-                  );
-                }
-              } catch {
-                // Skip malformed chunks
-              }
-            }
-          }
+          const onToken = (token: string) => send({ token });
+          const onToolCall = (call: { index: number; name: string }) => send({ toolCall: call });
+          const initial = await readCompletion(adapter, response, onToken, onToolCall);
+
+          // Validate the complete output before the client renders anything;
+          // each repair attempt restarts the client's token buffer
+          const { validation } = await repairUntilValid(
+            initial,
+            (attempt) => send({ repair: attempt }),
+            onToken,
+            onToolCall,
+          );
+          send(
+            validation.ok
+              ? { ...resultPayload(validation.operations), report: validation.report }
+              : { error: validation.error, report: validation.report },
+          );
+          streamController.enqueue(encoder.encode("data: [DONE]\n\n"));
         } catch (err) {
           if (
             err instanceof DOMException &&
             err.name === "AbortError"
           ) {
-            streamController.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({ error: "Request aborted" })}\n\n`,
-              ),
-            );
+            send({ error: "LLM request timed out" });
+          } else {
+            send({ error: err instanceof Error ? err.message : String(err) });
           }
         } finally {
+          clearRequestTimeout();
           streamController.close();
-          reader.releaseLock();
         }
       },
     });
@@ -192,12 +549,19 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (err) {
+    clearRequestTimeout();
     if (err instanceof DOMException && err.name === "AbortError") {
       return new Response(
         JSON.stringify({ error: "LLM request timed out" }),
         { status: 504, headers: { "Content-Type": "application/json" } },
       );
     }
+    if (err instanceof LLMServerError) {
+      return new Response(
+        JSON.stringify({ error: err.message, detail: err.detail, summary: newSummary, summaryError }),
+        { status: 502, headers: { "Content-Type": "application/json" } },
+      );
+    }
     return new Response(
       JSON.stringify({
         error: "Failed to reach LLM server",
@@ -205,7 +569,5 @@ export async function POST(req: NextRequest) {
       }),
       { status: 502, headers: { "Content-Type": "application/json" } },
     );
-  } finally {
-    clearTimeout(timeout);
   }
 }
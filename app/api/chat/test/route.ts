@@ -1,7 +1,10 @@
 import { NextRequest } from "next/server";
+import { probeCapabilities } from "@/lib/capabilities";
+import { getAdapter, isProviderType } from "@/lib/providers";
 
 export async function POST(req: NextRequest) {
   let body: {
+    providerType?: string;
     baseUrl?: string;
     model?: string;
     apiKey?: string;
@@ -12,48 +15,20 @@ export async function POST(req: NextRequest) {
     return Response.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
   }
 
+  const providerType = body.providerType ?? process.env.LLM_PROVIDER ?? "openai";
+  if (!isProviderType(providerType)) {
+    return Response.json({ ok: false, error: `Unknown provider type: ${providerType}` }, { status: 400 });
+  }
   const baseUrl = body.baseUrl || process.env.LLM_BASE_URL || "http://localhost:11434/v1";
   const model = body.model || process.env.LLM_MODEL || "llama3";
   const apiKey = body.apiKey || process.env.LLM_API_KEY || "";
 
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (apiKey) {
-    headers["Authorization"] = `Bearer ${apiKey}`;
-  }
-
+  // Probe what the model supports rather than only whether it answers
   try {
-    // Send a minimal request to verify the connection and model
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(`${baseUrl}/chat/completions`, {
-      method: "POST",
-      headers,
-      signal: controller.signal,
-      body: JSON.stringify({
-        model,
-        messages: [{ role: "user", content: "Hi" }],
-        max_tokens: 1,
-      }),
-    });
-
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      const text = await response.text().catch(() => "");
-      return Response.json({
-        ok: false,
-        error: `Server returned ${response.status}: ${text.slice(0, 200)}`,
-      });
-    }
-
-    return Response.json({
-      ok: true,
-      message: `Connected to ${baseUrl} with model "${model}"`,
-    });
+    return Response.json(await probeCapabilities(getAdapter(providerType), { baseUrl, apiKey }, model));
   } catch (err) {
     if (err instanceof DOMException && err.name === "AbortError") {
-      return Response.json({ ok: false, error: "Connection timed out (10s)" });
+      return Response.json({ ok: false, error: "Connection timed out" });
     }
     const msg = err instanceof Error ? err.message : String(err);
     let detail = msg;
@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import {
+  deleteStoredDrawing,
+  isDrawingId,
+  isStoredDrawing,
+  readStoredDrawing,
+  rejectUnauthorized,
+  writeStoredDrawing,
+} from "@/lib/drawing-store";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+function storeError(err: unknown) {
+  const msg = err instanceof Error ? err.message : String(err);
+  return Response.json({ ok: false, error: `Cannot access the drawing store: ${msg}` }, { status: 500 });
+}
+
+export async function GET(req: NextRequest, { params }: Context) {
+  const rejected = rejectUnauthorized(req);
+  if (rejected) return rejected;
+  const { id } = await params;
+  if (!isDrawingId(id)) {
+    return Response.json({ ok: false, error: "Invalid drawing ID" }, { status: 400 });
+  }
+  try {
+    const drawing = await readStoredDrawing(id);
+    if (!drawing) {
+      return Response.json({ ok: false, error: "Drawing not found" }, { status: 404 });
+    }
+    return Response.json({ ok: true, drawing });
+  } catch (err) {
+    return storeError(err);
+  }
+}
+
+// Create or replace a drawing; IDs are chosen by the client
+export async function PUT(req: NextRequest, { params }: Context) {
+  const rejected = rejectUnauthorized(req);
+  if (rejected) return rejected;
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!isStoredDrawing(body) || body.meta.id !== id) {
+    return Response.json({ ok: false, error: "Expected a drawing with meta, elements, files and messages" }, { status: 400 });
+  }
+  try {
+    const drawing = await writeStoredDrawing(body);
+    if (!drawing) {
+      return Response.json({ ok: false, error: "The drawing changed on the server since this copy was synced" }, { status: 409 });
+    }
+    return Response.json({ ok: true, drawing });
+  } catch (err) {
+    return storeError(err);
+  }
+}
+
+// Deleting a drawing that is not stored succeeds, so retries are harmless
+export async function DELETE(req: NextRequest, { params }: Context) {
+  const rejected = rejectUnauthorized(req);
+  if (rejected) return rejected;
+  const { id } = await params;
+  if (!isDrawingId(id)) {
+    return Response.json({ ok: false, error: "Invalid drawing ID" }, { status: 400 });
+  }
+  try {
+    await deleteStoredDrawing(id);
+    return Response.json({ ok: true });
+  } catch (err) {
+    return storeError(err);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { isDrawingId, rejectUnauthorized, shareStoredDrawing, unshareStoredDrawing } from "@/lib/drawing-store";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+// Create the read-only link of a stored drawing, or change whether it shows
+// the chat
+export async function POST(req: NextRequest, { params }: Context) {
+  const rejected = rejectUnauthorized(req);
+  if (rejected) return rejected;
+  const { id } = await params;
+  if (!isDrawingId(id)) {
+    return Response.json({ ok: false, error: "Invalid drawing ID" }, { status: 400 });
+  }
+  let body: { includeChat?: boolean };
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+  try {
+    const share = await shareStoredDrawing(id, body.includeChat === true);
+    if (!share) {
+      return Response.json({ ok: false, error: "The drawing is not stored on the server yet" }, { status: 404 });
+    }
+    return Response.json({ ok: true, share });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return Response.json({ ok: false, error: `Cannot access the drawing store: ${msg}` }, { status: 500 });
+  }
+}
+
+// Revoke the link; it stops working at once
+export async function DELETE(req: NextRequest, { params }: Context) {
+  const rejected = rejectUnauthorized(req);
+  if (rejected) return rejected;
+  const { id } = await params;
+  if (!isDrawingId(id)) {
+    return Response.json({ ok: false, error: "Invalid drawing ID" }, { status: 400 });
+  }
+  try {
+    await unshareStoredDrawing(id);
+    return Response.json({ ok: true });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return Response.json({ ok: false, error: `Cannot access the drawing store: ${msg}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from "next/server";
+import { listStoredDrawings, rejectUnauthorized } from "@/lib/drawing-store";
+
+// Metadata of every stored drawing, and the drawings deleted since
+export async function GET(req: NextRequest) {
+  const rejected = rejectUnauthorized(req);
+  if (rejected) return rejected;
+  try {
+    return Response.json({ ok: true, ...(await listStoredDrawings()) });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return Response.json({ ok: false, error: `Cannot read the drawing store: ${msg}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { fetchModels, getAdapter, isProviderType } from "@/lib/providers";
+
+export async function POST(req: NextRequest) {
+  let body: {
+    providerType?: string;
+    baseUrl?: string;
+    apiKey?: string;
+  };
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const providerType = body.providerType ?? process.env.LLM_PROVIDER ?? "openai";
+  if (!isProviderType(providerType)) {
+    return Response.json({ ok: false, error: `Unknown provider type: ${providerType}` }, { status: 400 });
+  }
+  const baseUrl = body.baseUrl || process.env.LLM_BASE_URL || "http://localhost:11434/v1";
+  const apiKey = body.apiKey || process.env.LLM_API_KEY || "";
+
+  try {
+    const models = await fetchModels(getAdapter(providerType), { baseUrl, apiKey });
+    return Response.json({ ok: true, models });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") {
+      return Response.json({ ok: false, error: "Connection timed out (10s)" });
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    let detail = msg;
+    if (msg.includes("ECONNREFUSED")) {
+      detail = `Cannot connect to ${baseUrl} — is the server running?`;
+    } else if (msg.includes("fetch failed")) {
+      detail = `Cannot reach ${baseUrl} — check the URL`;
+    }
+    return Response.json({ ok: false, error: detail });
+  }
+}
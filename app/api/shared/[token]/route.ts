@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { readSharedDrawing } from "@/lib/drawing-store";
+
+// The drawing behind a read-only link, with the chat if the link includes it
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  try {
+    const drawing = await readSharedDrawing(token);
+    if (!drawing) {
+      return Response.json({ ok: false, error: "This link does not exist or is no longer shared" }, { status: 404 });
+    }
+    return Response.json({ ok: true, drawing });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return Response.json({ ok: false, error: `Cannot access the drawing store: ${msg}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import { useParams } from "next/navigation";
+
+const SharedDrawingView = dynamic(() => import("@/components/SharedDrawingView"), {
+  ssr: false,
+  loading: () => (
+    <div className="flex h-screen items-center justify-center">Loading...</div>
+  ),
+});
+
+export default function SharedPage() {
+  const { token } = useParams<{ token: string }>();
+  return <SharedDrawingView token={token} />;
+}
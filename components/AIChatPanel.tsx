@@ -1,37 +1,133 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import type { DiagramOperation } from "@/lib/skeleton";
+import type { LayoutDirection, PlacedGraph } from "@/lib/layout";
+import { DIAGRAM_TYPES, classifyRequest, getDiagramType, type DiagramTypeId } from "@/lib/diagram-types";
+import { ElementStreamParser } from "@/lib/stream-parser";
+import { summarizeReport, validateDiagramResponse, type ValidationReport } from "@/lib/validator";
+import { IMPORTERS, findImporter, type ImportFile, type Importer } from "@/lib/importers";
+import { DEFAULT_SCHEMA_DEPTH } from "@/lib/openapi";
+import type { TypeScriptView } from "@/lib/ts-source";
+import { PROVIDER_TYPES, type ModelInfo, type ProviderType } from "@/lib/providers";
+import {
+  CAPABILITIES,
+  CAPABILITY_LABELS,
+  capabilitiesMatch,
+  type OutputMode,
+  type ProviderCapabilities,
+} from "@/lib/capabilities";
+import type { AppliedTurn, ChangeDirection, ElementChange } from "@/lib/changes";
+import { describeTurn, recordTurn, type HistorySummary, type TurnRecord } from "@/lib/history";
+import { expandSelection, scopeOperations } from "@/lib/selection";
+import { acceptItems, buildReview, type ReviewItem } from "@/lib/review";
+import { fitImage, readImageAttachment, type ImageAttachment } from "@/lib/images";
+import { loadChat, saveChat } from "@/lib/drawings";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import ExportPanel from "./ExportPanel";
 
 interface Message {
   role: "user" | "assistant" | "error";
   content: string;
   retryable?: boolean;
   originalPrompt?: string;
+  // Full-size images of a failed request, for Retry. Not persisted.
+  originalImages?: ImageAttachment[];
+  // Thumbnails of images attached to a user message
+  images?: string[];
+  // A rendered image of the canvas went with this request
+  withSnapshot?: boolean;
+  report?: ValidationReport;
+  repairs?: RepairAttempt[];
+  warnings?: string[];
+  // Number of selected elements the request was limited to
+  selectionCount?: number;
+  // Diagram-type specialist that handled the request
+  diagramType?: DiagramTypeId;
+  // Elements this response changed on the canvas, for revert / re-apply
+  changes?: ElementChange[];
+  reverted?: boolean;
+  // IDs the response added, modified and deleted, for the AI's history.
+  // Kept when the full changes are dropped to save space.
+  turn?: TurnRecord;
+  // Summary of the conversation up to and including this message, written
+  // by the AI once older turns no longer fit its context
+  summary?: string;
+  proposal?: Proposal;
+  // Suggested LLM pass after a local import (e.g. notes on the classes)
+  followUp?: string;
 }
 
-interface LLMResponse {
-  action?: "add" | "replace" | "modify";
-  elements?: unknown[];
+// A replace/modify turn held back until the user reviews it
+interface Proposal {
+  operations: DiagramOperation[];
+  items: ReviewItem[];
+  status: "pending" | "accepted" | "rejected";
+  // Notes on how the response was produced, for the final message
+  notes: string[];
+}
+
+interface RepairAttempt {
+  attempt: number;
+  maxAttempts: number;
+  error: string;
 }
 
 interface ProviderConfig {
   baseUrl: string;
   model: string;
   apiKey: string;
+  // Overrides the provider's default wire format (mainly for "Custom")
+  type?: ProviderType;
+  // Attach a rendered image of the canvas to each request
+  sendSnapshot?: boolean;
+  // Last "Check capabilities" result; only used while it matches the
+  // provider type, URL and model above
+  capabilities?: ProviderCapabilities;
 }
 
 interface LLMSettings {
   activeProvider: string;
   providers: Record<string, ProviderConfig>;
+  // How many times the server asks the model to fix invalid JSON
+  repairAttempts: number;
+  // "graph" lets the model describe nodes/edges and the server lay them out;
+  // "tools" offers the operations as function calls; "auto" picks from the
+  // checked capabilities
+  outputMode: OutputMode | "auto";
+  graphLayout: LayoutDirection | "auto";
+  // Diagram-type specialist for requests: picked from the wording ("auto"),
+  // never ("general"), or always the same one
+  diagramType: "auto" | "general" | DiagramTypeId;
+  // Hold replace/modify turns for review instead of applying them at once
+  reviewChanges: boolean;
+  // Canvas snapshot limits: longest side in pixels, and encoded size
+  snapshotSize: number;
+  snapshotMaxKB: number;
+  // OpenAPI import: schema references followed from an endpoint before
+  // further schemas are collapsed
+  openApiDepth: number;
+  // TypeScript import: class diagram, module graph, or classes when found
+  typescriptView: TypeScriptView;
+}
+
+interface CanvasBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
 }
 
-const PROVIDERS: Record<string, { label: string; defaultUrl: string; defaultModel: string }> = {
-  "ollama": { label: "Ollama", defaultUrl: "http://localhost:11434/v1", defaultModel: "llama3" },
-  "llama-cpp": { label: "llama.cpp", defaultUrl: "http://localhost:8080/v1", defaultModel: "default" },
-  "lm-studio": { label: "LM Studio", defaultUrl: "http://localhost:1234/v1", defaultModel: "default" },
-  "openai": { label: "OpenAI", defaultUrl: "https://api.openai.com/v1", defaultModel: "gpt-4o" },
-  "anthropic-openai": { label: "Anthropic (OpenAI互換)", defaultUrl: "https://api.anthropic.com/v1", defaultModel: "claude-sonnet-4-20250514" },
-  "custom": { label: "Custom", defaultUrl: "http://localhost:8080/v1", defaultModel: "" },
+// vision: the default model accepts images, so canvas snapshots start enabled
+const PROVIDERS: Record<string, { label: string; type: ProviderType; defaultUrl: string; defaultModel: string; vision: boolean }> = {
+  "ollama": { label: "Ollama", type: "ollama", defaultUrl: "http://localhost:11434", defaultModel: "llama3", vision: false },
+  "llama-cpp": { label: "llama.cpp", type: "openai", defaultUrl: "http://localhost:8080/v1", defaultModel: "default", vision: false },
+  "lm-studio": { label: "LM Studio", type: "openai", defaultUrl: "http://localhost:1234/v1", defaultModel: "default", vision: false },
+  "openai": { label: "OpenAI", type: "openai", defaultUrl: "https://api.openai.com/v1", defaultModel: "gpt-4o", vision: true },
+  "anthropic": { label: "Anthropic", type: "anthropic", defaultUrl: "https://api.anthropic.com/v1", defaultModel: "claude-sonnet-4-20250514", vision: true },
+  "anthropic-openai": { label: "Anthropic (OpenAI互換)", type: "openai", defaultUrl: "https://api.anthropic.com/v1", defaultModel: "claude-sonnet-4-20250514", vision: true },
+  "gemini": { label: "Google Gemini", type: "gemini", defaultUrl: "https://generativelanguage.googleapis.com/v1beta", defaultModel: "gemini-2.5-flash", vision: true },
+  "custom": { label: "Custom", type: "openai", defaultUrl: "http://localhost:8080/v1", defaultModel: "", vision: false },
 };
 
 function getProviderConfig(settings: LLMSettings): ProviderConfig {
@@ -39,6 +135,46 @@ function getProviderConfig(settings: LLMSettings): ProviderConfig {
   return settings.providers[key] || getDefaultProviderConfig(key);
 }
 
+function getProviderType(settings: LLMSettings): ProviderType {
+  const config = getProviderConfig(settings);
+  return config.type ?? PROVIDERS[settings.activeProvider]?.type ?? "openai";
+}
+
+// Capability results for the current provider type, URL and model, if any
+function getCapabilities(settings: LLMSettings): ProviderCapabilities | undefined {
+  const config = getProviderConfig(settings);
+  return capabilitiesMatch(config.capabilities, getProviderType(settings), config.baseUrl, config.model)
+    ? config.capabilities
+    : undefined;
+}
+
+function getSendSnapshot(settings: LLMSettings): boolean {
+  return (
+    getProviderConfig(settings).sendSnapshot ??
+    getCapabilities(settings)?.supports.images ??
+    PROVIDERS[settings.activeProvider]?.vision ??
+    false
+  );
+}
+
+// "8B Q4_K_M · 4.7 GB · 128K ctx" for the model picker
+function describeModel(model: ModelInfo): string {
+  const parts: string[] = [];
+  if (model.label) parts.push(model.label);
+  if (model.details) parts.push(model.details);
+  if (model.size) parts.push(`${(model.size / 1e9).toFixed(1)} GB`);
+  if (model.contextLength) {
+    const n = model.contextLength;
+    parts.push(n >= 1048576 ? `${+(n / 1048576).toFixed(1)}M ctx` : `${Math.round(n / 1024)}K ctx`);
+  }
+  return parts.join(" · ");
+}
+
+// Ollama serves "llama3" as "llama3:latest"
+function findModel(models: ModelInfo[], name: string): ModelInfo | undefined {
+  return models.find((m) => m.id === name || m.id === `${name}:latest`);
+}
+
 function getDefaultProviderConfig(providerKey: string): ProviderConfig {
   const p = PROVIDERS[providerKey] || PROVIDERS.ollama;
   return { baseUrl: p.defaultUrl, model: p.defaultModel, apiKey: "" };
@@ -46,6 +182,15 @@ function getDefaultProviderConfig(providerKey: string): ProviderConfig {
 
 const DEFAULT_SETTINGS: LLMSettings = {
   activeProvider: "ollama",
+  repairAttempts: 2,
+  outputMode: "auto",
+  graphLayout: "auto",
+  diagramType: "auto",
+  reviewChanges: true,
+  snapshotSize: 1024,
+  snapshotMaxKB: 400,
+  openApiDepth: DEFAULT_SCHEMA_DEPTH,
+  typescriptView: "auto",
   providers: Object.fromEntries(
     Object.entries(PROVIDERS).map(([key, p]) => [
       key,
@@ -55,12 +200,89 @@ const DEFAULT_SETTINGS: LLMSettings = {
 };
 
 interface Props {
-  onElementsGenerated: (elements: unknown[], action: string) => void;
-  getCanvasContext?: () => string;
+  // Applies a turn; with a scope, changes outside it are skipped
+  onElementsGenerated: (operations: DiagramOperation[], scope?: string[]) => AppliedTurn;
+  onApplyChanges?: (
+    changes: ElementChange[],
+    direction: ChangeDirection,
+  ) => { changes: ElementChange[]; conflicts: string[] };
+  // Shows a proposed turn on the canvas without applying it; null clears it
+  onProposalPreview?: (operations: DiagramOperation[] | null) => void;
+  onElementsPreview?: (elements: unknown[]) => void;
+  onPreviewCancel?: () => void;
+  getCanvasContext?: (scope?: string[]) => string;
+  getCanvasElementIds?: () => string[];
+  // Rendered PNG of the canvas, or of the scope when one is given
+  getCanvasSnapshot?: (scope: string[], maxSize: number) => Promise<Blob | null>;
+  getCanvasBounds?: () => CanvasBounds | null;
+  getCanvasGraph?: () => PlacedGraph;
+  getSceneElements?: () => readonly ExcalidrawElement[];
   onClearCanvas?: () => void;
+  // Elements currently selected on the canvas
+  selectedIds?: string[];
+  // Drawing whose chat thread is shown; the panel is remounted per drawing
+  drawingId: string;
 }
 
-const STORAGE_KEY = "excalidraft-chat-history";
+const ACTION_LABELS: Record<string, string> = {
+  add: "Added",
+  replace: "Replaced canvas with",
+  modify: "Modified",
+  delete: "Deleted",
+  restyle: "Restyled",
+};
+
+// "Added 4 elements, deleted 1 element (...)"
+function describeOperations(operations: DiagramOperation[]): string {
+  return operations
+    .map((op, i) => {
+      const label = ACTION_LABELS[op.action] || "Generated";
+      const count = "ids" in op ? op.ids.length : op.elements.length;
+      let text = `${i === 0 ? label : label.toLowerCase()} ${count} element${count === 1 ? "" : "s"}`;
+      if (op.action === "delete") text += " (with their labels and connected arrows)";
+      if (op.action === "restyle") text += ` (${Object.keys(op.style).join(", ")})`;
+      return text;
+    })
+    .join(", ");
+}
+
+function formatFieldValue(value: string | number | undefined): string {
+  if (value === undefined || value === "") return "none";
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+// Conversation for the API: the messages after the latest summary, with
+// each AI turn numbered and followed by the IDs it changed. `indices` maps
+// each entry back to `messages`, so a new summary can be stored on the last
+// message it covers.
+function buildHistory(messages: Message[]): {
+  entries: { role: "user" | "assistant"; content: string }[];
+  indices: number[];
+  summary?: string;
+} {
+  const start = messages.findLastIndex((m) => m.summary);
+  const entries: { role: "user" | "assistant"; content: string }[] = [];
+  const indices: number[] = [];
+  let turn = 0;
+  messages.forEach((m, i) => {
+    if (m.role === "assistant") turn++;
+    if (i <= start || m.role === "error") return;
+    let content = m.images
+      ? `${m.content}\n(${m.images.length} image${m.images.length === 1 ? "" : "s"} attached)`
+      : m.content;
+    if (m.role === "assistant") {
+      const record = m.turn ? describeTurn(m.turn, m.reverted) : "";
+      content = `Turn ${turn}: ${content}${record ? `\n${record}` : ""}`;
+    }
+    entries.push({ role: m.role, content });
+    indices.push(i);
+  });
+  return { entries, indices, summary: start >= 0 ? messages[start].summary : undefined };
+}
+
+// Sent when an image is attached without any text
+const DEFAULT_IMAGE_PROMPT = "Recreate this diagram as editable elements.";
+
 const SETTINGS_STORAGE_KEY = "excalidraft-llm-settings";
 
 const EXAMPLE_PROMPTS = [
@@ -72,34 +294,80 @@ const EXAMPLE_PROMPTS = [
 
 export default function AIChatPanel({
   onElementsGenerated,
+  onApplyChanges,
+  onProposalPreview,
+  onElementsPreview,
+  onPreviewCancel,
   getCanvasContext,
+  getCanvasElementIds,
+  getCanvasSnapshot,
+  getCanvasBounds,
+  getCanvasGraph,
+  getSceneElements,
   onClearCanvas,
+  selectedIds = [],
+  drawingId,
 }: Props) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
+  const [repairs, setRepairs] = useState<RepairAttempt[]>([]);
+  const [previewCount, setPreviewCount] = useState(0);
+  // Tools the model has started calling in the current response
+  const [toolCalls, setToolCalls] = useState<string[]>([]);
+  // Whether imported diagrams are added to or replace the canvas
+  const [importAction, setImportAction] = useState<"add" | "replace">("add");
+  // Send text a local importer recognizes to the AI, e.g. code to explain
+  const [bypassImporter, setBypassImporter] = useState(false);
+  // Limit requests to the selected elements while something is selected
+  const [scopeToSelection, setScopeToSelection] = useState(true);
+  // Images attached to the next message
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [dragging, setDragging] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [settings, setSettings] = useState<LLMSettings>(DEFAULT_SETTINGS);
   const [testStatus, setTestStatus] = useState<"idle" | "testing" | "ok" | "error">("idle");
   const [testMessage, setTestMessage] = useState("");
+  // Models offered by the active provider, for the picker in the settings
+  const [models, setModels] = useState<{
+    status: "idle" | "loading" | "ok" | "error";
+    list: ModelInfo[];
+    error?: string;
+  }>({ status: "idle", list: [] });
+  const [modelsReload, setModelsReload] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // New requests wait until a proposed change has been accepted or rejected
+  const pendingProposal = messages.some((m) => m.proposal?.status === "pending");
 
-  // Restore chat history and settings from localStorage on mount
+  // The drawing's chat thread; nothing is saved until it has been read
+  const chatLoadedRef = useRef(false);
+  useEffect(() => {
+    let cancelled = false;
+    loadChat(drawingId)
+      .then((saved) => {
+        // Messages sent before the thread was read stay after it
+        if (!cancelled) setMessages((prev) => [...(saved as Message[]), ...prev]);
+      })
+      .catch(() => {
+        // Start with an empty thread
+      })
+      .finally(() => {
+        chatLoadedRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+      // Keep a response meant for this drawing from landing on the next one
+      abortControllerRef.current?.abort();
+    };
+  }, [drawingId]);
+
+  // Restore settings from localStorage on mount
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          setMessages(parsed);
-        }
-      }
-    } catch {
-      // Ignore corrupt data
-    }
     try {
       const savedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
       if (savedSettings) {
@@ -109,6 +377,15 @@ export default function AIChatPanel({
           setSettings({
             activeProvider: parsed.activeProvider || "ollama",
             providers: { ...DEFAULT_SETTINGS.providers, ...parsed.providers },
+            repairAttempts: parsed.repairAttempts ?? DEFAULT_SETTINGS.repairAttempts,
+            outputMode: parsed.outputMode ?? DEFAULT_SETTINGS.outputMode,
+            graphLayout: parsed.graphLayout ?? DEFAULT_SETTINGS.graphLayout,
+            diagramType: parsed.diagramType ?? DEFAULT_SETTINGS.diagramType,
+            reviewChanges: parsed.reviewChanges ?? DEFAULT_SETTINGS.reviewChanges,
+            snapshotSize: parsed.snapshotSize ?? DEFAULT_SETTINGS.snapshotSize,
+            snapshotMaxKB: parsed.snapshotMaxKB ?? DEFAULT_SETTINGS.snapshotMaxKB,
+            openApiDepth: parsed.openApiDepth ?? DEFAULT_SETTINGS.openApiDepth,
+            typescriptView: parsed.typescriptView ?? DEFAULT_SETTINGS.typescriptView,
           });
         } else if (parsed.provider) {
           // Old format migration
@@ -128,16 +405,15 @@ export default function AIChatPanel({
     }
   }, []);
 
-  // Save chat history to localStorage whenever messages change
+  // Save the chat thread with the drawing whenever messages change
   useEffect(() => {
-    if (messages.length > 0) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
-      } catch {
-        // Ignore storage errors
-      }
-    }
-  }, [messages]);
+    if (!chatLoadedRef.current || messages.length === 0) return;
+    // Only thumbnails of attached images are kept
+    const stored = messages.map((m) => (m.originalImages ? { ...m, originalImages: undefined } : m));
+    saveChat(drawingId, stored).catch(() => {
+      // The thread stays in memory; the next change tries again
+    });
+  }, [messages, drawingId]);
 
   const scrollToBottom = useCallback(() => {
     setTimeout(() => {
@@ -145,6 +421,37 @@ export default function AIChatPanel({
     }, 50);
   }, []);
 
+  // Load the model list while the settings are open; edits to the URL or
+  // key wait for a pause in typing
+  const modelSource = showSettings
+    ? JSON.stringify([getProviderType(settings), getProviderConfig(settings).baseUrl, getProviderConfig(settings).apiKey])
+    : null;
+  useEffect(() => {
+    if (!modelSource) return;
+    const [providerType, baseUrl, apiKey] = JSON.parse(modelSource) as [string, string, string];
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setModels({ status: "loading", list: [] });
+      try {
+        const res = await fetch("/api/models", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          signal: controller.signal,
+          body: JSON.stringify({ providerType, baseUrl, apiKey: apiKey || undefined }),
+        });
+        const data = await res.json();
+        setModels(data.ok ? { status: "ok", list: data.models } : { status: "error", list: [], error: data.error });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setModels({ status: "error", list: [], error: err instanceof Error ? err.message : "Request failed" });
+      }
+    }, 500);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [modelSource, modelsReload]);
+
   const cancelRequest = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -152,30 +459,220 @@ export default function AIChatPanel({
     }
   }, []);
 
+  // Convert pasted text or opened files with a local importer and apply the
+  // result like an AI response
+  const importText = useCallback(
+    (source: string | ImportFile[], importer: Importer) => {
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: "user",
+          content: typeof source === "string" ? source : `Imported ${source.map((f) => f.name).join(", ")}`,
+        },
+      ]);
+      setInput("");
+
+      const options = { schemaDepth: settings.openApiDepth, typescriptView: settings.typescriptView };
+      const result =
+        typeof source === "string"
+          ? importer.run(source, options)
+          : importer.runFiles
+            ? importer.runFiles(source, options)
+            : importer.run(source[0].text, options);
+      const validation = result.ok
+        ? validateDiagramResponse({ action: importAction, elements: result.elements })
+        : null;
+      if (!result.ok || !validation?.ok) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            role: "error",
+            content: `${importer.label} import failed: ${
+              !result.ok ? result.error : validation && !validation.ok ? validation.error : ""
+            }`,
+          },
+        ]);
+        scrollToBottom();
+        return;
+      }
+
+      const { action } = validation.response;
+      const { changes } = onElementsGenerated([validation.response]);
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: "assistant",
+          content: `${action === "replace" ? "Replaced canvas with" : "Imported"} ${result.summary}.`,
+          warnings: result.warnings.length > 0 ? result.warnings : undefined,
+          changes: changes.length > 0 ? changes : undefined,
+          turn: changes.length > 0 ? recordTurn(changes) : undefined,
+          followUp: result.followUp,
+        },
+      ]);
+      scrollToBottom();
+    },
+    [importAction, onElementsGenerated, scrollToBottom, settings.openApiDepth, settings.typescriptView],
+  );
+
+  const processOperations = useCallback(
+    (
+      requested: DiagramOperation[],
+      report: ValidationReport,
+      repairs: RepairAttempt[],
+      scope: string[] = [],
+    ) => {
+      const summary = summarizeReport(report);
+      const notes: string[] = [];
+      if (repairs.length > 0) {
+        notes.push(`after ${repairs.length} repair attempt${repairs.length === 1 ? "" : "s"}`);
+      }
+      if (summary) notes.push(`auto-repair: ${summary}`);
+      const blockedNote = (blocked: string[]) =>
+        `skipped ${blocked.length} element${blocked.length === 1 ? "" : "s"} outside the selection`;
+      const blockedWarnings = (blocked: string[]) =>
+        blocked.length > 0
+          ? blocked.map((id) => `Not changed, outside the selection: ${id}`)
+          : undefined;
+
+      // Turns that rewrite existing elements wait for the user's review
+      const scene = getSceneElements?.() ?? [];
+      if (
+        settings.reviewChanges &&
+        getSceneElements &&
+        requested.some((op) => op.action === "replace" || op.action === "modify")
+      ) {
+        const scoped =
+          scope.length > 0
+            ? scopeOperations(
+                requested,
+                expandSelection(scene, scope),
+                new Set(scene.filter((el) => !el.isDeleted).map((el) => el.id)),
+              )
+            : { operations: requested, blocked: [] };
+        const items = buildReview(scoped.operations, scene);
+        if (items.length > 0) {
+          onProposalPreview?.(scoped.operations);
+          if (scoped.blocked.length > 0) notes.push(blockedNote(scoped.blocked));
+          setMessages((prev) => [
+            ...prev,
+            {
+              role: "assistant",
+              content: `Proposed: ${describeOperations(scoped.operations)}. Review the changes before they are applied.`,
+              report: summary ? report : undefined,
+              repairs: repairs.length > 0 ? repairs : undefined,
+              warnings: blockedWarnings(scoped.blocked),
+              proposal: { operations: scoped.operations, items, status: "pending", notes },
+            },
+          ]);
+          return;
+        }
+      }
+
+      const { operations, blocked, changes } = onElementsGenerated(requested, scope);
+      if (blocked.length > 0) notes.push(blockedNote(blocked));
+      const described = describeOperations(operations);
+
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: "assistant",
+          content: `${described ? `${described} on the canvas.` : "Nothing changed inside the selection."}${notes.length > 0 ? ` (${notes.join("; ")})` : ""}`,
+          report: summary ? report : undefined,
+          repairs: repairs.length > 0 ? repairs : undefined,
+          warnings: blockedWarnings(blocked),
+          changes: changes.length > 0 ? changes : undefined,
+          turn: changes.length > 0 ? recordTurn(changes) : undefined,
+        },
+      ]);
+    },
+    [onElementsGenerated, onProposalPreview, getSceneElements, settings.reviewChanges],
+  );
+
   const sendMessage = useCallback(
-    async (prompt: string) => {
-      if (!prompt.trim() || loading) return;
+    async (text: string, images: ImageAttachment[] = []) => {
+      if ((!text.trim() && images.length === 0) || loading || pendingProposal) return;
+      const prompt = text.trim() ? text : DEFAULT_IMAGE_PROMPT;
+      const originalImages = images.length > 0 ? images : undefined;
+
+      // Formats with a local importer do not reach the LLM unless the user
+      // chose to send the text to the AI instead
+      const importer = images.length === 0 && !bypassImporter ? findImporter(prompt) : null;
+      if (importer) {
+        importText(prompt, importer);
+        return;
+      }
+      setBypassImporter(false);
 
       // Cancel any in-flight request
       cancelRequest();
 
-      const userMessage: Message = { role: "user", content: prompt };
+      const scope = scopeToSelection ? selectedIds : [];
+      const specialist =
+        settings.diagramType === "auto"
+          ? classifyRequest(prompt)
+          : settings.diagramType === "general"
+            ? undefined
+            : getDiagramType(settings.diagramType);
+      const userMessage: Message = {
+        role: "user",
+        content: prompt,
+        selectionCount: scope.length > 0 ? scope.length : undefined,
+        diagramType: specialist?.id,
+        images: originalImages?.map((image) => image.thumbnail),
+      };
       setMessages((prev) => [...prev, userMessage]);
       setInput("");
+      setAttachments([]);
       setLoading(true);
       setStreamingContent("");
+      setRepairs([]);
+      setPreviewCount(0);
+      setToolCalls([]);
       scrollToBottom();
 
       const controller = new AbortController();
       abortControllerRef.current = controller;
 
-      // Build conversation history for the API
-      const apiMessages = [...messages, userMessage]
-        .filter((m) => m.role === "user" || m.role === "assistant")
-        .map((m) => ({ role: m.role, content: m.content }));
+      // Build conversation history for the API. Only this request carries
+      // image parts; earlier images are mentioned in the text.
+      const history = buildHistory(messages);
+      const apiMessages = [
+        ...history.entries,
+        {
+          role: "user",
+          content: originalImages
+            ? [
+                { type: "text", text: prompt },
+                ...originalImages.map((image) => ({ type: "image_url", image_url: { url: image.url } })),
+              ]
+            : prompt,
+        },
+      ];
 
       // Get canvas context
-      const canvasContext = getCanvasContext?.() || undefined;
+      const canvasContext = getCanvasContext?.(scope) || undefined;
+      const canvasElementIds = getCanvasElementIds?.();
+      const canvasBounds = getCanvasBounds?.() ?? null;
+      const canvasGraph = getCanvasGraph?.();
+
+      // What the canvas looks like, for vision models
+      let canvasSnapshot: string | undefined;
+      if (getSendSnapshot(settings) && getCanvasSnapshot) {
+        try {
+          const blob = await getCanvasSnapshot(scope, settings.snapshotSize);
+          if (blob) {
+            canvasSnapshot =
+              (await fitImage(blob, settings.snapshotSize, settings.snapshotMaxKB * 1024)) ?? undefined;
+          }
+        } catch {
+          // The text context still describes the canvas
+        }
+        if (canvasSnapshot) {
+          setMessages((prev) =>
+            prev.map((m) => (m === userMessage ? { ...m, withSnapshot: true } : m)),
+          );
+        }
+      }
 
       try {
         const res = await fetch("/api/chat", {
@@ -183,20 +680,53 @@ export default function AIChatPanel({
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             messages: apiMessages,
+            historySummary: history.summary,
             canvasContext,
+            canvasElementIds,
+            canvasBounds,
+            canvasGraph,
+            selectedIds: scope.length > 0 ? scope : undefined,
+            canvasSnapshot,
+            outputMode: settings.outputMode,
+            graphLayout: settings.graphLayout,
+            diagramType: specialist?.id,
+            capabilities: getCapabilities(settings),
             llmSettings: {
+              providerType: getProviderType(settings),
               baseUrl: getProviderConfig(settings).baseUrl,
               model: getProviderConfig(settings).model,
               apiKey: getProviderConfig(settings).apiKey || undefined,
+              repairAttempts: settings.repairAttempts,
             },
           }),
           signal: controller.signal,
         });
 
+        // The server summarized the oldest messages it was sent; later
+        // requests start after the last one covered
+        const storeSummary = (summary: HistorySummary) => {
+          const index = history.indices[summary.covers - 1];
+          if (index === undefined) return;
+          setMessages((prev) => prev.map((m, i) => (i === index ? { ...m, summary: summary.text } : m)));
+        };
+        // Older messages could not be summarized; they are left out this time
+        const noteSummaryError = (error: string) => {
+          setMessages((prev) => {
+            const index = prev.findLastIndex((m) => m.role === "user");
+            return prev.map((m, i) =>
+              i === index
+                ? { ...m, warnings: [...(m.warnings ?? []), `Older messages were not summarized: ${error}`] }
+                : m,
+            );
+          });
+        };
+
         // Handle non-streaming JSON response (fallback)
         const contentType = res.headers.get("content-type") || "";
         if (contentType.includes("application/json")) {
           const data = await res.json();
+          if (data.summary) storeSummary(data.summary);
+          if (data.summaryError) noteSummaryError(data.summaryError);
           if (!res.ok) {
             setMessages((prev) => [
               ...prev,
@@ -205,11 +735,14 @@ export default function AIChatPanel({
                 content: data.error || "Unknown error",
                 retryable: true,
                 originalPrompt: prompt,
+                originalImages,
+                report: data.report,
+                repairs: data.repairs,
               },
             ]);
-          } else if (data.content) {
-            // Non-streaming LLM response
-            processLLMResponse(data.content, prompt);
+          } else if (data.result || data.operations) {
+            // Non-streaming LLM response, already validated by the server
+            processOperations(data.operations ?? [data.result], data.report, data.repairs || [], scope);
           }
           return;
         }
@@ -223,6 +756,7 @@ export default function AIChatPanel({
               content: `Server error: ${res.status}`,
               retryable: true,
               originalPrompt: prompt,
+              originalImages,
             },
           ]);
           return;
@@ -232,6 +766,11 @@ export default function AIChatPanel({
         const decoder = new TextDecoder();
         let accumulated = "";
         let buffer = "";
+        let result: { operations: DiagramOperation[]; report: ValidationReport } | null = null;
+        const streamRepairs: RepairAttempt[] = [];
+        let streamToolCalls: string[] = [];
+        // Draw each element as soon as its JSON object is complete
+        const elementParser = new ElementStreamParser();
 
         while (true) {
           const { done, value } = await reader.read();
@@ -250,6 +789,8 @@ export default function AIChatPanel({
 
             try {
               const data = JSON.parse(payload);
+              if (data.summary) storeSummary(data.summary);
+              if (data.summaryError) noteSummaryError(data.summaryError);
               if (data.error) {
                 setMessages((prev) => [
                   ...prev,
@@ -258,24 +799,68 @@ export default function AIChatPanel({
                     content: data.error,
                     retryable: true,
                     originalPrompt: prompt,
+                    originalImages,
+                    report: data.report,
+                    repairs: streamRepairs.length > 0 ? streamRepairs : undefined,
                   },
                 ]);
                 return;
               }
+              if (data.repair) {
+                // The server is asking the model to fix its output; the
+                // corrected response streams in from scratch
+                streamRepairs.push(data.repair);
+                setRepairs([...streamRepairs]);
+                accumulated = "";
+                setStreamingContent("");
+                streamToolCalls = [];
+                setToolCalls([]);
+                elementParser.reset();
+                setPreviewCount(0);
+                onPreviewCancel?.();
+                scrollToBottom();
+              }
               if (data.token) {
                 accumulated += data.token;
                 setStreamingContent(accumulated);
+                const completed = elementParser.push(data.token);
+                if (completed.length > 0) {
+                  onElementsPreview?.(completed);
+                  setPreviewCount(elementParser.count);
+                }
                 scrollToBottom();
               }
+              if (data.toolCall) {
+                streamToolCalls[data.toolCall.index] = data.toolCall.name;
+                setToolCalls([...streamToolCalls]);
+                scrollToBottom();
+              }
+              if (data.result) {
+                result = { operations: [data.result], report: data.report };
+              }
+              if (data.operations) {
+                result = { operations: data.operations, report: data.report };
+              }
             } catch {
               // Skip malformed SSE data
             }
           }
         }
 
-        // Stream complete - process the full response
-        if (accumulated) {
-          processLLMResponse(accumulated, prompt);
+        // Stream complete - render the validated response
+        if (result) {
+          processOperations(result.operations, result.report, streamRepairs, scope);
+        } else if (accumulated || streamToolCalls.length > 0) {
+          setMessages((prev) => [
+            ...prev,
+            {
+              role: "error",
+              content: "Stream ended before the response was validated. Try again.",
+              retryable: true,
+              originalPrompt: prompt,
+              originalImages,
+            },
+          ]);
         }
       } catch (err) {
         if (err instanceof DOMException && err.name === "AbortError") {
@@ -297,119 +882,195 @@ export default function AIChatPanel({
               content: displayMsg,
               retryable: true,
               originalPrompt: prompt,
+              originalImages,
             },
           ]);
         }
       } finally {
         setLoading(false);
         setStreamingContent("");
+        setRepairs([]);
+        setPreviewCount(0);
+        setToolCalls([]);
+        // No-op when the final response already replaced the preview
+        onPreviewCancel?.();
         abortControllerRef.current = null;
         scrollToBottom();
       }
     },
-    [loading, messages, cancelRequest, scrollToBottom, getCanvasContext, settings],
+    [loading, pendingProposal, messages, cancelRequest, scrollToBottom, getCanvasContext, getCanvasElementIds, getCanvasSnapshot, getCanvasBounds, getCanvasGraph, settings, onElementsPreview, onPreviewCancel, importText, scopeToSelection, selectedIds, processOperations, bypassImporter],
   );
 
-  const processLLMResponse = useCallback(
-    (content: string, prompt: string) => {
-      let parsed: LLMResponse;
-      try {
-        parsed = JSON.parse(content);
-      } catch {
-        // Try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          try {
-            parsed = JSON.parse(jsonMatch[0]);
-          } catch {
-            setMessages((prev) => [
-              ...prev,
-              {
-                role: "error",
-                content:
-                  "AI returned invalid JSON. Try rephrasing your request.",
-                retryable: true,
-                originalPrompt: prompt,
+  const toggleProposalItem = (index: number, key: string) => {
+    setMessages((prev) =>
+      prev.map((m, i) =>
+        i === index && m.proposal
+          ? {
+              ...m,
+              proposal: {
+                ...m.proposal,
+                items: m.proposal.items.map((item) =>
+                  item.key === key ? { ...item, accepted: !item.accepted } : item,
+                ),
               },
-            ]);
-            return;
-          }
-        } else {
-          setMessages((prev) => [
-            ...prev,
-            {
-              role: "error",
-              content:
-                "AI returned invalid JSON. Try rephrasing your request.",
-              retryable: true,
-              originalPrompt: prompt,
-            },
-          ]);
-          return;
-        }
-      }
+            }
+          : m,
+      ),
+    );
+  };
 
-      if (
-        !Array.isArray(parsed.elements) ||
-        parsed.elements.length === 0
-      ) {
+  // Apply the accepted part of a proposal (or nothing) and record the
+  // decision in its message
+  const resolveProposal = (index: number, mode: "all" | "none" | "selected") => {
+    const proposal = messages[index]?.proposal;
+    if (!proposal || proposal.status !== "pending") return;
+    const items =
+      mode === "selected"
+        ? proposal.items
+        : proposal.items.map((item) => ({ ...item, accepted: mode === "all" }));
+    const acceptedCount = items.filter((item) => item.accepted).length;
+
+    onProposalPreview?.(null);
+    const operations = acceptedCount > 0 ? acceptItems(proposal.operations, items) : [];
+    const applied = operations.length > 0 ? onElementsGenerated(operations) : null;
+
+    let content: string;
+    if (applied && applied.operations.length > 0) {
+      const notes = [
+        acceptedCount === items.length
+          ? "reviewed: accepted all changes"
+          : `reviewed: accepted ${acceptedCount} of ${items.length} changes`,
+        ...proposal.notes,
+      ];
+      content = `${describeOperations(applied.operations)} on the canvas. (${notes.join("; ")})`;
+    } else {
+      content = `Rejected the proposed change (${describeOperations(proposal.operations)}). The canvas was not changed.`;
+    }
+    setMessages((prev) =>
+      prev.map((m, i) =>
+        i === index
+          ? {
+              ...m,
+              content,
+              proposal: { ...proposal, items, status: applied ? "accepted" : "rejected" },
+              changes: applied && applied.changes.length > 0 ? applied.changes : undefined,
+              turn: applied && applied.changes.length > 0 ? recordTurn(applied.changes) : undefined,
+            }
+          : m,
+      ),
+    );
+    scrollToBottom();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    sendMessage(input, attachments);
+  };
+
+  const detectedImporter = useMemo(() => findImporter(input), [input]);
+  const importing = detectedImporter !== null && !bypassImporter;
+  const detectedType = useMemo(
+    () => (settings.diagramType === "auto" ? classifyRequest(input) : undefined),
+    [input, settings.diagramType],
+  );
+
+  // Images are attached to the next message; text formats with a local
+  // importer (Mermaid, SQL DDL) are imported right away
+  const openFiles = async (files: File[]) => {
+    // Files for an importer that reads them together are imported as one
+    const batches = new Map<Importer, ImportFile[]>();
+    for (const file of files) {
+      if (file.type.startsWith("image/")) {
+        await attachImages([file]);
+        continue;
+      }
+      const text = await file.text();
+      const name = file.webkitRelativePath || file.name;
+      const importer = findImporter(text, file.name);
+      if (importer?.runFiles) {
+        batches.set(importer, [...(batches.get(importer) ?? []), { name, text }]);
+      } else if (importer) {
+        importText([{ name, text }], importer);
+      } else {
         setMessages((prev) => [
           ...prev,
-          {
-            role: "error",
-            content: "AI response missing elements. Try again.",
-            retryable: true,
-            originalPrompt: prompt,
-          },
+          { role: "error", content: `Cannot import ${file.name}: unsupported format.` },
         ]);
-        return;
       }
+    }
+    for (const [importer, batch] of batches) importText(batch, importer);
+  };
 
-      const action = parsed.action || "add";
-      onElementsGenerated(parsed.elements, action);
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (loading || pendingProposal) return;
+    openFiles(Array.from(e.dataTransfer.files));
+  };
 
-      const actionLabels: Record<string, string> = {
-        add: "Added",
-        replace: "Replaced canvas with",
-        modify: "Modified",
-      };
-      const label = actionLabels[action] || "Generated";
+  // Undo (or redo) the canvas change of one earlier response. The note
+  // added to the chat also tells the model about it on the next turn.
+  const handleToggleChange = (index: number) => {
+    const msg = messages[index];
+    if (!msg?.changes || !onApplyChanges) return;
+    const direction: ChangeDirection = msg.reverted ? "reapply" : "revert";
+    const { changes, conflicts } = onApplyChanges(msg.changes, direction);
 
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "assistant",
-          content: `${label} ${parsed.elements!.length} elements on the canvas.`,
-        },
-      ]);
-    },
-    [onElementsGenerated],
-  );
+    const count = changes.length;
+    let content = `${direction === "revert" ? "Reverted" : "Re-applied"} the canvas change from an earlier response (${count} element${count === 1 ? "" : "s"}).`;
+    if (conflicts.length > 0) {
+      content += ` ${conflicts.length} of them had been edited since and ${direction === "revert" ? "were reset to their earlier state" : "were overwritten"}.`;
+    }
+    setMessages((prev) => [
+      ...prev.map((m, i) => (i === index ? { ...m, changes, reverted: !m.reverted } : m)),
+      { role: "assistant", content },
+    ]);
+    scrollToBottom();
+  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    sendMessage(input);
+  const handleRetry = (prompt: string, images?: ImageAttachment[]) => {
+    sendMessage(prompt, images);
   };
 
-  const handleRetry = (prompt: string) => {
-    sendMessage(prompt);
+  const attachImages = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const image = await readImageAttachment(file);
+        setAttachments((prev) => [...prev, image]);
+      } catch (err) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            role: "error",
+            content: `Cannot attach ${file.name || "image"}: ${err instanceof Error ? err.message : String(err)}`,
+          },
+        ]);
+      }
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = Array.from(e.clipboardData.files).filter((f) => f.type.startsWith("image/"));
+    if (images.length === 0) return;
+    e.preventDefault();
+    attachImages(images);
   };
 
   const handleClearChat = () => {
     setMessages([]);
-    localStorage.removeItem(STORAGE_KEY);
+    saveChat(drawingId, []).catch(() => {});
     onClearCanvas?.();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
       e.preventDefault();
-      sendMessage(input);
+      sendMessage(input, attachments);
     }
     // Enter without modifier sends (Shift+Enter for newline)
     if (e.key === "Enter" && !e.shiftKey && !e.metaKey && !e.ctrlKey) {
       e.preventDefault();
-      sendMessage(input);
+      sendMessage(input, attachments);
     }
   };
 
@@ -423,7 +1084,23 @@ export default function AIChatPanel({
   }, [input]);
 
   return (
-    <div className="flex h-full w-80 flex-col border-l border-gray-300 bg-white">
+    <div
+      className="relative flex h-full w-80 flex-col border-l border-gray-300 bg-white"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {dragging && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center border-2 border-dashed border-blue-400 bg-blue-50/90 text-sm text-blue-700">
+          Drop files to import (.mmd, .sql, OpenAPI .yaml/.json, .ts) or an image to attach
+        </div>
+      )}
       <div className="flex items-center justify-between border-b border-gray-300 px-4 py-3">
         <span className="font-semibold text-gray-800">
           AI Diagram Generator
@@ -438,6 +1115,15 @@ export default function AIChatPanel({
               Clear
             </button>
           )}
+          {getSceneElements && (
+            <button
+              onClick={() => setShowExport((v) => !v)}
+              className={`text-xs hover:text-gray-600 ${showExport ? "text-blue-600" : "text-gray-400"}`}
+              title="Export canvas as Mermaid, PlantUML or DOT"
+            >
+              Export
+            </button>
+          )}
           <button
             onClick={() => setShowSettings((v) => !v)}
             className="text-gray-400 hover:text-gray-600"
@@ -451,10 +1137,16 @@ export default function AIChatPanel({
         </div>
       </div>
 
+      {showExport && getSceneElements && (
+        <ExportPanel getSceneElements={getSceneElements} />
+      )}
+
       {showSettings && (() => {
         const activeKey = settings.activeProvider;
         const current = getProviderConfig(settings);
 
+        const currentType = getProviderType(settings);
+
         const updateProvider = (field: keyof ProviderConfig, value: string) => {
           const newSettings: LLMSettings = {
             ...settings,
@@ -490,6 +1182,18 @@ export default function AIChatPanel({
                 ))}
               </select>
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">API format</label>
+              <select
+                value={currentType}
+                onChange={(e) => updateProvider("type", e.target.value)}
+                className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+              >
+                {(Object.keys(PROVIDER_TYPES) as ProviderType[]).map((type) => (
+                  <option key={type} value={type}>{PROVIDER_TYPES[type]}</option>
+                ))}
+              </select>
+            </div>
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">Base URL</label>
               <input
@@ -501,14 +1205,52 @@ export default function AIChatPanel({
               />
             </div>
             <div>
-              <label className="block text-xs font-medium text-gray-600 mb-1">Model</label>
+              <div className="mb-1 flex items-center justify-between">
+                <label className="text-xs font-medium text-gray-600">Model</label>
+                <button
+                  type="button"
+                  onClick={() => setModelsReload((n) => n + 1)}
+                  disabled={models.status === "loading"}
+                  className="text-xs text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+                >
+                  {models.status === "loading" ? "Loading models..." : "Refresh list"}
+                </button>
+              </div>
+              {/* Suggestions from the server; any name can still be typed */}
               <input
                 type="text"
+                list="model-options"
                 value={current.model}
                 onChange={(e) => updateProvider("model", e.target.value)}
                 className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
-                placeholder="llama3"
+                placeholder={models.list[0]?.id ?? "llama3"}
               />
+              <datalist id="model-options">
+                {models.list.map((m) => (
+                  <option key={m.id} value={m.id} label={describeModel(m) || undefined} />
+                ))}
+              </datalist>
+              {models.status === "ok" &&
+                (() => {
+                  const match = findModel(models.list, current.model);
+                  if (current.model && !match) {
+                    return (
+                      <p className="mt-1 text-xs text-amber-700">
+                        &quot;{current.model}&quot; is not among the {models.list.length} models the server lists.
+                      </p>
+                    );
+                  }
+                  return (
+                    <p className="mt-1 text-xs text-gray-400">
+                      {match && describeModel(match) ? describeModel(match) : `${models.list.length} models available`}
+                    </p>
+                  );
+                })()}
+              {models.status === "error" && (
+                <p className="mt-1 text-xs text-gray-400">
+                  Could not list models ({models.error}); enter the name by hand.
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">API Key (optional)</label>
@@ -520,6 +1262,167 @@ export default function AIChatPanel({
                 placeholder="Not required for local LLMs"
               />
             </div>
+            <div>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={getSendSnapshot(settings)}
+                  onChange={(e) => {
+                    const newSettings: LLMSettings = {
+                      ...settings,
+                      providers: {
+                        ...settings.providers,
+                        [activeKey]: { ...current, sendSnapshot: e.target.checked },
+                      },
+                    };
+                    setSettings(newSettings);
+                    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                  }}
+                />
+                Send a canvas snapshot (vision models only)
+              </label>
+              {getSendSnapshot(settings) && (
+                <div className="mt-1 flex gap-2">
+                  <select
+                    value={settings.snapshotSize}
+                    onChange={(e) => {
+                      const newSettings: LLMSettings = { ...settings, snapshotSize: Number(e.target.value) };
+                      setSettings(newSettings);
+                      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                    }}
+                    className="flex-1 rounded border border-gray-300 px-2 py-1 text-xs text-gray-800 focus:border-blue-500 focus:outline-none"
+                    title="Longest side of the snapshot"
+                  >
+                    {[512, 768, 1024, 1568].map((size) => (
+                      <option key={size} value={size}>{size}px</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={50}
+                    max={5000}
+                    step={50}
+                    value={settings.snapshotMaxKB}
+                    onChange={(e) => {
+                      const value = Math.max(50, Math.min(5000, Number(e.target.value) || 0));
+                      const newSettings: LLMSettings = { ...settings, snapshotMaxKB: value };
+                      setSettings(newSettings);
+                      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                    }}
+                    className="w-20 rounded border border-gray-300 px-2 py-1 text-xs text-gray-800 focus:border-blue-500 focus:outline-none"
+                    title="Size cap in KB; larger snapshots are scaled down further"
+                  />
+                  <span className="self-center text-xs text-gray-400">KB max</span>
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Output mode</label>
+              <select
+                value={settings.outputMode}
+                onChange={(e) => {
+                  const newSettings: LLMSettings = {
+                    ...settings,
+                    outputMode: e.target.value as LLMSettings["outputMode"],
+                  };
+                  setSettings(newSettings);
+                  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                }}
+                className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="auto">Auto (best for the model)</option>
+                <option value="skeleton">Coordinates (AI positions elements)</option>
+                <option value="graph">Graph (automatic layout)</option>
+                <option value="tools">Tool calls (function calling)</option>
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={settings.reviewChanges}
+                onChange={(e) => {
+                  const newSettings: LLMSettings = { ...settings, reviewChanges: e.target.checked };
+                  setSettings(newSettings);
+                  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                }}
+              />
+              Review replace and modify before applying
+            </label>
+            {settings.outputMode === "graph" && (
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Layout</label>
+                <select
+                  value={settings.graphLayout}
+                  onChange={(e) => {
+                    const newSettings: LLMSettings = {
+                      ...settings,
+                      graphLayout: e.target.value as LLMSettings["graphLayout"],
+                    };
+                    setSettings(newSettings);
+                    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                  }}
+                  className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="auto">Auto (AI chooses)</option>
+                  <option value="top-down">Top-down</option>
+                  <option value="left-right">Left-right</option>
+                  <option value="radial">Radial (mind map)</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Auto-repair attempts</label>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={settings.repairAttempts}
+                onChange={(e) => {
+                  const value = Math.max(0, Math.min(5, Number(e.target.value) || 0));
+                  const newSettings: LLMSettings = { ...settings, repairAttempts: value };
+                  setSettings(newSettings);
+                  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                }}
+                className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+              />
+              <p className="mt-1 text-xs text-gray-400">Times the AI is asked to fix invalid JSON before giving up.</p>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">OpenAPI schema depth</label>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={settings.openApiDepth}
+                onChange={(e) => {
+                  const value = Math.max(0, Math.min(5, Number(e.target.value) || 0));
+                  const newSettings: LLMSettings = { ...settings, openApiDepth: value };
+                  setSettings(newSettings);
+                  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                }}
+                className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+              />
+              <p className="mt-1 text-xs text-gray-400">Schema references drawn per endpoint when importing an API spec; deeper ones are collapsed.</p>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">TypeScript import</label>
+              <select
+                value={settings.typescriptView}
+                onChange={(e) => {
+                  const newSettings: LLMSettings = {
+                    ...settings,
+                    typescriptView: e.target.value as TypeScriptView,
+                  };
+                  setSettings(newSettings);
+                  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                }}
+                className="w-full rounded border border-gray-300 px-2 py-1.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="auto">Auto (classes if any, else imports)</option>
+                <option value="classes">Class diagram</option>
+                <option value="modules">Module import graph</option>
+              </select>
+            </div>
             <button
               type="button"
               onClick={async () => {
@@ -529,6 +1432,7 @@ export default function AIChatPanel({
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
                     body: JSON.stringify({
+                      providerType: currentType,
                       baseUrl: current.baseUrl,
                       model: current.model,
                       apiKey: current.apiKey || undefined,
@@ -537,6 +1441,17 @@ export default function AIChatPanel({
                   const data = await res.json();
                   setTestStatus(data.ok ? "ok" : "error");
                   setTestMessage(data.ok ? data.message : data.error);
+                  if (data.ok) {
+                    const newSettings: LLMSettings = {
+                      ...settings,
+                      providers: {
+                        ...settings.providers,
+                        [activeKey]: { ...current, capabilities: data.capabilities },
+                      },
+                    };
+                    setSettings(newSettings);
+                    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+                  }
                 } catch (err) {
                   setTestStatus("error");
                   setTestMessage(err instanceof Error ? err.message : "Connection failed");
@@ -545,7 +1460,7 @@ export default function AIChatPanel({
               disabled={testStatus === "testing"}
               className="w-full rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50"
             >
-              {testStatus === "testing" ? "Testing..." : "Test Connection"}
+              {testStatus === "testing" ? "Checking..." : "Check capabilities"}
             </button>
             {testStatus === "ok" && (
               <p className="text-xs text-green-600">{testMessage}</p>
@@ -553,6 +1468,36 @@ export default function AIChatPanel({
             {testStatus === "error" && (
               <p className="text-xs text-red-600">{testMessage}</p>
             )}
+            {current.capabilities && (
+              <div className="rounded border border-gray-200 bg-white px-2 py-1.5">
+                <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs">
+                  {CAPABILITIES.map((capability) => {
+                    const supported = current.capabilities!.supports[capability];
+                    return (
+                      <span
+                        key={capability}
+                        title={current.capabilities!.notes[capability]}
+                        className={supported ? "text-green-600" : supported === false ? "text-red-500" : "text-gray-400"}
+                      >
+                        {supported ? "✓" : supported === false ? "✗" : "?"} {CAPABILITY_LABELS[capability]}
+                      </span>
+                    );
+                  })}
+                </div>
+                <p className="mt-1 text-xs text-gray-400">
+                  {current.capabilities.model}
+                  {current.capabilities.contextLength
+                    ? ` · ${current.capabilities.contextLength.toLocaleString()} tokens context`
+                    : ""}
+                  {` · checked ${new Date(current.capabilities.checkedAt).toLocaleString()}`}
+                </p>
+                {!getCapabilities(settings) && (
+                  <p className="mt-0.5 text-xs text-amber-600">
+                    Checked for a different model or URL; check again to use these results.
+                  </p>
+                )}
+              </div>
+            )}
             <p className="text-xs text-gray-400">Settings are saved per provider automatically.</p>
           </div>
         );
@@ -588,25 +1533,204 @@ export default function AIChatPanel({
                     : "mr-4 bg-gray-100 text-gray-800"
               }`}
             >
+              {msg.images && msg.images.length > 0 && (
+                <div className="mb-1 flex flex-wrap gap-1">
+                  {msg.images.map((src, j) => (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img key={j} src={src} alt="Attached image" className="h-16 rounded border border-blue-200 object-cover" />
+                  ))}
+                </div>
+              )}
               {msg.content}
+              {msg.withSnapshot && (
+                <div className="mt-0.5 text-xs opacity-70">With a snapshot of the canvas</div>
+              )}
+              {msg.diagramType && (
+                <div className="mt-0.5 text-xs opacity-70">
+                  {getDiagramType(msg.diagramType)?.label} specialist
+                </div>
+              )}
+              {msg.selectionCount && (
+                <div className="mt-0.5 text-xs opacity-70">
+                  Limited to {msg.selectionCount} selected element{msg.selectionCount === 1 ? "" : "s"}
+                </div>
+              )}
+              {msg.warnings && msg.warnings.length > 0 && (
+                <details className="mt-1 text-xs opacity-80">
+                  <summary className="cursor-pointer">{msg.warnings.length} warnings</summary>
+                  <ul className="mt-1 list-disc space-y-0.5 pl-4">
+                    {msg.warnings.map((w, j) => (
+                      <li key={j}>{w}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              {msg.repairs && msg.repairs.length > 0 && (
+                <details className="mt-1 text-xs opacity-80">
+                  <summary className="cursor-pointer">Repair attempts</summary>
+                  <ul className="mt-1 list-disc space-y-0.5 pl-4">
+                    {msg.repairs.map((r) => (
+                      <li key={r.attempt}>
+                        Attempt {r.attempt}/{r.maxAttempts}: {r.error}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              {msg.report && (msg.report.fixed.length > 0 || msg.report.dropped.length > 0) && (
+                <details className="mt-1 text-xs opacity-80">
+                  <summary className="cursor-pointer">Validation details</summary>
+                  <ul className="mt-1 list-disc space-y-0.5 pl-4">
+                    {msg.report.dropped.map((issue, j) => (
+                      <li key={`d${j}`}>
+                        Dropped #{issue.index}{issue.id ? ` (${issue.id})` : ""}: {issue.message}
+                      </li>
+                    ))}
+                    {msg.report.fixed.map((issue, j) => (
+                      <li key={`f${j}`}>
+                        {issue.index >= 0 ? `#${issue.index}${issue.id ? ` (${issue.id})` : ""}: ` : ""}{issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
             </div>
+            {msg.proposal && (() => {
+              const { proposal } = msg;
+              const pending = proposal.status === "pending";
+              const list = (
+                <ul className="mt-1 space-y-1 text-xs">
+                  {proposal.items.map((item) => (
+                    <li key={item.key} className="flex items-start gap-1.5">
+                      {pending ? (
+                        <input
+                          type="checkbox"
+                          checked={item.accepted}
+                          onChange={() => toggleProposalItem(i, item.key)}
+                          className="mt-0.5"
+                        />
+                      ) : (
+                        <span className={item.accepted ? "text-green-700" : "text-gray-400"}>
+                          {item.accepted ? "✓" : "✗"}
+                        </span>
+                      )}
+                      <span
+                        className={`font-mono ${
+                          item.kind === "added"
+                            ? "text-green-700"
+                            : item.kind === "removed"
+                              ? "text-red-700"
+                              : "text-blue-700"
+                        }`}
+                      >
+                        {item.kind === "added" ? "+" : item.kind === "removed" ? "−" : "~"}
+                      </span>
+                      <span className="min-w-0 break-words">
+                        {item.type}
+                        {item.label ? ` "${item.label}"` : item.id ? ` ${item.id}` : ""}
+                        {item.fields.map((f) => (
+                          <span key={f.field} className="block text-gray-500">
+                            {f.field}: {formatFieldValue(f.before)} → {formatFieldValue(f.after)}
+                          </span>
+                        ))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              );
+              if (!pending) {
+                return (
+                  <details className="mt-1 text-xs">
+                    <summary className="cursor-pointer text-gray-500">Reviewed changes</summary>
+                    {list}
+                  </details>
+                );
+              }
+              const acceptedCount = proposal.items.filter((item) => item.accepted).length;
+              return (
+                <div className="mt-1 rounded-lg border border-gray-200 bg-white px-3 py-2">
+                  {list}
+                  <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                    <button
+                      onClick={() => resolveProposal(i, "all")}
+                      className="rounded bg-blue-600 px-2 py-1 font-medium text-white hover:bg-blue-700"
+                    >
+                      Accept all
+                    </button>
+                    <button
+                      onClick={() => resolveProposal(i, "selected")}
+                      disabled={acceptedCount === 0 || acceptedCount === proposal.items.length}
+                      className="rounded border border-gray-300 px-2 py-1 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Accept selected ({acceptedCount})
+                    </button>
+                    <button
+                      onClick={() => resolveProposal(i, "none")}
+                      className="rounded border border-gray-300 px-2 py-1 text-gray-700 hover:bg-gray-100"
+                    >
+                      Reject all
+                    </button>
+                  </div>
+                </div>
+              );
+            })()}
+            {msg.changes && onApplyChanges && (
+              <button
+                onClick={() => handleToggleChange(i)}
+                disabled={loading}
+                className="mt-1 text-xs text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+                title={msg.reverted ? "Apply this change to the canvas again" : "Undo only what this response changed"}
+              >
+                {msg.reverted ? "Re-apply" : "Revert this change"}
+              </button>
+            )}
+            {msg.followUp && (
+              <button
+                onClick={() => {
+                  const prompt = msg.followUp!;
+                  setMessages((prev) => prev.map((m, j) => (j === i ? { ...m, followUp: undefined } : m)));
+                  sendMessage(prompt);
+                }}
+                disabled={loading || !!pendingProposal}
+                className="mt-1 ml-3 text-xs text-blue-600 hover:text-blue-800 underline disabled:opacity-50"
+                title="Ask the AI to annotate the imported diagram"
+              >
+                Add notes with AI
+              </button>
+            )}
             {msg.role === "error" && msg.retryable && msg.originalPrompt && (
               <button
-                onClick={() => handleRetry(msg.originalPrompt!)}
+                onClick={() => handleRetry(msg.originalPrompt!, msg.originalImages)}
                 disabled={loading}
                 className="mt-1 text-xs text-red-600 hover:text-red-800 underline disabled:opacity-50"
               >
                 Retry
               </button>
             )}
+            {msg.summary && (
+              <p className="mt-2 text-center text-xs text-gray-400" title={msg.summary}>
+                Messages up to here are summarized for the AI
+              </p>
+            )}
           </div>
         ))}
         {loading && (
           <div className="mr-4 rounded-lg bg-gray-100 px-3 py-2 text-sm text-gray-500">
+            {repairs.map((r) => (
+              <div key={r.attempt} className="mb-1 text-xs text-amber-700">
+                Repairing invalid output ({r.attempt}/{r.maxAttempts}): {r.error}
+              </div>
+            ))}
+            {toolCalls.map((name, i) => (
+              <div key={i} className="mb-1 font-mono text-xs text-blue-700">
+                Calling {name}…
+              </div>
+            ))}
             {streamingContent ? (
               <div>
                 <div className="mb-1 text-xs text-gray-400">
-                  Streaming... ({streamingContent.length} chars)
+                  Streaming... ({streamingContent.length} chars
+                  {previewCount > 0 && `, ${previewCount} elements drawn`})
                 </div>
                 <div className="max-h-32 overflow-y-auto font-mono text-xs text-gray-600 whitespace-pre-wrap break-all">
                   {streamingContent.slice(-200)}
@@ -624,14 +1748,108 @@ export default function AIChatPanel({
       </div>
 
       <form onSubmit={handleSubmit} className="border-t border-gray-300 p-3">
+        {detectedImporter && (
+          <div className="mb-2 flex items-center justify-between gap-2 rounded bg-blue-50 px-2 py-1 text-xs text-blue-800">
+            <span>
+              {detectedImporter.label} detected — {bypassImporter ? "sends to the AI" : "imports without AI"}
+            </span>
+            {!bypassImporter && (
+              <select
+                value={importAction}
+                onChange={(e) => setImportAction(e.target.value as "add" | "replace")}
+                className="rounded border border-blue-200 bg-white px-1 py-0.5 text-xs"
+              >
+                <option value="add">Add to canvas</option>
+                <option value="replace">Replace canvas</option>
+              </select>
+            )}
+            <button
+              type="button"
+              onClick={() => setBypassImporter((prev) => !prev)}
+              className="shrink-0 text-blue-600 underline hover:text-blue-800"
+            >
+              {bypassImporter ? "Import instead" : "Send to AI instead"}
+            </button>
+          </div>
+        )}
+        {selectedIds.length > 0 && !importing && (
+          <div className="mb-2 flex items-center justify-between gap-2 text-xs">
+            <span
+              className={`rounded-full px-2 py-0.5 ${
+                scopeToSelection ? "bg-purple-100 text-purple-800" : "bg-gray-100 text-gray-500"
+              }`}
+              title={
+                scopeToSelection
+                  ? "The AI only changes the selected elements"
+                  : "The AI may change anything on the canvas"
+              }
+            >
+              {selectedIds.length} element{selectedIds.length === 1 ? "" : "s"} selected
+            </span>
+            <label className="flex items-center gap-1 text-gray-500">
+              <input
+                type="checkbox"
+                checked={scopeToSelection}
+                onChange={(e) => setScopeToSelection(e.target.checked)}
+              />
+              Edit selection only
+            </label>
+          </div>
+        )}
+        {attachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-1.5">
+            {attachments.map((image, i) => (
+              <div key={i} className="relative">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={image.thumbnail} alt="Attachment" className="h-12 rounded border border-gray-300 object-cover" />
+                <button
+                  type="button"
+                  onClick={() => setAttachments((prev) => prev.filter((_, j) => j !== i))}
+                  className="absolute -right-1.5 -top-1.5 h-4 w-4 rounded-full bg-gray-600 text-[10px] leading-4 text-white hover:bg-gray-800"
+                  title="Remove image"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <span className="self-end text-xs text-gray-400">Needs a vision-capable model</span>
+          </div>
+        )}
         <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={["image/*", ...IMPORTERS.flatMap((i) => i.extensions)].join(",")}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              openFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading || pendingProposal}
+            className="rounded-lg px-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Attach an image (photo or screenshot of a diagram) or import .mmd / .sql / OpenAPI / .ts files"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="m21.44 11.05-9.19 9.19a6 6 0 0 1-8.49-8.49l8.57-8.57A4 4 0 1 1 18 8.84l-8.59 8.57a2 2 0 0 1-2.83-2.83l8.49-8.48"/>
+            </svg>
+          </button>
           <textarea
             ref={textareaRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Describe a diagram... (Enter to send)"
-            disabled={loading}
+            onPaste={handlePaste}
+            placeholder={
+              pendingProposal
+                ? "Accept or reject the proposed change first"
+                : "Describe a diagram... (Enter to send)"
+            }
+            disabled={loading || pendingProposal}
             rows={1}
             className="flex-1 resize-none rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-800 placeholder-gray-400 focus:border-blue-500 focus:outline-none disabled:opacity-50"
           />
@@ -646,15 +1864,38 @@ export default function AIChatPanel({
           ) : (
             <button
               type="submit"
-              disabled={!input.trim()}
+              disabled={!input.trim() && attachments.length === 0}
               className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
             >
-              Send
+              {importing ? "Import" : "Send"}
             </button>
           )}
         </div>
-        <div className="mt-1 text-right text-xs text-gray-400">
-          {loading ? "Press Cancel to stop" : "Shift+Enter for newline"}
+        <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-400">
+          <label className="flex items-center gap-1" title="Sequence, ER, C4 and state diagrams have dedicated prompts and layouts">
+            Diagram
+            <select
+              value={settings.diagramType}
+              onChange={(e) => {
+                const newSettings: LLMSettings = {
+                  ...settings,
+                  diagramType: e.target.value as LLMSettings["diagramType"],
+                };
+                setSettings(newSettings);
+                localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+              }}
+              className="rounded border border-gray-200 bg-white px-1 py-0.5 text-xs text-gray-600"
+            >
+              <option value="auto">Auto{detectedType ? ` (${detectedType.label})` : ""}</option>
+              <option value="general">General</option>
+              {DIAGRAM_TYPES.map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span>{loading ? "Press Cancel to stop" : "Shift+Enter for newline"}</span>
         </div>
       </form>
     </div>
@@ -0,0 +1,317 @@
+"use client";
+
+import { useState } from "react";
+import type { DrawingMeta, ShareLink } from "@/lib/drawings";
+import { shareUrl, type SyncStatus } from "@/lib/sync";
+
+interface Props {
+  drawings: DrawingMeta[];
+  activeId: string | null;
+  // Last storage failure, shown above the list
+  error?: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  // Toggles the version history of the open drawing
+  onShowHistory: () => void;
+  // Creates or updates the read-only link; rejects when the server cannot
+  // be reached
+  onShare: (id: string, includeChat: boolean) => Promise<ShareLink>;
+  onUnshare: (id: string) => Promise<void>;
+  // null until the first sync has been tried
+  syncStatus: SyncStatus | null;
+  // Stores the server key in this browser and syncs again
+  onServerKey: (key: string) => void;
+}
+
+const SYNC_LABELS: Record<SyncStatus, string> = {
+  syncing: "Syncing…",
+  synced: "Synced with the server",
+  offline: "Offline — changes are kept in this browser",
+  locked: "Enter the server key to sync",
+  disabled: "Server storage is off — drawings stay in this browser",
+};
+
+export default function DrawingsSidebar({
+  drawings,
+  activeId,
+  error,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onShowHistory,
+  onShare,
+  onUnshare,
+  syncStatus,
+  onServerKey,
+}: Props) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [keyDraft, setKeyDraft] = useState("");
+  // Drawing whose name is being edited, and the draft
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  // Drawing whose share options are open
+  const [sharing, setSharing] = useState<{
+    id: string;
+    includeChat: boolean;
+    busy?: boolean;
+    error?: string;
+  } | null>(null);
+
+  const saveServerKey = () => {
+    const key = keyDraft.trim();
+    if (!key) return;
+    onServerKey(key);
+    setKeyDraft("");
+  };
+
+  const commitRename = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    const current = drawings.find((d) => d.id === editing.id);
+    if (name && current && name !== current.name) onRename(editing.id, name);
+    setEditing(null);
+  };
+
+  // Share actions keep their error next to the options
+  const runShare = async (id: string, action: () => Promise<void>) => {
+    setSharing((prev) => (prev?.id === id ? { ...prev, busy: true, error: undefined } : prev));
+    try {
+      await action();
+      setSharing((prev) => (prev?.id === id ? { ...prev, busy: false } : prev));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      setSharing((prev) => (prev?.id === id ? { ...prev, busy: false, error } : prev));
+    }
+  };
+
+  if (collapsed) {
+    return (
+      <div className="flex h-full w-8 flex-col items-center border-r border-gray-300 bg-white py-3">
+        <button
+          type="button"
+          onClick={() => setCollapsed(false)}
+          className="text-xs text-gray-400 hover:text-gray-600 [writing-mode:vertical-rl]"
+          title="Show drawings"
+        >
+          Drawings
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full w-56 flex-col border-r border-gray-300 bg-white">
+      <div className="flex items-center justify-between border-b border-gray-300 px-3 py-3">
+        <span className="font-semibold text-gray-800">Drawings</span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onCreate}
+            className="text-xs text-blue-600 hover:text-blue-800"
+            title="Create a new drawing"
+          >
+            New
+          </button>
+          <button
+            type="button"
+            onClick={onShowHistory}
+            className="text-xs text-gray-400 hover:text-gray-600"
+            title="Show the version history of the open drawing"
+          >
+            History
+          </button>
+          <button
+            type="button"
+            onClick={() => setCollapsed(true)}
+            className="text-xs text-gray-400 hover:text-gray-600"
+            title="Hide drawings"
+          >
+            Hide
+          </button>
+        </div>
+      </div>
+      {error && (
+        <p className="border-b border-gray-200 px-3 py-2 text-xs text-red-600">Cannot save drawings: {error}</p>
+      )}
+      <ul className="flex-1 space-y-2 overflow-y-auto p-2">
+        {drawings.map((drawing) => {
+          const active = drawing.id === activeId;
+          return (
+            <li
+              key={drawing.id}
+              className={`rounded-lg border p-1.5 ${
+                active ? "border-blue-400 bg-blue-50" : "border-gray-200 hover:border-gray-300"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => !active && onOpen(drawing.id)}
+                className="block w-full"
+                title={active ? undefined : `Open ${drawing.name}`}
+              >
+                {drawing.thumbnail ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={drawing.thumbnail}
+                    alt=""
+                    className="h-24 w-full rounded border border-gray-100 bg-white object-contain"
+                  />
+                ) : (
+                  <div className="flex h-24 w-full items-center justify-center rounded border border-gray-100 bg-gray-50 text-xs text-gray-300">
+                    Empty
+                  </div>
+                )}
+              </button>
+              {editing?.id === drawing.id ? (
+                <input
+                  autoFocus
+                  value={editing.name}
+                  onChange={(e) => setEditing({ id: drawing.id, name: e.target.value })}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditing(null);
+                  }}
+                  className="mt-1 w-full rounded border border-gray-300 px-1 py-0.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+                />
+              ) : (
+                <p
+                  className="mt-1 truncate text-sm text-gray-800"
+                  title={`${drawing.name} — edited ${new Date(drawing.updatedAt).toLocaleString()}`}
+                  onDoubleClick={() => setEditing({ id: drawing.id, name: drawing.name })}
+                >
+                  {drawing.name}
+                </p>
+              )}
+              <div className="flex gap-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setEditing({ id: drawing.id, name: drawing.name })}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  Rename
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDuplicate(drawing.id)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  Duplicate
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setSharing(
+                      sharing?.id === drawing.id
+                        ? null
+                        : { id: drawing.id, includeChat: drawing.share?.includeChat ?? false },
+                    )
+                  }
+                  className={drawing.share ? "text-blue-600 hover:text-blue-800" : "text-gray-400 hover:text-gray-600"}
+                  title={drawing.share ? "Shared read-only" : "Share a read-only link"}
+                >
+                  {drawing.share ? "Shared" : "Share"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Delete "${drawing.name}" with its chat? This cannot be undone.`)) {
+                      onDelete(drawing.id);
+                    }
+                  }}
+                  className="ml-auto text-gray-400 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </div>
+              {sharing?.id === drawing.id && (
+                <div className="mt-1 space-y-1 rounded border border-gray-200 bg-gray-50 p-1.5 text-xs">
+                  {drawing.share && (
+                    <input
+                      readOnly
+                      value={shareUrl(drawing.share)}
+                      onFocus={(e) => e.target.select()}
+                      className="w-full rounded border border-gray-300 bg-white px-1 py-0.5 text-gray-700"
+                    />
+                  )}
+                  <label className="flex items-center gap-1 text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={sharing.includeChat}
+                      onChange={(e) => setSharing({ ...sharing, includeChat: e.target.checked })}
+                    />
+                    Include the chat
+                  </label>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      disabled={sharing.busy}
+                      onClick={() =>
+                        runShare(drawing.id, async () => {
+                          const link = await onShare(drawing.id, sharing.includeChat);
+                          navigator.clipboard?.writeText(shareUrl(link)).catch(() => {});
+                        })
+                      }
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                      title="The link is copied to the clipboard"
+                    >
+                      {drawing.share ? "Update link" : "Create link"}
+                    </button>
+                    {drawing.share && (
+                      <button
+                        type="button"
+                        disabled={sharing.busy}
+                        onClick={() => runShare(drawing.id, () => onUnshare(drawing.id))}
+                        className="ml-auto text-gray-400 hover:text-red-600 disabled:text-gray-300"
+                        title="The link stops working"
+                      >
+                        Stop sharing
+                      </button>
+                    )}
+                  </div>
+                  {sharing.error && <p className="text-red-600">{sharing.error}</p>}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {syncStatus && (
+        <div
+          className={`border-t border-gray-200 px-3 py-2 text-xs ${
+            syncStatus === "offline" || syncStatus === "locked" ? "text-amber-600" : "text-gray-400"
+          }`}
+        >
+          <p>{SYNC_LABELS[syncStatus]}</p>
+          {syncStatus === "locked" && (
+            <div className="mt-1 flex gap-1">
+              <input
+                type="password"
+                value={keyDraft}
+                onChange={(e) => setKeyDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveServerKey();
+                }}
+                placeholder="Server key"
+                className="min-w-0 flex-1 rounded border border-gray-300 px-1 py-0.5 text-gray-800 focus:border-blue-500 focus:outline-none"
+              />
+              <button
+                type="button"
+                onClick={saveServerKey}
+                disabled={!keyDraft.trim()}
+                className="rounded bg-blue-600 px-2 py-0.5 text-white hover:bg-blue-700 disabled:bg-gray-300"
+                title="Kept in this browser and sent with every sync"
+              >
+                Save
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,84 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import {
+  CaptureUpdateAction,
   convertToExcalidrawElements,
+  exportToBlob,
+  hashElementsVersion,
+  newElementWith,
   restoreElements,
 } from "@excalidraw/excalidraw";
-import type { ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
+import type { BinaryFiles, ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
+import type {
+  ExcalidrawElement,
+  ExcalidrawTextElement,
+} from "@excalidraw/excalidraw/element/types";
+import type { DiagramOperation, RestyleStyle } from "@/lib/skeleton";
+import { validateDiagramResponse } from "@/lib/validator";
+import { buildCanvasContext } from "@/lib/context";
+import { placedGraph } from "@/lib/scene";
+import { expandSelection, scopeOperations } from "@/lib/selection";
+import {
+  applyChanges,
+  diffScenes,
+  type AppliedTurn,
+  type ChangeDirection,
+  type ElementChange,
+} from "@/lib/changes";
+import {
+  addSnapshot,
+  createDrawing,
+  deleteDrawing,
+  deleteSnapshots,
+  duplicateDrawing,
+  listDrawings,
+  listSnapshots,
+  loadDrawing,
+  loadSnapshotScene,
+  migrateLocalStorage,
+  nextDrawingName,
+  saveScene,
+  updateDrawing,
+  updateSnapshot,
+  type DrawingMeta,
+  type SavedScene,
+} from "@/lib/drawings";
+import {
+  failedSyncStatus,
+  queueDeletion,
+  setServerKey,
+  shareDrawing,
+  syncDrawings,
+  unshareDrawing,
+  type SyncStatus,
+} from "@/lib/sync";
+import {
+  SNAPSHOT_INTERVAL_MS,
+  diffSnapshot,
+  snapshotsToThin,
+  type SnapshotKind,
+  type SnapshotMeta,
+} from "@/lib/snapshots";
+import { recordTurn } from "@/lib/history";
+import { scaleImage } from "@/lib/images";
 import ExcalidrawWrapper from "./ExcalidrawWrapper";
 import AIChatPanel from "./AIChatPanel";
+import DrawingsSidebar from "./DrawingsSidebar";
+import HistoryPanel, { type SnapshotComparison } from "./HistoryPanel";
 
-const CANVAS_STORAGE_KEY = "excalidraft-canvas";
+// The drawing that was open last
+const ACTIVE_DRAWING_KEY = "excalidraft-active-drawing";
+const THUMBNAIL_SIZE = 240;
+// How often drawings are synced with the server while the app is open
+const SYNC_INTERVAL_MS = 30 * 1000;
+const PREVIEW_ID_PREFIX = "preview_";
+const GHOST_ID_PREFIX = "ghost_";
+// Outlines drawn around elements a proposed change would alter or remove
+const GHOST_CHANGED_COLOR = "#1971c2";
+const GHOST_REMOVED_COLOR = "#e03131";
+// Outlines around elements added since a snapshot, in the history diff
+const DIFF_ADDED_COLOR = "#2f9e44";
+const DIFF_IMAGE_SIZE = 800;
 
 // Normalize linear elements: ensure points[0] is [0,0] and adjust x,y accordingly
 // convertToExcalidrawElements binding shifts points but doesn't re-normalize
@@ -45,10 +115,18 @@ function normalizeLinearElements(elements: Record<string, unknown>[]) {
 
 let batchCounter = 0;
 
-// Add unique prefix to all IDs in skeletons to avoid collisions across batches
-function prefixIds(skeletons: Record<string, unknown>[]): Record<string, unknown>[] {
-  const prefix = `b${++batchCounter}_`;
+// Add unique prefix to all IDs in skeletons to avoid collisions across batches.
+// sharedIds are IDs from other batches with the same prefix, so references
+// to them are rewritten too.
+function prefixIds(
+  skeletons: Record<string, unknown>[],
+  prefix = `b${++batchCounter}_`,
+  sharedIds: Iterable<string> = [],
+): Record<string, unknown>[] {
   const idMap = new Map<string, string>();
+  for (const id of sharedIds) {
+    idMap.set(id, prefix + id);
+  }
 
   // First pass: collect all IDs and create mappings
   for (const s of skeletons) {
@@ -66,6 +144,11 @@ function prefixIds(skeletons: Record<string, unknown>[]): Record<string, unknown
       updated.id = idMap.get(updated.id) || updated.id;
     }
 
+    // Keep groups from different batches apart
+    if (Array.isArray(updated.groupIds)) {
+      updated.groupIds = (updated.groupIds as string[]).map((g) => prefix + g);
+    }
+
     // Update arrow start/end references
     if (updated.start && typeof updated.start === "object") {
       const start = updated.start as Record<string, unknown>;
@@ -84,9 +167,247 @@ function prefixIds(skeletons: Record<string, unknown>[]): Record<string, unknown
   });
 }
 
+// Convert skeletons to Excalidraw elements (handles bindings internally).
+// Arrows may also point at elements already in the scene: those are handed
+// to the converter as anchors, so it binds to them instead of creating new
+// shapes with the same IDs, and are left out of the result.
+function skeletonsToElements(
+  skeletons: Record<string, unknown>[],
+  scene: readonly ExcalidrawElement[] = [],
+) {
+  const batchIds = new Set(skeletons.map((s) => s.id));
+  const referenced = new Set<string>();
+  for (const s of skeletons) {
+    for (const endpoint of [s.start, s.end]) {
+      const id = endpoint && typeof endpoint === "object"
+        ? (endpoint as Record<string, unknown>).id
+        : undefined;
+      if (typeof id === "string" && !batchIds.has(id)) referenced.add(id);
+    }
+  }
+  const anchors = scene.filter(
+    (el) => referenced.has(el.id) && !el.isDeleted && ANCHOR_TYPES.has(el.type),
+  );
+  const anchorIds = new Set(anchors.map((el) => el.id));
+
+  const rawElements = convertToExcalidrawElements(
+    [...anchors, ...skeletons] as Parameters<typeof convertToExcalidrawElements>[0],
+    { regenerateIds: false },
+  );
+
+  // Deep clone to break internal cached references, normalize arrows,
+  // then restore through restoreElements for proper Excalidraw objects
+  const cloned = JSON.parse(
+    JSON.stringify(rawElements.filter((el) => !anchorIds.has(el.id))),
+  );
+  normalizeLinearElements(cloned);
+  return restoreElements(cloned, null, {
+    refreshDimensions: false,
+    repairBindings: true,
+  });
+}
+
+const ANCHOR_TYPES = new Set(["rectangle", "ellipse", "diamond", "text"]);
+
+// Record new arrows in the boundElements of the scene elements they attach
+// to, so those arrows follow when the elements move
+function attachArrows(
+  scene: ExcalidrawElement[],
+  newElements: readonly ExcalidrawElement[],
+): ExcalidrawElement[] {
+  const newIds = new Set(newElements.map((el) => el.id));
+  const additions = new Map<string, string[]>();
+  for (const el of newElements) {
+    if (el.type !== "arrow") continue;
+    for (const binding of [el.startBinding, el.endBinding]) {
+      if (binding && !newIds.has(binding.elementId)) {
+        additions.set(binding.elementId, [...(additions.get(binding.elementId) ?? []), el.id]);
+      }
+    }
+  }
+  if (additions.size === 0) return scene;
+  return scene.map((el) => {
+    const arrowIds = additions.get(el.id);
+    if (!arrowIds || newIds.has(el.id)) return el;
+    const kept = (el.boundElements ?? []).filter((b) => !arrowIds.includes(b.id));
+    return newElementWith(el, {
+      boundElements: [...kept, ...arrowIds.map((id) => ({ id, type: "arrow" as const }))],
+    });
+  });
+}
+
+// Mark elements deleted, together with arrows attached to them and any text
+// bound inside either, then drop references to them from the boundElements
+// of what remains
+function deleteElements(scene: ExcalidrawElement[], ids: string[]): ExcalidrawElement[] {
+  const targets = new Set(ids);
+  for (const el of scene) {
+    if (!targets.has(el.id)) continue;
+    for (const bound of el.boundElements ?? []) {
+      if (bound.type === "arrow") targets.add(bound.id);
+    }
+  }
+  for (const el of scene) {
+    if (el.type !== "arrow") continue;
+    if ([el.startBinding, el.endBinding].some((b) => b && targets.has(b.elementId))) {
+      targets.add(el.id);
+    }
+  }
+  for (const el of scene) {
+    if (el.type === "text" && el.containerId && targets.has(el.containerId)) targets.add(el.id);
+  }
+
+  return scene.map((el) => {
+    if (targets.has(el.id)) return el.isDeleted ? el : newElementWith(el, { isDeleted: true });
+    const bound = el.boundElements;
+    if (!bound?.some((b) => targets.has(b.id))) return el;
+    const kept = bound.filter((b) => !targets.has(b.id));
+    return newElementWith(el, { boundElements: kept.length > 0 ? kept : null });
+  });
+}
+
+// Change visual properties only. Stroke color and font size carry over to
+// bound text, as they do when restyling a shape in the editor.
+function restyleElements(
+  scene: ExcalidrawElement[],
+  ids: string[],
+  style: RestyleStyle,
+): ExcalidrawElement[] {
+  const targets = new Set(ids);
+  const { fontSize, ...visual } = style;
+  const resized = new Set<string>();
+
+  const restyled = scene.map((el) => {
+    if (el.isDeleted) return el;
+    const direct = targets.has(el.id);
+    const boundText =
+      el.type === "text" && !!el.containerId && targets.has(el.containerId);
+    if (!direct && !boundText) return el;
+
+    if (el.type === "text") {
+      const resize = fontSize !== undefined && fontSize !== el.fontSize;
+      if (resize) resized.add(el.id);
+      const updates: Partial<ExcalidrawTextElement> = {
+        ...(direct ? visual : visual.strokeColor ? { strokeColor: visual.strokeColor } : {}),
+        ...(resize ? { fontSize } : {}),
+      };
+      return Object.keys(updates).length > 0 ? newElementWith(el, updates) : el;
+    }
+    return direct ? newElementWith(el, visual) : el;
+  });
+  if (resized.size === 0) return restyled;
+
+  // Re-measure text whose font size changed; containers go along so bound
+  // text is re-centered
+  const containerIds = new Set(
+    restyled.flatMap((el) =>
+      resized.has(el.id) && el.type === "text" && el.containerId ? [el.containerId] : [],
+    ),
+  );
+  const measured = new Map(
+    restoreElements(
+      restyled.filter((el) => resized.has(el.id) || containerIds.has(el.id)),
+      null,
+      { refreshDimensions: true },
+    )
+      .filter((el) => resized.has(el.id))
+      .map((el) => [el.id, el]),
+  );
+  return restyled.map((el) => measured.get(el.id) ?? el);
+}
+
+// An arrow is ready to preview once every shape it references has streamed in
+function hasStreamedEndpoints(skeleton: Record<string, unknown>, shapeIds: Set<string>) {
+  if (skeleton.type !== "arrow") return true;
+  return [skeleton.start, skeleton.end].every((endpoint) => {
+    if (endpoint === undefined || endpoint === null) return true;
+    const id =
+      typeof endpoint === "object"
+        ? (endpoint as Record<string, unknown>).id
+        : endpoint;
+    return shapeIds.has(String(id));
+  });
+}
+
+// Dashed rectangle drawn around an element to mark it
+function outlineSkeleton(el: ExcalidrawElement, id: string, color: string): Record<string, unknown> {
+  return {
+    type: "rectangle",
+    id,
+    x: el.x - 6,
+    y: el.y - 6,
+    width: el.width + 12,
+    height: el.height + 12,
+    strokeColor: color,
+    strokeStyle: "dashed",
+    backgroundColor: "transparent",
+    roughness: 0,
+  };
+}
+
+// Timeline label of a chat turn, e.g. "Chat turn: 3 added, 1 modified"
+function turnLabel(changes: ElementChange[]): string {
+  const { added, modified, deleted } = recordTurn(changes);
+  const counts: [number, string][] = [
+    [added.length, "added"],
+    [modified.length, "modified"],
+    [deleted.length, "deleted"],
+  ];
+  const parts = counts.filter(([n]) => n > 0).map(([n, what]) => `${n} ${what}`);
+  return parts.length > 0 ? `Chat turn: ${parts.join(", ")}` : "Chat turn";
+}
+
+// Small picture of a scene for the drawing list; undefined when it is empty
+async function renderThumbnail(
+  elements: readonly ExcalidrawElement[],
+  files: BinaryFiles,
+): Promise<string | undefined> {
+  const live = elements.filter((el) => !el.isDeleted);
+  if (live.length === 0) return undefined;
+  const blob = await exportToBlob({
+    elements: live,
+    appState: { exportBackground: true, viewBackgroundColor: "#ffffff" },
+    files,
+    mimeType: "image/png",
+    exportPadding: 16,
+    getDimensions: (width: number, height: number) => {
+      const scale = Math.min(1, (THUMBNAIL_SIZE * 2) / Math.max(width, height));
+      return { width: width * scale, height: height * scale, scale };
+    },
+  });
+  return scaleImage(blob, THUMBNAIL_SIZE, 0.7);
+}
+
 export default function ExcalidrawApp() {
   const [api, setApi] = useState<ExcalidrawImperativeAPI | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [drawings, setDrawings] = useState<DrawingMeta[]>([]);
+  const [drawingId, setDrawingId] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Version history of the open drawing, newest first
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  // Bumped when a sync replaced the open drawing, to reload its chat
+  const [chatRevision, setChatRevision] = useState(0);
+  // The open drawing and what the database holds of it
+  const activeRef = useRef<{ id: string; saved: SavedScene } | null>(null);
+  // Latest scene from the editor, written by the next save
+  const pendingRef = useRef<{ elements: readonly ExcalidrawElement[]; files: BinaryFiles } | null>(null);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Newest snapshot of the open drawing, to skip unchanged scenes and space
+  // out snapshots of manual editing
+  const lastSnapshotRef = useRef<{ drawingId: string; at: number; version: number } | null>(null);
+  // Snapshots are written one after another, so each sees the one before
+  const snapshotQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const syncingRef = useRef(false);
+  // Elements drawn while a response is still streaming
+  const previewRef = useRef<{ skeletons: Record<string, unknown>[]; elementIds: Set<string> }>({
+    skeletons: [],
+    elementIds: new Set(),
+  });
+  // Translucent overlay of a proposed change awaiting review
+  const ghostIdsRef = useRef<Set<string>>(new Set());
 
   const handleAPIReady = useCallback(
     (excalidrawAPI: ExcalidrawImperativeAPI) => {
@@ -95,142 +416,782 @@ export default function ExcalidrawApp() {
     [],
   );
 
+  // onChange fires on every pointer move; only re-render when the selection
+  // itself changes
+  const handleSelectionChange = useCallback((ids: string[]) => {
+    setSelectedIds((prev) =>
+      prev.length === ids.length && prev.every((id, i) => id === ids[i]) ? prev : ids,
+    );
+  }, []);
+
+  // Add a snapshot of `elements` to the open drawing's history and thin out
+  // older ones. Apart from checkpoints, an empty scene or one unchanged since
+  // the last snapshot is skipped.
+  const takeSnapshot = useCallback(
+    (kind: SnapshotKind, details: { name?: string; label?: string }, elements: readonly ExcalidrawElement[]) => {
+      const drawingId = activeRef.current?.id;
+      if (!api || !drawingId) return Promise.resolve();
+      const live = elements.filter((el) => !el.isDeleted);
+      const files = api.getFiles();
+      const task = snapshotQueueRef.current.then(async () => {
+        const version = hashElementsVersion(live);
+        const last = lastSnapshotRef.current?.drawingId === drawingId ? lastSnapshotRef.current : null;
+        if (kind !== "checkpoint" && (live.length === 0 || last?.version === version)) return;
+        const thumbnail = await renderThumbnail(live, files).catch(() => undefined);
+        const meta = await addSnapshot(
+          { drawingId, createdAt: Date.now(), kind, ...details, thumbnail, elementCount: live.length, version },
+          live,
+        );
+        const history = await listSnapshots(drawingId);
+        const thinned = snapshotsToThin(history);
+        await deleteSnapshots(drawingId, thinned);
+        if (activeRef.current?.id !== drawingId) return;
+        lastSnapshotRef.current = { drawingId, at: meta.createdAt, version };
+        setSnapshots(history.filter((s) => !thinned.includes(s.id)));
+      });
+      snapshotQueueRef.current = task.catch((err) => {
+        setStorageError(err instanceof Error ? err.message : String(err));
+      });
+      return snapshotQueueRef.current;
+    },
+    [api],
+  );
+
+  // Write the latest scene of the open drawing. Only elements and files that
+  // changed since the last save are written; the thumbnail follows. Manual
+  // editing is snapshotted at most every SNAPSHOT_INTERVAL_MS.
+  const flushSave = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const active = activeRef.current;
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!active || !pending) return;
+
+    // Never persist a half-streamed preview or a proposal overlay
+    const previewIds = previewRef.current.elementIds;
+    const ghostIds = ghostIdsRef.current;
+    const committed = pending.elements.filter((el) => !previewIds.has(el.id) && !ghostIds.has(el.id));
+    try {
+      if (!(await saveScene(active.id, committed, pending.files, active.saved))) return;
+      setStorageError(null);
+    } catch (err) {
+      setStorageError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    const last = lastSnapshotRef.current;
+    if (last?.drawingId !== active.id || Date.now() - last.at >= SNAPSHOT_INTERVAL_MS) {
+      takeSnapshot("auto", { label: "Edits" }, committed);
+    }
+    const thumbnail = await renderThumbnail(committed, pending.files).catch(() => null);
+    if (thumbnail === null) return;
+    await updateDrawing(active.id, { thumbnail }).catch(() => {});
+    const updatedAt = Date.now();
+    setDrawings((prev) => prev.map((d) => (d.id === active.id ? { ...d, thumbnail, updatedAt } : d)));
+  }, [takeSnapshot]);
+
+  const saveCanvas = useCallback(
+    (elements: readonly unknown[], files: BinaryFiles) => {
+      pendingRef.current = { elements: elements as readonly ExcalidrawElement[], files };
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = setTimeout(flushSave, 2000);
+    },
+    [flushSave],
+  );
+
+  // Save what is pending before the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") flushSave();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, [flushSave]);
+
+  // Show another drawing: the open one is saved first, and the editor's undo
+  // history starts over
+  const openDrawing = useCallback(
+    async (id: string) => {
+      if (!api) return;
+      await flushSave();
+      const [{ elements, files, saved }, history] = await Promise.all([loadDrawing(id), listSnapshots(id)]);
+      activeRef.current = { id, saved };
+      lastSnapshotRef.current = history[0]
+        ? { drawingId: id, at: history[0].createdAt, version: history[0].version }
+        : null;
+      setSnapshots(history);
+      pendingRef.current = null;
+      previewRef.current = { skeletons: [], elementIds: new Set() };
+      ghostIdsRef.current = new Set();
+      api.resetScene();
+      if (files.length > 0) api.addFiles(files);
+      api.updateScene({ elements, captureUpdate: CaptureUpdateAction.NEVER });
+      if (elements.length > 0) api.scrollToContent(elements, { fitToViewport: true });
+      setDrawingId(id);
+      localStorage.setItem(ACTIVE_DRAWING_KEY, id);
+    },
+    [api, flushSave],
+  );
+
+  // Move localStorage data from before drawings existed, then open the
+  // drawing used last (or a new one)
   const hasRestoredRef = useRef(false);
   useEffect(() => {
     if (!api || hasRestoredRef.current) return;
     hasRestoredRef.current = true;
+    (async () => {
+      try {
+        await migrateLocalStorage();
+        let list = await listDrawings();
+        if (list.length === 0) list = [await createDrawing(nextDrawingName([]))];
+        setDrawings(list);
+        const last = localStorage.getItem(ACTIVE_DRAWING_KEY);
+        await openDrawing(list.find((d) => d.id === last)?.id ?? list[0].id);
+      } catch (err) {
+        setStorageError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+  }, [api, openDrawing]);
+
+  // Exchange changes with the server. The open drawing is saved first and
+  // left alone while it has unsaved edits; when the server had a newer
+  // version of it, that version is opened in its place.
+  const runSync = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncStatus("syncing");
     try {
-      const saved = localStorage.getItem(CANVAS_STORAGE_KEY);
-      if (saved) {
-        const elements = JSON.parse(saved);
-        if (Array.isArray(elements) && elements.length > 0) {
-          api.updateScene({ elements });
-          api.scrollToContent(elements, { fitToViewport: true });
-        }
+      await flushSave();
+      const { pulled, removed } = await syncDrawings(
+        (id) => id === activeRef.current?.id && pendingRef.current !== null,
+      );
+      let list = await listDrawings();
+      const activeId = activeRef.current?.id;
+      if (activeId && removed.includes(activeId)) {
+        activeRef.current = null;
+        pendingRef.current = null;
+        if (list.length === 0) list = [await createDrawing(nextDrawingName([]))];
+        await openDrawing(list[0].id);
+      } else if (activeId && pulled.includes(activeId)) {
+        await openDrawing(activeId);
+        setChatRevision((n) => n + 1);
       }
-    } catch {
-      // ignore
+      setDrawings(list);
+      setSyncStatus("synced");
+    } catch (err) {
+      setSyncStatus(failedSyncStatus(err));
+    } finally {
+      syncingRef.current = false;
     }
-  }, [api]);
+  }, [flushSave, openDrawing]);
 
-  const saveCanvasToStorage = useCallback(
-    (elements: readonly unknown[]) => {
-      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
-      saveTimerRef.current = setTimeout(() => {
-        try {
-          localStorage.setItem(CANVAS_STORAGE_KEY, JSON.stringify(elements));
-        } catch {
-          // ignore
+  // Sync once a drawing is open, then periodically and whenever the browser
+  // comes back online
+  const hasDrawing = drawingId !== null;
+  useEffect(() => {
+    if (!hasDrawing) return;
+    const timer = setTimeout(runSync, 0);
+    const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener("online", runSync);
+    return () => {
+      clearTimeout(timer);
+      clearInterval(interval);
+      window.removeEventListener("online", runSync);
+    };
+  }, [hasDrawing, runSync]);
+
+  const handleServerKey = useCallback(
+    (key: string) => {
+      setServerKey(key);
+      runSync();
+    },
+    [runSync],
+  );
+
+  const runStorage = useCallback(async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setStorageError(null);
+    } catch (err) {
+      setStorageError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  const handleCreateDrawing = useCallback(
+    () =>
+      runStorage(async () => {
+        const meta = await createDrawing(nextDrawingName(drawings));
+        setDrawings((prev) => [meta, ...prev]);
+        await openDrawing(meta.id);
+      }),
+    [drawings, openDrawing, runStorage],
+  );
+
+  const handleRenameDrawing = useCallback(
+    (id: string, name: string) =>
+      runStorage(async () => {
+        const updatedAt = Date.now();
+        await updateDrawing(id, { name, updatedAt });
+        setDrawings((prev) => prev.map((d) => (d.id === id ? { ...d, name, updatedAt } : d)));
+      }),
+    [runStorage],
+  );
+
+  const handleDuplicateDrawing = useCallback(
+    (id: string) =>
+      runStorage(async () => {
+        if (id === activeRef.current?.id) await flushSave();
+        const source = drawings.find((d) => d.id === id);
+        const meta = await duplicateDrawing(id, nextDrawingName(drawings, `${source?.name ?? "Drawing"} (copy)`));
+        setDrawings((prev) => [meta, ...prev]);
+        await openDrawing(meta.id);
+      }),
+    [drawings, flushSave, openDrawing, runStorage],
+  );
+
+  // Deleting the open drawing opens the next one, or a new empty drawing
+  const handleDeleteDrawing = useCallback(
+    (id: string) =>
+      runStorage(async () => {
+        const rest = drawings.filter((d) => d.id !== id);
+        if (id === activeRef.current?.id) {
+          // Nothing of the deleted drawing is saved on the way out
+          activeRef.current = null;
+          pendingRef.current = null;
+          if (rest.length === 0) rest.push(await createDrawing(nextDrawingName([])));
+          await openDrawing(rest[0].id);
         }
-      }, 2000);
+        await deleteDrawing(id);
+        setDrawings(rest);
+        // The server is told on the next sync if it is not reachable now
+        if (drawings.find((d) => d.id === id)?.syncedAt !== undefined) {
+          queueDeletion(id);
+          runSync();
+        }
+      }),
+    [drawings, openDrawing, runStorage, runSync],
+  );
+
+  // The open drawing is saved first so the link shows what is on the canvas
+  const handleShareDrawing = useCallback(
+    async (id: string, includeChat: boolean) => {
+      if (id === activeRef.current?.id) await flushSave();
+      const share = await shareDrawing(id, includeChat);
+      setDrawings(await listDrawings());
+      return share;
     },
-    [],
+    [flushSave],
   );
 
-  const handleElementsGenerated = useCallback(
-    (skeletons: unknown[], action: string) => {
+  const handleUnshareDrawing = useCallback(async (id: string) => {
+    await unshareDrawing(id);
+    setDrawings((prev) => prev.map((d) => (d.id === id ? { ...d, share: undefined } : d)));
+  }, []);
+
+  // Scene elements excluding any streaming preview or proposal overlay
+  const getCommittedElements = useCallback(() => {
+    if (!api) return [];
+    const previewIds = previewRef.current.elementIds;
+    const ghostIds = ghostIdsRef.current;
+    return api
+      .getSceneElements()
+      .filter((el) => !previewIds.has(el.id) && !ghostIds.has(el.id));
+  }, [api]);
+
+  const handleElementsPreview = useCallback(
+    (skeletons: unknown[]) => {
       if (!api) return;
+      const preview = previewRef.current;
+      const isFirstBatch = preview.skeletons.length === 0;
+      preview.skeletons.push(...(skeletons as Record<string, unknown>[]));
 
-      const typed = skeletons as Record<string, unknown>[];
+      // Defer arrows until their endpoints exist
+      const shapeIds = new Set<string>();
+      for (const s of preview.skeletons) {
+        if (s.type !== "arrow" && s.type !== "line" && s.id !== undefined) {
+          shapeIds.add(String(s.id));
+        }
+      }
+      const ready = preview.skeletons.filter((s) => hasStreamedEndpoints(s, shapeIds));
 
-      // For "add" action, prefix IDs to avoid collision with existing elements
-      const processedSkeletons =
-        action === "add" ? prefixIds(typed) : typed;
+      // Preview elements go through the same validation as the final response
+      const validation = validateDiagramResponse({ action: "add", elements: ready });
+      if (!validation.ok) return;
 
-      // Convert skeletons to Excalidraw elements (handles bindings internally)
-      const rawElements = convertToExcalidrawElements(
-        processedSkeletons as Parameters<typeof convertToExcalidrawElements>[0],
-        { regenerateIds: false },
+      const elements = skeletonsToElements(
+        prefixIds(
+          validation.response.elements as unknown as Record<string, unknown>[],
+          PREVIEW_ID_PREFIX,
+        ),
       );
+      const committed = getCommittedElements();
+      preview.elementIds = new Set(elements.map((el) => el.id));
+      api.updateScene({
+        elements: [...committed, ...elements],
+        captureUpdate: CaptureUpdateAction.EVENTUALLY,
+      });
 
-      // Deep clone to break internal cached references, normalize arrows,
-      // then restore through restoreElements for proper Excalidraw objects
-      const cloned = JSON.parse(JSON.stringify(rawElements));
-      normalizeLinearElements(cloned);
-      const newElements = restoreElements(cloned, null, {
-        refreshDimensions: false,
-        repairBindings: true,
+      if (isFirstBatch) {
+        api.scrollToContent(elements, { fitToViewport: false });
+      }
+    },
+    [api, getCommittedElements],
+  );
+
+  const clearPreview = useCallback(() => {
+    if (!api) return;
+    const committed = getCommittedElements();
+    const hadPreview = previewRef.current.elementIds.size > 0;
+    previewRef.current = { skeletons: [], elementIds: new Set() };
+    if (hadPreview) {
+      api.updateScene({
+        elements: committed,
+        captureUpdate: CaptureUpdateAction.EVENTUALLY,
       });
+    }
+  }, [api, getCommittedElements]);
 
-      if (action === "replace") {
-        api.updateScene({ elements: newElements });
-      } else if (action === "modify") {
-        const existing = api.getSceneElements();
-        const incomingById = new Map<string, (typeof newElements)[number]>();
-        for (const el of newElements) {
-          if (el.id) incomingById.set(el.id, el);
+  // Overlay a proposed turn without applying it: new and changed elements
+  // are drawn translucent and locked, and the elements it would change or
+  // remove are outlined. null clears the overlay.
+  const handleProposalPreview = useCallback(
+    (operations: DiagramOperation[] | null) => {
+      if (!api) return;
+      const committed = getCommittedElements();
+      const hadOverlay =
+        ghostIdsRef.current.size > 0 || previewRef.current.elementIds.size > 0;
+      previewRef.current = { skeletons: [], elementIds: new Set() };
+      ghostIdsRef.current = new Set();
+      if (!operations) {
+        if (hadOverlay) {
+          api.updateScene({ elements: committed, captureUpdate: CaptureUpdateAction.EVENTUALLY });
         }
-        const updatedElements = existing.map((el) => {
-          const replacement = incomingById.get(el.id);
-          if (replacement) {
-            incomingById.delete(el.id);
-            return replacement;
+        return;
+      }
+
+      const live = committed.filter((el) => !el.isDeleted);
+      const liveIds = new Set(live.map((el) => el.id));
+      const proposed = operations.flatMap((op) =>
+        "elements" in op ? (op.elements as unknown as Record<string, unknown>[]) : [],
+      );
+      const outlined = new Map<string, string>();
+      for (const op of operations) {
+        if (op.action === "delete") {
+          for (const id of op.ids) outlined.set(id, GHOST_REMOVED_COLOR);
+        } else if (op.action === "restyle") {
+          for (const id of op.ids) outlined.set(id, GHOST_CHANGED_COLOR);
+        } else if (op.action === "modify") {
+          for (const el of op.elements) {
+            if (el.id && liveIds.has(el.id)) outlined.set(el.id, GHOST_CHANGED_COLOR);
+          }
+        } else if (op.action === "replace") {
+          const kept = new Set(op.elements.map((el) => el.id));
+          for (const el of live) {
+            if (el.type === "text" && el.containerId) continue;
+            outlined.set(el.id, kept.has(el.id) ? GHOST_CHANGED_COLOR : GHOST_REMOVED_COLOR);
           }
-          return el;
-        });
-        const remainingNew = Array.from(incomingById.values());
-        api.updateScene({ elements: [...updatedElements, ...remainingNew] });
-      } else {
-        // "add"
-        const existing = api.getSceneElements();
-        api.updateScene({ elements: [...existing, ...newElements] });
+        }
       }
+      const outlines = live.flatMap((el) => {
+        const color = outlined.get(el.id);
+        return color ? [outlineSkeleton(el, `${GHOST_ID_PREFIX}outline_${el.id}`, color)] : [];
+      });
 
-      setTimeout(() => {
-        api.scrollToContent(newElements, { fitToViewport: true });
-      }, 100);
+      const ghosts = [
+        ...skeletonsToElements(prefixIds(proposed, GHOST_ID_PREFIX), committed),
+        ...skeletonsToElements(outlines),
+      ].map((el) => ({ ...el, opacity: Math.min(el.opacity, 40), locked: true }));
+      ghostIdsRef.current = new Set(ghosts.map((el) => el.id));
+      api.updateScene({
+        elements: [...committed, ...ghosts],
+        captureUpdate: CaptureUpdateAction.EVENTUALLY,
+      });
+      if (ghosts.length > 0) {
+        setTimeout(() => {
+          api.scrollToContent(ghosts, { fitToViewport: true });
+        }, 100);
+      }
     },
-    [api],
+    [api, getCommittedElements],
   );
 
-  const getCanvasContext = useCallback((): string => {
-    if (!api) return "";
-    const elements = api.getSceneElements();
-    if (!elements || elements.length === 0) return "Canvas is empty.";
-
-    const limited = elements.slice(0, 50);
-    const summary = limited.map((el) => {
-      const base: Record<string, unknown> = {
-        id: el.id,
-        type: el.type,
-        x: Math.round(el.x),
-        y: Math.round(el.y),
-        width: Math.round(el.width),
-        height: Math.round(el.height),
-      };
-      const elAny = el as Record<string, unknown>;
-      if (elAny.type === "text" && typeof elAny.text === "string") {
-        base.text = elAny.text;
+  // Apply one model turn. Operations run in order against a working copy of
+  // the scene, which is committed as a single undoable update. With a scope,
+  // changes to existing elements outside it are skipped and reported back.
+  // The elements the turn changed are returned so the chat can revert it.
+  const handleElementsGenerated = useCallback(
+    (requested: DiagramOperation[], scope: string[] = []): AppliedTurn => {
+      if (!api) return { operations: [], blocked: [], changes: [] };
+
+      const initial = getCommittedElements();
+      let scene: ExcalidrawElement[] = [...initial];
+      const { operations, blocked } =
+        scope.length > 0
+          ? scopeOperations(
+              requested,
+              expandSelection(scene, scope),
+              new Set(scene.filter((el) => !el.isDeleted).map((el) => el.id)),
+            )
+          : { operations: requested, blocked: [] };
+
+      // For "add", prefix IDs to avoid collision with existing elements. One
+      // prefix per turn lets a later operation connect to shapes added by an
+      // earlier one.
+      const prefix = `b${++batchCounter}_`;
+      const addedIds = operations.flatMap((op) =>
+        op.action === "add" ? op.elements.flatMap((el) => (el.id ? [el.id] : [])) : [],
+      );
+
+      const produced: ExcalidrawElement[] = [];
+
+      for (const op of operations) {
+        if (op.action === "delete") {
+          scene = deleteElements(scene, op.ids);
+          continue;
+        }
+        if (op.action === "restyle") {
+          scene = restyleElements(scene, op.ids, op.style);
+          continue;
+        }
+
+        const typed = op.elements as unknown as Record<string, unknown>[];
+        const processedSkeletons =
+          op.action === "add" ? prefixIds(typed, prefix, addedIds) : typed;
+        const newElements = skeletonsToElements(
+          processedSkeletons,
+          op.action === "replace" ? [] : scene,
+        );
+        produced.push(...newElements);
+
+        if (op.action === "replace") {
+          scene = [...newElements];
+        } else if (op.action === "modify") {
+          const incomingById = new Map<string, ExcalidrawElement>();
+          for (const el of newElements) {
+            if (el.id) incomingById.set(el.id, el);
+          }
+          // Old labels of containers that arrive with a new label
+          const replacedText = new Set<string>();
+          const updatedElements = scene.map((el) => {
+            const replacement = incomingById.get(el.id);
+            if (replacement) {
+              incomingById.delete(el.id);
+              // Keep arrows bound to the old version, and its label unless
+              // the new version brings one
+              const hasLabel = (replacement.boundElements ?? []).some((b) => b.type === "text");
+              const carried = (el.boundElements ?? []).filter((b) => {
+                if (newElements.some((n) => n.id === b.id)) return false;
+                if (b.type === "text" && hasLabel) {
+                  replacedText.add(b.id);
+                  return false;
+                }
+                return true;
+              });
+              return carried.length > 0
+                ? newElementWith(replacement, {
+                    boundElements: [...(replacement.boundElements ?? []), ...carried],
+                  })
+                : replacement;
+            }
+            return el;
+          });
+          const remainingNew = Array.from(incomingById.values());
+          scene = attachArrows(
+            deleteElements([...updatedElements, ...remainingNew], [...replacedText]),
+            newElements,
+          );
+        } else {
+          // "add"
+          scene = attachArrows([...scene, ...newElements], newElements);
+        }
+      }
+
+      // The streaming preview is replaced by the final batch, which lands
+      // as a single undoable scene update
+      previewRef.current = { skeletons: [], elementIds: new Set() };
+      api.updateScene({ elements: scene, captureUpdate: CaptureUpdateAction.IMMEDIATELY });
+
+      if (produced.length > 0) {
+        setTimeout(() => {
+          api.scrollToContent(produced, { fitToViewport: true });
+        }, 100);
+      }
+      // The scene before the turn goes into the history too, unless it was
+      // snapshotted already
+      const changes = diffScenes(initial, scene);
+      if (changes.length > 0) {
+        takeSnapshot("auto", { label: "Before chat turn" }, initial);
+        takeSnapshot("turn", { label: turnLabel(changes) }, scene);
       }
-      if (elAny.backgroundColor) base.backgroundColor = elAny.backgroundColor;
-      return base;
+      return { operations, blocked, changes };
+    },
+    [api, getCommittedElements, takeSnapshot],
+  );
+
+  // Revert or re-apply an earlier turn from the chat, as its own undoable
+  // update
+  const handleApplyChanges = useCallback(
+    (changes: ElementChange[], direction: ChangeDirection) => {
+      if (!api) return { changes, conflicts: [] };
+      const result = applyChanges(getCommittedElements(), changes, direction);
+      previewRef.current = { skeletons: [], elementIds: new Set() };
+      api.updateScene({
+        elements: result.elements,
+        captureUpdate: CaptureUpdateAction.IMMEDIATELY,
+      });
+
+      const touched = new Set(changes.map((c) => c.id));
+      const visible = result.elements.filter((el) => touched.has(el.id) && !el.isDeleted);
+      if (visible.length > 0) {
+        setTimeout(() => {
+          api.scrollToContent(visible, { fitToViewport: true });
+        }, 100);
+      }
+      return { changes: result.changes, conflicts: result.conflicts };
+    },
+    [api, getCommittedElements],
+  );
+
+  const handleCheckpoint = useCallback(
+    (name: string) => takeSnapshot("checkpoint", { name }, getCommittedElements()),
+    [getCommittedElements, takeSnapshot],
+  );
+
+  // Put the canvas back to a snapshot as one undoable update. The scene as
+  // it was goes into the history first, so the restore can be reverted
+  // from there as well.
+  const handleRestoreSnapshot = useCallback(
+    (id: string) =>
+      runStorage(async () => {
+        const active = activeRef.current;
+        if (!api || !active) return;
+        const snapshot = await loadSnapshotScene(active.id, id);
+        const current = getCommittedElements();
+        await takeSnapshot("auto", { label: "Before restore" }, current);
+        const { elements } = applyChanges(current, diffScenes(snapshot, current), "revert");
+        previewRef.current = { skeletons: [], elementIds: new Set() };
+        ghostIdsRef.current = new Set();
+        api.updateScene({ elements, captureUpdate: CaptureUpdateAction.IMMEDIATELY });
+      }),
+    [api, getCommittedElements, runStorage, takeSnapshot],
+  );
+
+  // Open a snapshot as a new drawing, leaving the open one as it is
+  const handleRestoreSnapshotCopy = useCallback(
+    (id: string) =>
+      runStorage(async () => {
+        const active = activeRef.current;
+        if (!api || !active) return;
+        const elements = await loadSnapshotScene(active.id, id);
+        const snapshot = snapshots.find((s) => s.id === id);
+        const source = drawings.find((d) => d.id === active.id);
+        const when = snapshot?.name ?? (snapshot ? new Date(snapshot.createdAt).toLocaleString() : "restored");
+        const used = new Set(elements.flatMap((el) => (el.type === "image" && el.fileId ? [el.fileId] : [])));
+        const meta = await createDrawing(
+          nextDrawingName(drawings, `${source?.name ?? "Drawing"} (${when})`),
+          { elements, files: Object.values(api.getFiles()).filter((file) => used.has(file.id)) },
+          snapshot?.thumbnail,
+        );
+        setDrawings((prev) => [meta, ...prev]);
+        await openDrawing(meta.id);
+      }),
+    [api, drawings, openDrawing, runStorage, snapshots],
+  );
+
+  // Naming a snapshot makes it a checkpoint, which is never thinned out
+  const handleNameSnapshot = useCallback(
+    (id: string, name: string) =>
+      runStorage(async () => {
+        const drawingId = activeRef.current?.id;
+        if (!drawingId) return;
+        await updateSnapshot(drawingId, id, { name, kind: "checkpoint" });
+        setSnapshots((prev) => prev.map((s) => (s.id === id ? { ...s, name, kind: "checkpoint" } : s)));
+      }),
+    [runStorage],
+  );
+
+  const handleDeleteSnapshot = useCallback(
+    (id: string) =>
+      runStorage(async () => {
+        const drawingId = activeRef.current?.id;
+        if (!drawingId) return;
+        await deleteSnapshots(drawingId, [id]);
+        setSnapshots((prev) => prev.filter((s) => s.id !== id));
+      }),
+    [runStorage],
+  );
+
+  // The canvas now with what changed since a snapshot outlined: added and
+  // changed elements in green and blue, and removed ones drawn faintly from
+  // the snapshot in red
+  const compareSnapshot = useCallback(
+    async (id: string): Promise<SnapshotComparison> => {
+      const active = activeRef.current;
+      if (!api || !active) throw new Error("No drawing is open");
+      const snapshot = await loadSnapshotScene(active.id, id);
+      const current = getCommittedElements().filter((el) => !el.isDeleted);
+      const diff = diffSnapshot(snapshot, current);
+
+      const removed = new Set(diff.removed);
+      const gone = snapshot
+        .filter((el) => removed.has(el.id) || (el.type === "text" && el.containerId && removed.has(el.containerId)))
+        .map((el) => ({ ...el, opacity: Math.min(el.opacity, 30) }));
+      const colors = new Map<string, string>([
+        ...diff.added.map((elementId): [string, string] => [elementId, DIFF_ADDED_COLOR]),
+        ...diff.changed.map((elementId): [string, string] => [elementId, GHOST_CHANGED_COLOR]),
+      ]);
+      const outlines = [
+        ...current.flatMap((el) => {
+          const color = colors.get(el.id);
+          return color ? [outlineSkeleton(el, `diff_${el.id}`, color)] : [];
+        }),
+        ...snapshot
+          .filter((el) => removed.has(el.id))
+          .map((el) => outlineSkeleton(el, `diff_${el.id}`, GHOST_REMOVED_COLOR)),
+      ];
+
+      const elements = [...current, ...gone, ...skeletonsToElements(outlines)];
+      if (elements.length === 0) return { diff };
+      const blob = await exportToBlob({
+        elements,
+        appState: { exportBackground: true, viewBackgroundColor: "#ffffff" },
+        files: api.getFiles(),
+        mimeType: "image/png",
+        exportPadding: 16,
+        getDimensions: (width: number, height: number) => {
+          const scale = Math.min(1, DIFF_IMAGE_SIZE / Math.max(width, height));
+          return { width: width * scale, height: height * scale, scale };
+        },
+      });
+      return { image: await scaleImage(blob, DIFF_IMAGE_SIZE, 0.8), diff };
+    },
+    [api, getCommittedElements],
+  );
+
+  // A scope limits the full listing to those elements (and what they cover)
+  const getCanvasContext = useCallback((scope: string[] = []): string => {
+    if (!api) return "";
+    const appState = api.getAppState();
+    const zoom = appState.zoom.value;
+    const elements = getCommittedElements();
+    return buildCanvasContext(elements, {
+      selectedIds: Object.keys(appState.selectedElementIds),
+      scope: scope.length > 0 ? expandSelection(elements, scope) : undefined,
+      viewport: {
+        x: -appState.scrollX,
+        y: -appState.scrollY,
+        width: appState.width / zoom,
+        height: appState.height / zoom,
+      },
     });
+  }, [api, getCommittedElements]);
 
-    let context = `${elements.length} elements on canvas`;
-    if (elements.length > 50) context += ` (showing first 50)`;
-    context += `:\n${JSON.stringify(summary, null, 1)}`;
-    return context;
-  }, [api]);
+  // PNG of the scene (or of the selection a request is scoped to), at most
+  // maxSize pixels on its longest side; small scenes are not scaled up
+  const getCanvasSnapshot = useCallback(
+    async (scope: string[] = [], maxSize: number): Promise<Blob | null> => {
+      if (!api) return null;
+      const live = getCommittedElements().filter((el) => !el.isDeleted);
+      const ids = scope.length > 0 ? expandSelection(live, scope) : null;
+      const elements = ids ? live.filter((el) => ids.has(el.id)) : live;
+      if (elements.length === 0) return null;
+      return exportToBlob({
+        elements,
+        appState: { ...api.getAppState(), exportBackground: true },
+        files: api.getFiles(),
+        mimeType: "image/png",
+        exportPadding: 16,
+        getDimensions: (width: number, height: number) => {
+          const scale = Math.min(1, maxSize / Math.max(width, height));
+          return { width: width * scale, height: height * scale, scale };
+        },
+      });
+    },
+    [api, getCommittedElements],
+  );
+
+  const getCanvasElementIds = useCallback((): string[] => {
+    if (!api) return [];
+    return getCommittedElements().map((el) => el.id);
+  }, [api, getCommittedElements]);
+
+  // Shapes and arrows a redrawn graph keeps in place
+  const getCanvasGraph = useCallback(() => placedGraph(getCommittedElements()), [getCommittedElements]);
+
+  const getCanvasBounds = useCallback(() => {
+    const elements = getCommittedElements();
+    if (elements.length === 0) return null;
+    return {
+      minX: Math.min(...elements.map((el) => el.x)),
+      minY: Math.min(...elements.map((el) => el.y)),
+      maxX: Math.max(...elements.map((el) => el.x + el.width)),
+      maxY: Math.max(...elements.map((el) => el.y + el.height)),
+    };
+  }, [getCommittedElements]);
 
   const handleClearCanvas = useCallback(() => {
     if (!api) return;
     api.updateScene({ elements: [] });
-    localStorage.removeItem(CANVAS_STORAGE_KEY);
   }, [api]);
 
   return (
     <div className="flex h-screen w-screen">
+      <DrawingsSidebar
+        drawings={drawings}
+        activeId={drawingId}
+        error={storageError}
+        onOpen={(id) => runStorage(() => openDrawing(id))}
+        onCreate={handleCreateDrawing}
+        onRename={handleRenameDrawing}
+        onDuplicate={handleDuplicateDrawing}
+        onDelete={handleDeleteDrawing}
+        onShowHistory={() => setShowHistory((prev) => !prev)}
+        onShare={handleShareDrawing}
+        onUnshare={handleUnshareDrawing}
+        syncStatus={syncStatus}
+        onServerKey={handleServerKey}
+      />
       <div className="flex-1 relative">
         <ExcalidrawWrapper
           onAPIReady={handleAPIReady}
-          onCanvasChange={saveCanvasToStorage}
+          onCanvasChange={saveCanvas}
+          onSelectionChange={handleSelectionChange}
         />
+        {showHistory && drawingId && (
+          <HistoryPanel
+            key={drawingId}
+            snapshots={snapshots}
+            onClose={() => setShowHistory(false)}
+            onCheckpoint={handleCheckpoint}
+            onCompare={compareSnapshot}
+            onRestore={handleRestoreSnapshot}
+            onRestoreCopy={handleRestoreSnapshotCopy}
+            onName={handleNameSnapshot}
+            onDelete={handleDeleteSnapshot}
+          />
+        )}
       </div>
-      <AIChatPanel
-        onElementsGenerated={handleElementsGenerated}
-        getCanvasContext={getCanvasContext}
-        onClearCanvas={handleClearCanvas}
-      />
+      {drawingId && (
+        <AIChatPanel
+          key={`${drawingId}:${chatRevision}`}
+          drawingId={drawingId}
+          onElementsGenerated={handleElementsGenerated}
+          onApplyChanges={handleApplyChanges}
+          onProposalPreview={handleProposalPreview}
+          onElementsPreview={handleElementsPreview}
+          onPreviewCancel={clearPreview}
+          getCanvasContext={getCanvasContext}
+          getCanvasElementIds={getCanvasElementIds}
+          getCanvasSnapshot={getCanvasSnapshot}
+          getCanvasBounds={getCanvasBounds}
+          getCanvasGraph={getCanvasGraph}
+          getSceneElements={getCommittedElements}
+          selectedIds={selectedIds}
+          onClearCanvas={handleClearCanvas}
+        />
+      )}
     </div>
   );
 }
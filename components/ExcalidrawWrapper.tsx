@@ -1,21 +1,27 @@
 "use client";
 
 import { Excalidraw } from "@excalidraw/excalidraw";
-import type { ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
+import type { BinaryFiles, ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
 import "@excalidraw/excalidraw/index.css";
 
 interface Props {
   onAPIReady: (api: ExcalidrawImperativeAPI) => void;
-  onCanvasChange?: (elements: readonly unknown[]) => void;
+  onCanvasChange?: (elements: readonly unknown[], files: BinaryFiles) => void;
+  onSelectionChange?: (selectedIds: string[]) => void;
 }
 
-export default function ExcalidrawWrapper({ onAPIReady, onCanvasChange }: Props) {
+export default function ExcalidrawWrapper({ onAPIReady, onCanvasChange, onSelectionChange }: Props) {
   return (
     <div style={{ width: "100%", height: "100%" }}>
       <Excalidraw
         excalidrawAPI={onAPIReady}
-        onChange={(elements) => {
-          onCanvasChange?.(elements);
+        onChange={(elements, appState, files) => {
+          onCanvasChange?.(elements, files);
+          onSelectionChange?.(
+            Object.keys(appState.selectedElementIds).filter(
+              (id) => appState.selectedElementIds[id],
+            ),
+          );
         }}
       />
     </div>
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { EXPORT_FORMATS, exportScene, type ExportFormat } from "@/lib/export";
+
+interface Props {
+  getSceneElements: () => readonly ExcalidrawElement[];
+}
+
+export default function ExportPanel({ getSceneElements }: Props) {
+  const [format, setFormat] = useState<ExportFormat>("mermaid");
+  const [copied, setCopied] = useState(false);
+  // The scene is read when the panel opens, the format changes or
+  // "Refresh" is pressed, not on every canvas edit
+  const [result, setResult] = useState(() => exportScene(getSceneElements(), format));
+
+  const handleFormat = (next: ExportFormat) => {
+    setFormat(next);
+    setResult(exportScene(getSceneElements(), next));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(result.text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const { extension, mime } = EXPORT_FORMATS[format];
+    const blob = new Blob([result.text], { type: mime });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `diagram.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border-b border-gray-300 bg-gray-50 px-4 py-3 space-y-2">
+      <div className="flex items-center gap-1">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+          <button
+            key={f}
+            type="button"
+            onClick={() => handleFormat(f)}
+            className={`rounded px-2 py-1 text-xs font-medium ${
+              format === f ? "bg-blue-600 text-white" : "text-gray-600 hover:bg-gray-200"
+            }`}
+          >
+            {EXPORT_FORMATS[f].label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setResult(exportScene(getSceneElements(), format))}
+          className="ml-auto text-xs text-gray-400 hover:text-gray-600"
+          title="Re-read the canvas"
+        >
+          Refresh
+        </button>
+      </div>
+      <textarea
+        readOnly
+        value={result.text}
+        rows={8}
+        className="w-full resize-none rounded border border-gray-300 bg-white px-2 py-1.5 font-mono text-xs text-gray-800"
+      />
+      <p className="text-xs text-gray-500">
+        {result.nodeCount} nodes, {result.edgeCount} edges
+      </p>
+      {result.unrepresented.length > 0 && (
+        <details className="text-xs text-amber-700">
+          <summary className="cursor-pointer">
+            {result.unrepresented.length} elements not exported
+          </summary>
+          <ul className="mt-1 list-disc space-y-0.5 pl-4">
+            {result.unrepresented.map((u) => (
+              <li key={u.id}>
+                {u.type}
+                {u.text ? ` "${u.text}"` : ""}: {u.reason}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100"
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100"
+        >
+          Download
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import type { SceneDiff, SnapshotMeta } from "@/lib/snapshots";
+
+export interface SnapshotComparison {
+  // Picture of the canvas now with the differences outlined; undefined when
+  // both scenes are empty
+  image?: string;
+  diff: SceneDiff;
+}
+
+interface Props {
+  snapshots: SnapshotMeta[];
+  onClose: () => void;
+  onCheckpoint: (name: string) => void;
+  onCompare: (id: string) => Promise<SnapshotComparison>;
+  onRestore: (id: string) => void;
+  onRestoreCopy: (id: string) => void;
+  onName: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const KIND_LABELS: Record<SnapshotMeta["kind"], string> = {
+  turn: "AI turn",
+  auto: "Auto",
+  checkpoint: "Checkpoint",
+};
+
+export default function HistoryPanel({
+  snapshots,
+  onClose,
+  onCheckpoint,
+  onCompare,
+  onRestore,
+  onRestoreCopy,
+  onName,
+  onDelete,
+}: Props) {
+  const [checkpointName, setCheckpointName] = useState("");
+  // Snapshot compared with the canvas, and the result once it is rendered
+  const [comparing, setComparing] = useState<{ id: string; result?: SnapshotComparison; error?: string } | null>(null);
+  // Snapshot whose name is being edited, and the draft
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const saveCheckpoint = () => {
+    const name = checkpointName.trim();
+    if (!name) return;
+    onCheckpoint(name);
+    setCheckpointName("");
+  };
+
+  const commitName = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (name) onName(editing.id, name);
+    setEditing(null);
+  };
+
+  const compare = async (id: string) => {
+    if (comparing?.id === id) {
+      setComparing(null);
+      return;
+    }
+    setComparing({ id });
+    try {
+      const result = await onCompare(id);
+      setComparing((prev) => (prev?.id === id ? { id, result } : prev));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      setComparing((prev) => (prev?.id === id ? { id, error } : prev));
+    }
+  };
+
+  return (
+    <div className="absolute bottom-2 right-2 top-2 z-10 flex w-72 flex-col rounded-lg border border-gray-300 bg-white shadow-lg">
+      <div className="flex items-center justify-between border-b border-gray-300 px-3 py-3">
+        <span className="font-semibold text-gray-800">History</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-gray-400 hover:text-gray-600"
+          title="Close history"
+        >
+          Close
+        </button>
+      </div>
+      <div className="flex gap-2 border-b border-gray-200 p-2">
+        <input
+          value={checkpointName}
+          onChange={(e) => setCheckpointName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") saveCheckpoint();
+          }}
+          placeholder="Checkpoint name"
+          className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={saveCheckpoint}
+          disabled={!checkpointName.trim()}
+          className="rounded bg-blue-600 px-2 py-1 text-xs text-white hover:bg-blue-700 disabled:bg-gray-300"
+          title="Save the canvas as it is now under this name"
+        >
+          Save
+        </button>
+      </div>
+      {snapshots.length === 0 ? (
+        <p className="p-3 text-xs text-gray-400">
+          Snapshots are taken after each AI turn and every few minutes while you edit.
+        </p>
+      ) : (
+        <ul className="flex-1 space-y-2 overflow-y-auto p-2">
+          {snapshots.map((snapshot) => {
+            const compared = comparing?.id === snapshot.id ? comparing : null;
+            return (
+              <li
+                key={snapshot.id}
+                className={`rounded-lg border p-1.5 ${
+                  snapshot.name ? "border-amber-300 bg-amber-50" : "border-gray-200"
+                }`}
+              >
+                {compared?.result?.image || snapshot.thumbnail ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={compared?.result?.image ?? snapshot.thumbnail}
+                    alt=""
+                    className={`${compared?.result ? "h-40" : "h-20"} w-full rounded border border-gray-100 bg-white object-contain`}
+                  />
+                ) : (
+                  <div className="flex h-20 w-full items-center justify-center rounded border border-gray-100 bg-gray-50 text-xs text-gray-300">
+                    Empty
+                  </div>
+                )}
+                {compared && (
+                  <div className="mt-1 text-xs">
+                    {compared.error ? (
+                      <p className="text-red-600">{compared.error}</p>
+                    ) : compared.result ? (
+                      <p className="text-gray-600">
+                        Since then:{" "}
+                        <span className="text-green-700">{compared.result.diff.added.length} added</span>,{" "}
+                        <span className="text-blue-700">{compared.result.diff.changed.length} changed</span>,{" "}
+                        <span className="text-red-600">{compared.result.diff.removed.length} removed</span>
+                      </p>
+                    ) : (
+                      <p className="text-gray-400">Comparing…</p>
+                    )}
+                  </div>
+                )}
+                {editing?.id === snapshot.id ? (
+                  <input
+                    autoFocus
+                    value={editing.name}
+                    onChange={(e) => setEditing({ id: snapshot.id, name: e.target.value })}
+                    onBlur={commitName}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitName();
+                      if (e.key === "Escape") setEditing(null);
+                    }}
+                    className="mt-1 w-full rounded border border-gray-300 px-1 py-0.5 text-sm text-gray-800 focus:border-blue-500 focus:outline-none"
+                  />
+                ) : (
+                  <p className="mt-1 truncate text-sm text-gray-800" title={snapshot.label}>
+                    {snapshot.name ?? snapshot.label ?? KIND_LABELS[snapshot.kind]}
+                  </p>
+                )}
+                <p className="text-xs text-gray-400">
+                  {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.elementCount} element
+                  {snapshot.elementCount === 1 ? "" : "s"}
+                </p>
+                <div className="mt-1 flex flex-wrap gap-x-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => compare(snapshot.id)}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Outline what changed on the canvas since this snapshot"
+                  >
+                    {compared ? "Hide diff" : "Compare"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onRestore(snapshot.id)}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Put the canvas back to this snapshot (undoable)"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onRestoreCopy(snapshot.id)}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Open this snapshot as a new drawing"
+                  >
+                    As copy
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditing({ id: snapshot.id, name: snapshot.name ?? "" })}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Named snapshots are kept when older ones are thinned out"
+                  >
+                    {snapshot.name ? "Rename" : "Name"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm("Delete this snapshot?")) onDelete(snapshot.id);
+                    }}
+                    className="ml-auto text-gray-400 hover:text-red-600"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
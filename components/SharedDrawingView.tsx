@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Excalidraw } from "@excalidraw/excalidraw";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { BinaryFileData, BinaryFiles } from "@excalidraw/excalidraw/types";
+import type { SharedDrawing } from "@/lib/drawing-store";
+import "@excalidraw/excalidraw/index.css";
+
+interface Props {
+  token: string;
+}
+
+// Read-only view of a shared drawing: the scene in view mode, and the chat
+// transcript beside it when the link includes it
+export default function SharedDrawingView({ token }: Props) {
+  const [drawing, setDrawing] = useState<SharedDrawing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/shared/${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => null);
+        if (cancelled) return;
+        if (data?.ok) setDrawing(data.drawing);
+        else setError(data?.error ?? `Server returned ${response.status}`);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  if (error) {
+    return <div className="flex h-screen items-center justify-center text-sm text-gray-500">{error}</div>;
+  }
+  if (!drawing) {
+    return <div className="flex h-screen items-center justify-center">Loading...</div>;
+  }
+
+  const files: BinaryFiles = {};
+  for (const file of drawing.files as BinaryFileData[]) files[file.id] = file;
+
+  return (
+    <div className="flex h-screen w-screen flex-col">
+      <div className="flex items-center gap-3 border-b border-gray-300 bg-white px-4 py-2">
+        <span className="font-semibold text-gray-800">{drawing.name}</span>
+        <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-500">Read-only</span>
+        <span className="ml-auto text-xs text-gray-400">
+          Last edited {new Date(drawing.updatedAt).toLocaleString()}
+        </span>
+      </div>
+      <div className="flex min-h-0 flex-1">
+        <div className="relative flex-1">
+          <Excalidraw
+            viewModeEnabled
+            initialData={{
+              elements: drawing.elements as ExcalidrawElement[],
+              files,
+              appState: { viewBackgroundColor: "#ffffff" },
+              scrollToContent: true,
+            }}
+          />
+        </div>
+        {drawing.messages && drawing.messages.length > 0 && (
+          <div className="flex w-96 flex-col border-l border-gray-300 bg-white">
+            <div className="border-b border-gray-300 px-4 py-3 font-semibold text-gray-800">Chat</div>
+            <div className="flex-1 space-y-3 overflow-y-auto p-4">
+              {drawing.messages.map((message, i) => (
+                <div
+                  key={i}
+                  className={`rounded-lg px-3 py-2 text-sm ${
+                    message.role === "user" ? "ml-4 bg-blue-100 text-blue-900" : "mr-4 bg-gray-100 text-gray-800"
+                  }`}
+                >
+                  {message.images && message.images.length > 0 && (
+                    <div className="mb-1 flex flex-wrap gap-1">
+                      {message.images.map((src, j) => (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img key={j} src={src} alt="Attached image" className="h-16 rounded border border-blue-200 object-cover" />
+                      ))}
+                    </div>
+                  )}
+                  {message.content}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { capabilitiesMatch, chooseStrategy, isProviderCapabilities, type ProviderCapabilities } from "./capabilities";
+
+const probed: ProviderCapabilities = {
+  providerType: "ollama",
+  baseUrl: "http://localhost:11434",
+  model: "qwen3",
+  checkedAt: "2026-01-01T00:00:00.000Z",
+  supports: { streaming: true, jsonObject: true, jsonSchema: false, tools: true, images: null },
+  notes: { jsonSchema: "Rejected (400)" },
+  contextLength: 32768,
+};
+
+describe("isProviderCapabilities", () => {
+  it("accepts probe results with or without a context length", () => {
+    expect(isProviderCapabilities(probed)).toBe(true);
+    expect(isProviderCapabilities({ ...probed, contextLength: undefined })).toBe(true);
+  });
+
+  it("rejects results without a server or with an unusable context length", () => {
+    expect(isProviderCapabilities({ ...probed, baseUrl: undefined })).toBe(false);
+    expect(isProviderCapabilities({ ...probed, baseUrl: 11434 })).toBe(false);
+    for (const contextLength of ["32768", 0, -1, Number.NaN, Infinity, null]) {
+      expect(isProviderCapabilities({ ...probed, contextLength })).toBe(false);
+    }
+    expect(isProviderCapabilities({ ...probed, supports: { ...probed.supports, tools: "yes" } })).toBe(false);
+    expect(isProviderCapabilities(null)).toBe(false);
+  });
+});
+
+describe("capabilitiesMatch", () => {
+  it("only applies results to the server and model they were probed on", () => {
+    expect(capabilitiesMatch(probed, "ollama", "http://localhost:11434", "qwen3")).toBe(true);
+    expect(capabilitiesMatch(probed, "ollama", "http://localhost:11434", "llama3")).toBe(false);
+    expect(capabilitiesMatch(undefined, "ollama", "http://localhost:11434", "qwen3")).toBe(false);
+  });
+});
+
+describe("chooseStrategy", () => {
+  it("avoids the features the probe found missing", () => {
+    expect(chooseStrategy("auto", probed)).toEqual({ outputMode: "tools", stream: true, json: "none", images: true });
+    expect(chooseStrategy("skeleton", probed).json).toBe("object");
+    expect(chooseStrategy("tools", { ...probed, supports: { ...probed.supports, tools: false } }).outputMode).toBe(
+      "skeleton",
+    );
+    expect(chooseStrategy("auto")).toEqual({ outputMode: "skeleton", stream: true, json: "object", images: true });
+  });
+});
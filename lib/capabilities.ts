@@ -0,0 +1,290 @@
+// Provider capability probe: a few tiny requests that find out what the
+// selected server and model support, and the output strategy the chat
+// route derives from the results.
+
+import {
+  fetchModels,
+  isProviderType,
+  isStreamingResponse,
+  readCompletion,
+  type CompletionRequest,
+  type ProviderAdapter,
+  type ProviderConfig,
+  type ProviderType,
+} from "./providers";
+
+export type Capability = "streaming" | "jsonObject" | "jsonSchema" | "tools" | "images";
+
+export const CAPABILITIES: readonly Capability[] = ["streaming", "jsonObject", "jsonSchema", "tools", "images"];
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  streaming: "Streaming",
+  jsonObject: "JSON mode",
+  jsonSchema: "JSON schema",
+  tools: "Tool calls",
+  images: "Image input",
+};
+
+export interface ProviderCapabilities {
+  // Server and model the probe ran against; results do not carry over
+  providerType: ProviderType;
+  baseUrl: string;
+  model: string;
+  checkedAt: string;
+  // null when a check was inconclusive (timed out, failed for other reasons)
+  supports: Record<Capability, boolean | null>;
+  // Why a check failed or was inconclusive
+  notes: Partial<Record<Capability, string>>;
+  // Context window in tokens, from the server's model metadata
+  contextLength?: number;
+}
+
+export type OutputMode = "skeleton" | "graph" | "tools";
+
+export interface OutputStrategy {
+  outputMode: OutputMode;
+  stream: boolean;
+  // Structured output asked of the JSON modes
+  json: "schema" | "object" | "none";
+  images: boolean;
+}
+
+export type ProbeResult =
+  | { ok: true; message: string; capabilities: ProviderCapabilities }
+  | { ok: false; error: string };
+
+const PROBE_TIMEOUT_MS = 30000;
+// The first request may have to wait for a local server to load the model
+const FIRST_PROBE_TIMEOUT_MS = 90000;
+
+// 16×16 solid red PNG
+const PROBE_IMAGE =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAAFklEQVR42mN4JidHEmIY1TCqYfhqAAD1FCIQPrrBgQAAAABJRU5ErkJggg==";
+
+/** Whether stored results describe the given server and model. */
+export function capabilitiesMatch(
+  capabilities: ProviderCapabilities | undefined,
+  providerType: string,
+  baseUrl: string,
+  model: string,
+): capabilities is ProviderCapabilities {
+  return (
+    capabilities !== undefined &&
+    capabilities.providerType === providerType &&
+    capabilities.baseUrl === baseUrl &&
+    capabilities.model === model
+  );
+}
+
+/** Shape check for results sent back by the client. */
+export function isProviderCapabilities(value: unknown): value is ProviderCapabilities {
+  if (typeof value !== "object" || value === null) return false;
+  const c = value as Partial<ProviderCapabilities>;
+  return (
+    isProviderType(c.providerType) &&
+    typeof c.baseUrl === "string" &&
+    typeof c.model === "string" &&
+    // Sizes the history budget, so it has to be a usable number
+    (c.contextLength === undefined || (Number.isFinite(c.contextLength) && c.contextLength > 0)) &&
+    typeof c.supports === "object" &&
+    c.supports !== null &&
+    CAPABILITIES.every((key) => [true, false, null].includes(c.supports![key] as boolean | null))
+  );
+}
+
+/**
+ * Pick how to ask for a diagram. "auto" prefers schema-constrained JSON,
+ * then tool calls, then plain JSON. Without probe results every feature is
+ * assumed to work, as before the probe existed; a feature the probe found
+ * missing is never used, even when the mode asks for it.
+ */
+export function chooseStrategy(requested: OutputMode | "auto", capabilities?: ProviderCapabilities): OutputStrategy {
+  const supports = capabilities?.supports;
+  let outputMode: OutputMode;
+  if (requested === "auto") {
+    outputMode = supports?.jsonSchema || supports?.tools !== true ? "skeleton" : "tools";
+  } else {
+    outputMode = requested === "tools" && supports?.tools === false ? "skeleton" : requested;
+  }
+  let json: OutputStrategy["json"] = "none";
+  if (outputMode !== "tools") {
+    // Only skeleton output has a schema; graph and specialist JSON do not
+    if (outputMode === "skeleton" && supports?.jsonSchema) json = "schema";
+    else if (supports?.jsonObject !== false) json = "object";
+  }
+  return {
+    outputMode,
+    stream: supports?.streaming !== false,
+    json,
+    images: supports?.images !== false,
+  };
+}
+
+function isTimeout(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+async function rejection(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  return `Rejected (${response.status}): ${text.slice(0, 150)}`;
+}
+
+/**
+ * Run the checks one after another (local servers often serve one request
+ * at a time) against `model`. Fails only when the server cannot be reached
+ * or refuses a plain request; each capability check records true, false
+ * or null (inconclusive) with a note.
+ */
+export async function probeCapabilities(
+  adapter: ProviderAdapter,
+  config: ProviderConfig,
+  model: string,
+): Promise<ProbeResult> {
+  const send = async (
+    request: Omit<CompletionRequest, "model">,
+    timeoutMs = PROBE_TIMEOUT_MS,
+    onToken?: (token: string) => void,
+  ) => {
+    const { url, headers, body } = adapter.buildRequest(config, { model, temperature: 0, maxTokens: 64, ...request });
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, { method: "POST", headers, signal: controller.signal, body: JSON.stringify(body) });
+      return { response, completion: response.ok ? await readCompletion(adapter, response, onToken) : undefined };
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  // A plain request first: anything failing here is a connection problem
+  const basic = await send({ messages: [{ role: "user", content: "Reply with the word OK." }], stream: false }, FIRST_PROBE_TIMEOUT_MS);
+  if (!basic.completion) {
+    const text = await basic.response.text().catch(() => "");
+    return { ok: false, error: `Server returned ${basic.response.status}: ${text.slice(0, 200)}` };
+  }
+
+  const supports: ProviderCapabilities["supports"] = {
+    streaming: null,
+    jsonObject: null,
+    jsonSchema: null,
+    tools: null,
+    images: null,
+  };
+  const notes: ProviderCapabilities["notes"] = {};
+  const check = async (capability: Capability, run: () => Promise<boolean | string>) => {
+    try {
+      const result = await run();
+      supports[capability] = result === true;
+      if (typeof result === "string") notes[capability] = result;
+    } catch (err) {
+      notes[capability] = isTimeout(err) ? "Timed out" : err instanceof Error ? err.message : String(err);
+    }
+  };
+
+  await check("streaming", async () => {
+    let tokens = 0;
+    const { response, completion } = await send(
+      { messages: [{ role: "user", content: "Count from 1 to 5." }], stream: true },
+      PROBE_TIMEOUT_MS,
+      () => tokens++,
+    );
+    if (!completion) return rejection(response);
+    if (!isStreamingResponse(response)) return "Answered with a single response instead of a stream";
+    return tokens > 0 || "The stream carried no text";
+  });
+
+  await check("jsonObject", async () => {
+    if (!adapter.structuredOutput.object) return "Not offered by this API format";
+    const { response, completion } = await send({
+      messages: [{ role: "user", content: 'Return a JSON object with the key "sum" set to 2 + 3.' }],
+      json: true,
+    });
+    if (!completion) return rejection(response);
+    try {
+      JSON.parse(completion.text.trim());
+      return true;
+    } catch {
+      return "The answer was not bare JSON";
+    }
+  });
+
+  await check("jsonSchema", async () => {
+    if (!adapter.structuredOutput.schema) return "Not offered by this API format";
+    // The prompt does not name the key, so only a honored schema produces it
+    const { response, completion } = await send({
+      messages: [{ role: "user", content: "What is 2 + 3? Answer in JSON." }],
+      jsonSchema: {
+        name: "probe",
+        schema: {
+          type: "object",
+          properties: { probe_total: { type: "integer" } },
+          required: ["probe_total"],
+          additionalProperties: false,
+        },
+      },
+    });
+    if (!completion) return rejection(response);
+    try {
+      const value = JSON.parse(completion.text.trim());
+      return typeof value?.probe_total === "number" || "The schema was ignored";
+    } catch {
+      return "The answer was not bare JSON";
+    }
+  });
+
+  await check("tools", async () => {
+    const { response, completion } = await send({
+      messages: [{ role: "user", content: "Call report_sum with the sum of 2 and 3." }],
+      tools: [
+        {
+          name: "report_sum",
+          description: "Report the sum of two numbers.",
+          parameters: { type: "object", properties: { sum: { type: "number" } }, required: ["sum"] },
+        },
+      ],
+    });
+    if (!completion) return rejection(response);
+    return completion.toolCalls.some((call) => call.name === "report_sum") || "Answered in text instead of calling the tool";
+  });
+
+  await check("images", async () => {
+    const { response, completion } = await send({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What color is this image? Answer with one word." },
+            { type: "image_url", image_url: { url: PROBE_IMAGE } },
+          ],
+        },
+      ],
+    });
+    if (!completion) return rejection(response);
+    return /red/i.test(completion.text) || "The answer did not describe the image";
+  });
+
+  // Context length comes from the model metadata the server reports
+  let contextLength: number | undefined;
+  const sameModel = (id: string) => id === model || id === `${model}:latest` || id === model.replace(/^models\//, "");
+  try {
+    const models = await fetchModels(adapter, config, (m) => sameModel(m.id));
+    contextLength = models.find((m) => sameModel(m.id))?.contextLength;
+  } catch {
+    // Not every server lists its models
+  }
+
+  const supported = CAPABILITIES.filter((key) => supports[key]).map((key) => CAPABILITY_LABELS[key]);
+  return {
+    ok: true,
+    message: `Connected to ${config.baseUrl} with model "${model}"${supported.length > 0 ? ` (${supported.join(", ")})` : ""}`,
+    capabilities: {
+      providerType: adapter.type,
+      baseUrl: config.baseUrl,
+      model,
+      checkedAt: new Date().toISOString(),
+      supports,
+      notes,
+      contextLength,
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { applyChanges, diffScenes } from "./changes";
+
+function element(id: string, version: number, fields: Record<string, unknown> = {}): ExcalidrawElement {
+  const el = { id, type: "rectangle", version, versionNonce: 0, isDeleted: false, x: 0, ...fields };
+  return el as unknown as ExcalidrawElement;
+}
+
+// A turn that moved "moved", added "added" and deleted "removed"; "other"
+// was left alone
+const before = [element("moved", 1), element("removed", 1), element("other", 1)];
+const after = [
+  element("moved", 2, { x: 100 }),
+  element("removed", 2, { isDeleted: true }),
+  element("other", 1),
+  element("added", 1),
+];
+const turn = diffScenes(before, after);
+
+const live = (elements: ExcalidrawElement[]) =>
+  Object.fromEntries(elements.filter((el) => !el.isDeleted).map((el) => [el.id, el.x]));
+
+describe("diffScenes", () => {
+  it("records only the elements the turn touched", () => {
+    expect(turn.map((c) => c.id)).toEqual(["moved", "removed", "added"]);
+    expect(turn[2]).toMatchObject({ before: null, after: { id: "added" } });
+  });
+
+  it("leaves out elements deleted on both sides and keeps ones dropped from the scene", () => {
+    const gone = element("gone", 1, { isDeleted: true });
+    expect(diffScenes([gone, element("dropped", 1)], [gone])).toEqual([
+      { id: "dropped", before: element("dropped", 1), after: null },
+    ]);
+  });
+});
+
+describe("applyChanges", () => {
+  it("reverts and re-applies a turn without touching other elements", () => {
+    const reverted = applyChanges(after, turn, "revert");
+    expect(reverted.conflicts).toEqual([]);
+    expect(live(reverted.elements)).toEqual({ moved: 0, removed: 0, other: 0 });
+    // Versions move forward so the editor takes the restored state
+    expect(reverted.elements.find((el) => el.id === "moved")!.version).toBe(3);
+    expect(reverted.elements.find((el) => el.id === "other")).toBe(after[2]);
+
+    const reapplied = applyChanges(reverted.elements, reverted.changes, "reapply");
+    expect(reapplied.conflicts).toEqual([]);
+    expect(live(reapplied.elements)).toEqual({ moved: 100, other: 0, added: 0 });
+  });
+
+  it("reports elements edited since the turn as conflicts and restores them anyway", () => {
+    const edited = after.map((el) => (el.id === "moved" ? element("moved", 5, { x: 300 }) : el));
+    const { elements, conflicts } = applyChanges(edited, turn, "revert");
+    expect(conflicts).toEqual(["moved"]);
+    expect(elements.find((el) => el.id === "moved")).toMatchObject({ x: 0, version: 6 });
+  });
+
+  it("brings back elements that are no longer in the scene", () => {
+    const { elements } = applyChanges([], [{ id: "a", before: element("a", 1), after: null }], "revert");
+    expect(elements).toEqual([expect.objectContaining({ id: "a", version: 2 })]);
+  });
+});
@@ -0,0 +1,124 @@
+// Per-turn record of what an AI response did to the scene, kept with the
+// chat message so the change can be reverted or re-applied later. Only the
+// elements the turn touched are recorded, so reverting leaves later manual
+// edits to other elements alone.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { ScopedOperations } from "./selection";
+
+export interface ElementChange {
+  id: string;
+  // null when the element did not exist before the turn, or is gone after it
+  before: ExcalidrawElement | null;
+  after: ExcalidrawElement | null;
+}
+
+export interface AppliedTurn extends ScopedOperations {
+  changes: ElementChange[];
+}
+
+export type ChangeDirection = "revert" | "reapply";
+
+function isSameVersion(a: ExcalidrawElement, b: ExcalidrawElement): boolean {
+  return a.version === b.version && a.versionNonce === b.versionNonce;
+}
+
+/**
+ * Elements that differ between two versions of the scene. Elements that are
+ * deleted on both sides are left out.
+ */
+export function diffScenes(
+  before: readonly ExcalidrawElement[],
+  after: readonly ExcalidrawElement[],
+): ElementChange[] {
+  const previous = new Map(before.map((el) => [el.id, el]));
+  const changes: ElementChange[] = [];
+
+  for (const el of after) {
+    const prev = previous.get(el.id) ?? null;
+    previous.delete(el.id);
+    if (prev && isSameVersion(prev, el)) continue;
+    if (!prev && el.isDeleted) continue;
+    changes.push({ id: el.id, before: prev, after: el });
+  }
+  // Elements dropped from the scene altogether, as "replace" does
+  for (const prev of previous.values()) {
+    if (!prev.isDeleted) changes.push({ id: prev.id, before: prev, after: null });
+  }
+  return changes;
+}
+
+/**
+ * Put the touched elements back into their state before ("revert") or after
+ * ("reapply") the turn. Everything else in the scene is kept as it is.
+ * Elements edited since then are overwritten too, and returned as conflicts
+ * so the user can be told. The returned changes record the restored
+ * versions, so the opposite direction can be applied next without conflicts.
+ */
+export function applyChanges(
+  scene: readonly ExcalidrawElement[],
+  changes: ElementChange[],
+  direction: ChangeDirection,
+): { elements: ExcalidrawElement[]; changes: ElementChange[]; conflicts: string[] } {
+  const current = new Map(scene.map((el) => [el.id, el]));
+  const targets = new Map<string, ExcalidrawElement | null>();
+  const conflicts: string[] = [];
+
+  for (const change of changes) {
+    const [expected, target] =
+      direction === "revert" ? [change.after, change.before] : [change.before, change.after];
+    const el = current.get(change.id);
+    const live = el && !el.isDeleted ? el : null;
+    const expectedLive = expected && !expected.isDeleted ? expected : null;
+    const edited = expectedLive ? !live || !isSameVersion(live, expectedLive) : live !== null;
+    if (edited) conflicts.push(change.id);
+    targets.set(change.id, target);
+  }
+
+  // Versions only move forward, so the editor treats the result as the
+  // newest state of each element
+  const restore = (id: string, target: ExcalidrawElement | null): ExcalidrawElement | null => {
+    const el = current.get(id);
+    if (!target) {
+      return el && !el.isDeleted
+        ? { ...el, isDeleted: true, version: el.version + 1, updated: Date.now() }
+        : el ?? null;
+    }
+    return {
+      ...target,
+      version: Math.max(target.version, el?.version ?? 0) + 1,
+      versionNonce: Math.floor(Math.random() * 2 ** 31),
+      updated: Date.now(),
+    };
+  };
+
+  const restoredById = new Map<string, ExcalidrawElement>();
+  const elements: ExcalidrawElement[] = [];
+  for (const el of scene) {
+    if (!targets.has(el.id)) {
+      elements.push(el);
+      continue;
+    }
+    const restored = restore(el.id, targets.get(el.id) ?? null);
+    if (restored) {
+      elements.push(restored);
+      restoredById.set(el.id, restored);
+    }
+    targets.delete(el.id);
+  }
+  // Elements no longer in the scene at all
+  for (const [id, target] of targets) {
+    const restored = restore(id, target);
+    if (restored) {
+      elements.push(restored);
+      restoredById.set(id, restored);
+    }
+  }
+
+  const updated = changes.map((change) => {
+    const restored = restoredById.get(change.id);
+    if (!restored) return change;
+    return direction === "revert" ? { ...change, before: restored } : { ...change, after: restored };
+  });
+  return { elements, changes: updated, conflicts };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { buildCanvasContext } from "./context";
+
+function element(id: string, fields: Record<string, unknown> = {}): ExcalidrawElement {
+  return {
+    id,
+    type: "rectangle",
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 50,
+    isDeleted: false,
+    strokeColor: "#1e1e1e",
+    backgroundColor: "transparent",
+    strokeStyle: "solid",
+    groupIds: [],
+    frameId: null,
+    ...fields,
+  } as unknown as ExcalidrawElement;
+}
+
+const label = (id: string, containerId: string, text: string) =>
+  element(id, { type: "text", containerId, text });
+
+const arrow = (id: string, from: string | null, to: string | null, fields: Record<string, unknown> = {}) =>
+  element(id, {
+    type: "arrow",
+    x: 10,
+    y: 20,
+    points: [
+      [0, 0],
+      [90, 0],
+    ],
+    startBinding: from ? { elementId: from } : null,
+    endBinding: to ? { elementId: to } : null,
+    ...fields,
+  });
+
+// The JSON listing under the first heading
+function listed(context: string): Array<Record<string, unknown>> {
+  const [first] = context.split("\n\n");
+  return JSON.parse(first.slice(first.indexOf("\n") + 1));
+}
+
+describe("buildCanvasContext", () => {
+  it("describes an empty canvas", () => {
+    expect(buildCanvasContext([element("gone", { isDeleted: true })])).toBe("Canvas is empty.");
+  });
+
+  it("folds labels into their shapes and lists arrows as connections", () => {
+    const elements = [
+      element("api", { backgroundColor: "#a5d8ff", groupIds: ["backend"] }),
+      label("api_label", "api", "API"),
+      element("db", { type: "ellipse", x: 300 }),
+      arrow("calls", "api", "db", { strokeStyle: "dashed" }),
+      label("calls_label", "calls", "SQL"),
+      arrow("loose", null, null),
+    ];
+    const context = buildCanvasContext(elements, { viewport: { x: 0, y: 0, width: 500, height: 500 } });
+    expect(context.startsWith("4 elements on canvas:\n")).toBe(true);
+    expect(listed(context)).toEqual([
+      {
+        id: "api",
+        type: "rectangle",
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 50,
+        label: "API",
+        backgroundColor: "#a5d8ff",
+        groupIds: ["backend"],
+      },
+      { id: "db", type: "ellipse", x: 300, y: 0, width: 100, height: 50 },
+    ]);
+    expect(context).toContain('Connections:\n- calls: api → db "SQL" (dashed)\n- loose: (10, 20) → (100, 20)');
+    expect(context).toContain("Groups:\n- backend: api");
+    // Unconnected arrows out of view are only counted
+    expect(buildCanvasContext([arrow("loose", null, null)])).toContain("Not listed in detail: 1 arrow.");
+  });
+
+  it("lists selected and visible elements first and summarizes the rest", () => {
+    const elements = [
+      element("far", { x: 5000, y: 5000 }),
+      element("seen", { x: 100, y: 100 }),
+      element("picked", { x: 9000, y: 0 }),
+      label("far_label", "far", "Archive"),
+    ];
+    const context = buildCanvasContext(elements, {
+      selectedIds: ["picked"],
+      viewport: { x: 0, y: 0, width: 1000, height: 1000 },
+      detailLimit: 2,
+    });
+    expect(context.startsWith("3 elements on canvas (1 selected):\n")).toBe(true);
+    expect(listed(context).map((entry) => entry.id)).toEqual(["picked", "seen"]);
+    expect(listed(context)[0].selected).toBe(true);
+    expect(context).toContain(
+      'Not listed in detail: 1 rectangle.\nTheir labels: "Archive"\nThey occupy x 5000..5100, y 5000..5050.',
+    );
+  });
+
+  it("lists a scope in full and its surroundings as read-only context", () => {
+    const context = buildCanvasContext(
+      [element("a", { backgroundColor: "#b2f2bb" }), element("b", { x: 200, backgroundColor: "#ffc9c9" })],
+      { scope: ["a"] },
+    );
+    expect(context).toContain("Selected elements (the only ones you may change):");
+    expect(context).toContain(
+      'Surrounding elements (context only, leave unchanged):\n[\n {\n  "id": "b",\n  "type": "rectangle",\n  "x": 200,',
+    );
+    // Surroundings leave out the styling
+    expect(context.split("Surrounding")[1]).not.toContain("backgroundColor");
+  });
+
+  it("names frames and their members", () => {
+    const context = buildCanvasContext([
+      element("f", { type: "frame", name: "Login" }),
+      element("a", { frameId: "f" }),
+      element("g", { type: "frame", name: null }),
+    ]);
+    expect(context).toContain('Frames:\n- f "Login": a\n- g: (empty)');
+  });
+});
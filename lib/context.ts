@@ -0,0 +1,220 @@
+// Canvas description sent to the model as "Current Canvas State". Bound text
+// is folded into its container as a label, arrows are listed as edges
+// between element IDs, and groups and frames are named. Large scenes list
+// the selected and on-screen elements in full and summarize the rest. A
+// scoped request lists only its scope in full, with nearby elements as
+// read-only surroundings.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { DEFAULT_STROKE_COLOR } from "./skeleton";
+
+export interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ContextOptions {
+  selectedIds?: Iterable<string>;
+  // Visible scene area, in scene coordinates
+  viewport?: Viewport | null;
+  // Elements listed in full; the rest are summarized
+  detailLimit?: number;
+  // Elements the request may change. When set, only these are listed in
+  // full and the rest are described as surrounding context.
+  scope?: Iterable<string>;
+}
+
+const DETAIL_LIMIT = 50;
+// Labels quoted in the summary of elements that are not listed in full
+const SUMMARY_LABELS = 30;
+
+function intersects(el: ExcalidrawElement, view: Viewport): boolean {
+  return (
+    el.x < view.x + view.width &&
+    el.x + el.width > view.x &&
+    el.y < view.y + view.height &&
+    el.y + el.height > view.y
+  );
+}
+
+function isBoundText(el: ExcalidrawElement, labels: Map<string, string>): boolean {
+  return el.type === "text" && !!el.containerId && labels.has(el.containerId);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Describe the scene for the model. Element order and the detail cut-off
+ * favor what the user is looking at: selected elements first, then those in
+ * the viewport, then everything else in reading order.
+ */
+export function buildCanvasContext(
+  elements: readonly ExcalidrawElement[],
+  options: ContextOptions = {},
+): string {
+  const live = elements.filter((el) => !el.isDeleted);
+  if (live.length === 0) return "Canvas is empty.";
+
+  const scope = new Set(options.scope ?? []);
+  const scoped = scope.size > 0;
+  const selected = scoped ? scope : new Set(options.selectedIds ?? []);
+  const limit = options.detailLimit ?? DETAIL_LIMIT;
+  const byId = new Map(live.map((el) => [el.id, el]));
+
+  const labels = new Map<string, string>();
+  for (const el of live) {
+    if (el.type === "text" && el.containerId && byId.has(el.containerId)) {
+      labels.set(el.containerId, el.text);
+    }
+  }
+  const frameNames = new Map<string, string>();
+  for (const el of live) {
+    if (el.type === "frame" || el.type === "magicframe") {
+      frameNames.set(el.id, el.name ?? "");
+    }
+  }
+
+  const rank = (el: ExcalidrawElement) =>
+    selected.has(el.id) ? 0 : options.viewport && intersects(el, options.viewport) ? 1 : 2;
+  const byPriority = (a: ExcalidrawElement, b: ExcalidrawElement) =>
+    rank(a) - rank(b) || a.y - b.y || a.x - b.x;
+
+  // Bound text is part of its container; arrows and frames get their own
+  // sections
+  const nodes = live
+    .filter(
+      (el) => !isBoundText(el, labels) && el.type !== "arrow" && !frameNames.has(el.id),
+    )
+    .sort(byPriority);
+  const arrows = live.filter((el) => el.type === "arrow").sort(byPriority);
+
+  const inScope = nodes.filter((el) => scope.has(el.id));
+  const others = scoped ? nodes.filter((el) => !scope.has(el.id)) : nodes;
+  const detailed = [...inScope, ...others.slice(0, limit)];
+  const rest = others.slice(limit);
+  const detailedIds = new Set(detailed.map((el) => el.id));
+
+  // Surrounding elements of a scoped request only need enough to place new
+  // elements next to them and to connect arrows
+  const describe = (el: ExcalidrawElement, full = true) => {
+    const entry: Record<string, unknown> = {
+      id: el.id,
+      type: el.type,
+      x: Math.round(el.x),
+      y: Math.round(el.y),
+      width: Math.round(el.width),
+      height: Math.round(el.height),
+    };
+    const label = labels.get(el.id);
+    if (label) entry.label = label;
+    if (el.type === "text") entry.text = el.text;
+    if (!full) return entry;
+    if (el.backgroundColor && el.backgroundColor !== "transparent") {
+      entry.backgroundColor = el.backgroundColor;
+    }
+    if (el.strokeColor !== DEFAULT_STROKE_COLOR) entry.strokeColor = el.strokeColor;
+    if (el.groupIds.length > 0) entry.groupIds = el.groupIds;
+    if (el.frameId) entry.frameId = el.frameId;
+    if (selected.has(el.id)) entry.selected = true;
+    return entry;
+  };
+
+  const total = `${plural(live.length - labels.size, "element")} on canvas`;
+  const sections: string[] = [];
+  if (scoped) {
+    sections.push(
+      `${total}. Selected elements (the only ones you may change):\n${JSON.stringify(inScope.map((el) => describe(el)), null, 1)}`,
+    );
+    if (detailed.length > inScope.length) {
+      const surrounding = detailed.slice(inScope.length).map((el) => describe(el, false));
+      sections.push(
+        `Surrounding elements (context only, leave unchanged):\n${JSON.stringify(surrounding, null, 1)}`,
+      );
+    }
+  } else {
+    const header = selected.size > 0 ? `${total} (${selected.size} selected)` : total;
+    sections.push(`${header}:\n${JSON.stringify(detailed.map((el) => describe(el)), null, 1)}`);
+  }
+
+  // Edges whose ends are listed above, plus selected arrows
+  const endpoint = (id: string | undefined, fallback: { x: number; y: number }) =>
+    id && byId.has(id) ? id : `(${Math.round(fallback.x)}, ${Math.round(fallback.y)})`;
+  const edgeLines: string[] = [];
+  let hiddenEdges = 0;
+  for (const arrow of arrows) {
+    if (arrow.type !== "arrow") continue;
+    const from = arrow.startBinding?.elementId;
+    const to = arrow.endBinding?.elementId;
+    const relevant =
+      selected.has(arrow.id) ||
+      (from !== undefined && detailedIds.has(from)) ||
+      (to !== undefined && detailedIds.has(to)) ||
+      (!from && !to && rank(arrow) < 2);
+    if (!relevant || edgeLines.length >= limit * 2) {
+      hiddenEdges++;
+      continue;
+    }
+    const last = arrow.points[arrow.points.length - 1] ?? [0, 0];
+    const start = endpoint(from, arrow);
+    const end = endpoint(to, { x: arrow.x + last[0], y: arrow.y + last[1] });
+    const label = labels.get(arrow.id);
+    let line = `- ${arrow.id}: ${start} → ${end}`;
+    if (label) line += ` "${label}"`;
+    if (arrow.strokeStyle !== "solid") line += ` (${arrow.strokeStyle})`;
+    if (selected.has(arrow.id)) line += " [selected]";
+    edgeLines.push(line);
+  }
+  if (edgeLines.length > 0) sections.push(`Connections:\n${edgeLines.join("\n")}`);
+
+  const groups = new Map<string, string[]>();
+  for (const el of detailed) {
+    for (const groupId of el.groupIds) {
+      groups.set(groupId, [...(groups.get(groupId) ?? []), el.id]);
+    }
+  }
+  if (groups.size > 0) {
+    sections.push(
+      `Groups:\n${[...groups].map(([id, members]) => `- ${id}: ${members.join(", ")}`).join("\n")}`,
+    );
+  }
+
+  if (frameNames.size > 0) {
+    const frameLines = [...frameNames].map(([id, name]) => {
+      const members = live.filter((el) => el.frameId === id && !isBoundText(el, labels));
+      const title = name ? ` "${name}"` : "";
+      return `- ${id}${title}: ${members.map((el) => el.id).join(", ") || "(empty)"}`;
+    });
+    sections.push(`Frames:\n${frameLines.join("\n")}`);
+  }
+
+  if (rest.length > 0 || hiddenEdges > 0) {
+    const counts = new Map<string, number>();
+    for (const el of rest) counts.set(el.type, (counts.get(el.type) ?? 0) + 1);
+    const parts = [...counts].map(([type, count]) => plural(count, type));
+    if (hiddenEdges > 0) parts.push(plural(hiddenEdges, "arrow"));
+
+    let summary = `Not listed in detail: ${parts.join(", ")}.`;
+    const restLabels = rest
+      .map((el) => labels.get(el.id) ?? (el.type === "text" ? el.text : ""))
+      .filter(Boolean);
+    if (restLabels.length > 0) {
+      const quoted = restLabels.slice(0, SUMMARY_LABELS).map((text) => JSON.stringify(text));
+      if (restLabels.length > SUMMARY_LABELS) quoted.push("...");
+      summary += `\nTheir labels: ${quoted.join(", ")}`;
+    }
+    if (rest.length > 0) {
+      const minX = Math.min(...rest.map((el) => el.x));
+      const minY = Math.min(...rest.map((el) => el.y));
+      const maxX = Math.max(...rest.map((el) => el.x + el.width));
+      const maxY = Math.max(...rest.map((el) => el.y + el.height));
+      summary += `\nThey occupy x ${Math.round(minX)}..${Math.round(maxX)}, y ${Math.round(minY)}..${Math.round(maxY)}.`;
+    }
+    sections.push(summary);
+  }
+
+  return sections.join("\n\n");
+}
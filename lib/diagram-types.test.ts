@@ -0,0 +1,259 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyRequest,
+  getDiagramType,
+  layoutEntities,
+  matchCanvas,
+  type DiagramBuildOptions,
+  type DiagramTypeId,
+} from "./diagram-types";
+import type { LinearSkeleton, ShapeSkeleton, SkeletonElement, TextSkeleton } from "./skeleton";
+
+function build(type: DiagramTypeId, value: unknown, options?: DiagramBuildOptions) {
+  const result = getDiagramType(type)!.build(value, options);
+  if (!result.ok) throw new Error(result.error);
+  return result;
+}
+
+const byId = (elements: SkeletonElement[]) => new Map(elements.map((el) => [el.id, el]));
+const arrows = (elements: SkeletonElement[]) => elements.filter((el): el is LinearSkeleton => el.type === "arrow");
+
+describe("classifyRequest", () => {
+  it("picks the specialist named in the request", () => {
+    expect(classifyRequest("Draw a sequence diagram of the login flow")?.id).toBe("sequence");
+    expect(classifyRequest("ログインのシーケンス図を描いて")?.id).toBe("sequence");
+    expect(classifyRequest("An ER diagram for a blog")?.id).toBe("er");
+    expect(classifyRequest("ブログのER図")?.id).toBe("er");
+    expect(classifyRequest("Design the database schema for a shop")?.id).toBe("er");
+    expect(classifyRequest("A C4 container diagram of the bank")?.id).toBe("c4");
+    expect(classifyRequest("注文の状態遷移図")?.id).toBe("state");
+    expect(classifyRequest("State machine for a traffic light")?.id).toBe("state");
+  });
+
+  it("leaves words that only contain a keyword to the general prompt", () => {
+    for (const text of [
+      "Show the consequence of each decision as a flowchart",
+      "Draw a sequence of steps for onboarding",
+      "Add a user and an order box",
+      "Show the state of the art in a mind map",
+      "A flowchart of the delivery process",
+    ]) {
+      expect(classifyRequest(text)).toBeUndefined();
+    }
+  });
+});
+
+describe("getDiagramType", () => {
+  it("looks specialists up by id", () => {
+    expect(getDiagramType("er")?.label).toBe("ER");
+    expect(getDiagramType("flowchart")).toBeUndefined();
+    expect(getDiagramType(undefined)).toBeUndefined();
+  });
+});
+
+describe("sequence specialist", () => {
+  it("puts participants in a row and messages top to bottom", () => {
+    const { response, report } = build(
+      "sequence",
+      {
+        action: "add",
+        participants: [{ id: "user", label: "User" }],
+        messages: [
+          { from: "user", to: "api", text: "GET /" },
+          { note: "Cached", over: ["api"] },
+          { from: "api", to: "user", text: "200", reply: true },
+        ],
+      },
+      { origin: () => ({ x: 100, y: 50 }) },
+    );
+    const elements = byId(response.elements);
+    expect(elements.get("participant_user")).toMatchObject({ x: 100, y: 50, label: { text: "User" } });
+    expect(elements.get("participant_api")!.x).toBeGreaterThan(100);
+    expect(elements.get("message_3")!.y).toBeGreaterThan(elements.get("message_1")!.y);
+    expect(elements.get("message_3")).toMatchObject({ strokeStyle: "dashed", width: -260 });
+    expect(elements.get("note_2")).toMatchObject({ label: { text: "Cached" } });
+    expect(elements.get("lifeline_api")).toMatchObject({ type: "line", strokeStyle: "dashed" });
+    expect(report.fixed).toEqual([{ index: 0, id: "api", message: 'Added missing participant "api"' }]);
+  });
+
+  it("fails without messages", () => {
+    expect(getDiagramType("sequence")!.build({ participants: [{ id: "a" }] })).toMatchObject({ ok: false });
+  });
+});
+
+describe("ER specialist", () => {
+  it("reads attributes and keys, and fixes cardinalities", () => {
+    const { response, report } = build("er", {
+      action: "add",
+      entities: [
+        { id: "users", name: "users", attributes: [{ name: "id", type: "int", key: "pk" }, "email"] },
+        { id: "posts", attributes: [{ name: "user_id", key: "fk" }] },
+      ],
+      relationships: [
+        { from: "users", to: "posts", cardinality: "1 : n", label: "writes" },
+        { from: "posts", to: "tags", cardinality: "M:N" },
+        { from: "posts", to: "users", cardinality: "many" },
+      ],
+    });
+    const elements = byId(response.elements);
+    expect((elements.get("users_attributes") as TextSkeleton).text).toBe("PK id: int\nemail");
+    expect(elements.get("posts_header")).toMatchObject({ label: { text: "posts" } });
+    expect(elements.get("rel_users_posts_1")).toMatchObject({ label: { text: "writes" } });
+    expect((elements.get("rel_users_posts_1_end") as TextSkeleton).text).toBe("N");
+    expect(report.dropped.map((d) => d.message)).toEqual(["Relationship posts → tags references a missing entity"]);
+    expect(report.fixed.map((f) => f.message)).toEqual(['Unknown cardinality "many", used "1:N"']);
+  });
+});
+
+describe("layoutEntities", () => {
+  it("lays tables out on a grid and binds relationships to them", () => {
+    const entities = ["a", "b", "c", "d"].map((id) => ({ id, name: id, attributes: [{ name: "id", pk: true }] }));
+    const elements = layoutEntities(entities, [{ from: "a", to: "d", cardinality: "N:M" }], { x: 10, y: 20 });
+    const tables = byId(elements);
+    const [a, b, c] = ["a", "b", "c"].map((id) => tables.get(id) as ShapeSkeleton);
+    expect(a).toMatchObject({ x: 10, y: 20, groupIds: ["entity_a"] });
+    expect(b.y).toBe(a.y);
+    expect(b.x).toBeGreaterThan(a.x + a.width);
+    expect(c.x).toBe(a.x);
+    expect(c.y).toBeGreaterThan(a.y + a.height);
+    const [relation] = arrows(elements);
+    expect(relation).toMatchObject({ id: "rel_a_d_1", start: { id: "a" }, end: { id: "d" } });
+    expect(["rel_a_d_1_start", "rel_a_d_1_end"].map((id) => (tables.get(id) as TextSkeleton).text)).toEqual(["N", "M"]);
+  });
+
+  it("skips relationships of an entity to itself", () => {
+    const entities = [{ id: "a", name: "a", attributes: [] }];
+    const elements = layoutEntities(entities, [{ from: "a", to: "a", cardinality: "1:N" }]);
+    expect(arrows(elements)).toEqual([]);
+  });
+});
+
+describe("C4 specialist", () => {
+  const bank = {
+    action: "add",
+    nodes: [
+      { id: "customer", name: "Customer", kind: "person" },
+      { id: "spa", name: "Web App", kind: "container", technology: "React", boundary: "bank" },
+      { id: "api", name: "API", kind: "container", boundary: "bank" },
+      { id: "mail", name: "Email", kind: "external" },
+    ],
+    boundaries: [{ id: "bank", label: "Internet Banking" }],
+    relations: [
+      { from: "customer", to: "spa", label: "Uses" },
+      { from: "spa", to: "api", label: "Calls", technology: "JSON" },
+      { from: "api", to: "mail", label: "Sends email using" },
+    ],
+  };
+
+  it("frames a boundary around its members, with people above and external systems below", () => {
+    const elements = byId(build("c4", bank).response.elements);
+    const frame = elements.get("boundary_bank") as ShapeSkeleton;
+    for (const id of ["spa", "api"]) {
+      const member = elements.get(id) as ShapeSkeleton;
+      expect(member.groupIds).toEqual(["boundary_bank"]);
+      expect(member.x).toBeGreaterThan(frame.x);
+      expect(member.x + member.width).toBeLessThan(frame.x + frame.width);
+    }
+    expect(elements.get("boundary_bank_title")).toMatchObject({ text: "Internet Banking [System]" });
+    expect(elements.get("customer")).toMatchObject({ type: "ellipse", label: { text: "Customer\n[Person]" } });
+    expect(elements.get("customer")!.y).toBeLessThan(frame.y);
+    expect(elements.get("mail")!.y).toBeGreaterThan(frame.y + frame.height);
+    expect(elements.get("spa")).toMatchObject({ label: { text: "Web App\n[Container: React]" } });
+  });
+
+  it("gives every relation a numbered arrow, inside a boundary or across", () => {
+    const drawn = arrows(build("c4", bank).response.elements);
+    expect(drawn.map((arrow) => [arrow.id, arrow.start?.id, arrow.end?.id, arrow.label?.text])).toEqual([
+      ["relation_1", "customer", "spa", "Uses"],
+      ["relation_2", "spa", "api", "Calls\n[JSON]"],
+      ["relation_3", "api", "mail", "Sends email using"],
+    ]);
+  });
+
+  it("uses a software system for unknown kinds, including inherited object keys", () => {
+    const { response, report } = build("c4", { nodes: [{ id: "a", name: "A", kind: "constructor" }] });
+    expect(byId(response.elements).get("a")).toMatchObject({ label: { text: "A\n[Software System]" } });
+    expect(report.fixed).toContainEqual({ index: 0, id: "a", message: 'Unknown kind "constructor", used "system"' });
+  });
+});
+
+describe("state machine specialist", () => {
+  it("adds a missing initial state and draws the pseudo-states as UML symbols", () => {
+    const { response, report } = build("state", {
+      action: "add",
+      states: [
+        { id: "open", label: "Open" },
+        { id: "check", kind: "choice" },
+        { id: "done", kind: "final" },
+      ],
+      transitions: [
+        { from: "open", to: "check", event: "submit", guard: "[valid]", effect: "save" },
+        { from: "check", to: "done" },
+        { from: "open", to: "open", event: "edit" },
+      ],
+    });
+    const elements = byId(response.elements);
+    expect(elements.get("initial")).toMatchObject({ type: "ellipse", width: 30, height: 30, fillStyle: "solid" });
+    expect(elements.get("check")).toMatchObject({ type: "diamond", width: 60 });
+    expect(elements.get("check")).not.toHaveProperty("label");
+    expect(elements.get("done_dot")).toMatchObject({ groupIds: ["final_done"] });
+    expect(arrows(response.elements).map((arrow) => [arrow.id, arrow.label?.text])).toEqual([
+      ["transition_1", undefined],
+      ["transition_2", "submit [valid] / save"],
+      ["transition_3", undefined],
+    ]);
+    expect(report.fixed.map((f) => f.message)).toContain('Added an initial state before "open"');
+    expect(report.dropped.map((d) => d.message)).toEqual(["Self-transitions are not drawn"]);
+  });
+
+  it("fails without a real state", () => {
+    expect(getDiagramType("state")!.build({ states: [{ id: "s", kind: "initial" }] })).toMatchObject({ ok: false });
+  });
+});
+
+describe("modify", () => {
+  const login = {
+    participants: [{ id: "user" }, { id: "api" }],
+    messages: [{ from: "user", to: "api", text: "Log in" }],
+  };
+
+  it("updates the elements an earlier batch drew, where they are now", () => {
+    // The client prefixed the ids of the first drawing with its batch
+    const first = build("sequence", { ...login, action: "add" }).response.elements;
+    const ids = first.map((el) => `b3_${el.id}`);
+    const placed = { nodes: [{ id: "b3_participant_user", x: 500, y: 400, width: 180, height: 60 }], edges: [] };
+
+    const messages = [...login.messages, { from: "api", to: "user" }];
+    const { response } = build(
+      "sequence",
+      { ...login, action: "modify", messages },
+      { origin: () => ({ x: 0, y: 0 }), canvas: { ids: [...ids, "b1_participant_user"], placed } },
+    );
+    const elements = byId(response.elements);
+    expect([...elements.keys()].filter((id) => !ids.includes(id!))).toEqual(["b3_message_2"]);
+    expect(elements.get("b3_participant_user")).toMatchObject({ x: 500, y: 400 });
+    expect(elements.get("b3_lifeline_api")!.x).toBe(first.find((el) => el.id === "lifeline_api")!.x + 500);
+  });
+
+  it("prefixes group ids and arrow ends, and leaves added diagrams alone", () => {
+    const er = {
+      entities: [{ id: "a" }, { id: "b" }],
+      relationships: [{ from: "a", to: "b", cardinality: "1:1" }],
+    };
+    const canvas = { ids: ["b2_a", "b2_b", "b5_a"] };
+    const modified = byId(build("er", { ...er, action: "modify" }, { canvas }).response.elements);
+    expect(modified.get("b2_a")).toMatchObject({ groupIds: ["b2_entity_a"] });
+    expect(modified.get("b2_rel_a_b_1")).toMatchObject({ start: { id: "b2_a" }, end: { id: "b2_b" } });
+    expect(byId(build("er", { ...er, action: "add" }, { canvas }).response.elements).has("a")).toBe(true);
+  });
+});
+
+describe("matchCanvas", () => {
+  const shape = (id: string): ShapeSkeleton => ({ type: "rectangle", id, x: 0, y: 0, width: 10, height: 10 });
+
+  it("prefers the latest batch on a tie and keeps ids that match without a prefix", () => {
+    expect(matchCanvas([shape("a")], { ids: ["b2_a", "b10_a"] })[0].id).toBe("b10_a");
+    expect(matchCanvas([shape("a"), shape("b")], { ids: ["a", "b", "b4_a"] }).map((el) => el.id)).toEqual(["a", "b"]);
+    expect(matchCanvas([shape("a")], { ids: ["b4_x"] })[0].id).toBe("a");
+  });
+});
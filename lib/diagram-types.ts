@@ -0,0 +1,1030 @@
+// Registry of diagram-type specialists. Each one has its own system prompt
+// with a worked example, asks the model for a type-specific JSON structure
+// (participants and messages, entities and relationships, ...) and lays it
+// out deterministically, so the notation of the diagram type comes out right
+// however good the model is at placing elements.
+
+import {
+  center,
+  clipToBox,
+  layoutGraph,
+  type Box,
+  type GraphEdge,
+  type GraphNode,
+  type LayoutDirection,
+  type PlacedGraph,
+} from "./layout";
+import { layoutSequence, type SequenceParticipant, type SequenceStep } from "./sequence";
+import {
+  DEFAULT_STROKE_COLOR,
+  DIAGRAM_ACTIONS,
+  PALETTE,
+  isShapeType,
+  type DiagramAction,
+  type DiagramResponse,
+  type LinearSkeleton,
+  type ShapeSkeleton,
+  type SkeletonElement,
+} from "./skeleton";
+import type { ValidationReport } from "./validator";
+
+export type DiagramTypeId = "sequence" | "er" | "c4" | "state";
+
+export interface DiagramBuildOptions {
+  // Top-left corner of the diagram on the canvas, which depends on whether
+  // it is added next to the existing content or redraws it
+  origin?: (action: DiagramAction) => { x: number; y: number };
+  // What is on the canvas, so "modify" can address the elements an earlier
+  // turn drew
+  canvas?: DiagramCanvas;
+}
+
+export interface DiagramCanvas {
+  ids: string[];
+  placed?: PlacedGraph;
+}
+
+export type DiagramBuildResult =
+  | { ok: true; response: DiagramResponse; report: ValidationReport }
+  | { ok: false; error: string; report: ValidationReport };
+
+export interface DiagramType {
+  id: DiagramTypeId;
+  label: string;
+  // Words in a request that point to this diagram type (English and Japanese)
+  keywords: RegExp;
+  systemPrompt: string;
+  // Check the model's JSON and turn it into skeleton elements
+  build: (value: unknown, options?: DiagramBuildOptions) => DiagramBuildResult;
+}
+
+const ACTION_RULES = `### Action Types
+- "add": Add a new diagram next to the existing canvas (default).
+- "replace": Clear the canvas and draw this diagram instead.
+- "modify": Redraw an existing diagram of this type with the same ids you used when drawing it. On the canvas they carry a batch prefix (e.g. "b3_"); leave it out. Elements whose ids match are updated in place and new ones are added; nothing is removed, so use "replace" to drop parts of a diagram.`;
+
+const JSON_ONLY = "Only output the JSON object. Do not include explanations or markdown code blocks.";
+
+// Issue collector for the type-specific JSON, reported like the validator's
+class Notes {
+  readonly report: ValidationReport = { fixed: [], dropped: [] };
+
+  fix(index: number, id: string | undefined, message: string) {
+    this.report.fixed.push({ index, id, message });
+  }
+
+  drop(index: number, id: string | undefined, message: string) {
+    this.report.dropped.push({ index, id, message });
+  }
+
+  fail(error: string): DiagramBuildResult {
+    return { ok: false, error, report: this.report };
+  }
+
+  done(action: DiagramAction, elements: SkeletonElement[]): DiagramBuildResult {
+    return { ok: true, response: { action, elements }, report: this.report };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readId(value: unknown): string {
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+}
+
+function readText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readAction(value: Record<string, unknown>, notes: Notes): DiagramAction {
+  if (value.action === undefined) {
+    notes.fix(-1, undefined, 'Missing action, defaulted to "add"');
+    return "add";
+  }
+  if ((DIAGRAM_ACTIONS as readonly unknown[]).includes(value.action)) {
+    return value.action as DiagramAction;
+  }
+  notes.fix(-1, undefined, `Unknown action ${JSON.stringify(value.action)}, defaulted to "add"`);
+  return "add";
+}
+
+// The objects of a top-level array; anything else in it is dropped
+function readList(value: Record<string, unknown>, key: string, notes: Notes): Array<[number, Record<string, unknown>]> {
+  const raw = value[key];
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    notes.fix(-1, undefined, `Ignored non-array "${key}"`);
+    return [];
+  }
+  const items: Array<[number, Record<string, unknown>]> = [];
+  raw.forEach((item: unknown, index: number) => {
+    if (isRecord(item)) items.push([index, item]);
+    else notes.drop(index, undefined, `Entry in "${key}" is not an object`);
+  });
+  return items;
+}
+
+function shapeBox(shape: ShapeSkeleton): Box {
+  return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+}
+
+// Arrow geometry between the borders of two shapes, bound at both ends
+function connect(from: ShapeSkeleton, to: ShapeSkeleton): LinearSkeleton {
+  const a = shapeBox(from);
+  const b = shapeBox(to);
+  const start = clipToBox(a, center(b));
+  const end = clipToBox(b, center(a));
+  return {
+    type: "arrow",
+    x: Math.round(start.x),
+    y: Math.round(start.y),
+    width: Math.round(end.x - start.x),
+    height: Math.round(end.y - start.y),
+    strokeColor: DEFAULT_STROKE_COLOR,
+    start: { type: from.type, id: from.id! },
+    end: { type: to.type, id: to.id! },
+  };
+}
+
+function translate(elements: SkeletonElement[], dx: number, dy: number) {
+  for (const el of elements) {
+    el.x += dx;
+    el.y += dy;
+  }
+}
+
+function shapesById(elements: SkeletonElement[]): Map<string, ShapeSkeleton> {
+  const shapes = new Map<string, ShapeSkeleton>();
+  for (const el of elements) {
+    if (el.id && isShapeType(el.type)) shapes.set(el.id, el as ShapeSkeleton);
+  }
+  return shapes;
+}
+
+// --- Sequence ---------------------------------------------------------------
+
+const SEQUENCE_PROMPT = `You are a diagram generation assistant specialized in UML sequence diagrams. You describe the participants and the messages between them in order; a layout engine draws the participants, their lifelines and the message arrows.
+
+## Output Format
+{
+  "action": "add" | "replace" | "modify",
+  "participants": [ { "id": string, "label": string } ],
+  "messages": [
+    { "from": string, "to": string, "text": string, "reply": boolean (optional) },
+    { "note": string, "over": [string] }
+  ]
+}
+
+${ACTION_RULES}
+
+## Rules
+1. List participants left to right in the order they first take part. Use short ids (e.g. "user", "api", "db").
+2. "messages" is in time order, top to bottom. Every "from", "to" and "over" id must be a participant.
+3. Set "reply": true for return messages; they are drawn dashed.
+4. A message from a participant to itself is a self-call.
+5. Use a note entry for conditions, loops or explanations that are not messages.
+6. When modifying, reuse the participant ids (the canvas shows them as b<n>_participant_<id>). Messages and notes are matched by their position in "messages", so keep the earlier entries in order and add new ones after them.
+
+## Example: Login
+{
+  "action": "add",
+  "participants": [
+    { "id": "user", "label": "User" },
+    { "id": "web", "label": "Web App" },
+    { "id": "auth", "label": "Auth Service" }
+  ],
+  "messages": [
+    { "from": "user", "to": "web", "text": "Submit credentials" },
+    { "from": "web", "to": "auth", "text": "POST /login" },
+    { "from": "auth", "to": "auth", "text": "Check password" },
+    { "note": "Token expires after 1 hour", "over": ["auth"] },
+    { "from": "auth", "to": "web", "text": "JWT", "reply": true },
+    { "from": "web", "to": "user", "text": "Dashboard", "reply": true }
+  ]
+}
+
+${JSON_ONLY}`;
+
+function buildSequence(value: unknown, options: DiagramBuildOptions = {}): DiagramBuildResult {
+  const notes = new Notes();
+  if (!isRecord(value)) return notes.fail("Response is not a JSON object");
+  const action = readAction(value, notes);
+
+  const participants: SequenceParticipant[] = [];
+  for (const [index, raw] of readList(value, "participants", notes)) {
+    const id = readId(raw.id);
+    if (!id) {
+      notes.drop(index, undefined, "Participant has no id");
+    } else if (participants.some((p) => p.id === id)) {
+      notes.drop(index, id, "Duplicate participant id");
+    } else {
+      participants.push({ id, label: readText(raw.label) || readText(raw.name) || id });
+    }
+  }
+  // Models often skip participants that only appear in messages
+  const participant = (id: string, index: number) => {
+    if (!participants.some((p) => p.id === id)) {
+      notes.fix(index, id, `Added missing participant "${id}"`);
+      participants.push({ id, label: id });
+    }
+    return id;
+  };
+
+  if (!Array.isArray(value.messages)) return notes.fail('Response is missing the "messages" array');
+  const steps: SequenceStep[] = [];
+  for (const [index, raw] of readList(value, "messages", notes)) {
+    const note = readText(raw.note);
+    if (note) {
+      const over = (Array.isArray(raw.over) ? raw.over : [raw.over]).map(readId).filter(Boolean);
+      if (over.length === 0) {
+        notes.drop(index, undefined, "Note is not placed over any participant");
+        continue;
+      }
+      steps.push({ kind: "note", over: over.map((id) => participant(id, index)), text: note });
+      continue;
+    }
+    const from = readId(raw.from);
+    const to = readId(raw.to);
+    if (!from || !to) {
+      notes.drop(index, undefined, 'Message needs "from" and "to"');
+      continue;
+    }
+    steps.push({
+      kind: "message",
+      from: participant(from, index),
+      to: participant(to, index),
+      text: readText(raw.text) || readText(raw.label),
+      dashed: raw.reply === true || raw.dashed === true,
+    });
+  }
+
+  if (participants.length === 0) return notes.fail("The diagram has no participants");
+  return notes.done(action, layoutSequence({ participants, steps }, options.origin?.(action)));
+}
+
+// --- ER ---------------------------------------------------------------------
+
+const ER_PROMPT = `You are a diagram generation assistant specialized in entity-relationship (ER) diagrams. You describe entities, their attributes and the relationships between them; a layout engine draws the entity tables and the relationship lines with crow's-foot cardinality labels.
+
+## Output Format
+{
+  "action": "add" | "replace" | "modify",
+  "entities": [
+    { "id": string, "name": string, "attributes": [ { "name": string, "type": string (optional), "key": "pk" | "fk" (optional) } ] }
+  ],
+  "relationships": [
+    { "from": string, "to": string, "cardinality": "1:1" | "1:N" | "N:1" | "N:M", "label": string (optional) }
+  ]
+}
+
+${ACTION_RULES}
+
+## Rules
+1. Use the table name as "name" and a short lowercase "id" (e.g. "users", "orders").
+2. Mark primary keys with "key": "pk" and foreign keys with "key": "fk". List keys first.
+3. "cardinality" reads from "from" to "to": "1:N" means one "from" has many "to".
+4. Use "label" for the verb of the relationship (e.g. "places") when it adds meaning.
+5. Model many-to-many either as "N:M" or with an explicit join entity, not both.
+
+## Example: Shop
+{
+  "action": "add",
+  "entities": [
+    { "id": "customers", "name": "customers", "attributes": [
+      { "name": "id", "type": "int", "key": "pk" },
+      { "name": "email", "type": "varchar" }
+    ] },
+    { "id": "orders", "name": "orders", "attributes": [
+      { "name": "id", "type": "int", "key": "pk" },
+      { "name": "customer_id", "type": "int", "key": "fk" },
+      { "name": "ordered_at", "type": "timestamp" }
+    ] },
+    { "id": "products", "name": "products", "attributes": [
+      { "name": "id", "type": "int", "key": "pk" },
+      { "name": "name", "type": "varchar" }
+    ] }
+  ],
+  "relationships": [
+    { "from": "customers", "to": "orders", "cardinality": "1:N", "label": "places" },
+    { "from": "orders", "to": "products", "cardinality": "N:M", "label": "contains" }
+  ]
+}
+
+${JSON_ONLY}`;
+
+export type Cardinality = "1:1" | "1:N" | "N:1" | "N:M";
+
+const CARDINALITIES: readonly Cardinality[] = ["1:1", "1:N", "N:1", "N:M"];
+
+export interface EntityAttribute {
+  name: string;
+  type?: string;
+  pk?: boolean;
+  fk?: boolean;
+}
+
+export interface Entity {
+  id: string;
+  name: string;
+  attributes: EntityAttribute[];
+}
+
+export interface Relationship {
+  from: string;
+  to: string;
+  cardinality: Cardinality;
+  label?: string;
+}
+
+const ENTITY_HEADER_HEIGHT = 40;
+const ATTRIBUTE_LINE_HEIGHT = 24;
+const ENTITY_GAP_X = 180;
+const ENTITY_GAP_Y = 120;
+const ENTITY_COLORS = ["#a5d8ff", "#b2f2bb", "#ffd8a8", "#fcc2d7", "#d0bfff", "#fff3bf"];
+
+function attributeLine(attr: EntityAttribute): string {
+  const keys = [attr.pk && "PK", attr.fk && "FK"].filter(Boolean).join(" ");
+  return `${keys ? `${keys} ` : ""}${attr.name}${attr.type ? `: ${attr.type}` : ""}`;
+}
+
+// Crow's-foot reading of each end: "1" for exactly one, "N"/"M" for many
+function endLabels(cardinality: Cardinality): [string, string] {
+  const [from, to] = cardinality.split(":");
+  return [from === "1" ? "1" : from, to === "1" ? "1" : to];
+}
+
+/**
+ * Draw entities as tables on a grid (header with the name, attributes below)
+ * and relationships as arrows bound to the tables, with the cardinality of
+ * each end written next to it. Shared with the SQL importer.
+ */
+export function layoutEntities(
+  entities: Entity[],
+  relationships: Relationship[],
+  origin: { x: number; y: number } = { x: 0, y: 0 },
+): SkeletonElement[] {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(entities.length)));
+  const sizes = entities.map((entity) => {
+    const lines = [entity.name, ...entity.attributes.map(attributeLine)];
+    const longest = Math.max(...lines.map((l) => l.length));
+    return {
+      width: Math.max(180, longest * 9 + 40),
+      height: ENTITY_HEADER_HEIGHT + Math.max(1, entity.attributes.length) * ATTRIBUTE_LINE_HEIGHT + 20,
+    };
+  });
+  const columnWidths = Array.from({ length: columns }, (_, c) =>
+    Math.max(0, ...sizes.filter((_, i) => i % columns === c).map((s) => s.width)),
+  );
+  const rowHeights = Array.from({ length: Math.ceil(entities.length / columns) }, (_, r) =>
+    Math.max(0, ...sizes.slice(r * columns, (r + 1) * columns).map((s) => s.height)),
+  );
+
+  const elements: SkeletonElement[] = [];
+  const tables = new Map<string, ShapeSkeleton>();
+  entities.forEach((entity, i) => {
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    const x = origin.x + columnWidths.slice(0, column).reduce((sum, w) => sum + w + ENTITY_GAP_X, 0);
+    const y = origin.y + rowHeights.slice(0, row).reduce((sum, h) => sum + h + ENTITY_GAP_Y, 0);
+    const { width, height } = sizes[i];
+    const groupIds = [`entity_${entity.id}`];
+    // The outer box carries the entity's id, so relationships bind to it
+    const table: ShapeSkeleton = {
+      type: "rectangle",
+      id: entity.id,
+      x,
+      y,
+      width,
+      height,
+      backgroundColor: "#ffffff",
+      strokeColor: DEFAULT_STROKE_COLOR,
+      groupIds,
+    };
+    tables.set(entity.id, table);
+    elements.push(table, {
+      type: "rectangle",
+      id: `${entity.id}_header`,
+      x,
+      y,
+      width,
+      height: ENTITY_HEADER_HEIGHT,
+      backgroundColor: ENTITY_COLORS[i % ENTITY_COLORS.length],
+      strokeColor: DEFAULT_STROKE_COLOR,
+      label: { text: entity.name, fontSize: 20 },
+      groupIds,
+    });
+    if (entity.attributes.length > 0) {
+      elements.push({
+        type: "text",
+        id: `${entity.id}_attributes`,
+        x: x + 15,
+        y: y + ENTITY_HEADER_HEIGHT + 10,
+        text: entity.attributes.map(attributeLine).join("\n"),
+        fontSize: 16,
+        strokeColor: DEFAULT_STROKE_COLOR,
+        groupIds,
+      });
+    }
+  });
+
+  relationships.forEach((rel, i) => {
+    const from = tables.get(rel.from);
+    const to = tables.get(rel.to);
+    if (!from || !to || from === to) return;
+    const arrow = connect(from, to);
+    arrow.id = `rel_${rel.from}_${rel.to}_${i + 1}`;
+    if (rel.label) arrow.label = { text: rel.label, fontSize: 16 };
+    elements.push(arrow);
+
+    // Cardinality labels sit just inside each end, off to one side
+    const length = Math.hypot(arrow.width, arrow.height) || 1;
+    const ux = arrow.width / length;
+    const uy = arrow.height / length;
+    const [startLabel, endLabel] = endLabels(rel.cardinality);
+    for (const [text, t, which] of [
+      [startLabel, 20, "start"],
+      [endLabel, length - 30, "end"],
+    ] as const) {
+      elements.push({
+        type: "text",
+        id: `${arrow.id}_${which}`,
+        x: Math.round(arrow.x + ux * t - uy * 18 - 5),
+        y: Math.round(arrow.y + uy * t + ux * 18 - 10),
+        text,
+        fontSize: 16,
+        strokeColor: DEFAULT_STROKE_COLOR,
+      });
+    }
+  });
+
+  return elements;
+}
+
+function buildEntities(value: unknown, options: DiagramBuildOptions = {}): DiagramBuildResult {
+  const notes = new Notes();
+  if (!isRecord(value)) return notes.fail("Response is not a JSON object");
+  const action = readAction(value, notes);
+  if (!Array.isArray(value.entities)) return notes.fail('Response is missing the "entities" array');
+
+  const entities: Entity[] = [];
+  for (const [index, raw] of readList(value, "entities", notes)) {
+    const id = readId(raw.id) || readText(raw.name);
+    if (!id) {
+      notes.drop(index, undefined, "Entity has no id or name");
+      continue;
+    }
+    if (entities.some((e) => e.id === id)) {
+      notes.drop(index, id, "Duplicate entity id");
+      continue;
+    }
+    const attributes: EntityAttribute[] = [];
+    for (const attr of Array.isArray(raw.attributes) ? raw.attributes : []) {
+      // Plain strings are accepted as attribute names
+      if (typeof attr === "string" && attr.trim()) {
+        attributes.push({ name: attr.trim() });
+      } else if (isRecord(attr) && readText(attr.name)) {
+        const key = readText(attr.key).toLowerCase();
+        attributes.push({
+          name: readText(attr.name),
+          type: readText(attr.type) || undefined,
+          pk: key.includes("pk") || attr.pk === true || undefined,
+          fk: key.includes("fk") || attr.fk === true || undefined,
+        });
+      } else {
+        notes.fix(index, id, "Skipped an attribute without a name");
+      }
+    }
+    entities.push({ id, name: readText(raw.name) || id, attributes });
+  }
+  if (entities.length === 0) return notes.fail("No valid entities remained after validation");
+
+  const relationships: Relationship[] = [];
+  for (const [index, raw] of readList(value, "relationships", notes)) {
+    const from = readId(raw.from);
+    const to = readId(raw.to);
+    if (!entities.some((e) => e.id === from) || !entities.some((e) => e.id === to)) {
+      notes.drop(index, undefined, `Relationship ${from} → ${to} references a missing entity`);
+      continue;
+    }
+    let cardinality = readText(raw.cardinality).toUpperCase().replace(/\s/g, "") as Cardinality;
+    if (cardinality === ("M:N" as Cardinality) || cardinality === ("N:N" as Cardinality)) cardinality = "N:M";
+    if (!CARDINALITIES.includes(cardinality)) {
+      notes.fix(index, undefined, `Unknown cardinality ${JSON.stringify(raw.cardinality)}, used "1:N"`);
+      cardinality = "1:N";
+    }
+    relationships.push({ from, to, cardinality, label: readText(raw.label) || undefined });
+  }
+
+  return notes.done(action, layoutEntities(entities, relationships, options.origin?.(action)));
+}
+
+// --- C4 ---------------------------------------------------------------------
+
+const C4_PROMPT = `You are a diagram generation assistant specialized in C4 architecture diagrams (system context and container level). You describe people, systems, containers and their relations; a layout engine draws them with boundary frames around the systems they belong to.
+
+## Output Format
+{
+  "action": "add" | "replace" | "modify",
+  "nodes": [
+    { "id": string, "name": string, "kind": "person" | "system" | "external" | "container" | "database" | "component", "technology": string (optional), "description": string (optional), "boundary": string (optional) }
+  ],
+  "boundaries": [ { "id": string, "label": string } ],
+  "relations": [ { "from": string, "to": string, "label": string, "technology": string (optional) } ]
+}
+
+${ACTION_RULES}
+
+## Rules
+1. System context: people, the system in scope and the external systems it talks to.
+2. Container level: put the containers and databases of the system in scope inside one boundary, with people and external systems outside it.
+3. "boundary" refers to the id of an entry in "boundaries".
+4. Keep descriptions to one short sentence. Give containers their "technology" (e.g. "React", "Spring Boot", "PostgreSQL").
+5. Every relation gets a verb phrase label (e.g. "Reads from", "Sends email using").
+
+## Example: Internet Banking (containers)
+{
+  "action": "add",
+  "nodes": [
+    { "id": "customer", "name": "Customer", "kind": "person", "description": "A bank customer" },
+    { "id": "spa", "name": "Web App", "kind": "container", "technology": "React", "boundary": "bank" },
+    { "id": "api", "name": "API", "kind": "container", "technology": "Spring Boot", "boundary": "bank" },
+    { "id": "db", "name": "Database", "kind": "database", "technology": "PostgreSQL", "boundary": "bank" },
+    { "id": "mail", "name": "Email System", "kind": "external", "description": "Sends notifications" }
+  ],
+  "boundaries": [ { "id": "bank", "label": "Internet Banking System" } ],
+  "relations": [
+    { "from": "customer", "to": "spa", "label": "Uses", "technology": "HTTPS" },
+    { "from": "spa", "to": "api", "label": "Calls", "technology": "JSON/HTTPS" },
+    { "from": "api", "to": "db", "label": "Reads and writes", "technology": "SQL" },
+    { "from": "api", "to": "mail", "label": "Sends email using" }
+  ]
+}
+
+${JSON_ONLY}`;
+
+type C4Kind = "person" | "system" | "external" | "container" | "database" | "component";
+
+const C4_KINDS: Record<C4Kind, { title: string; color: string }> = {
+  person: { title: "Person", color: PALETTE.purple },
+  system: { title: "Software System", color: PALETTE.blue },
+  external: { title: "External System", color: PALETTE.gray },
+  container: { title: "Container", color: PALETTE.blue },
+  database: { title: "Database", color: PALETTE.green },
+  component: { title: "Component", color: PALETTE.yellow },
+};
+
+const BOUNDARY_PADDING = 40;
+const BOUNDARY_TITLE_HEIGHT = 30;
+const CLUSTER_GAP = 120;
+const ROW_GAP = 140;
+
+interface C4Node {
+  id: string;
+  label: string;
+  kind: C4Kind;
+  boundary?: string;
+}
+
+function buildC4(value: unknown, options: DiagramBuildOptions = {}): DiagramBuildResult {
+  const notes = new Notes();
+  if (!isRecord(value)) return notes.fail("Response is not a JSON object");
+  const action = readAction(value, notes);
+  if (!Array.isArray(value.nodes)) return notes.fail('Response is missing the "nodes" array');
+
+  const boundaries = new Map<string, string>();
+  for (const [index, raw] of readList(value, "boundaries", notes)) {
+    const id = readId(raw.id);
+    if (id) boundaries.set(id, readText(raw.label) || readText(raw.name) || id);
+    else notes.drop(index, undefined, "Boundary has no id");
+  }
+
+  const nodes: C4Node[] = [];
+  for (const [index, raw] of readList(value, "nodes", notes)) {
+    const id = readId(raw.id);
+    if (!id) {
+      notes.drop(index, undefined, "Node has no id");
+      continue;
+    }
+    if (nodes.some((n) => n.id === id)) {
+      notes.drop(index, id, "Duplicate node id");
+      continue;
+    }
+    let kind = readText(raw.kind).toLowerCase() as C4Kind;
+    if (!Object.hasOwn(C4_KINDS, kind)) {
+      notes.fix(index, id, `Unknown kind ${JSON.stringify(raw.kind)}, used "system"`);
+      kind = "system";
+    }
+    const name = readText(raw.name) || readText(raw.label) || id;
+    const technology = readText(raw.technology);
+    const description = readText(raw.description);
+    const lines = [name, `[${C4_KINDS[kind].title}${technology ? `: ${technology}` : ""}]`];
+    if (description) lines.push(description);
+    const node: C4Node = { id, label: lines.join("\n"), kind };
+    const boundary = readId(raw.boundary);
+    if (boundary) {
+      if (!boundaries.has(boundary)) {
+        notes.fix(index, id, `Added missing boundary "${boundary}"`);
+        boundaries.set(boundary, boundary);
+      }
+      node.boundary = boundary;
+    }
+    nodes.push(node);
+  }
+  if (nodes.length === 0) return notes.fail("No valid nodes remained after validation");
+
+  const edges: GraphEdge[] = [];
+  for (const [index, raw] of readList(value, "relations", notes)) {
+    const from = readId(raw.from);
+    const to = readId(raw.to);
+    if (!nodes.some((n) => n.id === from) || !nodes.some((n) => n.id === to)) {
+      notes.drop(index, undefined, `Relation ${from} → ${to} references a missing node`);
+      continue;
+    }
+    const technology = readText(raw.technology);
+    const label = [readText(raw.label), technology && `[${technology}]`].filter(Boolean).join("\n");
+    edges.push({ from, to, label: label || undefined });
+  }
+
+  // Each boundary is laid out as its own cluster so its frame never takes in
+  // other nodes; people sit above the clusters and external systems below
+  const clusters: Array<{ row: number; boundary?: string; nodes: C4Node[] }> = [];
+  for (const [id] of boundaries) {
+    const members = nodes.filter((n) => n.boundary === id);
+    if (members.length > 0) clusters.push({ row: 1, boundary: id, nodes: members });
+  }
+  for (const node of nodes.filter((n) => !n.boundary)) {
+    const row = node.kind === "person" ? 0 : node.kind === "external" ? 2 : 1;
+    clusters.push({ row, nodes: [node] });
+  }
+
+  const placed = clusters.map((cluster) => {
+    const ids = new Set(cluster.nodes.map((n) => n.id));
+    const graphNodes: GraphNode[] = cluster.nodes.map((n) => ({
+      id: n.id,
+      label: n.label,
+      shape: n.kind === "person" ? "ellipse" : "rectangle",
+    }));
+    // Relations are drawn once the clusters are placed
+    const elements = layoutGraph(
+      { nodes: graphNodes, edges: edges.filter((e) => ids.has(e.from) && ids.has(e.to)) },
+      { direction: "left-right" },
+    ).filter((el) => el.type !== "arrow");
+    for (const el of elements) {
+      const node = el.id ? cluster.nodes.find((n) => n.id === el.id) : undefined;
+      if (node) el.backgroundColor = C4_KINDS[node.kind].color;
+    }
+    const shapes = [...shapesById(elements).values()];
+    let width = Math.max(...shapes.map((s) => s.x + s.width));
+    let height = Math.max(...shapes.map((s) => s.y + s.height));
+    if (cluster.boundary) {
+      const groupId = `boundary_${cluster.boundary}`;
+      translate(elements, BOUNDARY_PADDING, BOUNDARY_PADDING + BOUNDARY_TITLE_HEIGHT);
+      width += BOUNDARY_PADDING * 2;
+      height += BOUNDARY_PADDING * 2 + BOUNDARY_TITLE_HEIGHT;
+      for (const el of elements) el.groupIds = [groupId];
+      // The frame goes first so it stays behind its contents
+      elements.unshift(
+        {
+          type: "rectangle",
+          id: groupId,
+          x: 0,
+          y: 0,
+          width,
+          height,
+          strokeColor: "#868e96",
+          strokeStyle: "dashed",
+          groupIds: [groupId],
+        },
+        {
+          type: "text",
+          id: `${groupId}_title`,
+          x: 15,
+          y: 10,
+          text: `${boundaries.get(cluster.boundary)} [System]`,
+          fontSize: 16,
+          strokeColor: "#868e96",
+          groupIds: [groupId],
+        },
+      );
+    }
+    return { ...cluster, elements, width, height };
+  });
+
+  // Rows are centered on the widest one
+  const origin = options.origin?.(action) ?? { x: 0, y: 0 };
+  const rows = [0, 1, 2].map((row) => placed.filter((c) => c.row === row)).filter((r) => r.length > 0);
+  const rowWidth = (row: typeof placed) =>
+    row.reduce((sum, c) => sum + c.width, 0) + CLUSTER_GAP * (row.length - 1);
+  const widest = Math.max(...rows.map(rowWidth));
+  const elements: SkeletonElement[] = [];
+  let y = origin.y;
+  for (const row of rows) {
+    let x = origin.x + (widest - rowWidth(row)) / 2;
+    for (const cluster of row) {
+      translate(cluster.elements, Math.round(x), Math.round(y));
+      elements.push(...cluster.elements);
+      x += cluster.width + CLUSTER_GAP;
+    }
+    y += Math.max(...row.map((c) => c.height)) + ROW_GAP;
+  }
+
+  // Numbered like the state machine's transitions, so "modify" updates them
+  const shapes = shapesById(elements);
+  edges.forEach((edge, i) => {
+    if (edge.from === edge.to) return;
+    const arrow = connect(shapes.get(edge.from)!, shapes.get(edge.to)!);
+    arrow.id = `relation_${i + 1}`;
+    if (edge.label) arrow.label = { text: edge.label, fontSize: 16 };
+    elements.push(arrow);
+  });
+
+  return notes.done(action, elements);
+}
+
+// --- State machine ----------------------------------------------------------
+
+const STATE_PROMPT = `You are a diagram generation assistant specialized in UML state machine diagrams. You describe the states and the transitions between them; a layout engine draws them, including the initial and final pseudo-states.
+
+## Output Format
+{
+  "action": "add" | "replace" | "modify",
+  "layout": "top-down" | "left-right",
+  "states": [ { "id": string, "label": string, "kind": "state" | "initial" | "final" | "choice" } ],
+  "transitions": [ { "from": string, "to": string, "event": string (optional), "guard": string (optional), "effect": string (optional) } ]
+}
+
+${ACTION_RULES}
+
+## Rules
+1. Include exactly one "initial" state with a transition to the first real state. If you leave it out, one is added before the first state.
+2. Add a "final" state when the machine can finish (e.g. Closed, Cancelled); it needs no label.
+3. Use "choice" for a branch on a guard; put the conditions on the outgoing transitions.
+4. Transitions are written "event [guard] / effect"; give each part separately.
+5. State labels are short nouns or adjectives (e.g. "Pending", "Paid"), not actions.
+
+## Example: Order
+{
+  "action": "add",
+  "layout": "top-down",
+  "states": [
+    { "id": "start", "kind": "initial" },
+    { "id": "pending", "label": "Pending", "kind": "state" },
+    { "id": "paid", "label": "Paid", "kind": "state" },
+    { "id": "shipped", "label": "Shipped", "kind": "state" },
+    { "id": "end", "kind": "final" }
+  ],
+  "transitions": [
+    { "from": "start", "to": "pending" },
+    { "from": "pending", "to": "paid", "event": "pay", "guard": "amount ok" },
+    { "from": "pending", "to": "end", "event": "cancel" },
+    { "from": "paid", "to": "shipped", "event": "ship", "effect": "notify customer" },
+    { "from": "shipped", "to": "end", "event": "deliver" }
+  ]
+}
+
+${JSON_ONLY}`;
+
+type StateKind = "state" | "initial" | "final" | "choice";
+
+const STATE_KINDS: readonly StateKind[] = ["state", "initial", "final", "choice"];
+
+// Size of the pseudo-states, drawn in place of the layout's default boxes
+const PSEUDO_STATE_SIZE: Record<Exclude<StateKind, "state">, number> = {
+  initial: 30,
+  final: 40,
+  choice: 60,
+};
+
+function buildStateMachine(value: unknown, options: DiagramBuildOptions = {}): DiagramBuildResult {
+  const notes = new Notes();
+  if (!isRecord(value)) return notes.fail("Response is not a JSON object");
+  const action = readAction(value, notes);
+  if (!Array.isArray(value.states)) return notes.fail('Response is missing the "states" array');
+
+  const states: Array<{ id: string; label: string; kind: StateKind }> = [];
+  for (const [index, raw] of readList(value, "states", notes)) {
+    const id = readId(raw.id);
+    if (!id) {
+      notes.drop(index, undefined, "State has no id");
+      continue;
+    }
+    if (states.some((s) => s.id === id)) {
+      notes.drop(index, id, "Duplicate state id");
+      continue;
+    }
+    let kind = (readText(raw.kind).toLowerCase() || "state") as StateKind;
+    if (!STATE_KINDS.includes(kind)) {
+      notes.fix(index, id, `Unknown kind ${JSON.stringify(raw.kind)}, used "state"`);
+      kind = "state";
+    }
+    states.push({ id, label: readText(raw.label) || readText(raw.name) || (kind === "state" ? id : ""), kind });
+  }
+  if (!states.some((s) => s.kind === "state")) return notes.fail("The state machine has no states");
+
+  const edges: GraphEdge[] = [];
+  for (const [index, raw] of readList(value, "transitions", notes)) {
+    const from = readId(raw.from);
+    const to = readId(raw.to);
+    if (!states.some((s) => s.id === from) || !states.some((s) => s.id === to)) {
+      notes.drop(index, undefined, `Transition ${from} → ${to} references a missing state`);
+      continue;
+    }
+    const guard = readText(raw.guard);
+    const effect = readText(raw.effect) || readText(raw.action);
+    const label = [readText(raw.event), guard && `[${guard.replace(/^\[|\]$/g, "")}]`, effect && `/ ${effect}`]
+      .filter(Boolean)
+      .join(" ");
+    edges.push({ from, to, label: label || undefined });
+  }
+
+  if (!states.some((s) => s.kind === "initial")) {
+    // Enter at the first state nothing leads to, or the first state listed
+    const real = states.filter((s) => s.kind === "state");
+    const entry = real.find((s) => !edges.some((e) => e.to === s.id)) ?? real[0];
+    const id = states.some((s) => s.id === "initial") ? "__initial" : "initial";
+    states.unshift({ id, label: "", kind: "initial" });
+    edges.unshift({ from: id, to: entry.id });
+    notes.fix(-1, id, `Added an initial state before "${entry.id}"`);
+  }
+
+  const layout = readText(value.layout) as LayoutDirection;
+  const elements = layoutGraph(
+    {
+      nodes: states.map((s) => ({
+        id: s.id,
+        label: s.label || " ",
+        shape: s.kind === "state" ? "rectangle" : s.kind === "choice" ? "diamond" : "ellipse",
+      })),
+      edges,
+    },
+    { direction: layout === "left-right" ? "left-right" : "top-down", origin: options.origin?.(action) },
+  );
+
+  // Shrink the pseudo-states to their UML symbols, centered where the layout
+  // put them, and color the real states alike
+  const kinds = new Map(states.map((s) => [s.id, s.kind]));
+  const extra: SkeletonElement[] = [];
+  for (const el of elements) {
+    const kind = el.id ? kinds.get(el.id) : undefined;
+    if (!kind || !isShapeType(el.type)) continue;
+    const shape = el as ShapeSkeleton;
+    if (kind === "state") {
+      shape.backgroundColor = PALETTE.blue;
+      continue;
+    }
+    const size = PSEUDO_STATE_SIZE[kind];
+    shape.x = Math.round(shape.x + (shape.width - size) / 2);
+    shape.y = Math.round(shape.y + (shape.height - size) / 2);
+    shape.width = size;
+    shape.height = size;
+    if (kind === "choice") {
+      shape.backgroundColor = "#ffffff";
+      delete shape.label;
+      continue;
+    }
+    delete shape.label;
+    if (kind === "initial") {
+      shape.backgroundColor = DEFAULT_STROKE_COLOR;
+      shape.fillStyle = "solid";
+    } else {
+      // Final state: a ring with a filled dot inside
+      shape.backgroundColor = "#ffffff";
+      shape.strokeWidth = 2;
+      shape.groupIds = [`final_${shape.id}`];
+      extra.push({
+        type: "ellipse",
+        id: `${shape.id}_dot`,
+        x: shape.x + 9,
+        y: shape.y + 9,
+        width: size - 18,
+        height: size - 18,
+        backgroundColor: DEFAULT_STROKE_COLOR,
+        fillStyle: "solid",
+        strokeColor: DEFAULT_STROKE_COLOR,
+        groupIds: [`final_${shape.id}`],
+      });
+    }
+  }
+
+  // Transitions are redrawn against the resized shapes
+  const shapes = shapesById(elements);
+  const result: SkeletonElement[] = [...elements.filter((el) => el.type !== "arrow"), ...extra];
+  edges.forEach((edge, i) => {
+    if (edge.from === edge.to) {
+      notes.drop(-1, edge.from, "Self-transitions are not drawn");
+      return;
+    }
+    const arrow = connect(shapes.get(edge.from)!, shapes.get(edge.to)!);
+    arrow.id = `transition_${i + 1}`;
+    if (edge.label) arrow.label = { text: edge.label, fontSize: 16 };
+    result.push(arrow);
+  });
+
+  return notes.done(action, result);
+}
+
+// --- Modify -----------------------------------------------------------------
+
+/**
+ * Give a redrawn diagram the ids it has on the canvas. The client prefixes
+ * the ids of every added batch ("b3_api"), while the specialists build the
+ * same ids as before without it, so the batch under which most of them are
+ * found is put back (the latest one on a tie). The diagram is then moved
+ * so its shapes stay where they are drawn now.
+ */
+export function matchCanvas(elements: SkeletonElement[], canvas: DiagramCanvas): SkeletonElement[] {
+  const existing = new Set(canvas.ids);
+  const batches = new Map<string, number>();
+  for (const id of existing) {
+    const match = /^b(\d+)_/.exec(id);
+    if (match) batches.set(match[0], Number(match[1]));
+  }
+  const ids = elements.flatMap((el) => (el.id ? [el.id] : []));
+  let prefix = "";
+  let best = ids.filter((id) => existing.has(id)).length;
+  for (const [batch] of [...batches].sort((a, b) => b[1] - a[1])) {
+    const found = ids.filter((id) => existing.has(batch + id)).length;
+    if (found > best) {
+      prefix = batch;
+      best = found;
+    }
+  }
+
+  const result = elements.map((el): SkeletonElement => {
+    const copy = { ...el };
+    if (copy.id) copy.id = prefix + copy.id;
+    if (copy.groupIds) copy.groupIds = copy.groupIds.map((g) => prefix + g);
+    if (copy.type === "arrow" || copy.type === "line") {
+      if (copy.start) copy.start = { ...copy.start, id: prefix + copy.start.id };
+      if (copy.end) copy.end = { ...copy.end, id: prefix + copy.end.id };
+    }
+    return copy;
+  });
+
+  const placed = new Map((canvas.placed?.nodes ?? []).map((node) => [node.id, node]));
+  const kept = [...shapesById(result).values()].filter((shape) => placed.has(shape.id!));
+  if (kept.length > 0) {
+    const left = (boxes: Box[]) => Math.min(...boxes.map((b) => b.x));
+    const top = (boxes: Box[]) => Math.min(...boxes.map((b) => b.y));
+    const now = kept.map((shape) => placed.get(shape.id!)!);
+    translate(result, left(now) - left(kept), top(now) - top(kept));
+  }
+  return result;
+}
+
+// Every specialist's "modify" goes through matchCanvas
+function onCanvas(build: DiagramType["build"]): DiagramType["build"] {
+  return (value, options = {}) => {
+    const result = build(value, options);
+    if (!result.ok || result.response.action !== "modify" || !options.canvas) return result;
+    const elements = matchCanvas(result.response.elements, options.canvas);
+    return { ...result, response: { ...result.response, elements } };
+  };
+}
+
+// --- Registry ---------------------------------------------------------------
+
+export const DIAGRAM_TYPES: readonly DiagramType[] = [
+  {
+    id: "sequence",
+    label: "Sequence",
+    keywords: /\bsequence (diagram|chart)s?\b|\blifelines?\b|シーケンス図|ライフライン/i,
+    systemPrompt: SEQUENCE_PROMPT,
+    build: onCanvas(buildSequence),
+  },
+  {
+    id: "er",
+    label: "ER",
+    keywords: /\bER[- ]?(diagram|model)s?\b|\bERDs?\b|\bER図|\bentity[- ]relationship\b|\bdatabase schemas?\b|\btable designs?\b|テーブル(設計|定義)|エンティティ/i,
+    systemPrompt: ER_PROMPT,
+    build: onCanvas(buildEntities),
+  },
+  {
+    id: "c4",
+    label: "C4",
+    keywords: /\bC4\b|\bsystem context (diagram|view)s?\b|\bcontainer diagrams?\b|コンテキスト図|コンテナ図/i,
+    systemPrompt: C4_PROMPT,
+    build: onCanvas(buildC4),
+  },
+  {
+    id: "state",
+    label: "State machine",
+    keywords: /\bstate (machine|diagram|chart)s?\b|\bstatecharts?\b|状態遷移|ステートマシン|状態図/i,
+    systemPrompt: STATE_PROMPT,
+    build: onCanvas(buildStateMachine),
+  },
+];
+
+export function getDiagramType(id: string | undefined): DiagramType | undefined {
+  return DIAGRAM_TYPES.find((t) => t.id === id);
+}
+
+/**
+ * Pick the specialist for a request from the words in it. Returns undefined
+ * for anything else, which goes to the general prompt.
+ */
+export function classifyRequest(text: string): DiagramType | undefined {
+  return DIAGRAM_TYPES.find((t) => t.keywords.test(text));
+}
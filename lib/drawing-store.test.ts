@@ -0,0 +1,106 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  deleteStoredDrawing,
+  listStoredDrawings,
+  readSharedDrawing,
+  readStoredDrawing,
+  rejectUnauthorized,
+  shareStoredDrawing,
+  writeStoredDrawing,
+  type StoredDrawing,
+} from "./drawing-store";
+import { API_KEY_HEADER } from "./drawings";
+
+function drawing(id: string, baseRevision?: number): StoredDrawing {
+  return {
+    meta: { id, name: id, createdAt: 1, updatedAt: 2 },
+    elements: [],
+    files: [],
+    messages: [{ role: "user", content: "hi", withSnapshot: true }],
+    baseRevision,
+  };
+}
+
+let dir: string;
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "drawings-"));
+  process.env.DRAWINGS_DIR = dir;
+});
+afterEach(async () => {
+  delete process.env.DRAWINGS_DIR;
+  delete process.env.DRAWINGS_API_KEY;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("rejectUnauthorized", () => {
+  const request = (key?: string) =>
+    new Request("http://localhost/api/drawings", { headers: key === undefined ? {} : { [API_KEY_HEADER]: key } });
+
+  it("turns the store off without a configured key", () => {
+    expect(rejectUnauthorized(request("anything"))?.status).toBe(503);
+  });
+
+  it("needs the configured key", () => {
+    process.env.DRAWINGS_API_KEY = "secret";
+    expect(rejectUnauthorized(request())?.status).toBe(401);
+    expect(rejectUnauthorized(request("wrong"))?.status).toBe(401);
+    expect(rejectUnauthorized(request("secret"))).toBeNull();
+  });
+});
+
+describe("writeStoredDrawing", () => {
+  it("numbers revisions and refuses writes based on an old one", async () => {
+    expect(await writeStoredDrawing(drawing("a"))).toMatchObject({ revision: 1 });
+    expect(await writeStoredDrawing(drawing("a"))).toBeNull();
+    expect(await writeStoredDrawing(drawing("a", 1))).toMatchObject({ revision: 2 });
+    expect(await writeStoredDrawing(drawing("a", 1))).toBeNull();
+    expect((await readStoredDrawing("a"))?.meta.revision).toBe(2);
+  });
+
+  it("lets only one of two concurrent writes on the same revision through", async () => {
+    await writeStoredDrawing(drawing("a"));
+    const results = await Promise.all([writeStoredDrawing(drawing("a", 1)), writeStoredDrawing(drawing("a", 1))]);
+    expect(results.filter((meta) => meta !== null)).toHaveLength(1);
+  });
+});
+
+describe("deleteStoredDrawing", () => {
+  it("keeps a tombstone for every concurrent deletion", async () => {
+    await Promise.all(["a", "b", "c", "d"].map((id) => deleteStoredDrawing(id)));
+    const { deleted } = await listStoredDrawings();
+    expect(deleted.map((t) => t.id).sort()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("clears the tombstone when the drawing is saved again", async () => {
+    await writeStoredDrawing(drawing("a"));
+    expect(await deleteStoredDrawing("a")).toBe(true);
+    expect(await deleteStoredDrawing("a")).toBe(false);
+    await writeStoredDrawing(drawing("a"));
+    expect((await listStoredDrawings()).deleted).toEqual([]);
+  });
+});
+
+describe("sharing", () => {
+  it("keeps share tokens out of the list", async () => {
+    await writeStoredDrawing(drawing("a"));
+    const share = await shareStoredDrawing("a", false);
+    expect(share?.token).toHaveLength(32);
+    const { drawings } = await listStoredDrawings();
+    expect(drawings).toHaveLength(1);
+    expect(drawings[0].share).toBeUndefined();
+    expect((await readStoredDrawing("a"))?.meta.share).toEqual(share);
+  });
+
+  it("shows the chat only when the link includes it, as plain messages", async () => {
+    await writeStoredDrawing(drawing("a"));
+    const { token } = (await shareStoredDrawing("a", false))!;
+    expect((await readSharedDrawing(token))?.messages).toBeUndefined();
+    // The link is kept when the chat setting changes
+    expect((await shareStoredDrawing("a", true))?.token).toBe(token);
+    expect((await readSharedDrawing(token))?.messages).toEqual([{ role: "user", content: "hi" }]);
+    expect(await readSharedDrawing("../../etc/passwd")).toBeNull();
+  });
+});
@@ -0,0 +1,267 @@
+// Server-side drawing store behind /api/drawings: one JSON file per drawing
+// under DRAWINGS_DIR (default .data in the project), with its metadata in a
+// small file of its own so listing does not read every scene. Share links
+// are files named after their token. Deleted drawings leave a tombstone so
+// other browsers drop their cached copy on the next sync.
+//
+// Everything but the read-only share view needs DRAWINGS_API_KEY; without
+// it set, the store is off. Writes run one at a time in this process, and
+// each stored version gets a revision number that clients must name to
+// replace it.
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { API_KEY_HEADER, type DrawingMeta, type ShareLink } from "./drawings";
+
+// A drawing as it travels between browser and server
+export interface StoredDrawing {
+  meta: DrawingMeta;
+  elements: unknown[];
+  files: unknown[];
+  messages: unknown[];
+  // Sent with a PUT: the revision the client's copy is based on
+  baseRevision?: number;
+}
+
+export interface Tombstone {
+  id: string;
+  deletedAt: number;
+}
+
+// Chat message as shown on a share page: text and image thumbnails only
+export interface SharedMessage {
+  role: "user" | "assistant";
+  content: string;
+  images?: string[];
+}
+
+export interface SharedDrawing {
+  name: string;
+  updatedAt: number;
+  elements: unknown[];
+  files: unknown[];
+  messages?: SharedMessage[];
+}
+
+interface ShareRecord {
+  drawingId: string;
+  includeChat: boolean;
+  createdAt: number;
+}
+
+// Client-generated UUIDs and base64url tokens; anything else could escape
+// the store's directory
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+export function isDrawingId(value: unknown): value is string {
+  return typeof value === "string" && ID_PATTERN.test(value);
+}
+
+/** Shape check for a drawing sent by the client. */
+export function isStoredDrawing(value: unknown): value is StoredDrawing {
+  if (typeof value !== "object" || value === null) return false;
+  const d = value as Partial<StoredDrawing>;
+  return (
+    typeof d.meta === "object" &&
+    d.meta !== null &&
+    isDrawingId(d.meta.id) &&
+    typeof d.meta.name === "string" &&
+    typeof d.meta.createdAt === "number" &&
+    typeof d.meta.updatedAt === "number" &&
+    Array.isArray(d.elements) &&
+    Array.isArray(d.files) &&
+    Array.isArray(d.messages) &&
+    (d.baseRevision === undefined || typeof d.baseRevision === "number")
+  );
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * The error response for a request without the right API key, or null when
+ * it may go ahead. 503 when no key is configured (the store is off), 401
+ * when the key is missing or wrong.
+ */
+export function rejectUnauthorized(req: Request): Response | null {
+  const expected = process.env.DRAWINGS_API_KEY;
+  if (!expected) {
+    return Response.json(
+      { ok: false, error: "Server storage is off (DRAWINGS_API_KEY is not set)" },
+      { status: 503 },
+    );
+  }
+  const key = req.headers.get(API_KEY_HEADER) ?? "";
+  // Hashed first so the comparison takes the same time for any length
+  if (!timingSafeEqual(digest(key), digest(expected))) {
+    return Response.json({ ok: false, error: "Missing or wrong drawings key" }, { status: 401 });
+  }
+  return null;
+}
+
+// Writes wait for the one before, so read-modify-write updates of the
+// metadata and tombstones do not interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(work: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(work, work);
+  writeQueue = run.catch(() => {});
+  return run;
+}
+
+function storeDir(...parts: string[]): string {
+  return path.join(process.env.DRAWINGS_DIR || path.join(process.cwd(), ".data"), ...parts);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+// Written to a temporary file and renamed, so a reader never sees half a file
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${randomBytes(4).toString("hex")}.tmp`;
+  await writeFile(temp, JSON.stringify(value));
+  await rename(temp, file);
+}
+
+const metaFile = (id: string) => storeDir("drawings", `${id}.meta.json`);
+const contentsFile = (id: string) => storeDir("drawings", `${id}.json`);
+const shareFile = (token: string) => storeDir("shares", `${token}.json`);
+const tombstonesFile = () => storeDir("deleted.json");
+
+export async function listStoredDrawings(): Promise<{ drawings: DrawingMeta[]; deleted: Tombstone[] }> {
+  let names: string[] = [];
+  try {
+    names = await readdir(storeDir("drawings"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  const metas = await Promise.all(
+    names.filter((name) => name.endsWith(".meta.json")).map((name) => readJson<DrawingMeta>(storeDir("drawings", name))),
+  );
+  return {
+    // Share tokens stay out of the list; each client gets its own from the
+    // drawing or share responses
+    drawings: metas.filter((meta) => meta !== null).map((meta) => ({ ...meta, share: undefined })),
+    deleted: (await readJson<Tombstone[]>(tombstonesFile())) ?? [],
+  };
+}
+
+export async function readStoredDrawing(id: string): Promise<StoredDrawing | null> {
+  const [meta, contents] = await Promise.all([
+    readJson<DrawingMeta>(metaFile(id)),
+    readJson<Omit<StoredDrawing, "meta">>(contentsFile(id)),
+  ]);
+  return meta && contents ? { meta, ...contents } : null;
+}
+
+/**
+ * Create or replace a drawing. Replacing needs `baseRevision` to match the
+ * stored revision, so a browser that has not seen the latest version cannot
+ * overwrite it (returns null). Client clocks play no part. The share link
+ * is the server's to keep; whatever the client sends is ignored.
+ */
+export function writeStoredDrawing(drawing: StoredDrawing): Promise<DrawingMeta | null> {
+  return serialized(async () => {
+    const { id } = drawing.meta;
+    const current = await readJson<DrawingMeta>(metaFile(id));
+    if (current && current.revision !== drawing.baseRevision) return null;
+
+    const meta: DrawingMeta = {
+      id,
+      name: drawing.meta.name,
+      createdAt: drawing.meta.createdAt,
+      updatedAt: drawing.meta.updatedAt,
+      thumbnail: drawing.meta.thumbnail,
+      revision: (current?.revision ?? 0) + 1,
+      share: current?.share,
+    };
+    await writeJson(contentsFile(id), { elements: drawing.elements, files: drawing.files, messages: drawing.messages });
+    await writeJson(metaFile(id), meta);
+    // Saved again after being deleted elsewhere
+    const tombstones = (await readJson<Tombstone[]>(tombstonesFile())) ?? [];
+    if (tombstones.some((t) => t.id === id)) {
+      await writeJson(tombstonesFile(), tombstones.filter((t) => t.id !== id));
+    }
+    return meta;
+  });
+}
+
+/** Delete a drawing and its share link. Returns false when it did not exist. */
+export function deleteStoredDrawing(id: string): Promise<boolean> {
+  return serialized(async () => {
+    const meta = await readJson<DrawingMeta>(metaFile(id));
+    if (meta?.share) await rm(shareFile(meta.share.token), { force: true });
+    await rm(contentsFile(id), { force: true });
+    await rm(metaFile(id), { force: true });
+
+    const tombstones = ((await readJson<Tombstone[]>(tombstonesFile())) ?? []).filter((t) => t.id !== id);
+    await writeJson(tombstonesFile(), [...tombstones, { id, deletedAt: Date.now() }]);
+    return meta !== null;
+  });
+}
+
+/**
+ * Share a drawing read-only. An existing link is kept, with the chat
+ * setting updated, so links handed out earlier keep working. Returns null
+ * when the drawing is not stored here.
+ */
+export function shareStoredDrawing(id: string, includeChat: boolean): Promise<ShareLink | null> {
+  return serialized(async () => {
+    const meta = await readJson<DrawingMeta>(metaFile(id));
+    if (!meta) return null;
+    const share: ShareLink = {
+      token: meta.share?.token ?? randomBytes(24).toString("base64url"),
+      includeChat,
+      createdAt: meta.share?.createdAt ?? Date.now(),
+    };
+    const record: ShareRecord = { drawingId: id, includeChat, createdAt: share.createdAt };
+    await writeJson(shareFile(share.token), record);
+    await writeJson(metaFile(id), { ...meta, share });
+    return share;
+  });
+}
+
+export function unshareStoredDrawing(id: string): Promise<void> {
+  return serialized(async () => {
+    const meta = await readJson<DrawingMeta>(metaFile(id));
+    if (!meta?.share) return;
+    await rm(shareFile(meta.share.token), { force: true });
+    await writeJson(metaFile(id), { ...meta, share: undefined });
+  });
+}
+
+function sharedMessages(messages: unknown[]): SharedMessage[] {
+  return messages.flatMap((value) => {
+    const m = value as { role?: unknown; content?: unknown; images?: unknown };
+    if ((m.role !== "user" && m.role !== "assistant") || typeof m.content !== "string") return [];
+    const message: SharedMessage = { role: m.role, content: m.content };
+    if (Array.isArray(m.images)) message.images = m.images.filter((image) => typeof image === "string");
+    return [message];
+  });
+}
+
+/** The drawing behind a share link, or null for an unknown or revoked link. */
+export async function readSharedDrawing(token: string): Promise<SharedDrawing | null> {
+  if (!TOKEN_PATTERN.test(token)) return null;
+  const record = await readJson<ShareRecord>(shareFile(token));
+  if (!record) return null;
+  const drawing = await readStoredDrawing(record.drawingId);
+  if (!drawing || drawing.meta.share?.token !== token) return null;
+  return {
+    name: drawing.meta.name,
+    updatedAt: drawing.meta.updatedAt,
+    elements: drawing.elements,
+    files: drawing.files,
+    messages: record.includeChat ? sharedMessages(drawing.messages) : undefined,
+  };
+}
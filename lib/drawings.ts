@@ -0,0 +1,389 @@
+// Named drawings kept in IndexedDB. Each drawing has its own scene, image
+// files, chat thread and version history. Elements and files are stored one
+// record each, so saving a scene only writes what changed since the last
+// save. The browser's copy is what the app works with; lib/sync.ts keeps it
+// in step with the server when one is reachable.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { BinaryFileData, BinaryFiles } from "@excalidraw/excalidraw/types";
+import type { SnapshotMeta } from "./snapshots";
+
+export interface DrawingMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Small JPEG data: URL of the scene for the drawing list
+  thumbnail?: string;
+  // updatedAt of the copy last exchanged with the server; unset until the
+  // drawing has been synced. Both are times of this browser's clock.
+  syncedAt?: number;
+  // Server-assigned revision of that copy; a different one on the server
+  // means the drawing changed there since
+  revision?: number;
+  // Read-only link, set by the server
+  share?: ShareLink;
+}
+
+export interface ShareLink {
+  // Unguessable part of the /share/<token> URL
+  token: string;
+  includeChat: boolean;
+  createdAt: number;
+}
+
+// Request header that carries the server key (DRAWINGS_API_KEY) to the
+// drawing API
+export const API_KEY_HEADER = "X-Drawings-Key";
+
+// What the database holds for an open drawing, so the next save can skip
+// unchanged elements and files
+export interface SavedScene {
+  versions: Map<string, number>;
+  fileIds: Set<string>;
+}
+
+export interface DrawingContents {
+  elements: ExcalidrawElement[];
+  files: BinaryFileData[];
+  messages: unknown[];
+}
+
+const DB_NAME = "excalidraft";
+const DB_VERSION = 2;
+const DRAWINGS = "drawings";
+const ELEMENTS = "elements";
+const FILES = "files";
+const CHATS = "chats";
+// Version history: metadata and thumbnails apart from the scenes, so the
+// timeline can be listed without reading every scene
+const SNAPSHOTS = "snapshots";
+const SNAPSHOT_SCENES = "snapshotScenes";
+
+// Single-drawing data from before drawings existed
+const LEGACY_CANVAS_KEY = "excalidraft-canvas";
+const LEGACY_CHAT_KEY = "excalidraft-chat-history";
+
+export const DEFAULT_DRAWING_NAME = "Untitled";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(DRAWINGS, { keyPath: "id" });
+        db.createObjectStore(ELEMENTS, { keyPath: ["drawingId", "id"] }).createIndex("drawingId", "drawingId");
+        db.createObjectStore(FILES, { keyPath: ["drawingId", "id"] }).createIndex("drawingId", "drawingId");
+        db.createObjectStore(CHATS, { keyPath: "drawingId" });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(SNAPSHOTS, { keyPath: ["drawingId", "id"] }).createIndex("drawingId", "drawingId");
+        db.createObjectStore(SNAPSHOT_SCENES, { keyPath: ["drawingId", "id"] });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Cannot open the drawing database"));
+  });
+  // A failed open may succeed later (e.g. after a blocked upgrade)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promised<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Run `work` in one transaction; resolves with its result once the
+// transaction has committed
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+}
+
+// Records of one drawing in a store with a drawingId index
+function byDrawing<T>(tx: IDBTransaction, store: string, drawingId: string): Promise<T[]> {
+  return promised(tx.objectStore(store).index("drawingId").getAll(drawingId)) as Promise<T[]>;
+}
+
+function deleteByDrawing(tx: IDBTransaction, store: string, drawingId: string) {
+  const range = IDBKeyRange.bound([drawingId], [drawingId, []]);
+  tx.objectStore(store).delete(range);
+}
+
+/** All drawings, newest first. */
+export async function listDrawings(): Promise<DrawingMeta[]> {
+  const drawings = await transact([DRAWINGS], "readonly", (tx) =>
+    promised(tx.objectStore(DRAWINGS).getAll() as IDBRequest<DrawingMeta[]>),
+  );
+  return drawings.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** "Untitled", then "Untitled 2", ... whichever is not taken yet. */
+export function nextDrawingName(drawings: DrawingMeta[], base = DEFAULT_DRAWING_NAME): string {
+  const names = new Set(drawings.map((d) => d.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+}
+
+export async function createDrawing(
+  name: string,
+  contents: Partial<DrawingContents> = {},
+  thumbnail?: string,
+): Promise<DrawingMeta> {
+  const now = Date.now();
+  const meta: DrawingMeta = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, thumbnail };
+  await transact([DRAWINGS, ELEMENTS, FILES, CHATS], "readwrite", (tx) => {
+    tx.objectStore(DRAWINGS).put(meta);
+    for (const element of contents.elements ?? []) {
+      tx.objectStore(ELEMENTS).put({ drawingId: meta.id, id: element.id, element });
+    }
+    for (const file of contents.files ?? []) {
+      tx.objectStore(FILES).put({ drawingId: meta.id, id: file.id, file });
+    }
+    if (contents.messages && contents.messages.length > 0) {
+      tx.objectStore(CHATS).put({ drawingId: meta.id, messages: contents.messages });
+    }
+  });
+  return meta;
+}
+
+export async function updateDrawing(id: string, changes: Partial<Omit<DrawingMeta, "id">>): Promise<void> {
+  await transact([DRAWINGS], "readwrite", async (tx) => {
+    const store = tx.objectStore(DRAWINGS);
+    const meta = (await promised(store.get(id))) as DrawingMeta | undefined;
+    if (meta) store.put({ ...meta, ...changes });
+  });
+}
+
+export async function deleteDrawing(id: string): Promise<void> {
+  await transact([DRAWINGS, ELEMENTS, FILES, CHATS, SNAPSHOTS, SNAPSHOT_SCENES], "readwrite", (tx) => {
+    tx.objectStore(DRAWINGS).delete(id);
+    tx.objectStore(CHATS).delete(id);
+    deleteByDrawing(tx, ELEMENTS, id);
+    deleteByDrawing(tx, FILES, id);
+    deleteByDrawing(tx, SNAPSHOTS, id);
+    deleteByDrawing(tx, SNAPSHOT_SCENES, id);
+  });
+}
+
+/**
+ * A drawing's scene, in stacking order, with its files and chat, and the
+ * record of what is stored for incremental saves.
+ */
+export async function loadDrawing(id: string): Promise<DrawingContents & { saved: SavedScene }> {
+  return transact([ELEMENTS, FILES, CHATS], "readonly", async (tx) => {
+    const [elementRecords, fileRecords, chat] = await Promise.all([
+      byDrawing<{ element: ExcalidrawElement }>(tx, ELEMENTS, id),
+      byDrawing<{ file: BinaryFileData }>(tx, FILES, id),
+      promised(tx.objectStore(CHATS).get(id)) as Promise<{ messages: unknown[] } | undefined>,
+    ]);
+    // Fractional indices order the scene; they compare as plain strings
+    const elements = elementRecords
+      .map((r) => r.element)
+      .sort((a, b) => ((a.index ?? "") < (b.index ?? "") ? -1 : (a.index ?? "") > (b.index ?? "") ? 1 : 0));
+    const files = fileRecords.map((r) => r.file);
+    return {
+      elements,
+      files,
+      messages: chat?.messages ?? [],
+      saved: {
+        versions: new Map(elements.map((el) => [el.id, el.version])),
+        fileIds: new Set(files.map((f) => f.id)),
+      },
+    };
+  });
+}
+
+/**
+ * Replace a drawing's scene, files and chat with a copy from the server,
+ * creating it if it is new here. Its version history is kept. The times are
+ * reset to this browser's clock, which later edits are compared against.
+ */
+export async function replaceDrawing(meta: DrawingMeta, contents: DrawingContents): Promise<void> {
+  const now = Date.now();
+  await transact([DRAWINGS, ELEMENTS, FILES, CHATS], "readwrite", (tx) => {
+    tx.objectStore(DRAWINGS).put({ ...meta, updatedAt: now, syncedAt: now });
+    deleteByDrawing(tx, ELEMENTS, meta.id);
+    deleteByDrawing(tx, FILES, meta.id);
+    for (const element of contents.elements) {
+      tx.objectStore(ELEMENTS).put({ drawingId: meta.id, id: element.id, element });
+    }
+    for (const file of contents.files) {
+      tx.objectStore(FILES).put({ drawingId: meta.id, id: file.id, file });
+    }
+    if (contents.messages.length > 0) {
+      tx.objectStore(CHATS).put({ drawingId: meta.id, messages: contents.messages });
+    } else {
+      tx.objectStore(CHATS).delete(meta.id);
+    }
+  });
+}
+
+/** A copy of a drawing, with its scene, files and chat. */
+export async function duplicateDrawing(id: string, name: string): Promise<DrawingMeta> {
+  const [{ elements, files, messages }, drawings] = await Promise.all([loadDrawing(id), listDrawings()]);
+  const source = drawings.find((d) => d.id === id);
+  return createDrawing(name, { elements, files, messages }, source?.thumbnail);
+}
+
+/**
+ * Write the elements whose version changed since the last save, drop those
+ * no longer in the scene, and add the files of new images. `saved` is updated in place.
+ * Returns whether anything was written.
+ */
+export async function saveScene(
+  id: string,
+  elements: readonly ExcalidrawElement[],
+  files: BinaryFiles,
+  saved: SavedScene,
+): Promise<boolean> {
+  const changed = elements.filter((el) => saved.versions.get(el.id) !== el.version);
+  const present = new Set(elements.map((el) => el.id));
+  const removed = [...saved.versions.keys()].filter((elementId) => !present.has(elementId));
+  // The editor keeps files of drawings opened earlier; only those this
+  // scene uses are stored with it
+  const used = new Set(elements.flatMap((el) => (el.type === "image" && el.fileId ? [el.fileId] : [])));
+  const newFiles = Object.values(files).filter((file) => used.has(file.id) && !saved.fileIds.has(file.id));
+  if (changed.length === 0 && removed.length === 0 && newFiles.length === 0) return false;
+
+  await transact([DRAWINGS, ELEMENTS, FILES], "readwrite", async (tx) => {
+    const store = tx.objectStore(ELEMENTS);
+    for (const element of changed) store.put({ drawingId: id, id: element.id, element });
+    for (const elementId of removed) store.delete([id, elementId]);
+    for (const file of newFiles) tx.objectStore(FILES).put({ drawingId: id, id: file.id, file });
+    const drawings = tx.objectStore(DRAWINGS);
+    const meta = (await promised(drawings.get(id))) as DrawingMeta | undefined;
+    if (meta) drawings.put({ ...meta, updatedAt: Date.now() });
+  });
+  for (const element of changed) saved.versions.set(element.id, element.version);
+  for (const elementId of removed) saved.versions.delete(elementId);
+  for (const file of newFiles) saved.fileIds.add(file.id);
+  return true;
+}
+
+export async function loadChat(id: string): Promise<unknown[]> {
+  const chat = await transact([CHATS], "readonly", (tx) =>
+    promised(tx.objectStore(CHATS).get(id) as IDBRequest<{ messages: unknown[] } | undefined>),
+  );
+  return chat?.messages ?? [];
+}
+
+/** Store a drawing's chat; a changed chat counts as an edit of the drawing. */
+export async function saveChat(id: string, messages: unknown[]): Promise<void> {
+  await transact([DRAWINGS, CHATS], "readwrite", async (tx) => {
+    const chats = tx.objectStore(CHATS);
+    const stored = (await promised(chats.get(id))) as { messages: unknown[] } | undefined;
+    if (JSON.stringify(stored?.messages ?? []) === JSON.stringify(messages)) return;
+    if (messages.length > 0) chats.put({ drawingId: id, messages });
+    else chats.delete(id);
+    const drawings = tx.objectStore(DRAWINGS);
+    const meta = (await promised(drawings.get(id))) as DrawingMeta | undefined;
+    if (meta) drawings.put({ ...meta, updatedAt: Date.now() });
+  });
+}
+
+/** A drawing's version history, newest first. */
+export async function listSnapshots(drawingId: string): Promise<SnapshotMeta[]> {
+  const snapshots = await transact([SNAPSHOTS], "readonly", (tx) =>
+    byDrawing<SnapshotMeta>(tx, SNAPSHOTS, drawingId),
+  );
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function addSnapshot(
+  snapshot: Omit<SnapshotMeta, "id">,
+  elements: readonly ExcalidrawElement[],
+): Promise<SnapshotMeta> {
+  const meta: SnapshotMeta = { ...snapshot, id: crypto.randomUUID() };
+  await transact([SNAPSHOTS, SNAPSHOT_SCENES], "readwrite", (tx) => {
+    tx.objectStore(SNAPSHOTS).put(meta);
+    tx.objectStore(SNAPSHOT_SCENES).put({ drawingId: meta.drawingId, id: meta.id, elements });
+  });
+  return meta;
+}
+
+export async function loadSnapshotScene(drawingId: string, id: string): Promise<ExcalidrawElement[]> {
+  const scene = await transact([SNAPSHOT_SCENES], "readonly", (tx) =>
+    promised(tx.objectStore(SNAPSHOT_SCENES).get([drawingId, id]) as IDBRequest<{ elements: ExcalidrawElement[] } | undefined>),
+  );
+  if (!scene) throw new Error("The snapshot no longer exists");
+  return scene.elements;
+}
+
+export async function updateSnapshot(
+  drawingId: string,
+  id: string,
+  changes: Partial<Pick<SnapshotMeta, "name" | "kind">>,
+): Promise<void> {
+  await transact([SNAPSHOTS], "readwrite", async (tx) => {
+    const store = tx.objectStore(SNAPSHOTS);
+    const meta = (await promised(store.get([drawingId, id]))) as SnapshotMeta | undefined;
+    if (meta) store.put({ ...meta, ...changes });
+  });
+}
+
+export async function deleteSnapshots(drawingId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await transact([SNAPSHOTS, SNAPSHOT_SCENES], "readwrite", (tx) => {
+    for (const id of ids) {
+      tx.objectStore(SNAPSHOTS).delete([drawingId, id]);
+      tx.objectStore(SNAPSHOT_SCENES).delete([drawingId, id]);
+    }
+  });
+}
+
+/**
+ * Move the single canvas and chat history kept in localStorage before
+ * drawings existed into a drawing of their own. The old keys are removed
+ * once the drawing is stored. Returns the new drawing, if there was data.
+ */
+export async function migrateLocalStorage(): Promise<DrawingMeta | null> {
+  const canvas = localStorage.getItem(LEGACY_CANVAS_KEY);
+  const chat = localStorage.getItem(LEGACY_CHAT_KEY);
+  if (canvas === null && chat === null) return null;
+
+  const parse = (text: string | null): unknown[] => {
+    try {
+      const value = text ? JSON.parse(text) : [];
+      return Array.isArray(value) ? value : [];
+    } catch {
+      return [];
+    }
+  };
+  const elements = parse(canvas) as ExcalidrawElement[];
+  const messages = parse(chat);
+  const meta =
+    elements.length > 0 || messages.length > 0
+      ? await createDrawing(nextDrawingName(await listDrawings()), { elements, messages })
+      : null;
+  localStorage.removeItem(LEGACY_CANVAS_KEY);
+  localStorage.removeItem(LEGACY_CHAT_KEY);
+  return meta;
+}
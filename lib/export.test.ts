@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { exportScene } from "./export";
+
+// Only the fields the scene walk reads
+function element(fields: Record<string, unknown>): ExcalidrawElement {
+  return {
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 50,
+    groupIds: [],
+    frameId: null,
+    isDeleted: false,
+    strokeStyle: "solid",
+    ...fields,
+  } as unknown as ExcalidrawElement;
+}
+
+const shape = (id: string, type: string, y: number, groupIds: string[] = []) => element({ id, type, y, groupIds });
+const label = (id: string, containerId: string, text: string) => element({ id, type: "text", containerId, text });
+const arrow = (id: string, from: string, to: string, strokeStyle = "solid") =>
+  element({ id, type: "arrow", strokeStyle, startBinding: { elementId: from }, endBinding: { elementId: to } });
+
+const scene = [
+  shape("b", "diamond", 200),
+  shape("a", "rectangle", 0),
+  label("ta", "a", "Start"),
+  label("tb", "b", 'Say "hi"'),
+  arrow("e", "a", "b", "dashed"),
+  label("te", "e", "next"),
+];
+
+describe("exportScene", () => {
+  it("writes a Mermaid flowchart in reading order", () => {
+    const result = exportScene(scene, "mermaid");
+    expect(result.text).toBe(
+      ["flowchart TD", '  n1["Start"]', '  n2{"Say #quot;hi#quot;"}', '  n1 -.->|"next"| n2', ""].join("\n"),
+    );
+    expect(result).toMatchObject({ nodeCount: 2, edgeCount: 1, unrepresented: [] });
+  });
+
+  it("writes PlantUML and DOT from the same graph", () => {
+    const plantuml = ["@startuml", 'rectangle "Start" as n1', `hexagon "Say 'hi'" as n2`, "n1 ..> n2 : next", "@enduml"];
+    expect(exportScene(scene, "plantuml").text).toBe([...plantuml, ""].join("\n"));
+    const dot = exportScene(scene, "dot").text;
+    expect(dot).toContain("rankdir=TB;");
+    expect(dot).toContain('n2 [label="Say \\"hi\\"", shape=diamond];');
+    expect(dot).toContain('n1 -> n2 [label="next", style=dashed];');
+  });
+
+  it("turns groups with a loose text into titled subgraphs", () => {
+    const grouped = [
+      shape("a", "rectangle", 0, ["g"]),
+      shape("b", "ellipse", 100, ["g"]),
+      element({ id: "title", type: "text", text: "Backend", groupIds: ["g"] }),
+    ];
+    expect(exportScene(grouped, "mermaid").text).toBe(
+      ["flowchart TD", '  subgraph g1 ["Backend"]', '    n1[" "]', '    n2([" "])', "  end", ""].join("\n"),
+    );
+  });
+
+  it("lists what it cannot represent and ignores deleted elements", () => {
+    const result = exportScene(
+      [
+        shape("a", "rectangle", 0),
+        arrow("loose", "a", "gone"),
+        element({ id: "free", type: "line" }),
+        element({ id: "note", type: "text", text: "stray" }),
+        element({ id: "old", type: "ellipse", isDeleted: true }),
+      ],
+      "dot",
+    );
+    expect(result.nodeCount).toBe(1);
+    expect(result.unrepresented).toEqual([
+      { id: "loose", type: "arrow", reason: "Arrow is not connected to shapes at both ends", text: undefined },
+      { id: "free", type: "line", reason: "Free line has no connections" },
+      { id: "note", type: "text", reason: "Text is not bound to a shape", text: "stray" },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+// Text diagram emitters for the current scene: Mermaid flowchart, PlantUML
+// and Graphviz DOT. All three are generated from the same SceneGraph.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { extractSceneGraph, type SceneGraph, type SceneNode, type UnrepresentedElement } from "./scene";
+
+export type ExportFormat = "mermaid" | "plantuml" | "dot";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mime: string }> = {
+  mermaid: { label: "Mermaid", extension: "mmd", mime: "text/plain" },
+  plantuml: { label: "PlantUML", extension: "puml", mime: "text/plain" },
+  dot: { label: "Graphviz DOT", extension: "dot", mime: "text/vnd.graphviz" },
+};
+
+export interface ExportResult {
+  text: string;
+  nodeCount: number;
+  edgeCount: number;
+  unrepresented: UnrepresentedElement[];
+}
+
+// Short, stable identifiers (n1, n2, ...) in reading order, since Excalidraw
+// IDs are random strings
+function assignIds(graph: SceneGraph): Map<string, string> {
+  return new Map(graph.nodes.map((n, i) => [n.id, `n${i + 1}`]));
+}
+
+// Arrows that run mostly sideways suggest a left-to-right diagram
+function isHorizontal(graph: SceneGraph): boolean {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+  let dx = 0;
+  let dy = 0;
+  for (const edge of graph.edges) {
+    const a = byId.get(edge.from)!;
+    const b = byId.get(edge.to)!;
+    dx += Math.abs(b.x + b.width / 2 - (a.x + a.width / 2));
+    dy += Math.abs(b.y + b.height / 2 - (a.y + a.height / 2));
+  }
+  return dx > dy;
+}
+
+function nodesByGroup(graph: SceneGraph) {
+  const grouped = new Set(graph.groups.flatMap((g) => g.nodeIds));
+  return {
+    ungrouped: graph.nodes.filter((n) => !grouped.has(n.id)),
+    groups: graph.groups.map((g, i) => ({
+      ...g,
+      alias: `g${i + 1}`,
+      nodes: graph.nodes.filter((n) => g.nodeIds.includes(n.id)),
+    })),
+  };
+}
+
+function mermaidText(text: string): string {
+  return `"${text.replace(/"/g, "#quot;").replace(/\n/g, "<br/>")}"`;
+}
+
+function toMermaid(graph: SceneGraph): string {
+  const ids = assignIds(graph);
+  const lines = [`flowchart ${isHorizontal(graph) ? "LR" : "TD"}`];
+  const node = (n: SceneNode, indent: string) => {
+    const label = mermaidText(n.label || " ");
+    const id = ids.get(n.id)!;
+    if (n.shape === "diamond") return `${indent}${id}{${label}}`;
+    if (n.shape === "ellipse") return `${indent}${id}([${label}])`;
+    return `${indent}${id}[${label}]`;
+  };
+
+  const { ungrouped, groups } = nodesByGroup(graph);
+  for (const n of ungrouped) lines.push(node(n, "  "));
+  for (const g of groups) {
+    lines.push(`  subgraph ${g.alias} [${mermaidText(g.title ?? g.alias)}]`);
+    for (const n of g.nodes) lines.push(node(n, "    "));
+    lines.push("  end");
+  }
+  for (const e of graph.edges) {
+    const arrow = e.dashed ? "-.->" : "-->";
+    const label = e.label ? `|${mermaidText(e.label)}|` : "";
+    lines.push(`  ${ids.get(e.from)} ${arrow}${label} ${ids.get(e.to)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function plantumlText(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/\n/g, "\\n")}"`;
+}
+
+function toPlantUML(graph: SceneGraph): string {
+  const ids = assignIds(graph);
+  const lines = ["@startuml"];
+  if (isHorizontal(graph)) lines.push("left to right direction");
+  const node = (n: SceneNode, indent: string) => {
+    const keyword = n.shape === "ellipse" ? "usecase" : n.shape === "diamond" ? "hexagon" : "rectangle";
+    return `${indent}${keyword} ${plantumlText(n.label || " ")} as ${ids.get(n.id)}`;
+  };
+
+  const { ungrouped, groups } = nodesByGroup(graph);
+  for (const n of ungrouped) lines.push(node(n, ""));
+  for (const g of groups) {
+    lines.push(`package ${plantumlText(g.title ?? g.alias)} {`);
+    for (const n of g.nodes) lines.push(node(n, "  "));
+    lines.push("}");
+  }
+  for (const e of graph.edges) {
+    const arrow = e.dashed ? "..>" : "-->";
+    const label = e.label ? ` : ${e.label.replace(/\n/g, "\\n")}` : "";
+    lines.push(`${ids.get(e.from)} ${arrow} ${ids.get(e.to)}${label}`);
+  }
+  lines.push("@enduml");
+  return lines.join("\n") + "\n";
+}
+
+function dotText(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function toDot(graph: SceneGraph): string {
+  const ids = assignIds(graph);
+  const lines = [
+    "digraph G {",
+    `  rankdir=${isHorizontal(graph) ? "LR" : "TB"};`,
+    '  node [fontname="Helvetica"];',
+  ];
+  const shapes = { rectangle: "box", ellipse: "ellipse", diamond: "diamond" } as const;
+  const node = (n: SceneNode, indent: string) =>
+    `${indent}${ids.get(n.id)} [label=${dotText(n.label)}, shape=${shapes[n.shape]}];`;
+
+  const { ungrouped, groups } = nodesByGroup(graph);
+  for (const n of ungrouped) lines.push(node(n, "  "));
+  for (const g of groups) {
+    // Only subgraphs named cluster_* are drawn as boxes
+    lines.push(`  subgraph cluster_${g.alias} {`);
+    lines.push(`    label=${dotText(g.title ?? "")};`);
+    for (const n of g.nodes) lines.push(node(n, "    "));
+    lines.push("  }");
+  }
+  for (const e of graph.edges) {
+    const attrs: string[] = [];
+    if (e.label) attrs.push(`label=${dotText(e.label)}`);
+    if (e.dashed) attrs.push("style=dashed");
+    lines.push(`  ${ids.get(e.from)} -> ${ids.get(e.to)}${attrs.length > 0 ? ` [${attrs.join(", ")}]` : ""};`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Export the scene as text in the given format. Elements that cannot be
+ * represented are listed in the result rather than silently dropped.
+ */
+export function exportScene(
+  elements: readonly ExcalidrawElement[],
+  format: ExportFormat,
+): ExportResult {
+  const graph = extractSceneGraph(elements);
+  const emit = format === "mermaid" ? toMermaid : format === "plantuml" ? toPlantUML : toDot;
+  return {
+    text: emit(graph),
+    nodeCount: graph.nodes.length,
+    edgeCount: graph.edges.length,
+    unrepresented: graph.unrepresented,
+  };
+}
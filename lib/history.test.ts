@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { ElementChange } from "./changes";
+import {
+  describeTurn,
+  estimateTokens,
+  formatTranscript,
+  historyBudget,
+  planHistory,
+  recordTurn,
+} from "./history";
+import type { ChatMessage } from "./providers";
+
+// 40 characters: 10 tokens of text plus 4 per message
+const TEXT = "x".repeat(40);
+const conversation = (count: number): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({ role: i % 2 === 0 ? "user" : "assistant", content: TEXT }));
+
+function element(fields: Record<string, unknown>): ExcalidrawElement {
+  return { isDeleted: false, ...fields } as unknown as ExcalidrawElement;
+}
+
+describe("estimateTokens", () => {
+  it("counts Latin text by four characters, CJK by one and images flat", () => {
+    expect(estimateTokens(TEXT)).toBe(14);
+    expect(estimateTokens("日本語")).toBe(7);
+    expect(
+      estimateTokens([
+        { type: "text", text: "abcd" },
+        { type: "image_url", image_url: { url: "data:" } },
+      ]),
+    ).toBe(1005);
+  });
+});
+
+describe("historyBudget", () => {
+  it("reserves room for the answer and the system prompt", () => {
+    expect(historyBudget(8192, 1000)).toBe(8192 - 2048 - 1000);
+    expect(historyBudget(128000, 1000)).toBe(128000 - 8192 - 1000);
+    expect(historyBudget(2048, 4000)).toBe(512);
+  });
+});
+
+describe("planHistory", () => {
+  it("keeps everything while it fits", () => {
+    const messages = conversation(6);
+    expect(planHistory(messages, undefined, 84)).toEqual({ kept: messages, fold: [] });
+  });
+
+  it("keeps the newest messages within half the budget", () => {
+    const messages = conversation(6);
+    const { kept, fold } = planHistory(messages, undefined, 60);
+    expect(kept).toEqual(messages.slice(4));
+    expect(fold).toEqual(messages.slice(0, 4));
+  });
+
+  it("counts the summary and starts the kept part with a user message", () => {
+    const messages = conversation(6);
+    // Half of 84 fits three messages, but the third from the end is an answer
+    const { kept, fold } = planHistory(messages, "x", 84);
+    expect(kept).toEqual(messages.slice(4));
+    expect(fold).toHaveLength(4);
+  });
+
+  it("always keeps the latest message", () => {
+    const messages: ChatMessage[] = [
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "y".repeat(400) },
+    ];
+    expect(planHistory(messages, undefined, 50)).toEqual({ kept: messages.slice(1), fold: messages.slice(0, 1) });
+  });
+});
+
+describe("formatTranscript", () => {
+  it("labels speakers and images and drops the oldest lines over budget", () => {
+    const messages: ChatMessage[] = [
+      { role: "user", content: "first" },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "look" },
+          { type: "image_url", image_url: { url: "data:" } },
+        ],
+      },
+      { role: "assistant", content: "done" },
+    ];
+    expect(formatTranscript(messages, 1000)).toBe("User: first\n\nUser: look (1 image attached)\n\nAssistant: done");
+    expect(formatTranscript(messages, 20)).toBe("User: look (1 image attached)\n\nAssistant: done");
+  });
+});
+
+describe("recordTurn", () => {
+  const box = element({ id: "box", type: "rectangle" });
+  const label = element({ id: "box_label", type: "text", containerId: "box", text: "Web\nserver" });
+  const arrowBefore = element({ id: "arrow", type: "arrow" });
+  const arrowAfter = element({
+    id: "arrow",
+    type: "arrow",
+    startBinding: { elementId: "box" },
+    endBinding: { elementId: "db" },
+  });
+  const db = element({ id: "db", type: "ellipse" });
+  const changes: ElementChange[] = [
+    { id: "box", before: null, after: box },
+    { id: "box_label", before: null, after: label },
+    { id: "arrow", before: arrowBefore, after: arrowAfter },
+    { id: "db", before: db, after: element({ id: "db", type: "ellipse", isDeleted: true }) },
+  ];
+
+  it("sorts changes into added, modified and deleted, with labels on their containers", () => {
+    expect(recordTurn(changes)).toEqual({
+      added: [{ id: "box", type: "rectangle", label: "Web server" }],
+      modified: [{ id: "arrow", type: "arrow", from: "box", to: "db" }],
+      deleted: [{ id: "db", type: "ellipse" }],
+    });
+  });
+
+  it("describes the record for the history", () => {
+    expect(describeTurn(recordTurn(changes), true)).toBe(
+      [
+        'Added: box (rectangle "Web server")',
+        "Modified: arrow (arrow box → db)",
+        "Deleted: db (ellipse)",
+        "The user reverted this turn; these changes are no longer on the canvas.",
+      ].join("\n"),
+    );
+    expect(describeTurn({ added: [], modified: [], deleted: [] }, true)).toBe("");
+  });
+});
@@ -0,0 +1,179 @@
+// Conversation history sent to the LLM. Each AI turn is recorded with the
+// element IDs it added, modified and deleted, so the model can refer back to
+// earlier turns. The history is trimmed to a token budget derived from the
+// model's context length; turns that no longer fit are folded into a
+// rolling summary written by the model.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { ElementChange } from "./changes";
+import { messageText, type ChatMessage, type MessageContent } from "./providers";
+
+export interface TurnElement {
+  id: string;
+  type: string;
+  // Text of the element, or of the label bound to it
+  label?: string;
+  // Arrows: the elements they connect
+  from?: string;
+  to?: string;
+}
+
+export interface TurnRecord {
+  added: TurnElement[];
+  modified: TurnElement[];
+  deleted: TurnElement[];
+}
+
+// Summary of the oldest messages of a request, returned by the server.
+// `covers` counts the leading messages it replaces.
+export interface HistorySummary {
+  text: string;
+  covers: number;
+}
+
+// Used when the context length of the model is unknown
+export const DEFAULT_CONTEXT_TOKENS = 8192;
+const MIN_HISTORY_TOKENS = 512;
+// Counted for an attached image, whatever its size
+const IMAGE_TOKENS = 1000;
+// Elements listed per kind in a turn record
+const MAX_LISTED = 40;
+
+function isLive(el: ExcalidrawElement | null): el is ExcalidrawElement {
+  return el !== null && !el.isDeleted;
+}
+
+/** What a turn did, from the element changes it recorded. */
+export function recordTurn(changes: ElementChange[]): TurnRecord {
+  const elements = changes.map((change) => change.after ?? change.before).filter((el) => el !== null);
+  // Labels are listed with their container instead of on their own
+  const labels = new Map<string, string>();
+  for (const el of elements) {
+    if (el.type === "text" && el.containerId) labels.set(el.containerId, el.text);
+  }
+  const containers = new Set(elements.map((el) => el.id));
+
+  const record: TurnRecord = { added: [], modified: [], deleted: [] };
+  for (const change of changes) {
+    const el = isLive(change.after) ? change.after : change.before;
+    if (!el) continue;
+    if (el.type === "text" && el.containerId && containers.has(el.containerId)) continue;
+    const entry: TurnElement = { id: el.id, type: el.type };
+    const label = el.type === "text" ? el.text : labels.get(el.id);
+    if (label) entry.label = label.replace(/\s+/g, " ").trim();
+    if (el.type === "arrow") {
+      if (el.startBinding) entry.from = el.startBinding.elementId;
+      if (el.endBinding) entry.to = el.endBinding.elementId;
+    }
+    if (!isLive(change.before)) {
+      if (isLive(change.after)) record.added.push(entry);
+    } else if (isLive(change.after)) {
+      record.modified.push(entry);
+    } else {
+      record.deleted.push(entry);
+    }
+  }
+  return record;
+}
+
+function describeElement(el: TurnElement): string {
+  const details: string[] = [el.type];
+  if (el.from || el.to) details.push(`${el.from ?? "?"} → ${el.to ?? "?"}`);
+  if (el.label) details.push(`"${el.label.length > 40 ? `${el.label.slice(0, 39)}…` : el.label}"`);
+  return `${el.id} (${details.join(" ")})`;
+}
+
+/**
+ * The record as lines for the conversation history: "Added: id (type
+ * "label"), ..." for each kind of change, and a note when the user has
+ * reverted the turn since.
+ */
+export function describeTurn(record: TurnRecord, reverted = false): string {
+  const lines: string[] = [];
+  const kinds: [string, TurnElement[]][] = [
+    ["Added", record.added],
+    ["Modified", record.modified],
+    ["Deleted", record.deleted],
+  ];
+  for (const [label, elements] of kinds) {
+    if (elements.length === 0) continue;
+    const listed = elements.slice(0, MAX_LISTED).map(describeElement);
+    if (elements.length > MAX_LISTED) listed.push(`and ${elements.length - MAX_LISTED} more`);
+    lines.push(`${label}: ${listed.join(", ")}`);
+  }
+  if (reverted && lines.length > 0) {
+    lines.push("The user reverted this turn; these changes are no longer on the canvas.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Rough token count: about four characters per token for Latin text, one
+ * per character for CJK text, and a flat amount per image.
+ */
+export function estimateTokens(content: MessageContent): number {
+  const text = messageText(content);
+  let wide = 0;
+  for (const ch of text) {
+    if (ch.charCodeAt(0) >= 0x2e80) wide++;
+  }
+  const images = typeof content === "string" ? 0 : content.filter((part) => part.type === "image_url").length;
+  return Math.ceil((text.length - wide) / 4) + wide + images * IMAGE_TOKENS + 4;
+}
+
+/**
+ * Tokens left for the conversation once the system prompt and room for the
+ * answer are taken from the context.
+ */
+export function historyBudget(contextLength: number, systemTokens: number): number {
+  const reserve = Math.min(8192, Math.max(1024, Math.floor(contextLength / 4)));
+  return Math.max(MIN_HISTORY_TOKENS, contextLength - reserve - systemTokens);
+}
+
+/**
+ * Split the history into the messages sent as they are and the older ones to
+ * fold into the summary. Nothing is folded while everything fits. Otherwise
+ * the newest messages are kept within half the budget, so the summary is not
+ * rewritten on every turn; the latest message is always kept, and the kept
+ * part starts with a user message.
+ */
+export function planHistory(
+  messages: ChatMessage[],
+  summary: string | undefined,
+  budget: number,
+): { kept: ChatMessage[]; fold: ChatMessage[] } {
+  const tokens = messages.map((m) => estimateTokens(m.content));
+  const summaryTokens = summary ? estimateTokens(summary) : 0;
+  if (summaryTokens + tokens.reduce((sum, n) => sum + n, 0) <= budget) {
+    return { kept: messages, fold: [] };
+  }
+
+  let start = messages.length - 1;
+  let used = tokens[start] ?? 0;
+  while (start > 0 && used + tokens[start - 1] <= budget / 2) {
+    start--;
+    used += tokens[start];
+  }
+  while (start < messages.length - 1 && messages[start].role !== "user") start++;
+  return { kept: messages.slice(start), fold: messages.slice(0, start) };
+}
+
+/**
+ * The folded messages as a transcript for the summary request, newest last.
+ * The oldest lines are left out when it would exceed `budget` tokens.
+ */
+export function formatTranscript(messages: ChatMessage[], budget: number): string {
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    const images = typeof m.content === "string" ? 0 : m.content.filter((part) => part.type === "image_url").length;
+    const line = `${m.role === "user" ? "User" : "Assistant"}: ${messageText(m.content)}${
+      images > 0 ? ` (${images} image${images === 1 ? "" : "s"} attached)` : ""
+    }`;
+    used += estimateTokens(line);
+    if (used > budget && lines.length > 0) break;
+    lines.unshift(line);
+  }
+  return lines.join("\n\n");
+}
@@ -0,0 +1,60 @@
+// Images attached to chat messages. They are scaled down in the browser
+// before they are sent, and chat history keeps only a small thumbnail so
+// the stored thread stays small.
+
+export interface ImageAttachment {
+  // JPEG data: URL sent to the model
+  url: string;
+  // Small JPEG data: URL shown in the chat and stored with the history
+  thumbnail: string;
+}
+
+// Longest side sent to the model. Vision models downscale larger images
+// anyway, so anything bigger only costs upload time and tokens.
+export const MAX_IMAGE_SIZE = 1568;
+const THUMBNAIL_SIZE = 160;
+const JPEG_QUALITY = 0.85;
+
+/** Draw an image at most maxSize pixels on its longest side, on white. */
+export async function scaleImage(source: Blob, maxSize: number, quality = JPEG_QUALITY): Promise<string> {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    // JPEG has no alpha; transparent screenshots would turn black
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", quality);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export async function readImageAttachment(file: Blob): Promise<ImageAttachment> {
+  if (!file.type.startsWith("image/")) {
+    throw new Error(`Not an image (${file.type || "unknown type"})`);
+  }
+  const [url, thumbnail] = await Promise.all([
+    scaleImage(file, MAX_IMAGE_SIZE),
+    scaleImage(file, THUMBNAIL_SIZE, 0.7),
+  ]);
+  return { url, thumbnail };
+}
+
+/**
+ * Encode an image within a byte budget, shrinking it step by step from
+ * maxSize. Returns null when even a small version does not fit.
+ */
+export async function fitImage(source: Blob, maxSize: number, maxBytes: number): Promise<string | null> {
+  for (let size = maxSize; size >= 256; size = Math.round(size * 0.7)) {
+    const url = await scaleImage(source, size);
+    // Base64 carries 3 bytes in every 4 characters
+    if (((url.length - url.indexOf(",") - 1) * 3) / 4 <= maxBytes) return url;
+  }
+  return null;
+}
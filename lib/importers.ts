@@ -0,0 +1,117 @@
+// Registry of deterministic importers: text formats that are converted to
+// skeleton elements locally instead of being sent to the LLM.
+
+import { layoutEntities } from "./diagram-types";
+import { isMermaid, parseMermaid } from "./mermaid";
+import { isOpenApi, parseOpenApi } from "./openapi";
+import type { SkeletonElement } from "./skeleton";
+import { isSqlDdl, parseSql } from "./sql";
+import { isTypeScript, parseTypeScript, type TypeScriptView } from "./ts-source";
+
+export type ImportResult =
+  | {
+      ok: true;
+      elements: SkeletonElement[];
+      summary: string;
+      warnings: string[];
+      // Prompt for an optional LLM pass over the imported diagram
+      followUp?: string;
+    }
+  | { ok: false; error: string };
+
+export interface ImportFile {
+  name: string;
+  text: string;
+}
+
+// User settings that some importers take into account
+export interface ImportOptions {
+  // OpenAPI: schema references followed from an endpoint
+  schemaDepth?: number;
+  // TypeScript: class diagram, module graph, or classes when there are any
+  typescriptView?: TypeScriptView;
+}
+
+export interface Importer {
+  id: string;
+  label: string;
+  // File extensions (lowercase, with dot) handled when a file is dropped
+  extensions: string[];
+  detect: (text: string) => boolean;
+  run: (text: string, options?: ImportOptions) => ImportResult;
+  // Importers that read several files together (e.g. a module graph)
+  runFiles?: (files: ImportFile[], options?: ImportOptions) => ImportResult;
+}
+
+const mermaidImporter: Importer = {
+  id: "mermaid",
+  label: "Mermaid",
+  extensions: [".mmd", ".mermaid"],
+  detect: isMermaid,
+  run: (text) => {
+    const result = parseMermaid(text);
+    if (!result.ok) return result;
+    const kind = result.kind === "sequence" ? "sequence diagram" : "flowchart";
+    return {
+      ok: true,
+      elements: result.elements,
+      summary: `Mermaid ${kind}: ${result.summary}`,
+      warnings: result.warnings,
+    };
+  },
+};
+
+const sqlImporter: Importer = {
+  id: "sql",
+  label: "SQL DDL",
+  extensions: [".sql", ".ddl"],
+  detect: isSqlDdl,
+  run: (text) => {
+    const result = parseSql(text);
+    if (!result.ok) return result;
+    const { entities, relationships } = result;
+    return {
+      ok: true,
+      elements: layoutEntities(entities, relationships),
+      summary: `ER diagram: ${entities.length} tables, ${relationships.length} relationships`,
+      warnings: result.warnings,
+    };
+  },
+};
+
+// JSON specs are recognized by content, since ".json" alone says nothing
+const openApiImporter: Importer = {
+  id: "openapi",
+  label: "OpenAPI",
+  extensions: [".yaml", ".yml"],
+  detect: isOpenApi,
+  run: (text, options) => {
+    const result = parseOpenApi(text, { schemaDepth: options?.schemaDepth });
+    if (!result.ok) return result;
+    return { ...result, summary: `OpenAPI ${result.summary}` };
+  },
+};
+
+const typeScriptImporter: Importer = {
+  id: "typescript",
+  label: "TypeScript",
+  extensions: [".ts", ".tsx", ".mts", ".cts"],
+  detect: isTypeScript,
+  run: (text, options) => parseTypeScript([{ name: "input.ts", text }], options?.typescriptView),
+  runFiles: (files, options) => parseTypeScript(files, options?.typescriptView),
+};
+
+export const IMPORTERS: readonly Importer[] = [mermaidImporter, sqlImporter, openApiImporter, typeScriptImporter];
+
+/**
+ * Find the importer for pasted text, or for a dropped file by extension
+ * first and content second.
+ */
+export function findImporter(text: string, filename?: string): Importer | undefined {
+  if (filename) {
+    const ext = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+    const byExtension = IMPORTERS.find((i) => i.extensions.includes(ext));
+    if (byExtension) return byExtension;
+  }
+  return IMPORTERS.find((i) => i.detect(text));
+}
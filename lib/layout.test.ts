@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { clipToBox, isPlacedGraph, layoutGraph, type Graph } from "./layout";
+import type { LinearSkeleton, ShapeSkeleton, SkeletonElement } from "./skeleton";
+
+const shapes = (elements: SkeletonElement[]) =>
+  new Map(
+    elements
+      .filter((el): el is ShapeSkeleton => el.type !== "arrow" && el.type !== "line" && el.type !== "text")
+      .map((el) => [el.id, el]),
+  );
+const arrows = (elements: SkeletonElement[]) => elements.filter((el): el is LinearSkeleton => el.type === "arrow");
+
+const chain: Graph = {
+  nodes: [
+    { id: "a", label: "A" },
+    { id: "b", label: "B" },
+    { id: "c", label: "C" },
+  ],
+  edges: [
+    { from: "a", to: "b" },
+    { from: "b", to: "c", label: "next", dashed: true },
+  ],
+};
+
+describe("clipToBox", () => {
+  it("returns the point where the ray leaves the box", () => {
+    const box = { x: 0, y: 0, width: 100, height: 50 };
+    expect(clipToBox(box, { x: 200, y: 25 })).toEqual({ x: 100, y: 25 });
+    expect(clipToBox(box, { x: 50, y: -100 })).toEqual({ x: 50, y: 0 });
+    expect(clipToBox(box, { x: 50, y: 25 })).toEqual({ x: 50, y: 25 });
+  });
+});
+
+describe("layoutGraph", () => {
+  it("returns nothing for an empty graph", () => {
+    expect(layoutGraph({ nodes: [], edges: [] })).toEqual([]);
+  });
+
+  it("stacks a chain top-down from the origin", () => {
+    const elements = layoutGraph(chain, { origin: { x: 100, y: 50 } });
+    const boxes = shapes(elements);
+    const [a, b, c] = ["a", "b", "c"].map((id) => boxes.get(id)!);
+    expect(a).toMatchObject({ x: 100, y: 50, label: { text: "A" } });
+    expect(b.y).toBeGreaterThan(a.y + a.height);
+    expect(c.y).toBeGreaterThan(b.y + b.height);
+    expect(a.x).toBe(b.x);
+  });
+
+  it("places layers side by side left-right", () => {
+    const boxes = shapes(layoutGraph(chain, { direction: "left-right" }));
+    expect(boxes.get("b")!.x).toBeGreaterThan(boxes.get("a")!.x + boxes.get("a")!.width);
+    expect(boxes.get("b")!.y).toBe(boxes.get("a")!.y);
+  });
+
+  it("binds arrows to their nodes and keeps edge labels and dashes", () => {
+    const [first, second] = arrows(layoutGraph(chain));
+    expect(first).toMatchObject({ start: { id: "a", type: "rectangle" }, end: { id: "b", type: "rectangle" } });
+    expect(first.label).toBeUndefined();
+    expect(second).toMatchObject({ label: { text: "next" }, strokeStyle: "dashed" });
+  });
+
+  it("lays out cycles and skips self-loops", () => {
+    const elements = layoutGraph({
+      nodes: chain.nodes,
+      edges: [...chain.edges, { from: "c", to: "a" }, { from: "a", to: "a" }],
+    });
+    expect(shapes(elements).size).toBe(3);
+    expect(arrows(elements)).toHaveLength(3);
+  });
+
+  it("groups titled groups under a shared title", () => {
+    const elements = layoutGraph(
+      {
+        nodes: [
+          { id: "a", label: "A", group: "g" },
+          { id: "b", label: "B", group: "g" },
+          { id: "c", label: "C" },
+        ],
+        edges: [],
+      },
+      { groupTitles: { g: "Backend" } },
+    );
+    const boxes = shapes(elements);
+    expect(boxes.get("a")!.groupIds).toEqual(["group_g"]);
+    expect(boxes.get("a")!.backgroundColor).toBe(boxes.get("b")!.backgroundColor);
+    expect(boxes.get("c")!.groupIds).toBeUndefined();
+    expect(elements.find((el) => el.type === "text")).toMatchObject({ text: "Backend", groupIds: ["group_g"] });
+  });
+
+  it("keeps radial nodes apart", () => {
+    const boxes = [
+      ...shapes(
+        layoutGraph(
+          {
+            nodes: ["hub", "a", "b", "c", "d"].map((id) => ({ id, label: id })),
+            edges: ["a", "b", "c", "d"].map((id) => ({ from: "hub", to: id })),
+          },
+          { direction: "radial" },
+        ),
+      ).values(),
+    ];
+    for (const one of boxes) {
+      for (const other of boxes) {
+        if (one === other) continue;
+        const overlaps =
+          one.x < other.x + other.width &&
+          other.x < one.x + one.width &&
+          one.y < other.y + other.height &&
+          other.y < one.y + one.height;
+        expect(overlaps).toBe(false);
+      }
+    }
+  });
+});
+
+describe("layoutGraph with placed shapes", () => {
+  const placed = {
+    nodes: [
+      { id: "a", x: 500, y: 300, width: 200, height: 80, backgroundColor: "#ffc9c9" },
+      { id: "b", x: 500, y: 500, width: 200, height: 80 },
+    ],
+    edges: [{ id: "arrow_ab", from: "a", to: "b" }],
+  };
+
+  it("keeps a modified node where it is and updates its arrows", () => {
+    const elements = layoutGraph(
+      {
+        nodes: [
+          { id: "a", label: "A renamed" },
+          { id: "b", label: "B" },
+        ],
+        edges: [{ from: "a", to: "b" }],
+      },
+      { origin: { x: 0, y: 0 }, placed },
+    );
+    expect(shapes(elements).get("a")).toMatchObject({
+      x: 500,
+      y: 300,
+      width: 200,
+      height: 80,
+      backgroundColor: "#ffc9c9",
+      label: { text: "A renamed" },
+    });
+    expect(arrows(elements)).toEqual([
+      expect.objectContaining({ id: "arrow_ab", x: 600, y: 380, width: 0, height: 120 }),
+    ]);
+  });
+
+  it("lays out only the new nodes, next to the placed ones", () => {
+    const elements = layoutGraph(
+      {
+        nodes: [
+          { id: "a", label: "A" },
+          { id: "c", label: "C" },
+          { id: "d", label: "D" },
+        ],
+        edges: [
+          { from: "a", to: "c" },
+          { from: "c", to: "d" },
+        ],
+      },
+      { placed },
+    );
+    const boxes = shapes(elements);
+    expect(boxes.get("a")).toMatchObject({ x: 500, y: 300 });
+    expect(boxes.get("c")).toMatchObject({ x: 900, y: 300 });
+    expect(boxes.get("d")!.y).toBeGreaterThan(boxes.get("c")!.y);
+    // New edges get new arrows
+    expect(arrows(elements).map((arrow) => arrow.id)).toEqual([undefined, undefined]);
+  });
+});
+
+describe("isPlacedGraph", () => {
+  it("checks the shapes and arrows sent by the client", () => {
+    expect(isPlacedGraph({ nodes: [{ id: "a", x: 0, y: 0, width: 1, height: 1 }], edges: [] })).toBe(true);
+    expect(isPlacedGraph({ nodes: [{ id: "a", x: "0", y: 0, width: 1, height: 1 }], edges: [] })).toBe(false);
+    expect(isPlacedGraph({ nodes: [], edges: [{ id: "e", from: "a" }] })).toBe(false);
+    expect(isPlacedGraph(null)).toBe(false);
+  });
+});
@@ -0,0 +1,482 @@
+// Deterministic layout engine for coordinate-free graph output.
+// The model only describes nodes and edges; positions, sizes and arrow
+// geometry are computed here and emitted as regular skeleton elements.
+
+import {
+  DEFAULT_SHAPE_SIZE,
+  DEFAULT_STROKE_COLOR,
+  type LinearSkeleton,
+  type ShapeSkeleton,
+  type ShapeType,
+  type SkeletonElement,
+} from "./skeleton";
+
+export type LayoutDirection = "top-down" | "left-right" | "radial";
+
+export const LAYOUT_DIRECTIONS: readonly LayoutDirection[] = ["top-down", "left-right", "radial"];
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  shape?: ShapeType;
+  group?: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  label?: string;
+  dashed?: boolean;
+}
+
+export interface Graph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface LayoutOptions {
+  direction?: LayoutDirection;
+  // Top-left corner of the laid out diagram
+  origin?: { x: number; y: number };
+  // Titles for named groups (e.g. Mermaid subgraphs); nodes in a titled
+  // group are grouped in Excalidraw and the title is drawn above them
+  groupTitles?: Record<string, string>;
+  // What is on the canvas already, when the graph redraws part of it
+  placed?: PlacedGraph;
+}
+
+export interface PlacedNode extends Box {
+  id: string;
+  backgroundColor?: string;
+}
+
+export interface PlacedEdge {
+  id: string;
+  from: string;
+  to: string;
+}
+
+// Shapes and the arrows bound between them, as they are on the canvas
+export interface PlacedGraph {
+  nodes: PlacedNode[];
+  edges: PlacedEdge[];
+}
+
+// Background colors cycled per group (same palette as the prompt rules)
+const GROUP_COLORS = ["#a5d8ff", "#b2f2bb", "#ffd8a8", "#fcc2d7", "#d0bfff", "#fff3bf"];
+
+const NODE_GAP = 60;
+const LAYER_GAP = 120;
+const ORDERING_SWEEPS = 4;
+// Distance between placed shapes and new nodes laid out next to them
+const PLACED_GAP = 200;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPlacedNode(value: unknown): value is PlacedNode {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    [value.x, value.y, value.width, value.height].every((n) => typeof n === "number" && Number.isFinite(n)) &&
+    (value.backgroundColor === undefined || typeof value.backgroundColor === "string")
+  );
+}
+
+function isPlacedEdge(value: unknown): value is PlacedEdge {
+  return (
+    isRecord(value) && typeof value.id === "string" && typeof value.from === "string" && typeof value.to === "string"
+  );
+}
+
+// The canvas arrives with the chat request, so it is checked like the rest
+export function isPlacedGraph(value: unknown): value is PlacedGraph {
+  return (
+    isRecord(value) &&
+    Array.isArray(value.nodes) &&
+    value.nodes.every(isPlacedNode) &&
+    Array.isArray(value.edges) &&
+    value.edges.every(isPlacedEdge)
+  );
+}
+
+// Size a node so its label fits; diamonds need extra room for the corners
+function nodeSize(node: GraphNode): { width: number; height: number } {
+  const shape = node.shape ?? "rectangle";
+  const lines = node.label.split("\n");
+  const longest = Math.max(...lines.map((l) => l.length));
+  const base = DEFAULT_SHAPE_SIZE[shape];
+  let width = Math.max(base.width, longest * 10 + 40);
+  let height = Math.max(base.height, lines.length * 25 + 30);
+  if (shape === "diamond") {
+    width *= 1.3;
+    height *= 1.3;
+  }
+  return { width: Math.round(width), height: Math.round(height) };
+}
+
+export function center(box: Box) {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+// Point where the ray from the box center toward `target` leaves the box
+export function clipToBox(box: Box, target: { x: number; y: number }) {
+  const c = center(box);
+  const dx = target.x - c.x;
+  const dy = target.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+  const sx = dx === 0 ? Infinity : box.width / 2 / Math.abs(dx);
+  const sy = dy === 0 ? Infinity : box.height / 2 / Math.abs(dy);
+  const s = Math.min(sx, sy);
+  return { x: c.x + dx * s, y: c.y + dy * s };
+}
+
+// Assign each node to a layer by longest path from the sources, ignoring
+// edges that would close a cycle
+function assignLayers(graph: Graph): Map<string, number> {
+  const outgoing = new Map<string, string[]>();
+  for (const node of graph.nodes) outgoing.set(node.id, []);
+  for (const edge of graph.edges) {
+    if (edge.from !== edge.to) outgoing.get(edge.from)?.push(edge.to);
+  }
+
+  // DFS to find back edges so the remaining graph is acyclic
+  const state = new Map<string, "visiting" | "done">();
+  const acyclic = new Map<string, string[]>();
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    const kept: string[] = [];
+    for (const next of outgoing.get(id) ?? []) {
+      const s = state.get(next);
+      if (s === "visiting") continue;
+      kept.push(next);
+      if (!s) visit(next);
+    }
+    acyclic.set(id, kept);
+    state.set(id, "done");
+  };
+  for (const node of graph.nodes) {
+    if (!state.has(node.id)) visit(node.id);
+  }
+
+  const layer = new Map<string, number>();
+  const depth = (id: string, seen: Set<string>): number => {
+    const cached = layer.get(id);
+    if (cached !== undefined) return cached;
+    seen.add(id);
+    let d = 0;
+    for (const [from, targets] of acyclic) {
+      if (targets.includes(id) && !seen.has(from)) {
+        d = Math.max(d, depth(from, seen) + 1);
+      }
+    }
+    seen.delete(id);
+    layer.set(id, d);
+    return d;
+  };
+  for (const node of graph.nodes) depth(node.id, new Set());
+  return layer;
+}
+
+// Reduce crossings by repeatedly sorting each layer on the mean position of
+// its neighbours in the adjacent layer (barycenter heuristic)
+function orderLayers(graph: Graph, layerOf: Map<string, number>): string[][] {
+  const layers: string[][] = [];
+  const groupOrder = new Map<string, number>();
+  for (const node of graph.nodes) {
+    const l = layerOf.get(node.id) ?? 0;
+    (layers[l] ??= []).push(node.id);
+    if (node.group && !groupOrder.has(node.group)) groupOrder.set(node.group, groupOrder.size);
+  }
+  const groupOf = new Map(graph.nodes.map((n) => [n.id, n.group]));
+
+  const neighbours = new Map<string, string[]>();
+  for (const node of graph.nodes) neighbours.set(node.id, []);
+  for (const edge of graph.edges) {
+    neighbours.get(edge.from)?.push(edge.to);
+    neighbours.get(edge.to)?.push(edge.from);
+  }
+
+  const position = new Map<string, number>();
+  const index = () => {
+    for (const layer of layers) layer?.forEach((id, i) => position.set(id, i));
+  };
+  index();
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    const down = sweep % 2 === 0;
+    for (let k = 0; k < layers.length; k++) {
+      const l = down ? k : layers.length - 1 - k;
+      const adjacent = down ? l - 1 : l + 1;
+      const layer = layers[l];
+      if (!layer) continue;
+      const score = new Map<string, number>();
+      for (const id of layer) {
+        const ns = (neighbours.get(id) ?? []).filter((n) => layerOf.get(n) === adjacent);
+        score.set(
+          id,
+          ns.length > 0
+            ? ns.reduce((sum, n) => sum + (position.get(n) ?? 0), 0) / ns.length
+            : (position.get(id) ?? 0),
+        );
+      }
+      // Keep members of the same group next to each other
+      layer.sort((a, b) => {
+        const ga = groupOrder.get(groupOf.get(a) ?? "") ?? -1;
+        const gb = groupOrder.get(groupOf.get(b) ?? "") ?? -1;
+        if (ga !== gb && ga >= 0 && gb >= 0) return ga - gb;
+        return (score.get(a) ?? 0) - (score.get(b) ?? 0);
+      });
+      index();
+    }
+  }
+
+  return layers.filter(Boolean);
+}
+
+function layeredBoxes(
+  graph: Graph,
+  sizes: Map<string, { width: number; height: number }>,
+  horizontal: boolean,
+): Map<string, Box> {
+  const layers = orderLayers(graph, assignLayers(graph));
+  const boxes = new Map<string, Box>();
+
+  // Extent of each layer along the flow axis and across it
+  const depthOf = (id: string) => (horizontal ? sizes.get(id)!.width : sizes.get(id)!.height);
+  const breadthOf = (id: string) => (horizontal ? sizes.get(id)!.height : sizes.get(id)!.width);
+  const layerDepths = layers.map((layer) => Math.max(...layer.map(depthOf)));
+  const layerBreadths = layers.map(
+    (layer) => layer.reduce((sum, id) => sum + breadthOf(id), 0) + NODE_GAP * (layer.length - 1),
+  );
+  const maxBreadth = Math.max(...layerBreadths);
+
+  let flow = 0;
+  layers.forEach((layer, l) => {
+    // Center each layer across the widest one
+    let across = (maxBreadth - layerBreadths[l]) / 2;
+    for (const id of layer) {
+      const size = sizes.get(id)!;
+      const offset = (layerDepths[l] - depthOf(id)) / 2;
+      boxes.set(
+        id,
+        horizontal
+          ? { x: flow + offset, y: across, ...size }
+          : { x: across, y: flow + offset, ...size },
+      );
+      across += breadthOf(id) + NODE_GAP;
+    }
+    flow += layerDepths[l] + LAYER_GAP;
+  });
+
+  return boxes;
+}
+
+function radialBoxes(
+  graph: Graph,
+  sizes: Map<string, { width: number; height: number }>,
+): Map<string, Box> {
+  const adjacency = new Map<string, string[]>();
+  for (const node of graph.nodes) adjacency.set(node.id, []);
+  for (const edge of graph.edges) {
+    adjacency.get(edge.from)?.push(edge.to);
+    adjacency.get(edge.to)?.push(edge.from);
+  }
+
+  // The best-connected node is the center of the mind map
+  const root = graph.nodes.reduce((best, node) =>
+    adjacency.get(node.id)!.length > adjacency.get(best.id)!.length ? node : best,
+  ).id;
+
+  // BFS spanning tree; disconnected nodes hang off the root
+  const children = new Map<string, string[]>();
+  const depth = new Map<string, number>([[root, 0]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    children.set(id, []);
+    for (const next of adjacency.get(id) ?? []) {
+      if (depth.has(next)) continue;
+      depth.set(next, depth.get(id)! + 1);
+      children.get(id)!.push(next);
+      queue.push(next);
+    }
+  }
+  for (const node of graph.nodes) {
+    if (!depth.has(node.id)) {
+      depth.set(node.id, 1);
+      children.get(root)!.push(node.id);
+      children.set(node.id, []);
+    }
+  }
+
+  // Each subtree gets an angular slice proportional to its leaf count
+  const leaves = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const kids = children.get(id) ?? [];
+    const n = kids.length === 0 ? 1 : kids.reduce((sum, k) => sum + countLeaves(k), 0);
+    leaves.set(id, n);
+    return n;
+  };
+  countLeaves(root);
+
+  // Rings are far enough apart that nodes never overlap radially, and large
+  // enough that a ring's nodes fit around its circumference
+  const diagonal = Math.max(
+    ...Array.from(sizes.values(), (s) => Math.hypot(s.width, s.height)),
+  );
+  const ringStep = diagonal + NODE_GAP;
+  const perRing: number[] = [];
+  for (const d of depth.values()) perRing[d] = (perRing[d] ?? 0) + 1;
+  const radius: number[] = [0];
+  for (let d = 1; d < perRing.length; d++) {
+    radius[d] = Math.max(radius[d - 1] + ringStep, ((perRing[d] ?? 0) * ringStep) / (2 * Math.PI));
+  }
+
+  const centers = new Map<string, { x: number; y: number }>();
+  const place = (id: string, start: number, end: number) => {
+    const d = depth.get(id)!;
+    const angle = (start + end) / 2;
+    centers.set(id, {
+      x: Math.cos(angle) * radius[d],
+      y: Math.sin(angle) * radius[d],
+    });
+    let cursor = start;
+    for (const kid of children.get(id) ?? []) {
+      const span = ((end - start) * leaves.get(kid)!) / leaves.get(id)!;
+      place(kid, cursor, cursor + span);
+      cursor += span;
+    }
+  };
+  place(root, -Math.PI / 2, (3 * Math.PI) / 2);
+
+  const boxes = new Map<string, Box>();
+  for (const [id, c] of centers) {
+    const size = sizes.get(id)!;
+    boxes.set(id, { x: c.x - size.width / 2, y: c.y - size.height / 2, ...size });
+  }
+  return boxes;
+}
+
+/**
+ * Compute positions for every node and geometry for every edge, returning
+ * skeleton elements ready for convertToExcalidrawElements().
+ *
+ * With `placed`, nodes that are on the canvas already keep their box and
+ * color, and only the new ones are laid out, to the right of them. Arrows
+ * between the same two shapes as an arrow on the canvas take its id, so the
+ * redrawn graph updates them instead of adding another.
+ */
+export function layoutGraph(graph: Graph, options: LayoutOptions = {}): SkeletonElement[] {
+  if (graph.nodes.length === 0) return [];
+  const direction = options.direction ?? "top-down";
+
+  const placed = new Map((options.placed?.nodes ?? []).map((n) => [n.id, n]));
+  const kept = graph.nodes.flatMap((n) => placed.get(n.id) ?? []);
+  const fresh = graph.nodes.filter((n) => !placed.has(n.id));
+  const freshIds = new Set(fresh.map((n) => n.id));
+  const freshGraph: Graph = {
+    nodes: fresh,
+    edges: graph.edges.filter((e) => freshIds.has(e.from) && freshIds.has(e.to)),
+  };
+
+  const sizes = new Map(fresh.map((n) => [n.id, nodeSize(n)]));
+  const boxes =
+    fresh.length === 0
+      ? new Map<string, Box>()
+      : direction === "radial"
+        ? radialBoxes(freshGraph, sizes)
+        : layeredBoxes(freshGraph, sizes, direction === "left-right");
+
+  // Translate so the diagram's top-left corner sits at the origin, or new
+  // nodes next to the placed ones
+  const minX = Math.min(...Array.from(boxes.values(), (b) => b.x));
+  const minY = Math.min(...Array.from(boxes.values(), (b) => b.y));
+  const origin =
+    kept.length > 0
+      ? { x: Math.max(...kept.map((b) => b.x + b.width)) + PLACED_GAP, y: Math.min(...kept.map((b) => b.y)) }
+      : (options.origin ?? { x: 0, y: 0 });
+  for (const box of boxes.values()) {
+    box.x = Math.round(box.x - minX + origin.x);
+    box.y = Math.round(box.y - minY + origin.y);
+  }
+  for (const { id, x, y, width, height } of kept) boxes.set(id, { x, y, width, height });
+
+  const groupColors = new Map<string, string>();
+  const elements: SkeletonElement[] = [];
+
+  graph.nodes.forEach((node, i) => {
+    const box = boxes.get(node.id)!;
+    let color: string;
+    if (node.group) {
+      if (!groupColors.has(node.group)) {
+        groupColors.set(node.group, GROUP_COLORS[groupColors.size % GROUP_COLORS.length]);
+      }
+      color = groupColors.get(node.group)!;
+    } else {
+      color = placed.get(node.id)?.backgroundColor ?? GROUP_COLORS[i % GROUP_COLORS.length];
+    }
+    const shape: ShapeSkeleton = {
+      type: node.shape ?? "rectangle",
+      id: node.id,
+      ...box,
+      backgroundColor: color,
+      strokeColor: DEFAULT_STROKE_COLOR,
+      label: { text: node.label },
+    };
+    elements.push(shape);
+  });
+
+  for (const [group, title] of Object.entries(options.groupTitles ?? {})) {
+    const members = graph.nodes.filter((n) => n.group === group);
+    if (members.length === 0) continue;
+    const groupId = `group_${group}`;
+    for (const el of elements) {
+      if (members.some((m) => m.id === el.id)) el.groupIds = [groupId];
+    }
+    const memberBoxes = members.map((m) => boxes.get(m.id)!);
+    elements.push({
+      type: "text",
+      x: Math.min(...memberBoxes.map((b) => b.x)),
+      y: Math.min(...memberBoxes.map((b) => b.y)) - 35,
+      text: title,
+      fontSize: 16,
+      strokeColor: DEFAULT_STROKE_COLOR,
+      groupIds: [groupId],
+    });
+  }
+
+  const placedEdges = [...(options.placed?.edges ?? [])];
+  for (const edge of graph.edges) {
+    const from = boxes.get(edge.from);
+    const to = boxes.get(edge.to);
+    if (!from || !to || edge.from === edge.to) continue;
+    const start = clipToBox(from, center(to));
+    const end = clipToBox(to, center(from));
+    const arrow: LinearSkeleton = {
+      type: "arrow",
+      x: Math.round(start.x),
+      y: Math.round(start.y),
+      width: Math.round(end.x - start.x),
+      height: Math.round(end.y - start.y),
+      strokeColor: DEFAULT_STROKE_COLOR,
+      start: { type: graph.nodes.find((n) => n.id === edge.from)?.shape ?? "rectangle", id: edge.from },
+      end: { type: graph.nodes.find((n) => n.id === edge.to)?.shape ?? "rectangle", id: edge.to },
+    };
+    const existing = placedEdges.findIndex((e) => e.from === edge.from && e.to === edge.to);
+    if (existing >= 0) arrow.id = placedEdges.splice(existing, 1)[0].id;
+    if (edge.label) arrow.label = { text: edge.label };
+    if (edge.dashed) arrow.strokeStyle = "dashed";
+    elements.push(arrow);
+  }
+
+  return elements;
+}
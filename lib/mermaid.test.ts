@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { isMermaid, parseMermaid } from "./mermaid";
+import type { LinearSkeleton, ShapeSkeleton, SkeletonElement } from "./skeleton";
+
+function flowchart(source: string) {
+  const result = parseMermaid(source);
+  if (!result.ok) throw new Error(result.error);
+  const elements: SkeletonElement[] = result.elements;
+  return {
+    ...result,
+    nodes: elements.filter((el): el is ShapeSkeleton => el.type !== "arrow" && el.type !== "text" && el.type !== "line"),
+    edges: elements.filter((el): el is LinearSkeleton => el.type === "arrow"),
+  };
+}
+
+describe("isMermaid", () => {
+  it("recognizes flowchart and sequence headers, fenced or not", () => {
+    expect(isMermaid("graph TD\nA-->B")).toBe(true);
+    expect(isMermaid("```mermaid\n%% comment\nflowchart LR\nA-->B\n```")).toBe(true);
+    expect(isMermaid("sequenceDiagram\nA->>B: hi")).toBe(true);
+    expect(isMermaid("Draw a login flow")).toBe(false);
+  });
+});
+
+describe("parseMermaid flowcharts", () => {
+  it("reads node shapes and labels", () => {
+    const { nodes, summary } = flowchart('flowchart TD\nA[Start] --> B{"Is it [ok]?"}\nB --> C((Done))');
+    expect(summary).toBe("3 nodes, 2 edges");
+    expect(nodes.map((n) => [n.id, n.type, n.label?.text])).toEqual([
+      ["A", "rectangle", "Start"],
+      ["B", "diamond", "Is it [ok]?"],
+      ["C", "ellipse", "Done"],
+    ]);
+  });
+
+  it("reads link labels, dashed links, chains and & groups", () => {
+    const { edges, warnings } = flowchart(
+      "graph LR\nA -->|yes| B -.-> C\nA -- no --> D\nB & C --> E; E ~~~ A",
+    );
+    expect(warnings).toEqual([]);
+    expect(edges.map((e) => [e.start?.id, e.end?.id, e.label?.text, e.strokeStyle])).toEqual([
+      ["A", "B", "yes", undefined],
+      ["B", "C", undefined, "dashed"],
+      ["A", "D", "no", undefined],
+      ["B", "E", undefined, undefined],
+      ["C", "E", undefined, undefined],
+    ]);
+  });
+
+  it("groups subgraph members under the subgraph title", () => {
+    const { elements, nodes } = flowchart("flowchart TB\nsubgraph api [Backend API]\nA --> B\nend\nC --> A");
+    expect(nodes.find((n) => n.id === "A")?.groupIds).toEqual(["group_api"]);
+    expect(nodes.find((n) => n.id === "C")?.groupIds).toBeUndefined();
+    expect(elements.find((el) => el.type === "text")).toMatchObject({ text: "Backend API" });
+  });
+
+  it("skips styling lines and warns about unrecognized ones", () => {
+    const { warnings, summary } = flowchart("graph TD\nclassDef hot fill:#f00\nA:::hot --> B\nA --> ???\nend");
+    expect(summary).toBe("2 nodes, 1 edges");
+    expect(warnings).toEqual(["Link without a target: A --> ???", 'Unmatched "end"']);
+  });
+
+  it("fails without nodes", () => {
+    expect(parseMermaid("graph TD")).toEqual({ ok: false, error: "No nodes found in Mermaid flowchart" });
+  });
+});
+
+describe("parseMermaid sequence diagrams", () => {
+  it("reads participants, messages and notes", () => {
+    const result = parseMermaid(
+      [
+        "sequenceDiagram",
+        "participant U as User",
+        "actor S as Server",
+        "U->>S: login",
+        "loop retry",
+        "S-->>U: token",
+        "end",
+        "Note over U,S: handshake",
+      ].join("\n"),
+    );
+    expect(result).toMatchObject({ ok: true, kind: "sequence", summary: "2 participants, 2 messages", warnings: [] });
+    if (!result.ok) return;
+    const byId = new Map(result.elements.map((el) => [el.id, el]));
+    expect(byId.get("participant_U")).toMatchObject({ label: { text: "User" } });
+    expect(byId.get("participant_S")).toMatchObject({ label: { text: "Server" } });
+    expect(byId.get("note_3")).toMatchObject({ label: { text: "handshake" } });
+    const arrows = result.elements.filter((el): el is LinearSkeleton => el.type === "arrow");
+    expect(arrows.map((a) => [a.label?.text, a.strokeStyle])).toEqual([
+      ["login", undefined],
+      ["token", "dashed"],
+    ]);
+  });
+});
+
+describe("parseMermaid errors", () => {
+  it("rejects empty and unsupported sources", () => {
+    expect(parseMermaid("%% nothing")).toEqual({ ok: false, error: "Mermaid source is empty" });
+    expect(parseMermaid("pie title Pets")).toMatchObject({ ok: false, error: expect.stringContaining('"pie"') });
+  });
+});
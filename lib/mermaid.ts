@@ -0,0 +1,328 @@
+// Mermaid → skeleton converter. Supports `flowchart`/`graph` and
+// `sequenceDiagram` blocks; everything runs locally without the LLM.
+
+import { layoutGraph, type Graph, type GraphEdge, type GraphNode, type LayoutDirection } from "./layout";
+import { layoutSequence, type SequenceParticipant, type SequenceStep } from "./sequence";
+import type { ShapeType, SkeletonElement } from "./skeleton";
+
+export type MermaidResult =
+  | {
+      ok: true;
+      kind: "flowchart" | "sequence";
+      elements: SkeletonElement[];
+      summary: string;
+      warnings: string[];
+    }
+  | { ok: false; error: string };
+
+const HEADER_RE = /^(flowchart|graph)(\s+(TB|TD|BT|RL|LR))?\s*;?$/i;
+const SEQUENCE_RE = /^sequenceDiagram\b/;
+const ID_RE = /^[\w\u00C0-\uFFFF][\w\u00C0-\uFFFF.-]*?(?=$|[\s[({>&;:|]|-[-.>x]|==|~~~)/;
+
+// Opening bracket → [closing bracket, shape], longest openers first
+const NODE_SHAPES: Array<[string, string, ShapeType]> = [
+  ["(((", ")))", "ellipse"],
+  ["((", "))", "ellipse"],
+  ["([", "])", "ellipse"],
+  ["[(", ")]", "rectangle"],
+  ["[[", "]]", "rectangle"],
+  ["{{", "}}", "diamond"],
+  ["[/", "/]", "rectangle"],
+  ["[\\", "\\]", "rectangle"],
+  ["[/", "\\]", "rectangle"],
+  ["[\\", "/]", "rectangle"],
+  [">", "]", "rectangle"],
+  ["(", ")", "rectangle"],
+  ["[", "]", "rectangle"],
+  ["{", "}", "diamond"],
+];
+
+// Links with an optional |label|: -->, ---, -.->, ==>, ~~~, <-->
+const LINK_RE = /^\s*<?(-\.+->|-\.+-|-{2,}>|-{3,}|={2,}>|={3,}|~~~|--[ox]|==[ox])\s*(?:\|([^|]*)\|)?/;
+// Links with inline text: -- text -->, == text ==>, -. text .->
+const TEXT_LINK_RE = /^\s*<?(--|==|-\.)\s+(.+?)\s+(-{2,}>|-{3,}|={2,}>|={3,}|\.->|\.-)/;
+
+// Strip a ```mermaid fence and comment lines
+function extractSource(text: string): string[] {
+  const fenced = text.match(/```\s*mermaid\s*\n([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text;
+  return source
+    .split("\n")
+    .map((line) => line.replace(/%%.*$/, "").trim())
+    .filter(Boolean);
+}
+
+function cleanLabel(text: string): string {
+  let label = text.trim();
+  if (label.startsWith('"') && label.endsWith('"') && label.length >= 2) {
+    label = label.slice(1, -1);
+  }
+  return label
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/#quot;/g, '"')
+    .replace(/^`|`$/g, "")
+    .trim();
+}
+
+// Split a line on ";" outside of brackets and quotes
+function splitStatements(line: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    if (!quoted) {
+      if ("[({".includes(ch)) depth++;
+      if ("])}".includes(ch)) depth = Math.max(0, depth - 1);
+      if (ch === ";" && depth === 0) {
+        if (current.trim()) out.push(current.trim());
+        current = "";
+        continue;
+      }
+    }
+    current += ch;
+  }
+  if (current.trim()) out.push(current.trim());
+  return out;
+}
+
+// Drop the A:::className shorthand that can follow a node
+function stripClass(rest: string): string {
+  return rest.replace(/^:::[\w-]+/, "");
+}
+
+/**
+ * Quick check used to route pasted text or dropped files to this importer.
+ */
+export function isMermaid(text: string): boolean {
+  const first = extractSource(text)[0] ?? "";
+  return HEADER_RE.test(first) || SEQUENCE_RE.test(first);
+}
+
+function directionFromHeader(header: string): LayoutDirection {
+  const dir = header.match(HEADER_RE)?.[3]?.toUpperCase();
+  return dir === "LR" || dir === "RL" ? "left-right" : "top-down";
+}
+
+class FlowchartParser {
+  readonly nodes = new Map<string, GraphNode>();
+  readonly edges: GraphEdge[] = [];
+  readonly groupTitles: Record<string, string> = {};
+  readonly warnings: string[] = [];
+  private groupStack: string[] = [];
+
+  private node(id: string, label?: string, shape?: ShapeType): GraphNode {
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, label: id };
+      const group = this.groupStack[this.groupStack.length - 1];
+      if (group) node.group = group;
+      this.nodes.set(id, node);
+    }
+    if (label !== undefined) node.label = label;
+    if (shape && shape !== "rectangle") node.shape = shape;
+    return node;
+  }
+
+  // Parse `id` plus an optional shape such as [text], {text} or ((text))
+  private readNode(text: string): { id: string; rest: string } | null {
+    const idMatch = text.match(ID_RE);
+    if (!idMatch) return null;
+    const id = idMatch[0];
+    const rest = text.slice(id.length);
+
+    for (const [open, close, shape] of NODE_SHAPES) {
+      if (!rest.startsWith(open)) continue;
+      const body = rest.slice(open.length);
+      let end: number;
+      if (body.trimStart().startsWith('"')) {
+        // Quoted labels may contain brackets
+        const q = body.indexOf('"');
+        const qEnd = body.indexOf('"', q + 1);
+        end = qEnd < 0 ? -1 : body.indexOf(close, qEnd);
+      } else {
+        end = body.indexOf(close);
+      }
+      if (end < 0) continue;
+      this.node(id, cleanLabel(body.slice(0, end)), shape);
+      return { id, rest: stripClass(body.slice(end + close.length)) };
+    }
+
+    this.node(id);
+    return { id, rest: stripClass(rest) };
+  }
+
+  // Parse `A & B` (with optional shapes)
+  private readNodeGroup(text: string): { ids: string[]; rest: string } | null {
+    const ids: string[] = [];
+    let rest = text.trimStart();
+    while (true) {
+      const read = this.readNode(rest);
+      if (!read) return ids.length > 0 ? { ids, rest } : null;
+      ids.push(read.id);
+      rest = read.rest;
+      const amp = rest.match(/^\s*&\s*/);
+      if (!amp) return { ids, rest };
+      rest = rest.slice(amp[0].length);
+    }
+  }
+
+  statement(stmt: string) {
+    if (/^subgraph\b/.test(stmt)) {
+      const def = stmt.replace(/^subgraph\s*/, "");
+      const withTitle = def.match(/^([\w\u00C0-\uFFFF-]+)\s*\[(.*)\]\s*$/);
+      const id = withTitle ? withTitle[1] : def.replace(/\s+/g, "_") || `subgraph${this.groupStack.length}`;
+      const title = cleanLabel(withTitle ? withTitle[2] : def) || id;
+      this.groupTitles[id] = title;
+      this.groupStack.push(id);
+      return;
+    }
+    if (stmt === "end") {
+      if (this.groupStack.length === 0) this.warnings.push('Unmatched "end"');
+      this.groupStack.pop();
+      return;
+    }
+    if (/^(classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/.test(stmt)) {
+      return;
+    }
+
+    let left = this.readNodeGroup(stmt);
+    if (!left) {
+      this.warnings.push(`Skipped unrecognized line: ${stmt}`);
+      return;
+    }
+    let rest = left.rest;
+    while (rest.trim()) {
+      const textLink = rest.match(TEXT_LINK_RE);
+      const link = textLink ?? rest.match(LINK_RE);
+      if (!link) {
+        this.warnings.push(`Ignored trailing text: ${rest.trim()}`);
+        break;
+      }
+      const arrow = textLink ? textLink[3] : link[1];
+      const label = textLink ? textLink[2] : link[2];
+      const right = this.readNodeGroup(rest.slice(link[0].length));
+      if (!right) {
+        this.warnings.push(`Link without a target: ${stmt}`);
+        break;
+      }
+      for (const from of left.ids) {
+        for (const to of right.ids) {
+          // ~~~ is an invisible link used only for layout
+          if (arrow === "~~~") continue;
+          const edge: GraphEdge = { from, to };
+          const cleaned = label ? cleanLabel(label) : "";
+          if (cleaned) edge.label = cleaned;
+          if (arrow.includes(".")) edge.dashed = true;
+          this.edges.push(edge);
+        }
+      }
+      left = right;
+      rest = right.rest;
+    }
+  }
+}
+
+function parseFlowchart(lines: string[]): MermaidResult {
+  const direction = directionFromHeader(lines[0]);
+  const parser = new FlowchartParser();
+  for (const line of lines.slice(1)) {
+    for (const stmt of splitStatements(line)) parser.statement(stmt);
+  }
+  if (parser.nodes.size === 0) {
+    return { ok: false, error: "No nodes found in Mermaid flowchart" };
+  }
+
+  const graph: Graph = { nodes: Array.from(parser.nodes.values()), edges: parser.edges };
+  const elements = layoutGraph(graph, { direction, groupTitles: parser.groupTitles });
+  return {
+    ok: true,
+    kind: "flowchart",
+    elements,
+    summary: `${graph.nodes.length} nodes, ${graph.edges.length} edges`,
+    warnings: parser.warnings,
+  };
+}
+
+// A->>B: text, A-->>B: text, A-xB, A-)B, with optional +/- activation marks
+const MESSAGE_RE = /^(.+?)\s*(-->>|->>|-->|->|--x|-x|--\)|-\))\s*[+-]?\s*(.+?)\s*:\s*(.*)$/;
+const NOTE_RE = /^note\s+(left of|right of|over)\s+([^:]+):\s*(.*)$/i;
+
+function parseSequence(lines: string[]): MermaidResult {
+  const participants: SequenceParticipant[] = [];
+  const messages: SequenceStep[] = [];
+  const warnings: string[] = [];
+
+  const participant = (id: string, label?: string) => {
+    let p = participants.find((x) => x.id === id);
+    if (!p) {
+      p = { id, label: label ?? id };
+      participants.push(p);
+    } else if (label) {
+      p.label = label;
+    }
+    return p;
+  };
+
+  for (const line of lines.slice(1)) {
+    const decl = line.match(/^(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/);
+    if (decl) {
+      participant(cleanLabel(decl[2]), decl[3] ? cleanLabel(decl[3]) : undefined);
+      continue;
+    }
+    const msg = line.match(MESSAGE_RE);
+    if (msg) {
+      const from = participant(cleanLabel(msg[1])).id;
+      const to = participant(cleanLabel(msg[3])).id;
+      messages.push({
+        kind: "message",
+        from,
+        to,
+        text: cleanLabel(msg[4]),
+        dashed: msg[2].startsWith("--"),
+      });
+      continue;
+    }
+    const note = line.match(NOTE_RE);
+    if (note) {
+      const over = note[2].split(",").map((s) => participant(cleanLabel(s)).id);
+      messages.push({ kind: "note", over, text: cleanLabel(note[3]) });
+      continue;
+    }
+    if (/^(loop|alt|else|opt|par|and|critical|break|rect|end|activate|deactivate|autonumber|box|create|destroy|title)\b/i.test(line)) {
+      continue;
+    }
+    warnings.push(`Skipped unrecognized line: ${line}`);
+  }
+
+  if (participants.length === 0) {
+    return { ok: false, error: "No participants found in sequence diagram" };
+  }
+
+  const elements = layoutSequence({ participants, steps: messages });
+
+  const messageCount = messages.filter((m) => m.kind === "message").length;
+  return {
+    ok: true,
+    kind: "sequence",
+    elements,
+    summary: `${participants.length} participants, ${messageCount} messages`,
+    warnings,
+  };
+}
+
+/**
+ * Convert a Mermaid flowchart or sequence diagram into skeleton elements.
+ */
+export function parseMermaid(text: string): MermaidResult {
+  const lines = extractSource(text);
+  if (lines.length === 0) return { ok: false, error: "Mermaid source is empty" };
+
+  if (SEQUENCE_RE.test(lines[0])) return parseSequence(lines);
+  if (HEADER_RE.test(lines[0])) return parseFlowchart(lines);
+  return {
+    ok: false,
+    error: `Unsupported Mermaid diagram "${lines[0].split(/\s/)[0]}". Only flowchart/graph and sequenceDiagram are supported.`,
+  };
+}
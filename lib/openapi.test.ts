@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { isOpenApi, parseOpenApi } from "./openapi";
+import type { LinearSkeleton, SkeletonElement } from "./skeleton";
+
+const PETSTORE = `openapi: 3.0.3
+info:
+  title: Petstore
+paths:
+  /pets:
+    get:
+      tags: [pets]
+      parameters:
+        - name: limit
+          in: query
+          schema:
+            type: integer
+      responses:
+        "200":
+          description: All pets
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  $ref: "#/components/schemas/Pet"
+    post:
+      tags: [pets]
+      requestBody:
+        content:
+          application/json:
+            schema:
+              $ref: "#/components/schemas/NewPet"
+      responses:
+        "201":
+          description: Created
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Pet"
+  /health:
+    get:
+      responses:
+        "204":
+          description: Up
+components:
+  schemas:
+    Pet:
+      allOf:
+        - $ref: "#/components/schemas/NewPet"
+        - type: object
+          required: [id]
+          properties:
+            id:
+              type: integer
+              format: int64
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+        owner:
+          $ref: "#/components/schemas/Owner"
+    Owner:
+      type: object
+      properties:
+        address:
+          $ref: "#/components/schemas/Address"
+    Address:
+      type: object
+      properties:
+        city:
+          type: string
+`;
+
+function parsed(text: string, schemaDepth?: number) {
+  const result = parseOpenApi(text, { schemaDepth });
+  if (!result.ok) throw new Error(result.error);
+  const byId = new Map(result.elements.map((el: SkeletonElement) => [el.id, el]));
+  return { ...result, byId };
+}
+
+describe("isOpenApi", () => {
+  it("recognizes OpenAPI 3 in YAML and minified JSON", () => {
+    expect(isOpenApi(PETSTORE)).toBe(true);
+    expect(isOpenApi('{"openapi":"3.1.0","paths":{}}')).toBe(true);
+    expect(isOpenApi("swagger: '2.0'")).toBe(false);
+  });
+});
+
+describe("parseOpenApi", () => {
+  it("draws endpoints per tag and links them to the schemas they use", () => {
+    const { summary, byId } = parsed(PETSTORE);
+    expect(summary).toBe('"Petstore" 3 endpoints in 2 tags, 3 schemas');
+    expect(byId.get("tag_pets_title")).toMatchObject({ text: "pets" });
+    expect(byId.get("tag_default_title")).toMatchObject({ text: "default" });
+    expect(byId.get("endpoint_get_pets")).toMatchObject({ label: { text: "GET /pets" }, groupIds: ["tag_pets"] });
+    expect(byId.get("endpoint_get_health")).toMatchObject({ groupIds: ["tag_default"] });
+
+    const label = (id: string) => (byId.get(id) as LinearSkeleton | undefined)?.label?.text;
+    expect(label("endpoint_get_pets_to_schema_Pet")).toBe("200");
+    expect(label("endpoint_post_pets_to_schema_NewPet")).toBe("body");
+    expect(label("endpoint_post_pets_to_schema_Pet")).toBe("201");
+  });
+
+  it("collapses schemas deeper than the schema depth", () => {
+    const shallow = parsed(PETSTORE);
+    expect(shallow.byId.has("schema_Owner")).toBe(true);
+    expect(shallow.byId.has("schema_Address")).toBe(false);
+    expect(shallow.warnings).toEqual(["1 schema deeper than 2 references collapsed: Address"]);
+
+    const deep = parsed(PETSTORE, 3);
+    expect(deep.byId.has("schema_Address")).toBe(true);
+    expect(deep.warnings).toEqual([]);
+  });
+
+  it("reads JSON documents too", () => {
+    const json = JSON.stringify({
+      openapi: "3.1.0",
+      info: { title: "Tiny" },
+      paths: { "/ping": { get: { responses: { 200: { description: "pong" } } } } },
+    });
+    expect(parsed(json).summary).toBe('"Tiny" 1 endpoints in 1 tags, 0 schemas');
+  });
+
+  it("warns about references to missing schemas", () => {
+    const doc = `openapi: 3.0.0
+paths:
+  /a:
+    get:
+      responses:
+        "200":
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Missing"
+`;
+    expect(parsed(doc).warnings).toContain("Unresolved reference #/components/schemas/Missing");
+  });
+
+  it("rejects Swagger 2.0, other documents and empty APIs", () => {
+    expect(parseOpenApi("swagger: '2.0'\npaths: {}")).toEqual({
+      ok: false,
+      error: "Swagger 2.0 is not supported; convert it to OpenAPI 3 first",
+    });
+    expect(parseOpenApi("name: x")).toEqual({ ok: false, error: "Not an OpenAPI 3 document" });
+    expect(parseOpenApi("openapi: 3.0.0\npaths: {}")).toEqual({
+      ok: false,
+      error: "The document has no operations under paths",
+    });
+  });
+});
@@ -0,0 +1,406 @@
+// OpenAPI 3 → API map converter. Endpoints are listed by method and path
+// inside one box per tag, and arrows lead from each endpoint to the schema
+// components its parameters, request body and responses use. Schemas are
+// drawn as tables; those further than `schemaDepth` references away from an
+// endpoint are collapsed to their name. Everything runs locally.
+
+import { layoutEntities, type Entity, type Relationship } from "./diagram-types";
+import { center, clipToBox, type Box } from "./layout";
+import { DEFAULT_STROKE_COLOR, PALETTE, type ShapeSkeleton, type SkeletonElement } from "./skeleton";
+import { parseYaml } from "./yaml";
+
+export type OpenApiResult =
+  | { ok: true; elements: SkeletonElement[]; summary: string; warnings: string[] }
+  | { ok: false; error: string };
+
+export interface OpenApiOptions {
+  // How many schema references from an endpoint are drawn as tables
+  schemaDepth?: number;
+}
+
+export const DEFAULT_SCHEMA_DEPTH = 2;
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"] as const;
+
+const METHOD_COLORS: Record<string, string> = {
+  get: PALETTE.blue,
+  post: PALETTE.green,
+  put: PALETTE.orange,
+  patch: PALETTE.yellow,
+  delete: PALETTE.red,
+};
+
+// Properties listed per schema table before the rest is summarized
+const MAX_PROPERTIES = 12;
+const ENDPOINT_HEIGHT = 36;
+const ENDPOINT_GAP = 10;
+const RESOURCE_HEADER = 50;
+const RESOURCE_GAP = 60;
+const SCHEMA_OFFSET_X = 260;
+
+// An "openapi: 3.x" field, as a YAML line or a (possibly minified) JSON key
+const OPENAPI_RE = /(?:^|[{,])\s*["']?openapi["']?\s*:\s*["']?3\./m;
+
+type Json = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function slug(text: string): string {
+  return text.replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "") || "x";
+}
+
+/**
+ * Quick check used to route pasted text or dropped files to this importer.
+ */
+export function isOpenApi(text: string): boolean {
+  return OPENAPI_RE.test(text.slice(0, 2000));
+}
+
+class RefResolver {
+  readonly warnings: string[] = [];
+  private readonly reported = new Set<string>();
+
+  constructor(private readonly doc: Json) {}
+
+  // Follow local $refs (#/components/...) until a plain object is reached
+  resolve(value: unknown): unknown {
+    const seen = new Set<string>();
+    let current = value;
+    while (isRecord(current) && typeof current.$ref === "string") {
+      const ref = current.$ref;
+      if (seen.has(ref)) return undefined;
+      seen.add(ref);
+      current = this.lookup(ref);
+    }
+    return current;
+  }
+
+  lookup(ref: string): unknown {
+    if (!ref.startsWith("#/")) {
+      this.warn(`External reference ${ref} is not followed`);
+      return undefined;
+    }
+    let node: unknown = this.doc;
+    for (const raw of ref.slice(2).split("/")) {
+      const key = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~");
+      node = isRecord(node) ? node[key] : Array.isArray(node) ? node[Number(key)] : undefined;
+    }
+    if (node === undefined) this.warn(`Unresolved reference ${ref}`);
+    return node;
+  }
+
+  warn(message: string) {
+    if (this.reported.has(message)) return;
+    this.reported.add(message);
+    this.warnings.push(message);
+  }
+}
+
+// Name of the schema component a $ref points to
+function schemaName(value: unknown): string | undefined {
+  if (!isRecord(value) || typeof value.$ref !== "string") return undefined;
+  return value.$ref.match(/^#\/components\/schemas\/(.+)$/)?.[1]?.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+interface SchemaRef {
+  name: string;
+  many: boolean;
+  // Property the reference came from, for schema-to-schema arrows
+  via?: string;
+}
+
+/**
+ * Schema components used directly by a schema: through $ref, array items,
+ * allOf/oneOf/anyOf and inline object properties, without entering other
+ * components.
+ */
+function directRefs(schema: unknown, resolver: RefResolver, many = false, via?: string, depth = 0): SchemaRef[] {
+  if (!isRecord(schema) || depth > 8) return [];
+  const name = schemaName(schema);
+  if (name) return [{ name, many, via }];
+  if (typeof schema.$ref === "string") {
+    return directRefs(resolver.resolve(schema), resolver, many, via, depth + 1);
+  }
+  const refs: SchemaRef[] = [];
+  if (schema.items) refs.push(...directRefs(schema.items, resolver, true, via, depth + 1));
+  for (const key of ["allOf", "oneOf", "anyOf"]) {
+    const parts = schema[key];
+    if (Array.isArray(parts)) for (const part of parts) refs.push(...directRefs(part, resolver, many, via, depth + 1));
+  }
+  if (isRecord(schema.properties)) {
+    for (const [prop, value] of Object.entries(schema.properties)) {
+      refs.push(...directRefs(value, resolver, many, via ?? prop, depth + 1));
+    }
+  }
+  if (isRecord(schema.additionalProperties)) {
+    refs.push(...directRefs(schema.additionalProperties, resolver, true, via, depth + 1));
+  }
+  return refs;
+}
+
+// Short type of a property: string(date), Pet, Pet[], object
+function typeLabel(schema: unknown, resolver: RefResolver): string {
+  const name = schemaName(schema);
+  if (name) return name;
+  const resolved = resolver.resolve(schema);
+  if (!isRecord(resolved)) return "any";
+  if (resolved.type === "array") return `${typeLabel(resolved.items, resolver)}[]`;
+  for (const key of ["oneOf", "anyOf"]) {
+    const parts = resolved[key];
+    if (Array.isArray(parts)) return parts.map((p) => typeLabel(p, resolver)).join(" | ");
+  }
+  if (Array.isArray(resolved.allOf)) return resolved.allOf.map((p) => typeLabel(p, resolver)).join(" & ");
+  const type = Array.isArray(resolved.type) ? resolved.type.join(" | ") : String(resolved.type ?? "object");
+  return typeof resolved.format === "string" ? `${type}(${resolved.format})` : type;
+}
+
+// Properties of a schema, merging allOf parts
+function collectProperties(
+  schema: unknown,
+  resolver: RefResolver,
+  props: Map<string, { schema: unknown; required: boolean }> = new Map(),
+  depth = 0,
+) {
+  const resolved = resolver.resolve(schema);
+  if (!isRecord(resolved) || depth > 8) return props;
+  const required = new Set(Array.isArray(resolved.required) ? resolved.required.map(String) : []);
+  if (isRecord(resolved.properties)) {
+    for (const [name, value] of Object.entries(resolved.properties)) {
+      props.set(name, { schema: value, required: required.has(name) });
+    }
+  }
+  if (Array.isArray(resolved.allOf)) {
+    for (const part of resolved.allOf) collectProperties(part, resolver, props, depth + 1);
+  }
+  return props;
+}
+
+interface Endpoint {
+  id: string;
+  method: string;
+  path: string;
+  // Schema components used by the endpoint, with where they are used
+  refs: Array<{ name: string; role: string }>;
+}
+
+function mediaSchemas(content: unknown): unknown[] {
+  if (!isRecord(content)) return [];
+  return Object.values(content).flatMap((media) => (isRecord(media) && media.schema ? [media.schema] : []));
+}
+
+function readEndpoints(doc: Json, resolver: RefResolver): Map<string, Endpoint[]> {
+  const byTag = new Map<string, Endpoint[]>();
+  const paths = isRecord(doc.paths) ? doc.paths : {};
+  const usedIds = new Set<string>();
+
+  for (const [path, rawItem] of Object.entries(paths)) {
+    const item = resolver.resolve(rawItem);
+    if (!isRecord(item)) continue;
+    const sharedParams = Array.isArray(item.parameters) ? item.parameters : [];
+    for (const method of HTTP_METHODS) {
+      const op = item[method];
+      if (!isRecord(op)) continue;
+
+      let id = `endpoint_${method}_${slug(path)}`;
+      while (usedIds.has(id)) id += "_";
+      usedIds.add(id);
+      const refs: Endpoint["refs"] = [];
+      const addRefs = (schema: unknown, role: string) => {
+        for (const ref of directRefs(schema, resolver)) refs.push({ name: ref.name, role });
+      };
+
+      const params = [...sharedParams, ...(Array.isArray(op.parameters) ? op.parameters : [])];
+      for (const param of params) {
+        const resolved = resolver.resolve(param);
+        if (isRecord(resolved)) addRefs(resolved.schema, String(resolved.name ?? "param"));
+      }
+      const body = resolver.resolve(op.requestBody);
+      if (isRecord(body)) for (const schema of mediaSchemas(body.content)) addRefs(schema, "body");
+      if (isRecord(op.responses)) {
+        for (const [status, rawResponse] of Object.entries(op.responses)) {
+          const response = resolver.resolve(rawResponse);
+          if (isRecord(response)) for (const schema of mediaSchemas(response.content)) addRefs(schema, status);
+        }
+      }
+
+      const tag = Array.isArray(op.tags) && typeof op.tags[0] === "string" ? op.tags[0] : "default";
+      if (!byTag.has(tag)) byTag.set(tag, []);
+      byTag.get(tag)!.push({ id, method, path, refs });
+    }
+  }
+  return byTag;
+}
+
+/**
+ * Convert an OpenAPI 3 document (YAML or JSON) into an API map.
+ */
+export function parseOpenApi(text: string, options: OpenApiOptions = {}): OpenApiResult {
+  const parsed = parseYaml(text);
+  if (!parsed.ok) return { ok: false, error: `Could not read the document: ${parsed.error}` };
+  const doc = parsed.value;
+  if (!isRecord(doc)) return { ok: false, error: "The document is not an object" };
+  if (typeof doc.openapi !== "string" || !doc.openapi.startsWith("3")) {
+    return {
+      ok: false,
+      error: doc.swagger ? "Swagger 2.0 is not supported; convert it to OpenAPI 3 first" : "Not an OpenAPI 3 document",
+    };
+  }
+  const maxDepth = Math.max(0, Math.floor(options.schemaDepth ?? DEFAULT_SCHEMA_DEPTH));
+  const resolver = new RefResolver(doc);
+  const schemas = isRecord(doc.components) && isRecord(doc.components.schemas) ? doc.components.schemas : {};
+
+  const byTag = readEndpoints(doc, resolver);
+  const endpointCount = [...byTag.values()].reduce((sum, list) => sum + list.length, 0);
+  if (endpointCount === 0) return { ok: false, error: "The document has no operations under paths" };
+
+  // Breadth-first from the endpoints: depth 1 is what an endpoint uses directly
+  const depth = new Map<string, number>();
+  let frontier = [...new Set([...byTag.values()].flat().flatMap((e) => e.refs.map((r) => r.name)))];
+  for (let level = 1; frontier.length > 0 && level <= maxDepth; level++) {
+    const next: string[] = [];
+    for (const name of frontier) {
+      if (depth.has(name)) continue;
+      if (!(name in schemas)) {
+        resolver.warn(`Unresolved reference #/components/schemas/${name}`);
+        continue;
+      }
+      depth.set(name, level);
+      next.push(...directRefs(schemas[name], resolver).map((r) => r.name));
+    }
+    frontier = next.filter((name) => !depth.has(name));
+  }
+  const collapsed = new Set(frontier.filter((name) => name in schemas && !depth.has(name)));
+
+  // Resource boxes, one per tag, stacked in a column
+  const elements: SkeletonElement[] = [];
+  const endpointShapes = new Map<string, ShapeSkeleton>();
+  const tagWidth = Math.max(
+    280,
+    ...[...byTag.values()].flat().map((e) => (e.method.length + e.path.length + 1) * 9 + 60),
+  );
+  let y = 0;
+  for (const [tag, endpoints] of byTag) {
+    const groupId = `tag_${slug(tag)}`;
+    const height = RESOURCE_HEADER + endpoints.length * (ENDPOINT_HEIGHT + ENDPOINT_GAP) + 10;
+    elements.push(
+      {
+        type: "rectangle",
+        id: groupId,
+        x: 0,
+        y,
+        width: tagWidth,
+        height,
+        backgroundColor: PALETTE.gray,
+        strokeColor: DEFAULT_STROKE_COLOR,
+        groupIds: [groupId],
+      },
+      {
+        type: "text",
+        id: `${groupId}_title`,
+        x: 15,
+        y: y + 12,
+        text: tag,
+        fontSize: 20,
+        strokeColor: DEFAULT_STROKE_COLOR,
+        groupIds: [groupId],
+      },
+    );
+    endpoints.forEach((endpoint, i) => {
+      const shape: ShapeSkeleton = {
+        type: "rectangle",
+        id: endpoint.id,
+        x: 15,
+        y: y + RESOURCE_HEADER + i * (ENDPOINT_HEIGHT + ENDPOINT_GAP),
+        width: tagWidth - 30,
+        height: ENDPOINT_HEIGHT,
+        backgroundColor: METHOD_COLORS[endpoint.method] ?? PALETTE.white,
+        strokeColor: DEFAULT_STROKE_COLOR,
+        label: { text: `${endpoint.method.toUpperCase()} ${endpoint.path}`, fontSize: 16 },
+        groupIds: [groupId],
+      };
+      endpointShapes.set(endpoint.id, shape);
+      elements.push(shape);
+    });
+    y += height + RESOURCE_GAP;
+  }
+
+  // Schema tables to the right, with references between the drawn ones
+  const entities: Entity[] = [];
+  const relationships: Relationship[] = [];
+  const schemaId = (name: string) => `schema_${slug(name)}`;
+  for (const name of depth.keys()) {
+    const props = [...collectProperties(schemas[name], resolver)];
+    const attributes = props.slice(0, MAX_PROPERTIES).map(([prop, { schema, required }]) => ({
+      name: required ? `${prop}*` : prop,
+      type: typeLabel(schema, resolver),
+    }));
+    if (props.length > MAX_PROPERTIES) attributes.push({ name: `… ${props.length - MAX_PROPERTIES} more`, type: "" });
+    if (props.length === 0) attributes.push({ name: typeLabel(schemas[name], resolver), type: "" });
+    entities.push({ id: schemaId(name), name, attributes });
+
+    const seen = new Set<string>();
+    for (const ref of directRefs(schemas[name], resolver)) {
+      const key = `${ref.name}:${ref.via ?? ""}`;
+      if (!depth.has(ref.name) || ref.name === name || seen.has(key)) continue;
+      seen.add(key);
+      relationships.push({
+        from: schemaId(name),
+        to: schemaId(ref.name),
+        cardinality: ref.many ? "1:N" : "1:1",
+        label: ref.via,
+      });
+    }
+  }
+  const schemaElements = layoutEntities(entities, relationships, { x: tagWidth + SCHEMA_OFFSET_X, y: 0 });
+  elements.push(...schemaElements);
+
+  // Endpoint → schema arrows, one per pair with the uses as the label
+  const tables = new Map<string, Box>();
+  for (const el of schemaElements) {
+    if (el.type === "rectangle" && el.id && !el.id.endsWith("_header")) tables.set(el.id, el);
+  }
+  for (const endpoint of [...byTag.values()].flat()) {
+    const roles = new Map<string, string[]>();
+    for (const ref of endpoint.refs) {
+      if (!depth.has(ref.name)) continue;
+      const list = roles.get(ref.name) ?? [];
+      if (!list.includes(ref.role)) list.push(ref.role);
+      roles.set(ref.name, list);
+    }
+    for (const [name, uses] of roles) {
+      const from = endpointShapes.get(endpoint.id)!;
+      const to = tables.get(schemaId(name))!;
+      const start = clipToBox(from, center(to));
+      const end = clipToBox(to, center(from));
+      elements.push({
+        type: "arrow",
+        id: `${endpoint.id}_to_${schemaId(name)}`,
+        x: Math.round(start.x),
+        y: Math.round(start.y),
+        width: Math.round(end.x - start.x),
+        height: Math.round(end.y - start.y),
+        strokeColor: "#868e96",
+        start: { type: "rectangle", id: endpoint.id },
+        end: { type: "rectangle", id: schemaId(name) },
+        label: { text: uses.join(", "), fontSize: 14 },
+      });
+    }
+  }
+
+  const warnings = [...resolver.warnings];
+  if (collapsed.size > 0) {
+    warnings.push(
+      `${collapsed.size} schema${collapsed.size === 1 ? "" : "s"} deeper than ${maxDepth} reference${maxDepth === 1 ? "" : "s"} collapsed: ${[...collapsed].join(", ")}`,
+    );
+  }
+  const info = isRecord(doc.info) ? doc.info : {};
+  const title = typeof info.title === "string" ? `"${info.title}" ` : "";
+  return {
+    ok: true,
+    elements,
+    summary: `${title}${endpointCount} endpoints in ${byTag.size} tags, ${depth.size} schemas`,
+    warnings,
+  };
+}
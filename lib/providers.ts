@@ -0,0 +1,738 @@
+// Wire-format adapters for the LLM providers. Each adapter turns a chat
+// request into the provider's own HTTP request and reads its response,
+// streamed or not, back into text and tool calls.
+
+export type ProviderType = "openai" | "anthropic" | "ollama" | "gemini";
+
+export const PROVIDER_TYPES: Record<ProviderType, string> = {
+  openai: "OpenAI-compatible (/chat/completions)",
+  anthropic: "Anthropic Messages (/v1/messages)",
+  ollama: "Ollama native (/api/chat)",
+  gemini: "Gemini (generateContent)",
+};
+
+export function isProviderType(value: unknown): value is ProviderType {
+  return typeof value === "string" && Object.hasOwn(PROVIDER_TYPES, value);
+}
+
+// Message content parts, in the OpenAI shape. Images are data: URLs (or
+// plain URLs where the provider can fetch them); each adapter converts the
+// parts to its own format.
+export type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export type MessageContent = string | ContentPart[];
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: MessageContent;
+}
+
+export function toParts(content: MessageContent): ContentPart[] {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+/** The text of a message, without its images. */
+export function messageText(content: MessageContent): string {
+  if (typeof content === "string") return content;
+  return content
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n\n");
+}
+
+export function hasImages(content: MessageContent): boolean {
+  return typeof content !== "string" && content.some((part) => part.type === "image_url");
+}
+
+/**
+ * Message content from a request body: a string, or the text and image parts
+ * of a part list. Anything else is null.
+ */
+export function toMessageContent(value: unknown): MessageContent | null {
+  if (typeof value === "string") return value;
+  if (!Array.isArray(value)) return null;
+  const parts = value.flatMap((part): ContentPart[] => {
+    if (part?.type === "text" && typeof part.text === "string") {
+      return [{ type: "text", text: part.text }];
+    }
+    if (part?.type === "image_url" && typeof part.image_url?.url === "string") {
+      return [{ type: "image_url", image_url: { url: part.image_url.url } }];
+    }
+    return [];
+  });
+  return parts.length > 0 ? parts : null;
+}
+
+// "data:image/png;base64,...." -> media type and base64 payload
+function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  return match ? { mediaType: match[1], data: match[2] } : null;
+}
+
+// A function the model may call, described by a JSON Schema
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// A complete tool call; arguments stay a JSON string until validated
+export interface ToolCall {
+  name: string;
+  arguments: string;
+}
+
+// Part of a streamed tool call. Deltas with the same index belong to the
+// same call; a delta without an index is a complete call on its own.
+export interface ToolCallDelta {
+  index?: number;
+  name?: string;
+  arguments?: string;
+}
+
+export interface Completion {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+export interface StreamDelta {
+  text?: string;
+  toolCalls?: ToolCallDelta[];
+}
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  // Ask for a bare JSON object where the provider supports it
+  json?: boolean;
+  // Constrain the output to a JSON Schema; takes precedence over json
+  jsonSchema?: { name: string; schema: object };
+  temperature?: number;
+  maxTokens?: number;
+  stream?: boolean;
+  // Offered as callable functions; the model must call at least one
+  tools?: ToolDefinition[];
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// A model offered by the server, with whatever metadata it reports
+export interface ModelInfo {
+  id: string;
+  // Display name where the server gives one besides the id
+  label?: string;
+  // Size of the weights in bytes (local servers)
+  size?: number;
+  contextLength?: number;
+  // e.g. parameter count and quantization: "8.0B Q4_K_M"
+  details?: string;
+}
+
+export interface ProviderAdapter {
+  type: ProviderType;
+  // Structured output the API format can ask for (json / jsonSchema)
+  structuredOutput: { object: boolean; schema: boolean };
+  buildRequest: (config: ProviderConfig, request: CompletionRequest) => ProviderRequest;
+  // Listing of the available models; sent as GET unless it has a body
+  buildModelsRequest: (config: ProviderConfig) => ProviderRequest;
+  extractModels: (data: unknown) => ModelInfo[];
+  // Metadata the listing leaves out, fetched per model (Ollama's context length)
+  buildModelInfoRequest?: (config: ProviderConfig, model: string) => ProviderRequest;
+  extractModelInfo?: (data: unknown) => Partial<ModelInfo>;
+  // Text and tool calls of a non-streaming response body
+  extractCompletion: (data: unknown) => Completion;
+  // Text and tool call deltas carried by one streamed event; control
+  // events yield nothing. Error events throw.
+  extractDelta: (event: unknown) => StreamDelta;
+}
+
+// Anthropic and Gemini require an explicit output limit
+const DEFAULT_MAX_TOKENS = 8192;
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function splitSystem(messages: ChatMessage[]) {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => messageText(m.content))
+    .join("\n\n");
+  const turns = messages.filter(
+    (m): m is ChatMessage & { role: "user" | "assistant" } => m.role !== "system",
+  );
+  return { system, turns };
+}
+
+// Anthropic and Gemini expect user and assistant turns to alternate
+function mergeConsecutive<T extends { role: string; content: MessageContent }>(turns: T[]): T[] {
+  const merged: T[] = [];
+  for (const turn of turns) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === turn.role) {
+      const content =
+        typeof last.content === "string" && typeof turn.content === "string"
+          ? `${last.content}\n\n${turn.content}`
+          : [...toParts(last.content), ...toParts(turn.content)];
+      merged[merged.length - 1] = { ...last, content };
+    } else {
+      merged.push(turn);
+    }
+  }
+  return merged;
+}
+
+function stringifyArguments(args: unknown): string {
+  return typeof args === "string" ? args : JSON.stringify(args ?? {});
+}
+
+function errorMessage(data: unknown): string | undefined {
+  const error = (data as { error?: unknown })?.error;
+  if (!error) return undefined;
+  if (typeof error === "string") return error;
+  const message = (error as { message?: unknown }).message;
+  return typeof message === "string" ? message : JSON.stringify(error);
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function listOf(data: unknown, key: string): Record<string, unknown>[] {
+  const list = (data as Record<string, unknown> | null)?.[key];
+  return Array.isArray(list) ? list.filter((item) => typeof item === "object" && item !== null) : [];
+}
+
+interface OpenAIMessage {
+  content?: unknown;
+  tool_calls?: { index?: number; function?: { name?: string; arguments?: string } }[];
+}
+
+const openaiAdapter: ProviderAdapter = {
+  type: "openai",
+  structuredOutput: { object: true, schema: true },
+  buildRequest: ({ baseUrl, apiKey }, req) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    return {
+      url: `${trimSlash(baseUrl)}/chat/completions`,
+      headers,
+      body: {
+        model: req.model,
+        messages: req.messages,
+        ...(req.jsonSchema
+          ? { response_format: { type: "json_schema", json_schema: { ...req.jsonSchema, strict: false } } }
+          : req.json
+            ? { response_format: { type: "json_object" } }
+            : {}),
+        ...(req.tools
+          ? {
+              tools: req.tools.map((tool) => ({ type: "function", function: tool })),
+              tool_choice: "auto",
+            }
+          : {}),
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+        ...(req.maxTokens !== undefined ? { max_tokens: req.maxTokens } : {}),
+        ...(req.stream ? { stream: true } : {}),
+      },
+    };
+  },
+  extractCompletion: (data) => {
+    const message = (data as { choices?: { message?: OpenAIMessage }[] })?.choices?.[0]?.message;
+    return {
+      text: typeof message?.content === "string" ? message.content : "",
+      toolCalls: (message?.tool_calls ?? []).map((call) => ({
+        name: call.function?.name ?? "",
+        arguments: stringifyArguments(call.function?.arguments),
+      })),
+    };
+  },
+  extractDelta: (event) => {
+    const message = errorMessage(event);
+    if (message) throw new Error(message);
+    const delta = (event as { choices?: { delta?: OpenAIMessage }[] })?.choices?.[0]?.delta;
+    return {
+      text: typeof delta?.content === "string" ? delta.content : undefined,
+      toolCalls: delta?.tool_calls?.map((call, i) => ({
+        index: call.index ?? i,
+        name: call.function?.name,
+        arguments: call.function?.arguments,
+      })),
+    };
+  },
+  buildModelsRequest: ({ baseUrl, apiKey }) => {
+    const headers: Record<string, string> = {};
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    return { url: `${trimSlash(baseUrl)}/models`, headers, body: undefined };
+  },
+  // Compatible servers add their own metadata: context_length (OpenRouter),
+  // max_model_len (vLLM), meta.n_ctx_train and meta.size (llama.cpp)
+  extractModels: (data) =>
+    listOf(data, "data").flatMap((m) => {
+      if (typeof m.id !== "string") return [];
+      const meta = (m.meta ?? {}) as Record<string, unknown>;
+      const params = positiveNumber(meta.n_params);
+      return [
+        {
+          id: m.id,
+          label: typeof m.name === "string" && m.name !== m.id ? m.name : undefined,
+          size: positiveNumber(meta.size),
+          contextLength:
+            positiveNumber(m.context_length) ??
+            positiveNumber(m.max_model_len) ??
+            positiveNumber(m.context_window) ??
+            positiveNumber(meta.n_ctx_train),
+          details: params ? `${(params / 1e9).toFixed(1)}B` : undefined,
+        },
+      ];
+    }),
+};
+
+interface AnthropicBlock {
+  type?: string;
+  text?: unknown;
+  name?: string;
+  input?: unknown;
+}
+
+function anthropicBlock(part: ContentPart) {
+  if (part.type === "text") return { type: "text", text: part.text };
+  const inline = parseDataUrl(part.image_url.url);
+  return {
+    type: "image",
+    source: inline
+      ? { type: "base64", media_type: inline.mediaType, data: inline.data }
+      : { type: "url", url: part.image_url.url },
+  };
+}
+
+// Native Messages API: the system prompt is a top-level field and streamed
+// text arrives as content_block_delta events
+// The Messages API has no JSON mode; structured output goes through tools
+const anthropicAdapter: ProviderAdapter = {
+  type: "anthropic",
+  structuredOutput: { object: false, schema: false },
+  buildRequest: ({ baseUrl, apiKey }, req) => {
+    const { system, turns } = splitSystem(req.messages);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "anthropic-version": "2023-06-01",
+    };
+    if (apiKey) headers["x-api-key"] = apiKey;
+    const root = trimSlash(baseUrl);
+    return {
+      url: root.endsWith("/v1") ? `${root}/messages` : `${root}/v1/messages`,
+      headers,
+      body: {
+        model: req.model,
+        max_tokens: req.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(system ? { system } : {}),
+        messages: mergeConsecutive(turns).map((t) => ({
+          role: t.role,
+          content: typeof t.content === "string" ? t.content : t.content.map(anthropicBlock),
+        })),
+        ...(req.tools
+          ? {
+              tools: req.tools.map(({ name, description, parameters }) => ({
+                name,
+                description,
+                input_schema: parameters,
+              })),
+              tool_choice: { type: "any" },
+            }
+          : {}),
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+        ...(req.stream ? { stream: true } : {}),
+      },
+    };
+  },
+  extractCompletion: (data) => {
+    const content = (data as { content?: AnthropicBlock[] })?.content;
+    if (!Array.isArray(content)) return { text: "", toolCalls: [] };
+    return {
+      text: content
+        .filter((block) => block.type === "text" && typeof block.text === "string")
+        .map((block) => block.text as string)
+        .join(""),
+      toolCalls: content
+        .filter((block) => block.type === "tool_use")
+        .map((block) => ({ name: block.name ?? "", arguments: stringifyArguments(block.input) })),
+    };
+  },
+  extractDelta: (event) => {
+    const e = event as {
+      type?: string;
+      index?: number;
+      content_block?: AnthropicBlock;
+      delta?: { type?: string; text?: unknown; partial_json?: unknown };
+    };
+    if (e?.type === "error") throw new Error(errorMessage(event) ?? "Anthropic stream error");
+    // Tool input arrives as partial JSON after a tool_use block opens
+    if (e?.type === "content_block_start" && e.content_block?.type === "tool_use") {
+      return { toolCalls: [{ index: e.index ?? 0, name: e.content_block.name, arguments: "" }] };
+    }
+    if (e?.type !== "content_block_delta") return {};
+    if (e.delta?.type === "text_delta" && typeof e.delta.text === "string") {
+      return { text: e.delta.text };
+    }
+    if (e.delta?.type === "input_json_delta" && typeof e.delta.partial_json === "string") {
+      return { toolCalls: [{ index: e.index ?? 0, arguments: e.delta.partial_json }] };
+    }
+    return {};
+  },
+  buildModelsRequest: ({ baseUrl, apiKey }) => {
+    const root = trimSlash(baseUrl);
+    const headers: Record<string, string> = { "anthropic-version": "2023-06-01" };
+    if (apiKey) headers["x-api-key"] = apiKey;
+    return {
+      url: `${root.endsWith("/v1") ? root : `${root}/v1`}/models?limit=1000`,
+      headers,
+      body: undefined,
+    };
+  },
+  extractModels: (data) =>
+    listOf(data, "data").flatMap((m) =>
+      typeof m.id === "string"
+        ? [{ id: m.id, label: typeof m.display_name === "string" ? m.display_name : undefined }]
+        : [],
+    ),
+};
+
+// Native Ollama API, served from the host root rather than /v1. Streams
+// newline-delimited JSON instead of SSE.
+const ollamaAdapter: ProviderAdapter = {
+  type: "ollama",
+  structuredOutput: { object: true, schema: true },
+  buildRequest: ({ baseUrl, apiKey }, req) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    const options: Record<string, number> = {};
+    if (req.temperature !== undefined) options.temperature = req.temperature;
+    if (req.maxTokens !== undefined) options.num_predict = req.maxTokens;
+    return {
+      url: `${trimSlash(baseUrl).replace(/\/v1$/, "")}/api/chat`,
+      headers,
+      body: {
+        model: req.model,
+        // Images go in a separate list of bare base64 strings
+        messages: req.messages.map((m) =>
+          typeof m.content === "string"
+            ? m
+            : {
+                role: m.role,
+                content: messageText(m.content),
+                images: m.content.flatMap((part) => {
+                  const inline = part.type === "image_url" ? parseDataUrl(part.image_url.url) : null;
+                  return inline ? [inline.data] : [];
+                }),
+              },
+        ),
+        stream: req.stream ?? false,
+        ...(req.jsonSchema ? { format: req.jsonSchema.schema } : req.json ? { format: "json" } : {}),
+        ...(req.tools
+          ? { tools: req.tools.map((tool) => ({ type: "function", function: tool })) }
+          : {}),
+        ...(Object.keys(options).length > 0 ? { options } : {}),
+      },
+    };
+  },
+  // Ollama sends each tool call whole, in a single chunk
+  extractCompletion: (data) => {
+    const error = errorMessage(data);
+    if (error) throw new Error(error);
+    const message = (data as {
+      message?: { content?: unknown; tool_calls?: { function?: { name?: string; arguments?: unknown } }[] };
+    })?.message;
+    return {
+      text: typeof message?.content === "string" ? message.content : "",
+      toolCalls: (message?.tool_calls ?? []).map((call) => ({
+        name: call.function?.name ?? "",
+        arguments: stringifyArguments(call.function?.arguments),
+      })),
+    };
+  },
+  extractDelta: (event) => ollamaAdapter.extractCompletion(event),
+  buildModelsRequest: ({ baseUrl, apiKey }) => {
+    const headers: Record<string, string> = {};
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    return { url: `${trimSlash(baseUrl).replace(/\/v1$/, "")}/api/tags`, headers, body: undefined };
+  },
+  extractModels: (data) =>
+    listOf(data, "models").flatMap((m) => {
+      const id = typeof m.model === "string" ? m.model : m.name;
+      if (typeof id !== "string") return [];
+      const details = (m.details ?? {}) as Record<string, unknown>;
+      const parts = [details.parameter_size, details.quantization_level].filter((p) => typeof p === "string");
+      return [{ id, size: positiveNumber(m.size), details: parts.join(" ") || undefined }];
+    }),
+  // The listing has no context length; /api/show reports it per architecture
+  // as model_info["<arch>.context_length"]
+  buildModelInfoRequest: ({ baseUrl, apiKey }, model) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    return { url: `${trimSlash(baseUrl).replace(/\/v1$/, "")}/api/show`, headers, body: { model } };
+  },
+  extractModelInfo: (data) => {
+    const info = ((data as { model_info?: unknown })?.model_info ?? {}) as Record<string, unknown>;
+    const key = Object.keys(info).find((k) => k.endsWith(".context_length"));
+    return { contextLength: key ? positiveNumber(info[key]) : undefined };
+  },
+};
+
+// Images must be inline; other URLs are passed on as text
+function geminiPart(part: ContentPart) {
+  if (part.type === "text") return { text: part.text };
+  const inline = parseDataUrl(part.image_url.url);
+  return inline
+    ? { inlineData: { mimeType: inline.mediaType, data: inline.data } }
+    : { text: part.image_url.url };
+}
+
+// Gemini: the model is part of the URL, assistant turns use the "model"
+// role and streaming goes through streamGenerateContent with alt=sse
+const geminiAdapter: ProviderAdapter = {
+  type: "gemini",
+  structuredOutput: { object: true, schema: true },
+  buildRequest: ({ baseUrl, apiKey }, req) => {
+    const { system, turns } = splitSystem(req.messages);
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers["x-goog-api-key"] = apiKey;
+    const model = req.model.replace(/^models\//, "");
+    const method = req.stream ? "streamGenerateContent?alt=sse" : "generateContent";
+    const generationConfig: Record<string, unknown> = {
+      maxOutputTokens: req.maxTokens ?? DEFAULT_MAX_TOKENS,
+    };
+    if (req.temperature !== undefined) generationConfig.temperature = req.temperature;
+    if (req.json || req.jsonSchema) generationConfig.responseMimeType = "application/json";
+    if (req.jsonSchema) generationConfig.responseJsonSchema = req.jsonSchema.schema;
+    return {
+      url: `${trimSlash(baseUrl)}/models/${encodeURIComponent(model)}:${method}`,
+      headers,
+      body: {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents: mergeConsecutive(turns).map((t) => ({
+          role: t.role === "assistant" ? "model" : "user",
+          parts: toParts(t.content).map(geminiPart),
+        })),
+        generationConfig,
+        ...(req.tools
+          ? {
+              tools: [{ functionDeclarations: req.tools }],
+              toolConfig: { functionCallingConfig: { mode: "ANY" } },
+            }
+          : {}),
+      },
+    };
+  },
+  // Function calls arrive whole, never split across events
+  extractCompletion: (data) => {
+    const error = errorMessage(data);
+    if (error) throw new Error(error);
+    const parts = (data as {
+      candidates?: { content?: { parts?: { text?: unknown; functionCall?: { name?: string; args?: unknown } }[] } }[];
+    })?.candidates?.[0]?.content?.parts;
+    if (!Array.isArray(parts)) return { text: "", toolCalls: [] };
+    return {
+      text: parts.map((p) => (typeof p.text === "string" ? p.text : "")).join(""),
+      toolCalls: parts
+        .filter((p) => p.functionCall)
+        .map((p) => ({
+          name: p.functionCall?.name ?? "",
+          arguments: stringifyArguments(p.functionCall?.args),
+        })),
+    };
+  },
+  extractDelta: (event) => geminiAdapter.extractCompletion(event),
+  buildModelsRequest: ({ baseUrl, apiKey }) => {
+    const headers: Record<string, string> = {};
+    if (apiKey) headers["x-goog-api-key"] = apiKey;
+    return { url: `${trimSlash(baseUrl)}/models?pageSize=1000`, headers, body: undefined };
+  },
+  // Embedding and other non-chat models are left out
+  extractModels: (data) =>
+    listOf(data, "models").flatMap((m) => {
+      const methods = Array.isArray(m.supportedGenerationMethods) ? m.supportedGenerationMethods : [];
+      if (typeof m.name !== "string" || !methods.includes("generateContent")) return [];
+      return [
+        {
+          id: m.name.replace(/^models\//, ""),
+          label: typeof m.displayName === "string" ? m.displayName : undefined,
+          contextLength: positiveNumber(m.inputTokenLimit),
+        },
+      ];
+    }),
+};
+
+const ADAPTERS: Record<ProviderType, ProviderAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  ollama: ollamaAdapter,
+  gemini: geminiAdapter,
+};
+
+export function getAdapter(type: ProviderType): ProviderAdapter {
+  return ADAPTERS[type];
+}
+
+/** Whether the upstream answered with a stream (SSE or NDJSON) rather than one JSON body. */
+export function isStreamingResponse(response: Response): boolean {
+  const contentType = response.headers.get("content-type") || "";
+  return (
+    contentType.includes("text/event-stream") ||
+    contentType.includes("text/plain") ||
+    !contentType.includes("application/json")
+  );
+}
+
+/**
+ * Read a completion body to the end. SSE `data:` lines and bare NDJSON lines
+ * are both accepted, so one reader serves every adapter. Content deltas are
+ * reported through onToken as they arrive, and onToolCall fires when the
+ * model starts a new tool call. Streamed tool call arguments are joined per
+ * call.
+ */
+export async function readCompletion(
+  adapter: ProviderAdapter,
+  response: Response,
+  onToken?: (token: string) => void,
+  onToolCall?: (call: { index: number; name: string }) => void,
+): Promise<Completion> {
+  if (!isStreamingResponse(response)) {
+    const completion = adapter.extractCompletion(await response.json());
+    if (completion.text) onToken?.(completion.text);
+    completion.toolCalls.forEach((call, index) => onToolCall?.({ index, name: call.name }));
+    return completion;
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) return { text: "", toolCalls: [] };
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let accumulated = "";
+  // Provider index -> position in toolCalls
+  const slots = new Map<number, number>();
+  const toolCalls: ToolCall[] = [];
+
+  const addToolDelta = (delta: ToolCallDelta) => {
+    let slot = delta.index !== undefined ? slots.get(delta.index) : undefined;
+    if (slot === undefined) {
+      slot = toolCalls.length;
+      if (delta.index !== undefined) slots.set(delta.index, slot);
+      toolCalls.push({ name: "", arguments: "" });
+    }
+    const call = toolCalls[slot];
+    if (delta.name && !call.name) {
+      call.name = delta.name;
+      onToolCall?.({ index: slot, name: delta.name });
+    }
+    if (delta.arguments) call.arguments += delta.arguments;
+  };
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    // SSE comments and "event:" lines carry no payload; the event type is
+    // repeated inside the data for every provider we support
+    if (!trimmed || trimmed.startsWith(":") || trimmed.startsWith("event:")) return;
+    const payload = trimmed.startsWith("data:") ? trimmed.slice(5).trim() : trimmed;
+    if (payload === "[DONE]") return;
+
+    let event: unknown;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      // Skip malformed chunks
+      return;
+    }
+    const delta = adapter.extractDelta(event);
+    if (delta.text) {
+      accumulated += delta.text;
+      onToken?.(delta.text);
+    }
+    delta.toolCalls?.forEach(addToolDelta);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) handleLine(line);
+    }
+    handleLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+  return { text: accumulated, toolCalls };
+}
+
+// Models looked up one by one for metadata the listing leaves out
+const MAX_DETAILED_MODELS = 50;
+
+async function fetchJson(request: ProviderRequest, timeoutMs: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(request.url, {
+      method: request.body === undefined ? "GET" : "POST",
+      headers: request.headers,
+      signal: controller.signal,
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(`Server returned ${response.status}: ${text.slice(0, 200)}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Fetch the models a server offers, sorted by id. Where the listing leaves
+ * metadata out, the models `detailed` accepts (the first 50 by default) are
+ * looked up one by one; a model that cannot be looked up is still listed.
+ */
+export async function fetchModels(
+  adapter: ProviderAdapter,
+  config: ProviderConfig,
+  detailed: (model: ModelInfo) => boolean = () => true,
+): Promise<ModelInfo[]> {
+  const models = adapter.extractModels(await fetchJson(adapter.buildModelsRequest(config), 10000));
+
+  const { buildModelInfoRequest, extractModelInfo } = adapter;
+  if (buildModelInfoRequest && extractModelInfo) {
+    await Promise.all(
+      models
+        .filter(detailed)
+        .slice(0, MAX_DETAILED_MODELS)
+        .map(async (model) => {
+          try {
+            const info = extractModelInfo(await fetchJson(buildModelInfoRequest(config, model.id), 5000));
+            for (const [key, value] of Object.entries(info)) {
+              if (value !== undefined) Object.assign(model, { [key]: value });
+            }
+          } catch {
+            // Keep what the listing reported
+          }
+        }),
+    );
+  }
+
+  return models.sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { acceptItems, buildReview, type ReviewItem } from "./review";
+import type { DiagramOperation, LinearSkeleton, ShapeSkeleton } from "./skeleton";
+
+function element(id: string, fields: Record<string, unknown> = {}): ExcalidrawElement {
+  const el = { id, type: "rectangle", x: 0, y: 0, width: 100, height: 50, strokeColor: "#1e1e1e", isDeleted: false };
+  return { ...el, ...fields } as unknown as ExcalidrawElement;
+}
+
+const scene = [
+  element("api"),
+  element("api_label", { type: "text", containerId: "api", text: "API", fontSize: 20 }),
+  element("db", { type: "ellipse", x: 300 }),
+];
+
+const shape = (id: string, fields: Partial<ShapeSkeleton> = {}): ShapeSkeleton => ({
+  id,
+  type: "rectangle",
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 50,
+  ...fields,
+});
+const arrow = (from: string, to: string): LinearSkeleton => ({
+  type: "arrow",
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 0,
+  start: { id: from },
+  end: { id: to },
+});
+
+const summary = (items: ReviewItem[]) => items.map((item) => `${item.key} ${item.kind} ${item.id ?? item.type}`);
+
+describe("buildReview", () => {
+  it("lists field-level changes and skips elements resent unchanged", () => {
+    const elements = [shape("api", { x: 40, label: { text: "Gateway" } }), shape("db", { type: "ellipse", x: 300 })];
+    const items = buildReview([{ action: "modify", elements }], scene);
+    expect(items).toEqual([
+      {
+        key: "0#0",
+        kind: "changed",
+        id: "api",
+        type: "rectangle",
+        label: "API",
+        fields: [
+          { field: "x", before: 0, after: 40 },
+          { field: "label", before: "API", after: "Gateway" },
+        ],
+        accepted: true,
+      },
+    ]);
+  });
+
+  it("compares restyles with the label's font size and lists deletions", () => {
+    const items = buildReview(
+      [
+        { action: "restyle", ids: ["api", "missing"], style: { fontSize: 28, strokeColor: "#1e1e1e" } },
+        { action: "delete", ids: ["db"] },
+      ],
+      scene,
+    );
+    expect(items.map((item) => item.fields)).toEqual([[{ field: "fontSize", before: 20, after: 28 }], []]);
+    expect(summary(items)).toEqual(["0:api changed api", "1:db removed db"]);
+  });
+
+  it("treats added ids as new and lists what a replace would remove", () => {
+    const items = buildReview(
+      [
+        { action: "add", elements: [shape("api")] },
+        { action: "replace", elements: [shape("api"), shape("cache")] },
+      ],
+      scene,
+    );
+    // The replaced label goes with its shape
+    expect(summary(items)).toEqual(["0#0 added api", "1#1 added cache", "1:db removed db"]);
+  });
+});
+
+describe("acceptItems", () => {
+  it("keeps the accepted elements and drops arrows to rejected new ones", () => {
+    const operations: DiagramOperation[] = [
+      { action: "add", elements: [shape("cache"), shape("queue"), arrow("api", "cache"), arrow("api", "queue")] },
+    ];
+    const items = buildReview(operations, scene).map((item) =>
+      item.id === "cache" ? { ...item, accepted: false } : item,
+    );
+    expect(acceptItems(operations, items)).toEqual([
+      { action: "add", elements: [shape("queue"), arrow("api", "queue")] },
+    ]);
+  });
+
+  it("turns a partly accepted replace into a delete and a modify", () => {
+    const operations: DiagramOperation[] = [{ action: "replace", elements: [shape("api", { x: 40 }), shape("cache")] }];
+    const all = buildReview(operations, scene);
+    expect(acceptItems(operations, all)).toEqual(operations);
+
+    const keepDb = all.map((item) => (item.id === "db" ? { ...item, accepted: false } : item));
+    expect(acceptItems(operations, keepDb)).toEqual([
+      { action: "modify", elements: [shape("api", { x: 40 }), shape("cache")] },
+    ]);
+    const keepApi = all.map((item) => (item.id === "api" ? { ...item, accepted: false } : item));
+    expect(acceptItems(operations, keepApi)).toEqual([
+      { action: "delete", ids: ["db"] },
+      { action: "modify", elements: [shape("cache")] },
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+// Review of a proposed turn before it touches the canvas. The operations are
+// broken down into per-element items (added, changed with field-level
+// differences, removed) that the user accepts or rejects; the accepted items
+// are turned back into operations and applied as a normal turn.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { DiagramOperation, SkeletonElement } from "./skeleton";
+
+export interface FieldChange {
+  field: string;
+  before?: string | number;
+  after?: string | number;
+}
+
+export interface ReviewItem {
+  // Position of the item in the operations, stable for the same operations
+  key: string;
+  kind: "added" | "changed" | "removed";
+  // Canvas id, or the response's id for new elements
+  id?: string;
+  type: string;
+  label?: string;
+  fields: FieldChange[];
+  accepted: boolean;
+}
+
+// Skeleton properties compared against the element on the canvas
+const COMPARED_FIELDS = [
+  "type",
+  "x",
+  "y",
+  "width",
+  "height",
+  "strokeColor",
+  "backgroundColor",
+  "fillStyle",
+  "strokeWidth",
+  "strokeStyle",
+  "roughness",
+  "opacity",
+] as const;
+
+const elementKey = (opIndex: number, elementIndex: number) => `${opIndex}#${elementIndex}`;
+const idKey = (opIndex: number, id: string) => `${opIndex}:${id}`;
+
+function skeletonLabel(el: SkeletonElement): string | undefined {
+  return el.type === "text" ? el.text : el.label?.text;
+}
+
+function skeletonFontSize(el: SkeletonElement): number | undefined {
+  return el.type === "text" ? el.fontSize : el.label?.fontSize;
+}
+
+function differs(before: unknown, after: unknown): boolean {
+  if (typeof before === "number" && typeof after === "number") {
+    return Math.round(before) !== Math.round(after);
+  }
+  return before !== after;
+}
+
+function asValue(value: unknown): string | number | undefined {
+  return typeof value === "string" || typeof value === "number" ? value : undefined;
+}
+
+/**
+ * List what a turn would change on the canvas. Elements that a "modify" or
+ * "replace" resends without any difference are left out.
+ */
+export function buildReview(
+  operations: DiagramOperation[],
+  scene: readonly ExcalidrawElement[],
+): ReviewItem[] {
+  const live = scene.filter((el) => !el.isDeleted);
+  const byId = new Map(live.map((el) => [el.id, el]));
+  const boundText = new Map<string, ExcalidrawElement & { type: "text" }>();
+  for (const el of live) {
+    if (el.type === "text" && el.containerId) boundText.set(el.containerId, el);
+  }
+  const labelOf = (el: ExcalidrawElement) =>
+    boundText.get(el.id)?.text ?? (el.type === "text" ? el.text : undefined);
+  const fontSizeOf = (el: ExcalidrawElement) =>
+    boundText.get(el.id)?.fontSize ?? (el.type === "text" ? el.fontSize : undefined);
+
+  const removed = (opIndex: number, id: string): ReviewItem => {
+    const el = byId.get(id);
+    return {
+      key: idKey(opIndex, id),
+      kind: "removed",
+      id,
+      type: el?.type ?? "element",
+      label: el ? labelOf(el) : undefined,
+      fields: [],
+      accepted: true,
+    };
+  };
+
+  const items: ReviewItem[] = [];
+  for (const [i, op] of operations.entries()) {
+    if (op.action === "delete") {
+      items.push(...op.ids.map((id) => removed(i, id)));
+      continue;
+    }
+    if (op.action === "restyle") {
+      for (const id of op.ids) {
+        const el = byId.get(id);
+        if (!el) continue;
+        const current = el as unknown as Record<string, unknown>;
+        const fields = Object.entries(op.style).flatMap(([field, after]) => {
+          const before = field === "fontSize" ? fontSizeOf(el) : current[field];
+          return differs(before, after)
+            ? [{ field, before: asValue(before), after: asValue(after) }]
+            : [];
+        });
+        if (fields.length === 0) continue;
+        items.push({
+          key: idKey(i, id),
+          kind: "changed",
+          id,
+          type: el.type,
+          label: labelOf(el),
+          fields,
+          accepted: true,
+        });
+      }
+      continue;
+    }
+
+    const incomingIds = new Set<string>();
+    for (const [j, skeleton] of op.elements.entries()) {
+      if (skeleton.id) incomingIds.add(skeleton.id);
+      // Ids of added elements are made unique when applied, so only
+      // "modify" and "replace" can match what is on the canvas
+      const existing = op.action !== "add" && skeleton.id ? byId.get(skeleton.id) : undefined;
+      if (!existing) {
+        items.push({
+          key: elementKey(i, j),
+          kind: "added",
+          id: skeleton.id,
+          type: skeleton.type,
+          label: skeletonLabel(skeleton),
+          fields: [],
+          accepted: true,
+        });
+        continue;
+      }
+
+      const current = existing as unknown as Record<string, unknown>;
+      const proposed = skeleton as unknown as Record<string, unknown>;
+      const fields: FieldChange[] = [];
+      for (const field of COMPARED_FIELDS) {
+        const after = proposed[field];
+        if (after !== undefined && differs(current[field], after)) {
+          fields.push({ field, before: asValue(current[field]), after: asValue(after) });
+        }
+      }
+      const label = skeletonLabel(skeleton);
+      if (label !== undefined && label !== labelOf(existing)) {
+        fields.push({ field: skeleton.type === "text" ? "text" : "label", before: labelOf(existing), after: label });
+      }
+      const fontSize = skeletonFontSize(skeleton);
+      if (fontSize !== undefined && differs(fontSizeOf(existing), fontSize)) {
+        fields.push({ field: "fontSize", before: fontSizeOf(existing), after: fontSize });
+      }
+      if (fields.length === 0) continue;
+      items.push({
+        key: elementKey(i, j),
+        kind: "changed",
+        id: skeleton.id,
+        type: existing.type,
+        label: labelOf(existing),
+        fields,
+        accepted: true,
+      });
+    }
+
+    if (op.action === "replace") {
+      for (const el of live) {
+        if (incomingIds.has(el.id)) continue;
+        // Bound text goes with its container
+        if (el.type === "text" && el.containerId && byId.has(el.containerId)) continue;
+        items.push(removed(i, el.id));
+      }
+    }
+  }
+  return items;
+}
+
+/**
+ * Rebuild the operations from the accepted items. A partly accepted
+ * "replace" becomes a delete of the accepted removals plus a "modify" with
+ * the accepted elements, so rejected removals stay on the canvas. Arrows to
+ * rejected new elements are dropped with them.
+ */
+export function acceptItems(
+  operations: DiagramOperation[],
+  items: ReviewItem[],
+): DiagramOperation[] {
+  const accepted = new Set(items.filter((item) => item.accepted).map((item) => item.key));
+  const rejectedNew = new Set(
+    items.flatMap((item) =>
+      item.kind === "added" && !item.accepted && item.id ? [item.id] : [],
+    ),
+  );
+  const connectsRejected = (el: SkeletonElement) =>
+    (el.type === "arrow" || el.type === "line") &&
+    [el.start?.id, el.end?.id].some((id) => id !== undefined && rejectedNew.has(id));
+
+  const result: DiagramOperation[] = [];
+  for (const [i, op] of operations.entries()) {
+    if (op.action === "delete" || op.action === "restyle") {
+      const ids = op.ids.filter((id) => accepted.has(idKey(i, id)));
+      if (ids.length > 0) result.push({ ...op, ids });
+      continue;
+    }
+
+    const elements = op.elements.filter(
+      (el, j) => accepted.has(elementKey(i, j)) && !connectsRejected(el),
+    );
+    if (op.action !== "replace") {
+      if (elements.length > 0) result.push({ ...op, elements });
+      continue;
+    }
+
+    const own = items.filter((item) => item.key.startsWith(`${i}#`) || item.key.startsWith(`${i}:`));
+    if (own.every((item) => item.accepted) && rejectedNew.size === 0) {
+      result.push(op);
+      continue;
+    }
+    const removals = own.flatMap((item) =>
+      item.kind === "removed" && item.accepted && item.id ? [item.id] : [],
+    );
+    if (removals.length > 0) result.push({ action: "delete", ids: removals });
+    if (elements.length > 0) result.push({ action: "modify", elements });
+  }
+  return result;
+}
@@ -0,0 +1,169 @@
+// Scene walk that turns Excalidraw elements back into a graph: shapes with
+// their bound labels become nodes, bound arrows become edges.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { PlacedGraph } from "./layout";
+import { isShapeType, type ShapeType } from "./skeleton";
+
+export interface SceneNode {
+  id: string;
+  shape: ShapeType;
+  label: string;
+  group?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SceneEdge {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+  dashed: boolean;
+}
+
+export interface SceneGroup {
+  id: string;
+  title?: string;
+  nodeIds: string[];
+}
+
+// Elements the graph cannot express, with the reason why
+export interface UnrepresentedElement {
+  id: string;
+  type: string;
+  reason: string;
+  text?: string;
+}
+
+export interface SceneGraph {
+  nodes: SceneNode[];
+  edges: SceneEdge[];
+  groups: SceneGroup[];
+  unrepresented: UnrepresentedElement[];
+}
+
+// Frames take precedence over groups; for nested groups the outermost wins
+function groupKey(el: ExcalidrawElement): string | undefined {
+  if (el.frameId) return `frame:${el.frameId}`;
+  return el.groupIds.length > 0 ? el.groupIds[el.groupIds.length - 1] : undefined;
+}
+
+/**
+ * Derive nodes and edges from the element bindings on the scene.
+ * Deleted elements are ignored; everything else is either represented or
+ * listed in `unrepresented`.
+ */
+export function extractSceneGraph(elements: readonly ExcalidrawElement[]): SceneGraph {
+  const live = elements.filter((el) => !el.isDeleted);
+  const byId = new Map(live.map((el) => [el.id, el]));
+
+  // Bound text becomes the label of its container
+  const labels = new Map<string, string>();
+  for (const el of live) {
+    if (el.type === "text" && el.containerId && byId.has(el.containerId)) {
+      labels.set(el.containerId, el.text);
+    }
+  }
+
+  const nodes: SceneNode[] = [];
+  const edges: SceneEdge[] = [];
+  const unrepresented: UnrepresentedElement[] = [];
+  const groupMembers = new Map<string, string[]>();
+  const looseTexts: ExcalidrawElement[] = [];
+
+  for (const el of live) {
+    if (isShapeType(el.type)) {
+      const node: SceneNode = {
+        id: el.id,
+        shape: el.type,
+        label: labels.get(el.id) ?? "",
+        x: el.x,
+        y: el.y,
+        width: el.width,
+        height: el.height,
+      };
+      const group = groupKey(el);
+      if (group) {
+        node.group = group;
+        groupMembers.set(group, [...(groupMembers.get(group) ?? []), el.id]);
+      }
+      nodes.push(node);
+    } else if (el.type === "arrow") {
+      const from = el.startBinding?.elementId;
+      const to = el.endBinding?.elementId;
+      const fromEl = from ? byId.get(from) : undefined;
+      const toEl = to ? byId.get(to) : undefined;
+      if (fromEl && toEl && isShapeType(fromEl.type) && isShapeType(toEl.type)) {
+        edges.push({
+          id: el.id,
+          from: fromEl.id,
+          to: toEl.id,
+          label: labels.get(el.id) ?? "",
+          dashed: el.strokeStyle !== "solid",
+        });
+      } else {
+        unrepresented.push({
+          id: el.id,
+          type: el.type,
+          reason: "Arrow is not connected to shapes at both ends",
+          text: labels.get(el.id),
+        });
+      }
+    } else if (el.type === "text") {
+      if (!el.containerId || !byId.has(el.containerId)) looseTexts.push(el);
+    } else if (el.type !== "frame" && el.type !== "magicframe") {
+      unrepresented.push({
+        id: el.id,
+        type: el.type,
+        reason: el.type === "line" ? "Free line has no connections" : `Unsupported element type "${el.type}"`,
+      });
+    }
+  }
+
+  // A loose text inside a group of shapes titles that group; frames use
+  // their own name
+  const groups: SceneGroup[] = [];
+  const titled = new Set<string>();
+  for (const [id, nodeIds] of groupMembers) {
+    const group: SceneGroup = { id, nodeIds };
+    if (id.startsWith("frame:")) {
+      const frame = byId.get(id.slice(6));
+      if (frame && (frame.type === "frame" || frame.type === "magicframe") && frame.name) {
+        group.title = frame.name;
+      }
+    } else {
+      const title = looseTexts.find((t) => groupKey(t) === id && !titled.has(t.id));
+      if (title && title.type === "text") {
+        group.title = title.text;
+        titled.add(title.id);
+      }
+    }
+    groups.push(group);
+  }
+
+  for (const t of looseTexts) {
+    if (titled.has(t.id) || t.type !== "text") continue;
+    unrepresented.push({ id: t.id, type: "text", reason: "Text is not bound to a shape", text: t.text });
+  }
+
+  // Reading order: top to bottom, then left to right
+  nodes.sort((a, b) => a.y - b.y || a.x - b.x);
+
+  return { nodes, edges, groups, unrepresented };
+}
+
+/**
+ * Where the graph's shapes are and which arrows connect them, sent with a
+ * chat request so a redrawn graph keeps them in place.
+ */
+export function placedGraph(elements: readonly ExcalidrawElement[]): PlacedGraph {
+  const { nodes, edges } = extractSceneGraph(elements);
+  const colors = new Map(elements.map((el) => [el.id, el.backgroundColor]));
+  return {
+    nodes: nodes.map(({ id, x, y, width, height }) => ({ id, x, y, width, height, backgroundColor: colors.get(id) })),
+    edges: edges.map(({ id, from, to }) => ({ id, from, to })),
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { expandSelection, scopeOperations } from "./selection";
+import type { DiagramOperation, ShapeSkeleton } from "./skeleton";
+
+function element(id: string, fields: Record<string, unknown> = {}): ExcalidrawElement {
+  return { id, type: "rectangle", isDeleted: false, ...fields } as unknown as ExcalidrawElement;
+}
+
+const arrow = (id: string, from: string, to: string) =>
+  element(id, { type: "arrow", startBinding: { elementId: from }, endBinding: { elementId: to } });
+
+const scene = [
+  element("a"),
+  element("a_label", { type: "text", containerId: "a" }),
+  element("b"),
+  element("c"),
+  arrow("ab", "a", "b"),
+  element("ab_label", { type: "text", containerId: "ab" }),
+  arrow("bc", "b", "c"),
+  element("gone", { isDeleted: true }),
+];
+
+const shape = (id: string): ShapeSkeleton => ({ id, type: "rectangle", x: 0, y: 0, width: 10, height: 10 });
+
+describe("expandSelection", () => {
+  it("takes in labels and the arrows between selected shapes, with their labels", () => {
+    expect([...expandSelection(scene, ["a", "b", "gone"])].sort()).toEqual(["a", "a_label", "ab", "ab_label", "b"]);
+  });
+
+  it("takes in the container of a selected label", () => {
+    expect([...expandSelection(scene, ["a_label"])].sort()).toEqual(["a", "a_label"]);
+  });
+});
+
+describe("scopeOperations", () => {
+  const existing = new Set(["a", "b", "c"]);
+  const scope = new Set(["a"]);
+
+  it("keeps changes inside the scope and new elements, and reports the rest", () => {
+    const operations: DiagramOperation[] = [
+      { action: "add", elements: [shape("new")] },
+      { action: "modify", elements: [shape("a"), shape("b"), shape("other")] },
+      { action: "delete", ids: ["a", "c"] },
+      { action: "restyle", ids: ["b"], style: { strokeColor: "#e03131" } },
+    ];
+    expect(scopeOperations(operations, scope, existing)).toEqual({
+      operations: [
+        { action: "add", elements: [shape("new")] },
+        { action: "modify", elements: [shape("a"), shape("other")] },
+        { action: "delete", ids: ["a"] },
+      ],
+      blocked: ["b", "c"],
+    });
+  });
+
+  it("turns a replace into redrawing the selection", () => {
+    const { operations } = scopeOperations([{ action: "replace", elements: [shape("x")] }], scope, existing);
+    expect(operations).toEqual([
+      { action: "delete", ids: ["a"] },
+      { action: "add", elements: [shape("x")] },
+    ]);
+  });
+});
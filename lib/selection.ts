@@ -0,0 +1,88 @@
+// Selection-scoped edits: when the user asks for changes with elements
+// selected, the model sees the selection in full and may only change those
+// elements. The scope is enforced again when the turn is applied, since the
+// model does not always stay inside it.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import type { DiagramOperation } from "./skeleton";
+
+export interface ScopedOperations {
+  operations: DiagramOperation[];
+  // Existing elements outside the scope that the turn tried to change
+  blocked: string[];
+}
+
+/**
+ * The elements a selection covers: the selected elements, text bound inside
+ * them (or the container of selected bound text), and arrows whose ends are
+ * both selected.
+ */
+export function expandSelection(
+  elements: readonly ExcalidrawElement[],
+  selectedIds: Iterable<string>,
+): Set<string> {
+  const live = elements.filter((el) => !el.isDeleted);
+  const selected = new Set(selectedIds);
+  const scope = new Set(live.filter((el) => selected.has(el.id)).map((el) => el.id));
+
+  for (const el of live) {
+    if (el.type !== "text" || !el.containerId) continue;
+    if (scope.has(el.containerId)) scope.add(el.id);
+    else if (scope.has(el.id)) scope.add(el.containerId);
+  }
+  for (const el of live) {
+    if (el.type !== "arrow" || !el.startBinding || !el.endBinding) continue;
+    if (scope.has(el.startBinding.elementId) && scope.has(el.endBinding.elementId)) {
+      scope.add(el.id);
+    }
+  }
+  // Labels of arrows that joined the scope above
+  for (const el of live) {
+    if (el.type === "text" && el.containerId && scope.has(el.containerId)) scope.add(el.id);
+  }
+  return scope;
+}
+
+/**
+ * Drop the parts of a turn that would change existing elements outside the
+ * scope. New elements are always allowed, including arrows to elements
+ * outside the scope. A "replace" redraws the selection only: it becomes a
+ * delete of the scope followed by an add.
+ */
+export function scopeOperations(
+  operations: DiagramOperation[],
+  scope: Set<string>,
+  existingIds: Set<string>,
+): ScopedOperations {
+  const blocked = new Set<string>();
+  const outside = (id: string) => existingIds.has(id) && !scope.has(id);
+  const result: DiagramOperation[] = [];
+
+  for (const op of operations) {
+    if (op.action === "add") {
+      result.push(op);
+    } else if (op.action === "replace") {
+      result.push({ action: "delete", ids: [...scope] }, { action: "add", elements: op.elements });
+    } else if (op.action === "modify") {
+      const elements = op.elements.filter((el) => {
+        if (el.id && outside(el.id)) {
+          blocked.add(el.id);
+          return false;
+        }
+        return true;
+      });
+      if (elements.length > 0) result.push({ ...op, elements });
+    } else if ("ids" in op) {
+      const ids = op.ids.filter((id) => {
+        if (outside(id)) {
+          blocked.add(id);
+          return false;
+        }
+        return true;
+      });
+      if (ids.length > 0) result.push({ ...op, ids });
+    }
+  }
+
+  return { operations: result, blocked: [...blocked] };
+}
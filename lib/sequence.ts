@@ -0,0 +1,107 @@
+// Sequence diagram layout shared by the Mermaid importer and the sequence
+// specialist: participants in a row, dashed lifelines below them and the
+// messages as horizontal arrows ordered top to bottom.
+
+import { DEFAULT_STROKE_COLOR, type LinearSkeleton, type SkeletonElement } from "./skeleton";
+
+export interface SequenceParticipant {
+  id: string;
+  label: string;
+}
+
+export type SequenceStep =
+  | { kind: "message"; from: string; to: string; text: string; dashed: boolean }
+  | { kind: "note"; over: string[]; text: string };
+
+export interface SequenceDiagram {
+  participants: SequenceParticipant[];
+  steps: SequenceStep[];
+}
+
+const PARTICIPANT_WIDTH = 180;
+const PARTICIPANT_HEIGHT = 60;
+const PARTICIPANT_GAP = 80;
+const MESSAGE_GAP = 70;
+const SEQUENCE_COLORS = ["#a5d8ff", "#b2f2bb", "#ffd8a8", "#fcc2d7", "#d0bfff", "#fff3bf"];
+
+/**
+ * Lay out a sequence diagram with its top-left corner at the origin. Every
+ * element gets an id derived from the participant or the step's position,
+ * so a "modify" of the same diagram, once the specialist has matched the ids
+ * to the canvas, updates it in place.
+ */
+export function layoutSequence(
+  diagram: SequenceDiagram,
+  origin: { x: number; y: number } = { x: 0, y: 0 },
+): SkeletonElement[] {
+  const elements: SkeletonElement[] = [];
+  const centerX = new Map<string, number>();
+  diagram.participants.forEach((p, i) => {
+    const x = origin.x + i * (PARTICIPANT_WIDTH + PARTICIPANT_GAP);
+    centerX.set(p.id, x + PARTICIPANT_WIDTH / 2);
+    elements.push({
+      type: "rectangle",
+      id: `participant_${p.id}`,
+      x,
+      y: origin.y,
+      width: PARTICIPANT_WIDTH,
+      height: PARTICIPANT_HEIGHT,
+      backgroundColor: SEQUENCE_COLORS[i % SEQUENCE_COLORS.length],
+      strokeColor: DEFAULT_STROKE_COLOR,
+      label: { text: p.label },
+    });
+  });
+
+  // Steps are ordered top to bottom in the order they were written
+  let y = origin.y + PARTICIPANT_HEIGHT + MESSAGE_GAP;
+  diagram.steps.forEach((step, i) => {
+    if (step.kind === "note") {
+      const xs = step.over.map((id) => centerX.get(id)!);
+      const left = Math.min(...xs) - PARTICIPANT_WIDTH / 2 + 20;
+      const right = Math.max(...xs) + PARTICIPANT_WIDTH / 2 - 20;
+      elements.push({
+        type: "rectangle",
+        id: `note_${i + 1}`,
+        x: left,
+        y: y - 20,
+        width: right - left,
+        height: 45,
+        backgroundColor: "#fff3bf",
+        strokeColor: DEFAULT_STROKE_COLOR,
+        label: { text: step.text, fontSize: 16 },
+      });
+      y += MESSAGE_GAP;
+      return;
+    }
+    const fromX = centerX.get(step.from)!;
+    const toX = centerX.get(step.to)!;
+    const arrow: LinearSkeleton =
+      step.from === step.to
+        ? // Self-message: a short loop to the right of the lifeline
+          { type: "arrow", x: fromX, y, width: 60, height: 30 }
+        : { type: "arrow", x: fromX, y, width: toX - fromX, height: 0 };
+    arrow.id = `message_${i + 1}`;
+    arrow.strokeColor = DEFAULT_STROKE_COLOR;
+    if (step.text) arrow.label = { text: step.text, fontSize: 16 };
+    if (step.dashed) arrow.strokeStyle = "dashed";
+    elements.push(arrow);
+    y += MESSAGE_GAP;
+  });
+
+  // Lifelines run from each participant down past the last message
+  const top = origin.y + PARTICIPANT_HEIGHT;
+  for (const p of diagram.participants) {
+    elements.push({
+      type: "line",
+      id: `lifeline_${p.id}`,
+      x: centerX.get(p.id)!,
+      y: top,
+      width: 0,
+      height: y - top,
+      strokeColor: "#868e96",
+      strokeStyle: "dashed",
+    });
+  }
+
+  return elements;
+}
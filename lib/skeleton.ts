@@ -0,0 +1,126 @@
+// Types for the {action, elements} contract described in SYSTEM_PROMPT.
+// These are the lightweight skeletons the LLM emits, before
+// convertToExcalidrawElements() expands them into full Excalidraw elements.
+
+export type DiagramAction = "add" | "replace" | "modify";
+
+export const DIAGRAM_ACTIONS: readonly DiagramAction[] = ["add", "replace", "modify"];
+
+export type ShapeType = "rectangle" | "ellipse" | "diamond";
+
+export const SHAPE_TYPES: readonly ShapeType[] = ["rectangle", "ellipse", "diamond"];
+
+export interface SkeletonLabel {
+  text: string;
+  fontSize?: number;
+}
+
+// Optional visual properties accepted on any element
+export interface SkeletonStyle {
+  strokeColor?: string;
+  backgroundColor?: string;
+  fillStyle?: "hachure" | "cross-hatch" | "solid" | "zigzag";
+  strokeWidth?: number;
+  strokeStyle?: "solid" | "dashed" | "dotted";
+  roughness?: number;
+  opacity?: number;
+}
+
+// Excalidraw group membership, so related elements select and move together
+export interface SkeletonGrouping {
+  groupIds?: string[];
+}
+
+export interface ShapeSkeleton extends SkeletonStyle, SkeletonGrouping {
+  type: ShapeType;
+  id?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: SkeletonLabel;
+}
+
+export interface TextSkeleton extends SkeletonStyle, SkeletonGrouping {
+  type: "text";
+  id?: string;
+  x: number;
+  y: number;
+  text: string;
+  fontSize?: number;
+}
+
+export interface ArrowEndpoint {
+  type?: ShapeType;
+  id: string;
+}
+
+export interface LinearSkeleton extends SkeletonStyle, SkeletonGrouping {
+  type: "arrow" | "line";
+  id?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: SkeletonLabel;
+  start?: ArrowEndpoint;
+  end?: ArrowEndpoint;
+}
+
+export type SkeletonElement = ShapeSkeleton | TextSkeleton | LinearSkeleton;
+
+export interface DiagramResponse {
+  action: DiagramAction;
+  elements: SkeletonElement[];
+}
+
+// Removes elements that are already on the canvas, along with their bound
+// text and any arrows attached to them
+export interface DeleteOperation {
+  action: "delete";
+  ids: string[];
+}
+
+// Visual properties a restyle may change; geometry is never touched
+export interface RestyleStyle extends SkeletonStyle {
+  fontSize?: number;
+}
+
+// Changes the look of elements that are already on the canvas
+export interface RestyleOperation {
+  action: "restyle";
+  ids: string[];
+  style: RestyleStyle;
+}
+
+// One change to the canvas; a single model turn may produce several
+export type DiagramOperation = DiagramResponse | DeleteOperation | RestyleOperation;
+
+// Default sizes used when the model omits width/height on a shape
+export const DEFAULT_SHAPE_SIZE: Record<ShapeType, { width: number; height: number }> = {
+  rectangle: { width: 200, height: 80 },
+  ellipse: { width: 160, height: 80 },
+  diamond: { width: 200, height: 120 },
+};
+
+export const DEFAULT_STROKE_COLOR = "#1e1e1e";
+
+// Background palette from the prompt rules, keyed by the color names models
+// tend to use instead of the hex value
+export const PALETTE: Record<string, string> = {
+  blue: "#a5d8ff",
+  green: "#b2f2bb",
+  orange: "#ffd8a8",
+  pink: "#fcc2d7",
+  purple: "#d0bfff",
+  yellow: "#fff3bf",
+  red: "#ffc9c9",
+  gray: "#e9ecef",
+  grey: "#e9ecef",
+  white: "#ffffff",
+  black: "#1e1e1e",
+};
+
+export function isShapeType(value: unknown): value is ShapeType {
+  return typeof value === "string" && (SHAPE_TYPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+import { MAX_SNAPSHOTS, diffSnapshot, snapshotsToThin, type SnapshotMeta } from "./snapshots";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// A day boundary, so every retention bucket starts on it
+const NOW = 1000 * DAY;
+
+function snapshot(id: string, age: number, name?: string): SnapshotMeta {
+  return { id, drawingId: "d", createdAt: NOW - age, kind: name ? "checkpoint" : "auto", name, elementCount: 0, version: 0 };
+}
+
+function element(id: string, version: number, fields: Record<string, unknown> = {}): ExcalidrawElement {
+  return { id, type: "rectangle", version, versionNonce: 0, isDeleted: false, ...fields } as unknown as ExcalidrawElement;
+}
+
+describe("snapshotsToThin", () => {
+  it("keeps everything from the last hour", () => {
+    const recent = [1, 2, 3].map((m) => snapshot(`s${m}`, m * MINUTE));
+    expect(snapshotsToThin(recent, NOW)).toEqual([]);
+  });
+
+  it("keeps the newest snapshot of each period", () => {
+    const snapshots = [
+      // Same ten minutes, within the day
+      snapshot("day-new", 2 * HOUR + 1 * MINUTE),
+      snapshot("day-old", 2 * HOUR + 2 * MINUTE),
+      snapshot("day-other", 2 * HOUR + 12 * MINUTE),
+      // Same hour, within the week
+      snapshot("week-new", 3 * DAY + 10 * MINUTE),
+      snapshot("week-old", 3 * DAY + 20 * MINUTE),
+      // Same day, older than a week
+      snapshot("old-new", 30 * DAY + HOUR),
+      snapshot("old-old", 30 * DAY + 2 * HOUR),
+    ];
+    expect(snapshotsToThin(snapshots, NOW).sort()).toEqual(["day-old", "old-old", "week-old"]);
+  });
+
+  it("never drops named snapshots", () => {
+    const snapshots = [snapshot("auto", 2 * HOUR + MINUTE), snapshot("named", 2 * HOUR + 2 * MINUTE, "Before refactor")];
+    expect(snapshotsToThin(snapshots, NOW)).toEqual([]);
+  });
+
+  it("drops the oldest unnamed snapshots beyond the limit", () => {
+    const snapshots = Array.from({ length: MAX_SNAPSHOTS + 3 }, (_, i) => snapshot(`s${i}`, i * 1000));
+    snapshots.push(snapshot("named", 59 * MINUTE, "Kept"));
+    expect(snapshotsToThin(snapshots, NOW)).toEqual(["s100", "s101", "s102"]);
+  });
+});
+
+describe("diffSnapshot", () => {
+  it("lists added, changed and removed elements", () => {
+    const then = [element("kept", 1), element("edited", 1), element("gone", 1)];
+    const now = [element("kept", 1), element("edited", 2), element("new", 1)];
+    expect(diffSnapshot(then, now)).toEqual({ added: ["new"], changed: ["edited"], removed: ["gone"] });
+  });
+
+  it("counts label edits towards their container", () => {
+    const label = (version: number) => element("box-label", version, { type: "text", containerId: "box" });
+    expect(diffSnapshot([element("box", 1), label(1)], [element("box", 1), label(2)])).toEqual({
+      added: [],
+      changed: ["box"],
+      removed: [],
+    });
+    // A label added to an existing box changes the box
+    expect(diffSnapshot([element("box", 1)], [element("box", 1), label(1)]).changed).toEqual(["box"]);
+  });
+
+  it("folds labels of added and removed containers into that change", () => {
+    const withLabel = (id: string) => [element(id, 1), element(`${id}-label`, 1, { type: "text", containerId: id })];
+    expect(diffSnapshot(withLabel("old"), withLabel("new"))).toEqual({ added: ["new"], changed: [], removed: ["old"] });
+  });
+
+  it("treats deleted elements as removed and new nonces as edits", () => {
+    const then = [element("a", 1), element("b", 1)];
+    const now = [element("a", 1, { isDeleted: true }), element("b", 1, { versionNonce: 7 })];
+    expect(diffSnapshot(then, now)).toEqual({ added: [], changed: ["b"], removed: ["a"] });
+  });
+});
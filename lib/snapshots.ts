@@ -0,0 +1,117 @@
+// Version history of a drawing: snapshots of the scene taken after chat
+// turns, during manual editing and on request (named checkpoints). Older
+// snapshots are thinned out so the history stays bounded; named ones are
+// always kept.
+
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
+
+// "turn": after the chat applied an AI response or an import
+// "auto": during manual editing, and before turns and restores
+// "checkpoint": saved by the user under a name
+export type SnapshotKind = "turn" | "auto" | "checkpoint";
+
+export interface SnapshotMeta {
+  id: string;
+  drawingId: string;
+  createdAt: number;
+  kind: SnapshotKind;
+  // Set for checkpoints; named snapshots are never thinned out
+  name?: string;
+  // What led to the snapshot, e.g. "Chat turn: 3 added"
+  label?: string;
+  thumbnail?: string;
+  elementCount: number;
+  // hashElementsVersion of the scene, to skip snapshots of an unchanged scene
+  version: number;
+}
+
+// Manual editing is snapshotted at most this often
+export const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+// Unnamed snapshots beyond this many are dropped, oldest first
+export const MAX_SNAPSHOTS = 100;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Up to `age`, one unnamed snapshot is kept per `bucket` (0: all of them)
+const RETENTION: { age: number; bucket: number }[] = [
+  { age: HOUR, bucket: 0 },
+  { age: DAY, bucket: 10 * MINUTE },
+  { age: 7 * DAY, bucket: HOUR },
+  { age: Infinity, bucket: DAY },
+];
+
+/**
+ * Snapshots to delete so the history stays bounded: everything from the
+ * last hour is kept, then one per ten minutes for a day, one per hour for a
+ * week and one per day after that, the newest of each period. Named
+ * snapshots are kept and do not count towards MAX_SNAPSHOTS.
+ */
+export function snapshotsToThin(snapshots: SnapshotMeta[], now = Date.now()): string[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt - a.createdAt);
+  const seen = new Set<string>();
+  const drop: string[] = [];
+  let kept = 0;
+  for (const snapshot of newestFirst) {
+    if (snapshot.name) continue;
+    const age = now - snapshot.createdAt;
+    const tier = RETENTION.findIndex((r) => age < r.age);
+    const { bucket } = RETENTION[tier];
+    const key = bucket > 0 ? `${tier}:${Math.floor(snapshot.createdAt / bucket)}` : snapshot.id;
+    if (seen.has(key) || kept >= MAX_SNAPSHOTS) {
+      drop.push(snapshot.id);
+      continue;
+    }
+    seen.add(key);
+    kept++;
+  }
+  return drop;
+}
+
+export interface SceneDiff {
+  // Element IDs on the canvas now that the snapshot does not have
+  added: string[];
+  // In both, but edited since
+  changed: string[];
+  // In the snapshot, gone from the canvas now
+  removed: string[];
+}
+
+/**
+ * What changed between a snapshot and the scene now, by element. Labels
+ * count towards their container, so a renamed box shows up as changed.
+ */
+export function diffSnapshot(
+  snapshot: readonly ExcalidrawElement[],
+  current: readonly ExcalidrawElement[],
+): SceneDiff {
+  const then = new Map(snapshot.filter((el) => !el.isDeleted).map((el) => [el.id, el]));
+  const now = new Map(current.filter((el) => !el.isDeleted).map((el) => [el.id, el]));
+  const owner = (el: ExcalidrawElement) => (el.type === "text" && el.containerId ? el.containerId : el.id);
+
+  const added = new Set<string>();
+  const changed = new Set<string>();
+  const removed = new Set<string>();
+  for (const [id, el] of now) {
+    const before = then.get(id);
+    if (!before) {
+      if (owner(el) === id) added.add(id);
+      else changed.add(owner(el));
+    } else if (before.version !== el.version || before.versionNonce !== el.versionNonce) {
+      changed.add(owner(el));
+    }
+  }
+  for (const [id, el] of then) {
+    if (now.has(id)) continue;
+    if (owner(el) === id) removed.add(id);
+    else changed.add(owner(el));
+  }
+  // A label change on an added or removed container is part of that change
+  const inBoth = (id: string) => then.has(id) && now.has(id);
+  return {
+    added: [...added],
+    changed: [...changed].filter(inBoth),
+    removed: [...removed],
+  };
+}
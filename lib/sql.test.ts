@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { isSqlDdl, parseSql } from "./sql";
+
+const SCHEMA = `-- users
+CREATE TABLE "users" (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE, -- login
+  created_at TIMESTAMP DEFAULT now()
+);
+CREATE TABLE profiles (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id),
+  bio TEXT
+);
+/* MySQL style */
+CREATE TABLE \`posts\` (
+  id INT AUTO_INCREMENT,
+  author_id INT NOT NULL,
+  title VARCHAR(200),
+  PRIMARY KEY (id)
+) ENGINE=InnoDB;
+ALTER TABLE ONLY posts ADD CONSTRAINT posts_author_fk FOREIGN KEY (author_id) REFERENCES users (id);
+`;
+
+describe("isSqlDdl", () => {
+  it("accepts schemas and rejects other SQL and prose", () => {
+    expect(isSqlDdl(SCHEMA)).toBe(true);
+    expect(isSqlDdl("SET NAMES utf8;\nCREATE TABLE IF NOT EXISTS t (id int);")).toBe(true);
+    expect(isSqlDdl("SELECT * FROM users;")).toBe(false);
+    expect(isSqlDdl("Please create table users (id) for me")).toBe(false);
+  });
+});
+
+describe("parseSql", () => {
+  it("reads tables with their keys across dialects", () => {
+    const result = parseSql(SCHEMA);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.warnings).toEqual([]);
+    expect(result.entities).toEqual([
+      {
+        id: "table_users",
+        name: "users",
+        attributes: [
+          { name: "id", type: "SERIAL", pk: true },
+          { name: "email", type: "VARCHAR(255)" },
+          { name: "created_at", type: "TIMESTAMP" },
+        ],
+      },
+      {
+        id: "table_profiles",
+        name: "profiles",
+        attributes: [
+          { name: "user_id", type: "INTEGER", pk: true, fk: true },
+          { name: "bio", type: "TEXT" },
+        ],
+      },
+      {
+        id: "table_posts",
+        name: "posts",
+        attributes: [
+          { name: "id", type: "INT", pk: true },
+          { name: "author_id", type: "INT", fk: true },
+          { name: "title", type: "VARCHAR(200)" },
+        ],
+      },
+    ]);
+  });
+
+  it("makes unique foreign keys 1:1 and the rest 1:N", () => {
+    const result = parseSql(SCHEMA);
+    expect(result.ok && result.relationships).toEqual([
+      { from: "table_users", to: "table_profiles", cardinality: "1:1", label: "user_id" },
+      { from: "table_users", to: "table_posts", cardinality: "1:N", label: "author_id" },
+    ]);
+  });
+
+  it("warns about foreign keys to unknown tables and duplicate tables", () => {
+    expect(parseSql("CREATE TABLE comments (id INT, post_id INT REFERENCES ghosts(id));")).toMatchObject({
+      ok: true,
+      relationships: [],
+      warnings: ["Foreign key comments(post_id) references unknown table ghosts"],
+    });
+    const twice = parseSql("CREATE TABLE comments (id INT);\nCREATE TABLE Comments (id INT, body TEXT);");
+    expect(twice).toMatchObject({ ok: true, warnings: ["Table Comments is defined twice; kept the last one"] });
+    expect(twice.ok && twice.entities.map((e) => e.name)).toEqual(["Comments"]);
+  });
+
+  it("fails without CREATE TABLE statements", () => {
+    expect(parseSql("DROP TABLE users;")).toEqual({ ok: false, error: "No CREATE TABLE statements found" });
+  });
+});
@@ -0,0 +1,307 @@
+// SQL DDL → ER diagram converter. Reads CREATE TABLE statements (and the
+// ALTER TABLE ... ADD CONSTRAINT statements that pg_dump and mysqldump put
+// after them) in the PostgreSQL, MySQL and SQLite dialects; everything runs
+// locally without the LLM.
+
+import type { Entity, EntityAttribute, Relationship } from "./diagram-types";
+
+export type SqlResult =
+  | { ok: true; entities: Entity[]; relationships: Relationship[]; warnings: string[] }
+  | { ok: false; error: string };
+
+interface ForeignKey {
+  table: string;
+  columns: string[];
+  refTable: string;
+  refColumns: string[];
+}
+
+interface Table {
+  name: string;
+  columns: Array<EntityAttribute & { unique: boolean }>;
+  primaryKey: string[];
+  unique: string[][];
+  foreignKeys: ForeignKey[];
+}
+
+const CREATE_TABLE_RE =
+  /^CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+|UNLOGGED\s+|VIRTUAL\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?/i;
+const ALTER_TABLE_RE = /^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?/i;
+// Words that end the type of a column and start its constraints
+const COLUMN_CONSTRAINT_RE =
+  /^(NOT|NULL|DEFAULT|PRIMARY|REFERENCES|UNIQUE|CHECK|CONSTRAINT|AUTO_INCREMENT|AUTOINCREMENT|COLLATE|GENERATED|COMMENT|ON|IDENTITY|CHARSET)\b/i;
+// Statements a schema dump may start with
+const LEADING_STATEMENT_RE = /^(CREATE|ALTER|DROP|SET|BEGIN|PRAGMA|USE|START|COMMENT|SELECT)\b/i;
+
+// Remove -- and # line comments and /* */ blocks outside of string literals
+function stripComments(text: string): string {
+  let out = "";
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      out += ch;
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === "`") {
+      quote = ch;
+      out += ch;
+    } else if ((ch === "-" && text[i + 1] === "-") || ch === "#") {
+      while (i < text.length && text[i] !== "\n") i++;
+      out += "\n";
+    } else if (ch === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 1;
+      out += " ";
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+// Split on a separator outside of parentheses and quotes
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+      quote = ch === "[" ? "]" : ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === separator && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function unquote(identifier: string): string {
+  const id = identifier.trim();
+  if (/^(["`]).*\1$/.test(id) || /^\[.*\]$/.test(id)) return id.slice(1, -1);
+  return id;
+}
+
+// Leading identifier, possibly quoted and schema-qualified: public."Users"
+const QUALIFIED_NAME_RE = /^((?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+)(?:\s*\.\s*(?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+))*)/;
+
+// Table name without the schema, which is what foreign keys usually refer to
+function readName(text: string): { name: string; rest: string } | null {
+  const match = text.match(QUALIFIED_NAME_RE);
+  if (!match) return null;
+  const parts = match[1].split(/\s*\.\s*(?=["`[\w$])/).map(unquote);
+  return { name: parts[parts.length - 1], rest: text.slice(match[0].length).trim() };
+}
+
+// Column names in "(a, b)"
+function readColumnList(text: string): { columns: string[]; rest: string } | null {
+  const match = text.match(/^\(([^)]*)\)/);
+  if (!match) return null;
+  return {
+    // MySQL index prefixes such as name(10) and ASC/DESC are dropped
+    columns: match[1].split(",").map((c) => unquote(c.trim().split(/\s+/)[0].replace(/\(\d+\)$/, ""))),
+    rest: text.slice(match[0].length).trim(),
+  };
+}
+
+// "REFERENCES table (cols)"; the columns may be left out for the primary key
+function readReference(text: string): { refTable: string; refColumns: string[] } | null {
+  const match = text.match(/\bREFERENCES\s+/i);
+  if (!match) return null;
+  const name = readName(text.slice(match.index! + match[0].length));
+  if (!name) return null;
+  return { refTable: name.name, refColumns: readColumnList(name.rest)?.columns ?? [] };
+}
+
+// Table constraints shared by CREATE TABLE bodies and ALTER TABLE ... ADD
+function readTableConstraint(item: string, table: Table, warnings: string[]): boolean {
+  const text = item.replace(/^CONSTRAINT\s+(?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+)\s*/i, "");
+  const primary = text.match(/^PRIMARY\s+KEY\s*(?:\w+\s*)?/i);
+  if (primary) {
+    const list = readColumnList(text.slice(primary[0].length));
+    if (list) table.primaryKey = list.columns;
+    return true;
+  }
+  const unique = text.match(/^UNIQUE\b\s*(?:KEY|INDEX)?\s*(?:(?:"[^"]+"|`[^`]+`|[\w$]+)\s*)?/i);
+  if (unique) {
+    const list = readColumnList(text.slice(unique[0].length));
+    if (list) table.unique.push(list.columns);
+    return true;
+  }
+  const foreign = text.match(/^FOREIGN\s+KEY\s*(?:(?:"[^"]+"|`[^`]+`|[\w$]+)\s*)?/i);
+  if (foreign) {
+    const list = readColumnList(text.slice(foreign[0].length));
+    const ref = list && readReference(list.rest);
+    if (list && ref) {
+      table.foreignKeys.push({ table: table.name, columns: list.columns, ...ref });
+    } else {
+      warnings.push(`Skipped unreadable foreign key in ${table.name}: ${item}`);
+    }
+    return true;
+  }
+  // Indexes and checks do not show up in the diagram
+  return /^(CHECK|KEY|INDEX|FULLTEXT|SPATIAL|EXCLUDE|PERIOD|LIKE)\b/i.test(text);
+}
+
+function readColumn(item: string, table: Table, warnings: string[]) {
+  const name = item.match(/^("[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+)\s*/);
+  if (!name) {
+    warnings.push(`Skipped unreadable column in ${table.name}: ${item}`);
+    return;
+  }
+  const column = unquote(name[1]);
+  const rest = item.slice(name[0].length);
+
+  // The type runs until the first constraint keyword outside parentheses
+  const words = rest.split(/\s+(?![^(]*\))/).filter(Boolean);
+  const typeWords: string[] = [];
+  for (const [i, word] of words.entries()) {
+    // MySQL's CHARACTER SET, but not PostgreSQL's CHARACTER VARYING
+    if (COLUMN_CONSTRAINT_RE.test(word) || (/^CHARACTER$/i.test(word) && /^SET$/i.test(words[i + 1] ?? ""))) break;
+    typeWords.push(word);
+  }
+  const constraints = words.slice(typeWords.length).join(" ");
+
+  table.columns.push({
+    name: column,
+    type: typeWords.join(" ") || undefined,
+    unique: /\bUNIQUE\b/i.test(constraints),
+  });
+  if (/\bPRIMARY\s+KEY\b/i.test(constraints)) table.primaryKey = [column];
+  const ref = readReference(constraints);
+  if (ref) table.foreignKeys.push({ table: table.name, columns: [column], ...ref });
+}
+
+function parseCreateTable(statement: string, warnings: string[]): Table | null {
+  const head = statement.match(CREATE_TABLE_RE)!;
+  const name = readName(statement.slice(head[0].length));
+  if (!name) {
+    warnings.push(`Skipped CREATE TABLE without a name: ${statement.slice(0, 60)}`);
+    return null;
+  }
+  if (!name.rest.startsWith("(")) {
+    // CREATE TABLE ... AS SELECT, or a partition of another table
+    warnings.push(`Skipped ${name.name}: no column list`);
+    return null;
+  }
+  // The column list ends at the matching parenthesis; table options follow
+  let depth = 0;
+  let end = 0;
+  for (; end < name.rest.length; end++) {
+    if (name.rest[end] === "(") depth++;
+    if (name.rest[end] === ")" && --depth === 0) break;
+  }
+
+  const table: Table = { name: name.name, columns: [], primaryKey: [], unique: [], foreignKeys: [] };
+  for (const item of splitTopLevel(name.rest.slice(1, end), ",")) {
+    if (!readTableConstraint(item, table, warnings)) readColumn(item, table, warnings);
+  }
+  return table;
+}
+
+function parseAlterTable(statement: string, tables: Map<string, Table>, warnings: string[]) {
+  const head = statement.match(ALTER_TABLE_RE)!;
+  const name = readName(statement.slice(head[0].length));
+  if (!name) return;
+  const table = tables.get(name.name.toLowerCase());
+  for (const action of splitTopLevel(name.rest, ",")) {
+    const add = action.match(/^ADD\s+(COLUMN\s+(?:IF\s+NOT\s+EXISTS\s+)?)?/i);
+    if (!add) continue;
+    if (!table) {
+      warnings.push(`Skipped ALTER TABLE for unknown table ${name.name}`);
+      return;
+    }
+    const item = action.slice(add[0].length);
+    if (add[1] || !readTableConstraint(item, table, warnings)) readColumn(item, table, warnings);
+  }
+}
+
+/**
+ * Quick check used to route pasted text or dropped files to this importer:
+ * SQL statements only, with at least one CREATE TABLE.
+ */
+export function isSqlDdl(text: string): boolean {
+  const source = stripComments(text).trim();
+  return LEADING_STATEMENT_RE.test(source) && /\bCREATE\s+(?:\w+\s+)*?TABLE\b[^;]*\(/i.test(source);
+}
+
+/**
+ * Read the tables, keys and foreign keys of a schema. Each foreign key
+ * becomes a relationship from the referenced table to the referencing one:
+ * 1:1 when the foreign key columns are unique (or the primary key), 1:N
+ * otherwise.
+ */
+export function parseSql(text: string): SqlResult {
+  const warnings: string[] = [];
+  const tables = new Map<string, Table>();
+
+  for (const statement of splitTopLevel(stripComments(text), ";")) {
+    if (CREATE_TABLE_RE.test(statement)) {
+      const table = parseCreateTable(statement, warnings);
+      if (!table) continue;
+      if (tables.has(table.name.toLowerCase())) warnings.push(`Table ${table.name} is defined twice; kept the last one`);
+      tables.set(table.name.toLowerCase(), table);
+    } else if (ALTER_TABLE_RE.test(statement)) {
+      parseAlterTable(statement, tables, warnings);
+    }
+  }
+  if (tables.size === 0) return { ok: false, error: "No CREATE TABLE statements found" };
+
+  // Entity ids are the table names made safe for element ids
+  const ids = new Map<string, string>();
+  for (const key of tables.keys()) {
+    let id = `table_${key.replace(/[^\w-]/g, "_")}`;
+    while ([...ids.values()].includes(id)) id += "_";
+    ids.set(key, id);
+  }
+
+  const entities: Entity[] = [];
+  const relationships: Relationship[] = [];
+  for (const [key, table] of tables) {
+    const fkColumns = new Set(table.foreignKeys.flatMap((fk) => fk.columns.map((c) => c.toLowerCase())));
+    const pk = new Set(table.primaryKey.map((c) => c.toLowerCase()));
+    const attributes: EntityAttribute[] = table.columns.map(({ name, type }) => ({
+      name,
+      type,
+      pk: pk.has(name.toLowerCase()) || undefined,
+      fk: fkColumns.has(name.toLowerCase()) || undefined,
+    }));
+    // Keys first, as in the ER specialist's output
+    attributes.sort((a, b) => Number(!!b.pk) - Number(!!a.pk));
+    entities.push({ id: ids.get(key)!, name: table.name, attributes });
+
+    const sameColumns = (a: string[], b: string[]) =>
+      a.length === b.length && a.every((c) => b.some((d) => d.toLowerCase() === c.toLowerCase()));
+    for (const fk of table.foreignKeys) {
+      const parent = ids.get(fk.refTable.toLowerCase());
+      if (!parent) {
+        warnings.push(`Foreign key ${table.name}(${fk.columns.join(", ")}) references unknown table ${fk.refTable}`);
+        continue;
+      }
+      const unique =
+        sameColumns(fk.columns, table.primaryKey) ||
+        table.unique.some((u) => sameColumns(fk.columns, u)) ||
+        (fk.columns.length === 1 &&
+          table.columns.some((c) => c.unique && c.name.toLowerCase() === fk.columns[0].toLowerCase()));
+      relationships.push({
+        from: parent,
+        to: ids.get(key)!,
+        cardinality: unique ? "1:1" : "1:N",
+        label: fk.columns.join(", "),
+      });
+    }
+  }
+
+  return { ok: true, entities, relationships, warnings };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { ElementStreamParser } from "./stream-parser";
+
+const RESPONSE = JSON.stringify({
+  action: "add",
+  elements: [
+    { id: "a", type: "rectangle", label: { text: 'Say "}" {' } },
+    { id: "b", type: "arrow", points: [[0, 0], [10, 0]], text: "back\\slash" },
+  ],
+});
+
+// Feed the text in chunks of the given size and collect what comes out
+function feed(text: string, size: number) {
+  const parser = new ElementStreamParser();
+  const elements: unknown[] = [];
+  for (let i = 0; i < text.length; i += size) elements.push(...parser.push(text.slice(i, i + size)));
+  return { parser, elements };
+}
+
+describe("ElementStreamParser", () => {
+  it("emits each element as soon as it closes", () => {
+    const parser = new ElementStreamParser();
+    const end = RESPONSE.indexOf('{"id":"b"');
+    expect(parser.push(RESPONSE.slice(0, end))).toEqual([{ id: "a", type: "rectangle", label: { text: 'Say "}" {' } }]);
+    expect(parser.push(RESPONSE.slice(end))).toHaveLength(1);
+    expect(parser.count).toBe(2);
+  });
+
+  it("gives the same elements whatever the chunk boundaries, even inside strings and escapes", () => {
+    const whole = JSON.parse(RESPONSE).elements;
+    for (const size of [1, 2, 3, 7]) {
+      expect(feed(RESPONSE, size).elements).toEqual(whole);
+    }
+    // Split right after the backslash of an escaped quote
+    const split = RESPONSE.indexOf('\\"') + 1;
+    const parser = new ElementStreamParser();
+    expect(parser.push(RESPONSE.slice(0, split))).toEqual([]);
+    expect(parser.push(RESPONSE.slice(split))).toEqual(whole);
+  });
+
+  it("skips prose and fences and ignores arrays under other keys", () => {
+    const text =
+      'Here it is:\n```json\n{"notes": [{"id": "x"}], "meta": {"elements": [{"id": "y"}]}, "elements": [{"id": "z"}]}\n```';
+    expect(feed(text, 5).elements).toEqual([{ id: "z" }]);
+  });
+
+  it("keeps the complete elements of a stream that is cut off", () => {
+    const cut = RESPONSE.slice(0, RESPONSE.indexOf("back"));
+    const { parser, elements } = feed(cut, 4);
+    expect(elements).toEqual([JSON.parse(RESPONSE).elements[0]]);
+    expect(parser.count).toBe(1);
+  });
+
+  it("starts over after a reset", () => {
+    const parser = new ElementStreamParser();
+    parser.push(RESPONSE.slice(0, 40));
+    parser.reset();
+    expect(parser.count).toBe(0);
+    expect(parser.push(RESPONSE)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,102 @@
+// Incremental parser for streamed model output.
+// Recognizes each complete object inside the top-level "elements" array as
+// soon as its closing brace arrives, so elements can be drawn before the
+// whole response has finished streaming.
+
+export class ElementStreamParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  // String contents at depth 1, used to recognize the "elements" key
+  private stringBuffer = "";
+  private lastString = "";
+  private currentKey = "";
+  private inElements = false;
+  private capture: string | null = null;
+  private emitted = 0;
+
+  /** Number of complete elements recognized so far */
+  get count(): number {
+    return this.emitted;
+  }
+
+  /**
+   * Feed the next chunk of streamed text. Returns the element objects that
+   * were completed by this chunk, in order.
+   */
+  push(chunk: string): unknown[] {
+    const completed: unknown[] = [];
+
+    for (const ch of chunk) {
+      if (this.capture !== null) this.capture += ch;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === "\\") {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (this.depth === 1) this.lastString = this.stringBuffer;
+          continue;
+        }
+        if (this.depth === 1) this.stringBuffer += ch;
+        continue;
+      }
+
+      // Ignore prose or code fences before the top-level object
+      if (this.depth === 0 && ch !== "{") continue;
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringBuffer = "";
+          break;
+        case ":":
+          if (this.depth === 1) this.currentKey = this.lastString;
+          break;
+        case ",":
+          if (this.depth === 1) this.currentKey = "";
+          break;
+        case "{":
+          if (this.inElements && this.depth === 2) this.capture = ch;
+          this.depth++;
+          break;
+        case "[":
+          if (this.depth === 1 && this.currentKey === "elements") {
+            this.inElements = true;
+          }
+          this.depth++;
+          break;
+        case "}":
+        case "]":
+          this.depth--;
+          if (this.depth === 2 && ch === "}" && this.capture !== null) {
+            try {
+              completed.push(JSON.parse(this.capture));
+              this.emitted++;
+            } catch {
+              // Malformed element; the final validation reports it
+            }
+            this.capture = null;
+          }
+          if (this.depth === 1 && ch === "]") this.inElements = false;
+          break;
+      }
+    }
+
+    return completed;
+  }
+
+  reset() {
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.stringBuffer = "";
+    this.lastString = "";
+    this.currentKey = "";
+    this.inElements = false;
+    this.capture = null;
+    this.emitted = 0;
+  }
+}
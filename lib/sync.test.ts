@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { DrawingMeta } from "./drawings";
+import { SyncError, failedSyncStatus, planSync } from "./sync";
+
+function meta(id: string, fields: Partial<DrawingMeta> = {}): DrawingMeta {
+  return { id, name: id, createdAt: 1, updatedAt: 100, ...fields };
+}
+
+// Synced at revision 3 and not edited since
+const synced = (id: string, fields: Partial<DrawingMeta> = {}) =>
+  meta(id, { syncedAt: 100, revision: 3, ...fields });
+const server = (id: string, revision = 3) => meta(id, { revision });
+
+describe("planSync", () => {
+  it("leaves drawings alone that changed on neither side", () => {
+    expect(planSync([synced("a")], { drawings: [server("a")], deleted: [] })).toEqual([]);
+  });
+
+  it("pushes local edits based on the last synced revision", () => {
+    const edited = synced("a", { updatedAt: 200 });
+    expect(planSync([edited], { drawings: [server("a")], deleted: [] })).toEqual([
+      { kind: "push", meta: edited, baseRevision: 3 },
+    ]);
+  });
+
+  it("pulls drawings whose server revision moved on", () => {
+    expect(planSync([synced("a")], { drawings: [server("a", 4)], deleted: [] })).toEqual([{ kind: "pull", id: "a" }]);
+  });
+
+  it("reports a conflict when both sides changed", () => {
+    const edited = synced("a", { updatedAt: 200 });
+    expect(planSync([edited], { drawings: [server("a", 4)], deleted: [] })).toEqual([
+      { kind: "conflict", meta: edited },
+    ]);
+  });
+
+  it("does not compare this browser's clock with the server's", () => {
+    const ahead = { ...server("a"), updatedAt: 10_000 };
+    expect(planSync([synced("a")], { drawings: [ahead], deleted: [] })).toEqual([]);
+  });
+
+  it("pushes drawings the server does not have yet", () => {
+    const fresh = meta("new");
+    expect(planSync([fresh], { drawings: [], deleted: [] })).toEqual([{ kind: "push", meta: fresh }]);
+  });
+
+  it("removes drawings deleted on the server unless they were edited here since", () => {
+    const edited = synced("b", { updatedAt: 200 });
+    const actions = planSync([synced("a"), edited], {
+      drawings: [],
+      deleted: [
+        { id: "a", deletedAt: 1 },
+        { id: "b", deletedAt: 1 },
+      ],
+    });
+    expect(actions).toEqual([
+      { kind: "remove", id: "a" },
+      { kind: "push", meta: edited },
+    ]);
+  });
+
+  it("pulls drawings that are new on the server", () => {
+    expect(planSync([], { drawings: [server("a")], deleted: [] })).toEqual([{ kind: "pull", id: "a" }]);
+  });
+
+  it("skips busy drawings without pulling them as new", () => {
+    const edited = synced("a", { updatedAt: 200 });
+    expect(planSync([edited], { drawings: [server("a", 4)], deleted: [] }, (id) => id === "a")).toEqual([]);
+  });
+});
+
+describe("failedSyncStatus", () => {
+  it("tells a missing key and a disabled store from being offline", () => {
+    expect(failedSyncStatus(new SyncError("Missing or wrong drawings key", 401))).toBe("locked");
+    expect(failedSyncStatus(new SyncError("Server storage is off", 503))).toBe("disabled");
+    expect(failedSyncStatus(new SyncError("Cannot access the drawing store", 500))).toBe("offline");
+    expect(failedSyncStatus(new TypeError("Failed to fetch"))).toBe("offline");
+  });
+});
@@ -0,0 +1,240 @@
+// Keeps the drawings in IndexedDB in step with the server's store
+// (/api/drawings). The browser's copy stays the working copy, so the app
+// works offline; a sync pushes what changed here, pulls what changed on the
+// server and carries deletions both ways. When a drawing changed on both
+// sides, the server's version is kept as a separate drawing. Requests carry
+// the server key (DRAWINGS_API_KEY) the user entered in this browser.
+
+import {
+  API_KEY_HEADER,
+  createDrawing,
+  deleteDrawing,
+  listDrawings,
+  loadDrawing,
+  replaceDrawing,
+  updateDrawing,
+  type DrawingContents,
+  type DrawingMeta,
+  type ShareLink,
+} from "./drawings";
+import type { StoredDrawing, Tombstone } from "./drawing-store";
+
+// Drawings deleted here that the server has not been told about yet
+const PENDING_DELETIONS_KEY = "excalidraft-pending-deletions";
+const SERVER_KEY_KEY = "excalidraft-server-key";
+
+// "locked": the server wants a key this browser does not have (or has
+// wrong); "disabled": the server has no key configured, so it stores nothing
+export type SyncStatus = "syncing" | "synced" | "offline" | "locked" | "disabled";
+
+export interface SyncResult {
+  // Drawings whose local copy was replaced or added from the server
+  pulled: string[];
+  // Drawings deleted here because they were deleted on the server
+  removed: string[];
+}
+
+// An error response from the drawing API
+export class SyncError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SyncError";
+    this.status = status;
+  }
+}
+
+export function serverKey(): string {
+  return localStorage.getItem(SERVER_KEY_KEY) ?? "";
+}
+
+export function setServerKey(key: string) {
+  if (key) localStorage.setItem(SERVER_KEY_KEY, key);
+  else localStorage.removeItem(SERVER_KEY_KEY);
+}
+
+/** The status to show after a sync failed with `err`. */
+export function failedSyncStatus(err: unknown): SyncStatus {
+  if (err instanceof SyncError) {
+    if (err.status === 401) return "locked";
+    if (err.status === 503) return "disabled";
+  }
+  return "offline";
+}
+
+async function request<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const headers: Record<string, string> = { [API_KEY_HEADER]: serverKey() };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.ok) {
+    throw new SyncError(data?.error ?? `Server returned ${response.status}`, response.status);
+  }
+  return data as T;
+}
+
+function pendingDeletions(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PENDING_DELETIONS_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function setPendingDeletions(ids: string[]) {
+  if (ids.length > 0) localStorage.setItem(PENDING_DELETIONS_KEY, JSON.stringify(ids));
+  else localStorage.removeItem(PENDING_DELETIONS_KEY);
+}
+
+/** Remember to delete a synced drawing from the server on the next sync. */
+export function queueDeletion(id: string) {
+  setPendingDeletions([...pendingDeletions().filter((pending) => pending !== id), id]);
+}
+
+async function push(meta: DrawingMeta, baseRevision?: number): Promise<void> {
+  const { elements, files, messages } = await loadDrawing(meta.id);
+  const drawing: StoredDrawing = { meta, elements, files, messages, baseRevision };
+  const { drawing: stored } = await request<{ drawing: DrawingMeta }>(
+    "PUT",
+    `/api/drawings/${encodeURIComponent(meta.id)}`,
+    drawing,
+  );
+  // Later edits keep updatedAt ahead of syncedAt, so they go out next time
+  await updateDrawing(meta.id, { syncedAt: meta.updatedAt, revision: stored.revision, share: stored.share });
+}
+
+async function fetchDrawing(id: string): Promise<StoredDrawing> {
+  const { drawing } = await request<{ drawing: StoredDrawing }>("GET", `/api/drawings/${encodeURIComponent(id)}`);
+  return drawing;
+}
+
+function contentsOf(drawing: StoredDrawing): DrawingContents {
+  return {
+    elements: drawing.elements as DrawingContents["elements"],
+    files: drawing.files as DrawingContents["files"],
+    messages: drawing.messages,
+  };
+}
+
+// What a sync does with one drawing
+export type SyncAction =
+  | { kind: "push"; meta: DrawingMeta; baseRevision?: number }
+  | { kind: "pull"; id: string }
+  | { kind: "remove"; id: string }
+  // Changed on both sides: keep the server's version as a copy, then push
+  | { kind: "conflict"; meta: DrawingMeta };
+
+/**
+ * Decide what to do with each drawing, from the local drawings and the
+ * server's list. Edits here are found with this browser's clock (updatedAt
+ * past syncedAt), edits there by the server's revision, so the two clocks
+ * are never compared. `busy` drawings are left out.
+ */
+export function planSync(
+  local: DrawingMeta[],
+  remote: { drawings: DrawingMeta[]; deleted: Tombstone[] },
+  busy: (id: string) => boolean = () => false,
+): SyncAction[] {
+  const serverById = new Map(remote.drawings.map((meta) => [meta.id, meta]));
+  const deleted = new Set(remote.deleted.map((t) => t.id));
+  const actions: SyncAction[] = [];
+
+  for (const meta of local) {
+    const server = serverById.get(meta.id);
+    serverById.delete(meta.id);
+    if (busy(meta.id)) continue;
+    const changedHere = meta.updatedAt > (meta.syncedAt ?? 0);
+
+    if (!server) {
+      // Deleted on the server; edits made here since bring it back
+      if (deleted.has(meta.id) && meta.syncedAt !== undefined && !changedHere) {
+        actions.push({ kind: "remove", id: meta.id });
+      } else {
+        actions.push({ kind: "push", meta });
+      }
+      continue;
+    }
+
+    const changedThere = server.revision !== meta.revision;
+    if (changedThere && changedHere) actions.push({ kind: "conflict", meta });
+    else if (changedThere) actions.push({ kind: "pull", id: meta.id });
+    else if (changedHere) actions.push({ kind: "push", meta, baseRevision: meta.revision });
+  }
+
+  // New on the server
+  for (const id of serverById.keys()) actions.push({ kind: "pull", id });
+  return actions;
+}
+
+/**
+ * Sync every drawing with the server. `busy` drawings (the one being edited)
+ * are left for the next sync. Throws when the server cannot be reached; the
+ * local copies are untouched by a failed sync.
+ */
+export async function syncDrawings(busy: (id: string) => boolean = () => false): Promise<SyncResult> {
+  // One failed deletion does not hold up the others. A request the server
+  // refuses (4xx) will not succeed later, so it is dropped; network and
+  // server errors, and a missing key, keep it for the next sync.
+  for (const id of pendingDeletions()) {
+    try {
+      await request("DELETE", `/api/drawings/${encodeURIComponent(id)}`);
+    } catch (err) {
+      const refused = err instanceof SyncError && err.status >= 400 && err.status < 500 && err.status !== 401;
+      if (!refused) continue;
+    }
+    setPendingDeletions(pendingDeletions().filter((pending) => pending !== id));
+  }
+
+  const remote = await request<{ drawings: DrawingMeta[]; deleted: Tombstone[] }>("GET", "/api/drawings");
+  const result: SyncResult = { pulled: [], removed: [] };
+
+  for (const action of planSync(await listDrawings(), remote, busy)) {
+    if (action.kind === "push") {
+      await push(action.meta, action.baseRevision);
+    } else if (action.kind === "remove") {
+      await deleteDrawing(action.id);
+      result.removed.push(action.id);
+    } else if (action.kind === "pull") {
+      const theirs = await fetchDrawing(action.id);
+      await replaceDrawing(theirs.meta, contentsOf(theirs));
+      result.pulled.push(action.id);
+    } else {
+      const theirs = await fetchDrawing(action.meta.id);
+      const copy = await createDrawing(`${theirs.meta.name} (server copy)`, contentsOf(theirs), theirs.meta.thumbnail);
+      await push(copy);
+      // This browser's version then replaces the server's
+      await push(action.meta, theirs.meta.revision);
+    }
+  }
+  return result;
+}
+
+/**
+ * Create (or update) the read-only link of a drawing. The drawing is pushed
+ * first so the link shows its latest state.
+ */
+export async function shareDrawing(id: string, includeChat: boolean): Promise<ShareLink> {
+  const meta = (await listDrawings()).find((d) => d.id === id);
+  if (!meta) throw new Error("The drawing no longer exists");
+  if (meta.updatedAt !== meta.syncedAt) await push(meta, meta.revision);
+  const { share } = await request<{ share: ShareLink }>("POST", `/api/drawings/${encodeURIComponent(id)}/share`, {
+    includeChat,
+  });
+  await updateDrawing(id, { share });
+  return share;
+}
+
+export async function unshareDrawing(id: string): Promise<void> {
+  await request("DELETE", `/api/drawings/${encodeURIComponent(id)}/share`);
+  await updateDrawing(id, { share: undefined });
+}
+
+export function shareUrl(share: ShareLink): string {
+  return `${window.location.origin}/share/${share.token}`;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { describeToolCalls, validateToolCalls } from "./tools";
+
+const box = (id: string) => ({ id, type: "rectangle", x: 0, y: 0, width: 100, height: 50 });
+const call = (name: string, args: unknown) => ({ name, arguments: JSON.stringify(args) });
+
+describe("validateToolCalls", () => {
+  it("turns calls into operations in order, with later calls connecting to earlier ones", () => {
+    const result = validateToolCalls(
+      [
+        call("delete_elements", { ids: ["old"] }),
+        call("add_elements", { elements: [box("a")] }),
+        call("add_elements", { elements: [{ type: "arrow", x: 0, y: 0, width: 100, height: 0, start: "a", end: "kept" }] }),
+      ],
+      { existingIds: ["old", "kept"] },
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.operations.map((op) => op.action)).toEqual(["delete", "add", "add"]);
+    expect(result.operations[2]).toMatchObject({
+      elements: [{ start: { id: "a" }, end: { id: "kept" } }],
+    });
+  });
+
+  it("forgets deleted and replaced elements for later calls", () => {
+    const result = validateToolCalls(
+      [
+        call("replace_canvas", { elements: [box("fresh")] }),
+        call("restyle_elements", { ids: ["old", "fresh"], style: { strokeColor: "red" } }),
+      ],
+      { existingIds: ["old"] },
+    );
+    expect(result.ok && result.operations[1]).toMatchObject({ action: "restyle", ids: ["fresh"] });
+  });
+
+  it("reads arguments wrapped in prose or fences", () => {
+    const result = validateToolCalls([
+      { name: "add_elements", arguments: '```json\n{"elements": [{"id": "a", "type": "box", "x": 0, "y": 0}]}\n```' },
+    ]);
+    expect(result.ok && result.operations[0]).toMatchObject({ action: "add", elements: [{ type: "rectangle" }] });
+    expect(result.report.fixed.length).toBeGreaterThan(0);
+  });
+
+  it("fails the turn on unknown tools, bad arguments or no calls", () => {
+    expect(validateToolCalls([])).toMatchObject({ ok: false, error: expect.stringMatching(/^No tool was called/) });
+    expect(validateToolCalls([call("draw", {})])).toMatchObject({ ok: false, error: "Call 1 (draw): unknown tool" });
+    expect(validateToolCalls([call("toString", { elements: [box("a")] })])).toMatchObject({
+      ok: false,
+      error: "Call 1 (toString): unknown tool",
+    });
+    expect(validateToolCalls([{ name: "add_elements", arguments: "[1, 2]" }])).toMatchObject({
+      ok: false,
+      error: "Call 1 (add_elements): arguments are not a JSON object",
+    });
+    expect(
+      validateToolCalls([call("add_elements", { elements: [box("a")] }), call("delete_elements", { ids: ["nope"] })]),
+    ).toMatchObject({ ok: false, error: expect.stringMatching(/^Call 2 \(delete_elements\): /) });
+  });
+});
+
+describe("describeToolCalls", () => {
+  it("writes one call per line", () => {
+    expect(describeToolCalls([call("delete_elements", { ids: ["a"] }), { name: "x", arguments: "" }])).toBe(
+      'delete_elements({"ids":["a"]})\nx()',
+    );
+  });
+});
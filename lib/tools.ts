@@ -0,0 +1,218 @@
+// Diagram operations exposed to the model as callable tools, for servers
+// with function calling. The schemas describe the same skeletons as
+// SYSTEM_PROMPT; every call is still checked by the validator, since not
+// every server enforces the schema.
+
+import { SHAPE_TYPES, type DiagramOperation } from "./skeleton";
+import {
+  parseLLMJson,
+  validateOperation,
+  type ValidateOptions,
+  type ValidationReport,
+} from "./validator";
+import type { ToolCall, ToolDefinition } from "./providers";
+
+export type OperationsResult =
+  | { ok: true; operations: DiagramOperation[]; report: ValidationReport }
+  | { ok: false; error: string; report: ValidationReport };
+
+const ENDPOINT_SCHEMA = {
+  type: "object",
+  description: "Shape the arrow is attached to",
+  properties: {
+    id: { type: "string" },
+    type: { type: "string", enum: SHAPE_TYPES },
+  },
+  required: ["id"],
+};
+
+const STYLE_PROPERTIES = {
+  strokeColor: { type: "string" },
+  backgroundColor: { type: "string" },
+  fillStyle: { type: "string", enum: ["hachure", "cross-hatch", "solid", "zigzag"] },
+  strokeWidth: { type: "number" },
+  strokeStyle: { type: "string", enum: ["solid", "dashed", "dotted"] },
+  roughness: { type: "number" },
+  opacity: { type: "number" },
+};
+
+const ELEMENT_SCHEMA = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: [...SHAPE_TYPES, "text", "arrow", "line"] },
+    id: { type: "string", description: "Required on shapes that arrows connect to" },
+    x: { type: "number" },
+    y: { type: "number" },
+    width: { type: "number" },
+    height: { type: "number" },
+    text: { type: "string", description: "Text elements only" },
+    fontSize: { type: "number" },
+    label: {
+      type: "object",
+      description: "Text shown inside a shape or on an arrow",
+      properties: { text: { type: "string" }, fontSize: { type: "number" } },
+      required: ["text"],
+    },
+    start: ENDPOINT_SCHEMA,
+    end: ENDPOINT_SCHEMA,
+    ...STYLE_PROPERTIES,
+    groupIds: { type: "array", items: { type: "string" } },
+  },
+  required: ["type", "x", "y"],
+};
+
+const ELEMENTS_PARAMETERS = {
+  type: "object",
+  properties: { elements: { type: "array", items: ELEMENT_SCHEMA } },
+  required: ["elements"],
+};
+
+export const DIAGRAM_TOOLS: ToolDefinition[] = [
+  {
+    name: "add_elements",
+    description:
+      "Add new elements to the canvas. Use new, unique ids. Arrows may connect to new elements or to ids already on the canvas.",
+    parameters: ELEMENTS_PARAMETERS,
+  },
+  {
+    name: "modify_elements",
+    description:
+      "Replace existing elements, matched by id, with the complete new version of each element. Elements with unknown ids are added.",
+    parameters: ELEMENTS_PARAMETERS,
+  },
+  {
+    name: "delete_elements",
+    description:
+      "Remove elements from the canvas by id. Their labels and any arrows connected to them are removed too.",
+    parameters: {
+      type: "object",
+      properties: { ids: { type: "array", items: { type: "string" } } },
+      required: ["ids"],
+    },
+  },
+  {
+    name: "restyle_elements",
+    description:
+      "Change only the look of existing elements (colors, fill, stroke, roughness, font size) without resending their geometry.",
+    parameters: {
+      type: "object",
+      properties: {
+        ids: { type: "array", items: { type: "string" } },
+        style: {
+          type: "object",
+          properties: { ...STYLE_PROPERTIES, fontSize: { type: "number" } },
+        },
+      },
+      required: ["ids", "style"],
+    },
+  },
+  {
+    name: "replace_canvas",
+    description: "Clear the whole canvas and draw these elements instead.",
+    parameters: ELEMENTS_PARAMETERS,
+  },
+];
+
+// One operation of the JSON modes as a single flat object, for servers
+// that constrain output to a schema. Which fields apply depends on the
+// action; the validator checks that.
+export const OPERATION_SCHEMA = {
+  type: "object",
+  properties: {
+    action: { type: "string", enum: ["add", "replace", "modify", "delete", "restyle"] },
+    elements: { type: "array", items: ELEMENT_SCHEMA },
+    ids: { type: "array", items: { type: "string" } },
+    style: {
+      type: "object",
+      properties: { ...STYLE_PROPERTIES, fontSize: { type: "number" } },
+    },
+  },
+  required: ["action"],
+};
+
+const TOOL_ACTIONS: Record<string, DiagramOperation["action"]> = {
+  add_elements: "add",
+  modify_elements: "modify",
+  delete_elements: "delete",
+  restyle_elements: "restyle",
+  replace_canvas: "replace",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Turn the model's tool calls into validated operations, in call order.
+ * Elements added by an earlier call may be referenced by later ones. Any
+ * call that cannot be used fails the whole turn, so the model can be asked
+ * to repair it.
+ */
+export function validateToolCalls(
+  calls: ToolCall[],
+  options: ValidateOptions = {},
+): OperationsResult {
+  const report: ValidationReport = { fixed: [], dropped: [] };
+  if (calls.length === 0) {
+    return {
+      ok: false,
+      error: `No tool was called. Call one of: ${DIAGRAM_TOOLS.map((t) => t.name).join(", ")}`,
+      report,
+    };
+  }
+
+  let known = new Set(options.existingIds ?? []);
+  const operations: DiagramOperation[] = [];
+
+  for (const [i, call] of calls.entries()) {
+    const where = `Call ${i + 1} (${call.name || "unnamed"})`;
+    const action = Object.hasOwn(TOOL_ACTIONS, call.name) ? TOOL_ACTIONS[call.name] : undefined;
+    if (!action) {
+      return { ok: false, error: `${where}: unknown tool`, report };
+    }
+
+    // Arguments are usually bare JSON, but some servers wrap or pad them
+    const parsed = parseLLMJson(call.arguments || "{}");
+    if (!parsed.ok || !isRecord(parsed.value)) {
+      return {
+        ok: false,
+        error: `${where}: arguments are not a JSON object${parsed.ok ? "" : ` (${parsed.error})`}`,
+        report,
+      };
+    }
+    const args = parsed.value;
+
+    const validation = validateOperation(
+      { ...args, action },
+      { existingIds: action === "replace" ? [] : [...known] },
+    );
+    report.fixed.push(...validation.report.fixed);
+    report.dropped.push(...validation.report.dropped);
+    if (!validation.ok) {
+      return { ok: false, error: `${where}: ${validation.error}`, report };
+    }
+
+    const operation = validation.response;
+    operations.push(operation);
+    if (operation.action === "delete") {
+      for (const id of operation.ids) known.delete(id);
+      continue;
+    }
+    if (operation.action === "restyle") continue;
+
+    if (operation.action === "replace") known = new Set();
+    for (const el of operation.elements) {
+      if (el.id) known.add(el.id);
+    }
+  }
+
+  return { ok: true, operations, report };
+}
+
+/**
+ * Render tool calls as text, so a failed turn can be shown back to the model
+ * in a plain assistant message.
+ */
+export function describeToolCalls(calls: ToolCall[]): string {
+  return calls.map((call) => `${call.name}(${call.arguments})`).join("\n");
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { isTypeScript, parseTypeScript, type SourceFile } from "./ts-source";
+import type { SkeletonElement } from "./skeleton";
+
+const SHAPES = `// class Fake {}
+export abstract class Shape implements Drawable {
+  protected readonly id: string = "x";
+  abstract area(): number;
+}
+export class Circle extends Shape {
+  radius = 1;
+  owner?: Owner;
+  area(): number { return Math.PI * this.radius ** 2; }
+}
+interface Drawable { draw(ctx: CanvasRenderingContext2D): void }
+export interface Owner { circles: Circle[] }
+enum Color { Red, Green = "g" }
+const s = "class NotReal {";
+`;
+
+const MODULES: SourceFile[] = [
+  {
+    name: "src/app.ts",
+    text: 'import { helper } from "./util";\nimport type { T } from "./types";\nimport React from "react";\nconst lazy = import("./lazy");',
+  },
+  { name: "src/util.ts", text: 'import "./polyfill";\nexport const helper = 1;' },
+  { name: "src/types.ts", text: "export type T = number;" },
+];
+
+function parsed(files: SourceFile[], view?: "auto" | "classes" | "modules") {
+  const result = parseTypeScript(files, view);
+  if (!result.ok) throw new Error(result.error);
+  const byId = new Map(result.elements.map((el: SkeletonElement) => [el.id, el]));
+  return { ...result, byId };
+}
+
+describe("isTypeScript", () => {
+  it("recognizes declarations and imports but not prose or Mermaid", () => {
+    expect(isTypeScript("export class A {\n}")).toBe(true);
+    expect(isTypeScript('import { a } from "./a";')).toBe(true);
+    expect(isTypeScript("classDiagram\nclass A {\n}")).toBe(false);
+    expect(isTypeScript("Draw an interface between the two services")).toBe(false);
+  });
+});
+
+describe("parseTypeScript class diagrams", () => {
+  it("reads declarations and members, skipping comments and strings", () => {
+    const { summary, byId, warnings } = parsed([{ name: "shapes.ts", text: SHAPES }]);
+    expect(summary).toBe("TypeScript class diagram: 2 classes, 2 interfaces, 1 enum, 4 relationships");
+    expect(warnings).toEqual([]);
+    expect(byId.has("class_Fake")).toBe(false);
+    expect(byId.has("class_NotReal")).toBe(false);
+    expect(byId.get("class_Shape_header")).toMatchObject({ label: { text: "«abstract»\nShape" } });
+    expect(byId.get("class_Shape_members")).toMatchObject({ text: "# id: string\n+ area(): number" });
+    expect(byId.get("class_Circle_members")).toMatchObject({ text: "+ radius: number\n+ owner?: Owner\n+ area(): number" });
+    expect(byId.get("interface_Drawable_members")).toMatchObject({ text: "draw(ctx): void" });
+    expect(byId.get("enum_Color_members")).toMatchObject({ text: "Red\nGreen" });
+  });
+
+  it("draws extends, implements and property associations", () => {
+    const { byId } = parsed([{ name: "shapes.ts", text: SHAPES }]);
+    expect(byId.get("class_Circle_extends_class_Shape")).toMatchObject({ label: { text: "extends" } });
+    expect(byId.get("class_Shape_implements_interface_Drawable")).toMatchObject({
+      label: { text: "implements" },
+      strokeStyle: "dashed",
+    });
+    expect(byId.get("class_Circle_uses_interface_Owner")).toMatchObject({ label: { text: "owner" } });
+    expect(byId.get("interface_Owner_uses_class_Circle")).toMatchObject({ label: { text: "circles" } });
+  });
+
+  it("fails the classes view when there are no declarations", () => {
+    expect(parseTypeScript(MODULES, "classes")).toEqual({
+      ok: false,
+      error: "No class, interface or enum declarations found",
+    });
+    expect(parseTypeScript([{ name: "a.ts", text: "  " }])).toEqual({ ok: false, error: "No source to import" });
+  });
+});
+
+describe("parseTypeScript module graphs", () => {
+  it("falls back to modules and resolves local imports between the files", () => {
+    const { summary, byId, warnings } = parsed(MODULES);
+    expect(summary).toBe("TypeScript module graph: 3 modules, 1 package, 5 imports");
+    expect(byId.get("module_src_app")).toMatchObject({ label: { text: "app.ts" } });
+    expect(byId.get("package_react")).toMatchObject({ type: "ellipse" });
+    expect(byId.get("module_src_app_imports_module_src_util")).not.toHaveProperty("strokeStyle");
+    // Type-only imports are dashed
+    expect(byId.get("module_src_app_imports_module_src_types")).toMatchObject({ strokeStyle: "dashed" });
+    expect(warnings).toEqual(["2 local imports not among the imported files: ./lazy, ./polyfill"]);
+  });
+
+  it("draws modules on request even when there are classes", () => {
+    const { summary, byId } = parsed(
+      [
+        { name: "a.ts", text: 'import { B } from "./b";\nexport class A extends B {}' },
+        { name: "b.ts", text: "export class B {}" },
+      ],
+      "modules",
+    );
+    expect(summary).toMatch(/^TypeScript module graph: 2 modules/);
+    expect(byId.has("module_a_imports_module_b")).toBe(true);
+  });
+});
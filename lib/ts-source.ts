@@ -0,0 +1,700 @@
+// TypeScript source → class diagram or module import graph. A lightweight
+// scanner reads class, interface and enum declarations and import
+// statements; it is not a compiler, so comments and string contents are
+// masked first and anything it cannot read is skipped.
+
+import { layoutGraph, type Graph, type GraphNode } from "./layout";
+import { DEFAULT_STROKE_COLOR, PALETTE, type SkeletonElement } from "./skeleton";
+
+export type TypeScriptView = "auto" | "classes" | "modules";
+
+export interface SourceFile {
+  name: string;
+  text: string;
+}
+
+export type TypeScriptResult =
+  | { ok: true; elements: SkeletonElement[]; summary: string; warnings: string[]; followUp: string }
+  | { ok: false; error: string };
+
+// Members listed per class before the rest is summarized
+const MAX_MEMBERS = 12;
+const MAX_TYPE_LENGTH = 40;
+const HEADER_HEIGHT = 40;
+const STEREOTYPE_HEADER_HEIGHT = 55;
+// Names quoted in the follow-up prompt
+const MAX_FOLLOW_UP_NAMES = 20;
+
+const KIND_COLORS: Record<DeclarationKind | "abstract", string> = {
+  class: PALETTE.blue,
+  abstract: PALETTE.purple,
+  interface: PALETTE.green,
+  enum: PALETTE.yellow,
+};
+
+const DECLARATION_RE =
+  /\b(?:export\s+)?(?:default\s+)?(?:declare\s+)?(abstract\s+)?(?:const\s+)?(class|interface|enum)\s+([A-Za-z_$][\w$]*)/g;
+const IMPORT_RE = /\bimport\s+(type\s+)?([\w$*{}\s,]+?)\s+from\s*(["'])/g;
+const SIDE_EFFECT_IMPORT_RE = /\bimport\s*(["'])/g;
+const EXPORT_FROM_RE = /\bexport\s+(type\s+)?(\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s*(["'])/g;
+const DYNAMIC_IMPORT_RE = /\b(?:import|require)\s*\(\s*(["'])/g;
+const MODIFIERS_RE = /^(?:(?:public|private|protected|static|readonly|abstract|override|declare|async|accessor)\s+)+/;
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".d.ts", ".js", ".jsx", ".mjs", ".cjs"];
+
+type DeclarationKind = "class" | "interface" | "enum";
+
+interface Declaration {
+  kind: DeclarationKind;
+  name: string;
+  id: string;
+  abstract: boolean;
+  file: string;
+  extends: string[];
+  implements: string[];
+  members: string[];
+  // Types named by properties, for association arrows
+  associations: Array<{ property: string; types: string[] }>;
+}
+
+interface ImportEdge {
+  specifier: string;
+  typeOnly: boolean;
+}
+
+function slug(text: string): string {
+  return text.replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "") || "x";
+}
+
+/**
+ * Quick check used to route pasted text to this importer: a class,
+ * interface or enum declaration opening a body, or an ES import.
+ */
+export function isTypeScript(text: string): boolean {
+  if (/^\s*classDiagram/.test(text)) return false;
+  return (
+    /^\s*(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:class|interface|enum)\s+[A-Za-z_$][\w$]*[^\n]*\{/m.test(text) ||
+    /^\s*import\s+(?:type\s+)?[\w$*{}\s,]+?\s+from\s*["'][^"'\n]+["']/m.test(text)
+  );
+}
+
+/**
+ * Blank out comments, and string contents unless `keepStrings` is set, so
+ * braces inside them do not count. Offsets stay the same as in the source.
+ */
+function mask(src: string, keepStrings: boolean): string {
+  const out = src.split("");
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to && k < out.length; k++) if (out[k] !== "\n") out[k] = " ";
+  };
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === "/" && src[i + 1] === "/") {
+      const end = src.indexOf("\n", i);
+      const stop = end === -1 ? src.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (ch === "/" && src[i + 1] === "*") {
+      const end = src.indexOf("*/", i + 2);
+      const stop = end === -1 ? src.length : end + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (ch === '"' || ch === "'" || ch === "`") {
+      // Quoted strings end at the line break, so stray quotes in JSX text
+      // cannot swallow the rest of the file
+      let j = i + 1;
+      while (j < src.length && src[j] !== ch && (ch === "`" || src[j] !== "\n")) {
+        if (src[j] === "\\") j++;
+        j++;
+      }
+      if (!keepStrings) blank(i + 1, j);
+      i = j + 1;
+    } else {
+      i++;
+    }
+  }
+  return out.join("");
+}
+
+// Index of the bracket closing the one at `open`, in masked source
+function matching(masked: string, open: number): number {
+  const pairs: Record<string, string> = { "{": "}", "(": ")", "[": "]", "<": ">" };
+  const close = pairs[masked[open]];
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === masked[open]) depth++;
+    else if (masked[i] === close && !(close === ">" && masked[i - 1] === "=")) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// Split at a separator outside of brackets
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if ("{([<".includes(ch)) depth++;
+    else if ("})]".includes(ch) || (ch === ">" && text[i - 1] !== "=")) depth--;
+    else if (ch === separator && depth === 0 && !(separator === "=" && /[=>]/.test(text[i + 1] ?? ""))) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+function stripGenerics(text: string): string {
+  let result = text;
+  while (/<[^<>]*>/.test(result)) result = result.replace(/<[^<>]*>/g, "");
+  return result;
+}
+
+// "@Input() @Output({ a: 1 }) name" → "name"
+function stripDecorators(text: string): string {
+  let result = text.trimStart();
+  for (;;) {
+    const match = result.match(/^@[\w$.]+\s*/);
+    if (!match) return result;
+    let rest = result.slice(match[0].length);
+    if (rest.startsWith("(")) {
+      const close = matching(rest, 0);
+      rest = close === -1 ? "" : rest.slice(close + 1);
+    }
+    result = rest.trimStart();
+  }
+}
+
+function shortType(type: string): string {
+  const compact = type.replace(/\s+/g, " ").trim();
+  return compact.length > MAX_TYPE_LENGTH ? `${compact.slice(0, MAX_TYPE_LENGTH - 1)}…` : compact;
+}
+
+// Whether a line break at the top level of a body ends the member before it
+function endsMember(segment: string, rest: string): boolean {
+  const text = segment.trim();
+  if (!text || /^(@[\w$.]+(\s*\([\s\S]*\))?\s*)+$/.test(text)) return false;
+  if (/[=,:|&(<>?.+\-*]$/.test(text)) return false;
+  return !/^\s*[.|&?:=)>]/.test(rest);
+}
+
+// Ranges of the members of a class, interface or enum body
+function splitMembers(body: string, separators: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if ("{([".includes(ch)) {
+      depth++;
+    } else if ("})]".includes(ch)) {
+      depth--;
+      if (depth === 0 && ch === "}") {
+        ranges.push([start, i + 1]);
+        start = i + 1;
+      }
+    } else if (depth === 0 && separators.includes(ch)) {
+      ranges.push([start, i]);
+      start = i + 1;
+    } else if (depth === 0 && ch === "\n" && endsMember(body.slice(start, i), body.slice(i + 1, i + 40))) {
+      ranges.push([start, i]);
+      start = i + 1;
+    }
+  }
+  ranges.push([start, body.length]);
+  return ranges.filter(([s, e]) => body.slice(s, e).trim());
+}
+
+function visibility(modifiers: string, name: string): string {
+  if (/\bprivate\b/.test(modifiers) || name.startsWith("#")) return "-";
+  if (/\bprotected\b/.test(modifiers)) return "#";
+  return "+";
+}
+
+// Parameter names only: "(id, options?)"
+function parameterList(params: string): string {
+  return splitTopLevel(params, ",")
+    .map((param) => {
+      const text = stripDecorators(param).replace(MODIFIERS_RE, "");
+      if (text.startsWith("{")) return "{…}";
+      if (text.startsWith("[")) return "[…]";
+      return text.match(/^(?:\.\.\.)?[\w$]+\??/)?.[0] ?? "?";
+    })
+    .join(", ");
+}
+
+// Type of a property from its initializer when it has no annotation
+function inferType(initializer: string): string | undefined {
+  const value = initializer.trim();
+  if (/^-?\d/.test(value)) return "number";
+  if (/^["'`]/.test(value)) return "string";
+  if (/^(true|false)\b/.test(value)) return "boolean";
+  if (value.startsWith("[")) return "array";
+  return value.match(/^new\s+([\w$.]+)/)?.[1];
+}
+
+interface ParsedMember {
+  line: string;
+  property?: string;
+  type?: string;
+}
+
+// One member of a class or interface body as a UML line, e.g.
+// "- repo: UserRepo" or "+ find(id): Promise<User>"
+function parseMember(text: string, inInterface: boolean): ParsedMember[] {
+  let rest = stripDecorators(text).replace(/;$/, "").trim();
+  const modifiers = rest.match(MODIFIERS_RE)?.[0] ?? "";
+  rest = rest.slice(modifiers.length);
+  const accessor = rest.match(/^(get|set)\s+(?=[\w$#["'])/)?.[1];
+  if (accessor) rest = rest.slice(accessor.length).trimStart();
+  rest = rest.replace(/^\*\s*/, "");
+
+  const nameMatch = rest.match(/^(#?[\w$]+|"[^"]*"|'[^']*')/);
+  // Index and call signatures have no name
+  if (!nameMatch) return [];
+  const name = nameMatch[1];
+  rest = rest.slice(name.length).trimStart();
+  const optional = rest.startsWith("?") ? "?" : "";
+  rest = rest.replace(/^[?!]/, "").trimStart();
+
+  const prefix = `${inInterface ? "" : `${visibility(modifiers, name)} `}${/\bstatic\b/.test(modifiers) ? "static " : ""}`;
+  if (rest.startsWith("<")) {
+    const close = matching(rest, 0);
+    rest = close === -1 ? "" : rest.slice(close + 1).trimStart();
+  }
+  if (rest.startsWith("(")) {
+    const close = matching(rest, 0);
+    if (close === -1) return [];
+    const params = rest.slice(1, close);
+    if (name === "constructor") {
+      // Parameter properties ("private readonly repo: Repo") are fields
+      return splitTopLevel(params, ",").flatMap((param) => {
+        const text = stripDecorators(param);
+        const mods = text.match(MODIFIERS_RE)?.[0];
+        return mods ? parseMember(text, false) : [];
+      });
+    }
+    const after = rest.slice(close + 1).trim();
+    const returnType = after.startsWith(":") ? after.slice(1).split(/\{|=>/)[0].trim() : "";
+    const label = accessor === "get" ? `${name}${returnType ? `: ${shortType(returnType)}` : ""}` : `${name}${optional}(${parameterList(params)})${returnType ? `: ${shortType(returnType)}` : ""}`;
+    return [{ line: `${prefix}${label}`, property: accessor === "get" ? name : undefined, type: returnType }];
+  }
+
+  let type: string | undefined;
+  if (rest.startsWith(":")) {
+    type = splitTopLevel(rest.slice(1), "=")[0];
+  } else if (rest.startsWith("=")) {
+    type = inferType(rest.slice(1));
+  }
+  return [{ line: `${prefix}${name}${optional}${type ? `: ${shortType(type)}` : ""}`, property: name, type }];
+}
+
+function parseDeclarations(file: SourceFile, warnings: string[]): Declaration[] {
+  const masked = mask(file.text, false);
+  const code = mask(file.text, true);
+  const declarations: Declaration[] = [];
+  let searchFrom = 0;
+
+  DECLARATION_RE.lastIndex = 0;
+  for (let match = DECLARATION_RE.exec(masked); match; match = DECLARATION_RE.exec(masked)) {
+    if (match.index < searchFrom) continue;
+    const kind = match[2] as DeclarationKind;
+    const name = match[3];
+    // "export default class extends Base {}" has no name of its own
+    if (name === "extends" || name === "implements") continue;
+
+    // The header runs to the "{" outside of type parameters
+    let open = -1;
+    let angle = 0;
+    for (let i = match.index + match[0].length; i < masked.length; i++) {
+      const ch = masked[i];
+      if (ch === "<") angle++;
+      else if (ch === ">" && masked[i - 1] !== "=") angle--;
+      else if (ch === ";") break;
+      else if (ch === "{" && angle <= 0) {
+        open = i;
+        break;
+      }
+    }
+    if (open === -1) continue;
+    const close = matching(masked, open);
+    if (close === -1) {
+      warnings.push(`${file.name}: could not find the end of ${kind} ${name}`);
+      continue;
+    }
+    searchFrom = close;
+
+    const header = stripGenerics(code.slice(match.index + match[0].length, open)).replace(/\s+/g, " ");
+    const declaration: Declaration = {
+      kind,
+      name,
+      id: `${kind}_${slug(name)}`,
+      abstract: Boolean(match[1]),
+      file: file.name,
+      extends: [],
+      implements: [],
+      members: [],
+      associations: [],
+    };
+    if (kind === "class") {
+      const base = header.match(/\bextends\s+([\w$.]+)/)?.[1];
+      if (base) declaration.extends.push(base);
+      const impl = header.match(/\bimplements\s+(.+)$/)?.[1];
+      if (impl) declaration.implements.push(...splitTopLevel(impl, ",").map((t) => t.trim()));
+    } else if (kind === "interface") {
+      const bases = header.match(/\bextends\s+(.+)$/)?.[1];
+      if (bases) declaration.extends.push(...splitTopLevel(bases, ",").map((t) => t.trim()));
+    }
+
+    const body = masked.slice(open + 1, close);
+    const bodyCode = code.slice(open + 1, close);
+    for (const [start, end] of splitMembers(body, kind === "class" ? ";" : ";,")) {
+      const text = bodyCode.slice(start, end).trim();
+      if (kind === "enum") {
+        const member = text.match(/^([\w$]+|"[^"]*"|'[^']*')/)?.[1];
+        if (member) declaration.members.push(member);
+        continue;
+      }
+      for (const member of parseMember(text, kind === "interface")) {
+        declaration.members.push(member.line);
+        if (member.property && member.type) {
+          declaration.associations.push({ property: member.property, types: member.type.match(/\b[A-Z][\w$]*/g) ?? [] });
+        }
+      }
+    }
+    declarations.push(declaration);
+  }
+  return declarations;
+}
+
+function parseImports(file: SourceFile): ImportEdge[] {
+  const masked = mask(file.text, false);
+  const imports: ImportEdge[] = [];
+  const read = (re: RegExp, typeOnly: (match: RegExpExecArray) => boolean) => {
+    re.lastIndex = 0;
+    for (let match = re.exec(masked); match; match = re.exec(masked)) {
+      const start = match.index + match[0].length;
+      const end = file.text.indexOf(match[match.length - 1], start);
+      if (end === -1) continue;
+      imports.push({ specifier: file.text.slice(start, end), typeOnly: typeOnly(match) });
+    }
+  };
+  const onlyTypes = (match: RegExpExecArray) =>
+    Boolean(match[1]) || /^\{\s*(type\s+[\w$]+(\s+as\s+[\w$]+)?\s*,?\s*)+\}$/.test(match[2].trim());
+  read(IMPORT_RE, onlyTypes);
+  read(EXPORT_FROM_RE, onlyTypes);
+  read(SIDE_EFFECT_IMPORT_RE, () => false);
+  read(DYNAMIC_IMPORT_RE, () => false);
+  return imports;
+}
+
+// Restyle the boxes layoutGraph drew for declarations as UML classes: a
+// colored header with the name and the members listed below it
+function drawClasses(elements: SkeletonElement[], declarations: Map<string, Declaration>): SkeletonElement[] {
+  return elements.flatMap((el): SkeletonElement[] => {
+    if (el.type !== "rectangle" || !el.id) return [el];
+    const declaration = declarations.get(el.id);
+    if (!declaration) {
+      // A base type that is not part of the source
+      return el.id.startsWith("external_") ? [{ ...el, backgroundColor: PALETTE.gray, strokeStyle: "dashed" }] : [el];
+    }
+    const groupIds = [`uml_${declaration.id}`];
+    const stereotype =
+      declaration.kind === "class" ? (declaration.abstract ? "«abstract»" : "") : `«${declaration.kind}»`;
+    const headerHeight = stereotype ? STEREOTYPE_HEADER_HEIGHT : HEADER_HEIGHT;
+    const members = declaration.members.slice(0, MAX_MEMBERS);
+    if (declaration.members.length > MAX_MEMBERS) members.push(`… ${declaration.members.length - MAX_MEMBERS} more`);
+    const { x, y, width, height } = el;
+    const drawn: SkeletonElement[] = [
+      // The outer box carries the declaration's id, so arrows bind to it
+      {
+        type: "rectangle",
+        id: declaration.id,
+        x,
+        y,
+        width,
+        height,
+        backgroundColor: PALETTE.white,
+        strokeColor: DEFAULT_STROKE_COLOR,
+        groupIds,
+      },
+      {
+        type: "rectangle",
+        id: `${declaration.id}_header`,
+        x,
+        y,
+        width,
+        height: headerHeight,
+        backgroundColor: KIND_COLORS[declaration.abstract ? "abstract" : declaration.kind],
+        strokeColor: DEFAULT_STROKE_COLOR,
+        label: { text: stereotype ? `${stereotype}\n${declaration.name}` : declaration.name, fontSize: 18 },
+        groupIds,
+      },
+    ];
+    if (members.length > 0) {
+      drawn.push({
+        type: "text",
+        id: `${declaration.id}_members`,
+        x: x + 15,
+        y: y + headerHeight + 10,
+        text: members.join("\n"),
+        fontSize: 16,
+        strokeColor: DEFAULT_STROKE_COLOR,
+        groupIds,
+      });
+    }
+    return drawn;
+  });
+}
+
+function buildClassDiagram(declarations: Declaration[], warnings: string[]): TypeScriptResult {
+  const byName = new Map<string, Declaration>();
+  for (const declaration of declarations) {
+    const existing = byName.get(declaration.name);
+    if (existing) {
+      warnings.push(`${declaration.kind} ${declaration.name} in ${declaration.file} has the same name as one in ${existing.file}; only the first is drawn`);
+      continue;
+    }
+    byName.set(declaration.name, declaration);
+  }
+  const drawn = [...byName.values()];
+
+  const nodes: GraphNode[] = drawn.map((d) => ({
+    id: d.id,
+    // Sized for the header and member lines drawn in its place
+    label: [d.kind === "class" && !d.abstract ? "" : "«stereotype»", d.name, ...d.members.slice(0, MAX_MEMBERS + 1)]
+      .filter(Boolean)
+      .join("\n"),
+  }));
+  const edges: Graph["edges"] = [];
+  const externals = new Set<string>();
+  const targetId = (typeName: string) => {
+    const name = stripGenerics(typeName).trim();
+    const local = byName.get(name) ?? byName.get(name.split(".").pop()!);
+    if (local) return local.id;
+    const id = `external_${slug(name)}`;
+    if (!externals.has(id)) {
+      externals.add(id);
+      nodes.push({ id, label: name });
+    }
+    return id;
+  };
+
+  // Inheritance edges run from the base type so it is laid out above the
+  // subtype; the arrows are turned around afterwards to point at the base
+  const inheritance = new Set<string>();
+  for (const d of drawn) {
+    for (const base of d.extends) {
+      const from = targetId(base);
+      edges.push({ from, to: d.id, label: "extends" });
+      inheritance.add(`${from}|${d.id}|extends`);
+    }
+    for (const base of d.implements) {
+      const from = targetId(base);
+      edges.push({ from, to: d.id, label: "implements", dashed: true });
+      inheritance.add(`${from}|${d.id}|implements`);
+    }
+  }
+  let associationCount = 0;
+  for (const d of drawn) {
+    const byTarget = new Map<string, string[]>();
+    for (const { property, types } of d.associations) {
+      for (const type of types) {
+        const target = byName.get(type);
+        if (!target || target === d || d.extends.includes(type) || d.implements.includes(type)) continue;
+        const properties = byTarget.get(target.id) ?? [];
+        if (!properties.includes(property)) properties.push(property);
+        byTarget.set(target.id, properties);
+      }
+    }
+    for (const [to, properties] of byTarget) {
+      edges.push({ from: d.id, to, label: properties.join(", ") });
+      associationCount++;
+    }
+  }
+
+  const elements = drawClasses(layoutGraph({ nodes, edges }), new Map(drawn.map((d) => [d.id, d])));
+  for (const el of elements) {
+    if (el.type !== "arrow" || !el.start || !el.end) continue;
+    const key = `${el.start.id}|${el.end.id}|${el.label?.text}`;
+    if (inheritance.has(key)) {
+      [el.start, el.end] = [el.end, el.start];
+      el.x += el.width;
+      el.y += el.height;
+      el.width = -el.width;
+      el.height = -el.height;
+      el.id = `${el.start.id}_${el.label?.text}_${el.end.id}`;
+    } else {
+      el.id = `${el.start.id}_uses_${el.end.id}`;
+      el.strokeColor = "#868e96";
+    }
+    if (el.label) el.label.fontSize = 14;
+  }
+
+  const count = (kind: DeclarationKind) => drawn.filter((d) => d.kind === kind).length;
+  const counts = [
+    [count("class"), "class", "classes"],
+    [count("interface"), "interface", "interfaces"],
+    [count("enum"), "enum", "enums"],
+  ] as const;
+  const parts = counts.filter(([n]) => n > 0).map(([n, one, many]) => `${n} ${n === 1 ? one : many}`);
+  const names = drawn.slice(0, MAX_FOLLOW_UP_NAMES).map((d) => d.name).join(", ");
+  return {
+    ok: true,
+    elements,
+    summary: `TypeScript class diagram: ${parts.join(", ")}, ${inheritance.size + associationCount} relationships`,
+    warnings,
+    followUp: `Add a short note beside each class and interface from the TypeScript import (${names}${drawn.length > MAX_FOLLOW_UP_NAMES ? ", …" : ""}) explaining its role in one sentence. Use action "add" with text elements placed next to the existing boxes, and leave the existing elements unchanged.`,
+  };
+}
+
+// "src/lib/a.ts" → "src/lib/a"; index files stand for their directory
+function moduleKey(path: string): string {
+  const normalized = path.replace(/\\/g, "/");
+  const ext = SOURCE_EXTENSIONS.filter((e) => normalized.endsWith(e)).sort((a, b) => b.length - a.length)[0];
+  const key = ext ? normalized.slice(0, -ext.length) : normalized;
+  return key.replace(/\/index$/, "");
+}
+
+function joinPath(dir: string, relative: string): string {
+  const parts = dir ? dir.split("/") : [];
+  for (const part of relative.split("/")) {
+    if (part === "." || part === "") continue;
+    if (part === ".." && parts.length > 0 && parts[parts.length - 1] !== "..") parts.pop();
+    else parts.push(part);
+  }
+  return parts.join("/");
+}
+
+// Package name of a bare specifier: "react-dom/client" → "react-dom"
+function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function buildModuleGraph(files: SourceFile[], warnings: string[]): TypeScriptResult {
+  const keys = new Map(files.map((f) => [moduleKey(f.name), f]));
+  const moduleId = (key: string) => `module_${slug(key)}`;
+  // Drop the directory all files share from the labels
+  const dirs = files.map((f) => f.name.replace(/\\/g, "/").split("/").slice(0, -1));
+  const shared = dirs.reduce((common, dir) => common.filter((part, i) => dir[i] === part), dirs[0] ?? []).length;
+
+  const nodes: GraphNode[] = files.map((f) => {
+    const parts = f.name.replace(/\\/g, "/").split("/");
+    return {
+      id: moduleId(moduleKey(f.name)),
+      label: parts.slice(shared).join("/"),
+      group: parts.slice(shared, -1).join("/") || ".",
+    };
+  });
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const addNode = (node: GraphNode) => {
+    if (nodeIds.has(node.id)) return;
+    nodeIds.add(node.id);
+    nodes.push(node);
+  };
+
+  // Match a module path against the files by its trailing path segments,
+  // since dropped files usually come without their directories
+  const findFile = (path: string, whole = false): string | undefined => {
+    if (keys.has(path)) return path;
+    const segments = path.split("/").filter((s) => s !== "..");
+    for (let n = segments.length; n >= (whole ? segments.length : 1); n--) {
+      const suffix = segments.slice(-n).join("/");
+      const matches = [...keys.keys()].filter((key) => key === suffix || key.endsWith(`/${suffix}`));
+      if (matches.length === 1) return matches[0];
+      if (matches.length > 1) return undefined;
+    }
+    return undefined;
+  };
+
+  const edges = new Map<string, { from: string; to: string; typeOnly: boolean }>();
+  let packages = 0;
+  for (const file of files) {
+    const from = moduleId(moduleKey(file.name));
+    const dir = moduleKey(file.name).split("/").slice(0, -1).join("/");
+    for (const { specifier, typeOnly } of parseImports(file)) {
+      let to: string;
+      if (specifier.startsWith(".")) {
+        const path = moduleKey(joinPath(dir, specifier));
+        const key = findFile(path);
+        to = key ? moduleId(key) : `missing_${slug(path)}`;
+        if (!key) addNode({ id: to, label: specifier, group: "missing" });
+      } else {
+        // Path aliases such as "@/lib/x" and "~/x" are matched like paths
+        const alias = specifier.replace(/^[@~]\//, "");
+        const key = alias !== specifier ? findFile(moduleKey(alias)) : specifier.includes("/") ? findFile(specifier, true) : undefined;
+        if (key) {
+          to = moduleId(key);
+        } else if (alias !== specifier) {
+          to = `missing_${slug(alias)}`;
+          addNode({ id: to, label: specifier, group: "missing" });
+        } else {
+          const name = packageName(specifier);
+          to = `package_${slug(name)}`;
+          if (!nodeIds.has(to)) packages++;
+          addNode({ id: to, label: name, shape: "ellipse", group: "packages" });
+        }
+      }
+      if (to === from) continue;
+      const edgeKey = `${from}|${to}`;
+      const existing = edges.get(edgeKey);
+      if (existing) existing.typeOnly = existing.typeOnly && typeOnly;
+      else edges.set(edgeKey, { from, to, typeOnly });
+    }
+  }
+  if (edges.size === 0 && files.length === 1) {
+    return { ok: false, error: "No imports or class, interface and enum declarations found" };
+  }
+  const missing = nodes.filter((n) => n.group === "missing");
+  if (missing.length > 0) {
+    warnings.push(`${missing.length} local import${missing.length === 1 ? "" : "s"} not among the imported files: ${missing.map((n) => n.label).join(", ")}`);
+  }
+
+  const graph: Graph = {
+    nodes,
+    edges: [...edges.values()].map(({ from, to, typeOnly }) => ({ from, to, dashed: typeOnly })),
+  };
+  const elements = layoutGraph(graph);
+  for (const el of elements) {
+    if (el.type === "arrow" && el.start && el.end) {
+      el.id = `${el.start.id}_imports_${el.end.id}`;
+    } else if (el.type !== "text" && el.id && !el.id.startsWith("module_")) {
+      // Packages and missing files are drawn in gray around the project's modules
+      el.backgroundColor = PALETTE.gray;
+      if (el.id.startsWith("missing_")) el.strokeStyle = "dashed";
+    }
+  }
+
+  const moduleLabels = nodes.filter((n) => n.id.startsWith("module_")).map((n) => n.label);
+  return {
+    ok: true,
+    elements,
+    summary: `TypeScript module graph: ${files.length} module${files.length === 1 ? "" : "s"}, ${packages} package${packages === 1 ? "" : "s"}, ${edges.size} imports`,
+    warnings,
+    followUp: `Add a short note beside each module from the TypeScript import (${moduleLabels.slice(0, MAX_FOLLOW_UP_NAMES).join(", ")}${moduleLabels.length > MAX_FOLLOW_UP_NAMES ? ", …" : ""}) explaining its responsibility in one sentence. Use action "add" with text elements placed next to the existing boxes, and leave the existing elements unchanged.`,
+  };
+}
+
+/**
+ * Convert TypeScript sources into a class diagram (classes, interfaces and
+ * enums with their members, extends / implements arrows and arrows for
+ * properties typed with another declaration) or a module import graph.
+ * "auto" draws classes when there are any.
+ */
+export function parseTypeScript(files: SourceFile[], view: TypeScriptView = "auto"): TypeScriptResult {
+  const sources = files.filter((f) => f.text.trim());
+  if (sources.length === 0) return { ok: false, error: "No source to import" };
+  const warnings: string[] = [];
+  if (view === "modules") return buildModuleGraph(sources, warnings);
+
+  const declarations = sources.flatMap((f) => parseDeclarations(f, warnings));
+  if (declarations.length > 0) return buildClassDiagram(declarations, warnings);
+  if (view === "classes") return { ok: false, error: "No class, interface or enum declarations found" };
+  return buildModuleGraph(sources, warnings);
+}
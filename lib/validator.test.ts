@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseDiagramResponse,
+  parseLLMJson,
+  summarizeReport,
+  validateDiagramResponse,
+  validateGraphResponse,
+  validateOperation,
+} from "./validator";
+
+describe("parseLLMJson", () => {
+  it("parses plain JSON", () => {
+    expect(parseLLMJson('{"a":1}')).toEqual({ ok: true, value: { a: 1 } });
+  });
+
+  it("strips code fences and surrounding prose", () => {
+    expect(parseLLMJson('Here you go:\n```json\n{"a":1}\n```')).toEqual({ ok: true, value: { a: 1 } });
+    expect(parseLLMJson('Sure! {"a":1} Hope that helps.')).toEqual({ ok: true, value: { a: 1 } });
+  });
+
+  it("fails on empty or non-JSON output", () => {
+    expect(parseLLMJson("  ")).toEqual({ ok: false, error: "Response was empty" });
+    expect(parseLLMJson("no json here").ok).toBe(false);
+  });
+});
+
+describe("validateDiagramResponse", () => {
+  it("repairs aliases, stringified numbers, colors and string labels", () => {
+    const result = validateDiagramResponse({
+      action: "add",
+      elements: [{ id: "a", type: "box", x: "10", y: 20, backgroundColor: "light blue", label: "API" }],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.response.elements).toEqual([
+      {
+        id: "a",
+        type: "rectangle",
+        x: 10,
+        y: 20,
+        width: 200,
+        height: 80,
+        backgroundColor: "#a5d8ff",
+        label: { text: "API" },
+      },
+    ]);
+    expect(result.report.dropped).toEqual([]);
+    expect(result.report.fixed.map((issue) => issue.message)).toContain('Mapped type "box" to "rectangle"');
+  });
+
+  it("does not take inherited object keys for colors or type aliases", () => {
+    const result = validateDiagramResponse({
+      action: "add",
+      elements: [
+        {
+          id: "a",
+          type: "rectangle",
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          strokeColor: "constructor",
+          backgroundColor: "toString",
+        },
+        { id: "b", type: "constructor", x: 0, y: 0 },
+      ],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.response.elements).toHaveLength(1);
+    expect(result.response.elements[0]).toMatchObject({ strokeColor: "#1e1e1e" });
+    expect(result.response.elements[0]).not.toHaveProperty("backgroundColor");
+    expect(result.report.fixed.map((issue) => issue.message)).toEqual([
+      'Replaced unknown strokeColor "constructor" with #1e1e1e',
+      'Removed unknown backgroundColor "toString"',
+    ]);
+    expect(result.report.dropped).toHaveLength(1);
+  });
+
+  it("defaults a missing action and renames duplicate ids", () => {
+    const result = validateDiagramResponse({
+      elements: [
+        { id: "a", type: "rectangle", x: 0, y: 0, width: 10, height: 10 },
+        { id: "a", type: "ellipse", x: 50, y: 0, width: 10, height: 10 },
+      ],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.response.action).toBe("add");
+    expect(result.response.elements.map((el) => el.id)).toEqual(["a", "a_2"]);
+  });
+
+  it("computes arrow geometry from bound shapes and drops dangling bindings", () => {
+    const result = validateDiagramResponse({
+      action: "add",
+      elements: [
+        { id: "a", type: "rectangle", x: 0, y: 0, width: 100, height: 50 },
+        { id: "b", type: "rectangle", x: 200, y: 0, width: 100, height: 50 },
+        { type: "arrow", start: "a", end: { id: "b" } },
+        { type: "arrow", x: 0, y: 0, width: 10, height: 0, start: { id: "missing" } },
+      ],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const [, , bound, dangling] = result.response.elements;
+    expect(bound).toMatchObject({
+      x: 50,
+      y: 25,
+      width: 200,
+      height: 0,
+      start: { id: "a", type: "rectangle" },
+      end: { id: "b", type: "rectangle" },
+    });
+    expect(dangling).not.toHaveProperty("start");
+  });
+
+  it("keeps bindings to shapes already on the canvas", () => {
+    const result = validateDiagramResponse(
+      { action: "add", elements: [{ type: "arrow", x: 0, y: 0, width: 10, height: 10, end: "old" }] },
+      { existingIds: ["old"] },
+    );
+    expect(result.ok && result.response.elements[0]).toMatchObject({ end: { id: "old", type: "rectangle" } });
+  });
+
+  it("drops unusable elements and fails when none remain", () => {
+    const result = validateDiagramResponse({
+      action: "add",
+      elements: ["nope", { type: "star", x: 0, y: 0 }, { type: "rectangle" }, { type: "text", x: 0, y: 0 }],
+    });
+    expect(result).toMatchObject({ ok: false, error: "No valid elements remained after validation" });
+    expect(result.report.dropped).toHaveLength(4);
+  });
+
+  it("rejects responses without elements", () => {
+    expect(validateDiagramResponse([]).ok).toBe(false);
+    expect(validateDiagramResponse({ action: "add", elements: [] })).toMatchObject({
+      ok: false,
+      error: 'The "elements" array is empty',
+    });
+  });
+});
+
+describe("parseDiagramResponse", () => {
+  it("reports invalid JSON", () => {
+    expect(parseDiagramResponse("{oops")).toMatchObject({ ok: false });
+  });
+});
+
+describe("validateGraphResponse", () => {
+  it("fills in labels and drops edges to unknown nodes", () => {
+    const result = validateGraphResponse({
+      action: "add",
+      layout: "sideways",
+      nodes: [{ id: "a" }, { id: 2, label: "Two", shape: "circle" }, { id: "a" }],
+      edges: [
+        { from: "a", to: 2, label: "calls" },
+        { from: "a", to: "c" },
+      ],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.response.layout).toBeUndefined();
+    expect(result.response.graph).toEqual({
+      nodes: [
+        { id: "a", label: "a" },
+        { id: "2", label: "Two", shape: "ellipse" },
+      ],
+      edges: [{ from: "a", to: "2", label: "calls" }],
+    });
+    expect(result.report.dropped).toHaveLength(2);
+  });
+});
+
+describe("validateOperation", () => {
+  it("keeps only ids that are on the canvas", () => {
+    const result = validateOperation({ action: "delete", ids: ["a", "b", "a"] }, { existingIds: ["a"] });
+    expect(result).toMatchObject({ ok: true, response: { action: "delete", ids: ["a"] } });
+  });
+
+  it("reads restyle properties placed next to the ids", () => {
+    const result = validateOperation(
+      { action: "restyle", ids: ["a"], strokeColor: "red", fontSize: "20" },
+      { existingIds: ["a"] },
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      response: { action: "restyle", ids: ["a"], style: { strokeColor: "#ffc9c9", fontSize: 20 } },
+    });
+  });
+
+  it("fails a restyle without style properties", () => {
+    const result = validateOperation({ action: "restyle", ids: ["a"], style: {} }, { existingIds: ["a"] });
+    expect(result).toMatchObject({ ok: false, error: "restyle has no style properties to apply" });
+  });
+});
+
+describe("summarizeReport", () => {
+  it("counts fixes and drops", () => {
+    const issue = { index: 0, message: "" };
+    expect(summarizeReport({ fixed: [issue, issue], dropped: [issue] })).toBe("fixed 2 issues, dropped 1 element");
+    expect(summarizeReport({ fixed: [], dropped: [] })).toBe("");
+  });
+});
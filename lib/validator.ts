@@ -0,0 +1,768 @@
+// Server-side validation and auto-repair of LLM skeleton output.
+// Everything the model returns passes through here before it is sent to the
+// client, so convertToExcalidrawElements() only ever sees well-formed skeletons.
+
+import {
+  DEFAULT_SHAPE_SIZE,
+  DEFAULT_STROKE_COLOR,
+  DIAGRAM_ACTIONS,
+  PALETTE,
+  isShapeType,
+  type ArrowEndpoint,
+  type DiagramAction,
+  type DiagramOperation,
+  type DiagramResponse,
+  type LinearSkeleton,
+  type RestyleStyle,
+  type ShapeSkeleton,
+  type SkeletonElement,
+  type SkeletonLabel,
+  type SkeletonStyle,
+  type TextSkeleton,
+} from "./skeleton";
+import {
+  LAYOUT_DIRECTIONS,
+  type Graph,
+  type GraphEdge,
+  type GraphNode,
+  type LayoutDirection,
+} from "./layout";
+
+export interface ValidationIssue {
+  // Position in the original elements array, or -1 for top-level issues
+  index: number;
+  id?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  fixed: ValidationIssue[];
+  dropped: ValidationIssue[];
+}
+
+export type ValidationResult =
+  | { ok: true; response: DiagramResponse; report: ValidationReport }
+  | { ok: false; error: string; report: ValidationReport };
+
+export type OperationValidationResult =
+  | { ok: true; response: DiagramOperation; report: ValidationReport }
+  | { ok: false; error: string; report: ValidationReport };
+
+export interface GraphResponse {
+  action: DiagramAction;
+  layout?: LayoutDirection;
+  graph: Graph;
+}
+
+export type GraphValidationResult =
+  | { ok: true; response: GraphResponse; report: ValidationReport }
+  | { ok: false; error: string; report: ValidationReport };
+
+export type ParseResult =
+  | { ok: true; value: unknown }
+  | { ok: false; error: string };
+
+export interface ValidateOptions {
+  // IDs already on the canvas; arrows may legitimately reference them
+  existingIds?: Iterable<string>;
+}
+
+// Common shape names models use instead of the documented ones
+const TYPE_ALIASES: Record<string, SkeletonElement["type"]> = {
+  rect: "rectangle",
+  box: "rectangle",
+  square: "rectangle",
+  circle: "ellipse",
+  oval: "ellipse",
+  rhombus: "diamond",
+  label: "text",
+};
+
+// Own keys only, so names like "constructor" are not taken for aliases
+function typeAlias(type: string): SkeletonElement["type"] | undefined {
+  return Object.hasOwn(TYPE_ALIASES, type) ? TYPE_ALIASES[type] : undefined;
+}
+
+const FILL_STYLES = ["hachure", "cross-hatch", "solid", "zigzag"] as const;
+const STROKE_STYLES = ["solid", "dashed", "dotted"] as const;
+
+/**
+ * Parse raw model output into a JSON value. Handles the usual ways models
+ * wrap JSON: markdown code fences and leading/trailing prose.
+ */
+export function parseLLMJson(content: string): ParseResult {
+  const trimmed = content.trim();
+  if (!trimmed) return { ok: false, error: "Response was empty" };
+
+  let firstError: string;
+  try {
+    return { ok: true, value: JSON.parse(trimmed) };
+  } catch (err) {
+    firstError = err instanceof Error ? err.message : String(err);
+  }
+
+  // Strip ```json fences
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    try {
+      return { ok: true, value: JSON.parse(fenced[1]) };
+    } catch {
+      // Fall through to the greedy match
+    }
+  }
+
+  // Try to extract the outermost object from surrounding text
+  const jsonMatch = trimmed.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { ok: false, error: `No JSON object found in response (${firstError})` };
+  }
+  try {
+    return { ok: true, value: JSON.parse(jsonMatch[0]) };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Accept finite numbers and numeric strings such as "120" or "120px"
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*(px)?\s*$/.test(value)) {
+    return parseFloat(value);
+  }
+  return undefined;
+}
+
+function normalizeColor(value: string): string | undefined {
+  const color = value.trim().toLowerCase();
+  if (/^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(color)) return color;
+  if (/^[0-9a-f]{6}$/.test(color)) return `#${color}`;
+  if (color === "transparent") return color;
+  if (/^(rgb|rgba|hsl|hsla)\([^)]*\)$/.test(color)) return color;
+  const named = color.replace(/^light\s*/, "").replace(/\s+/g, "");
+  return Object.hasOwn(PALETTE, named) ? PALETTE[named] : undefined;
+}
+
+class ElementRepairer {
+  readonly report: ValidationReport = { fixed: [], dropped: [] };
+
+  fix(index: number, id: string | undefined, message: string) {
+    this.report.fixed.push({ index, id, message });
+  }
+
+  drop(index: number, id: string | undefined, message: string) {
+    this.report.dropped.push({ index, id, message });
+  }
+
+  // Read a required numeric field, repairing stringified numbers
+  number(
+    raw: Record<string, unknown>,
+    field: string,
+    index: number,
+    id: string | undefined,
+  ): number | undefined {
+    const value = raw[field];
+    const num = toNumber(value);
+    if (num !== undefined && typeof value !== "number") {
+      this.fix(index, id, `Converted ${field} ${JSON.stringify(value)} to a number`);
+    }
+    return num;
+  }
+
+  style(
+    raw: Record<string, unknown>,
+    index: number,
+    id: string | undefined,
+  ): SkeletonStyle {
+    const style: SkeletonStyle = {};
+
+    for (const field of ["strokeColor", "backgroundColor"] as const) {
+      const value = raw[field];
+      if (value === undefined) continue;
+      const color = typeof value === "string" ? normalizeColor(value) : undefined;
+      if (color) {
+        if (color !== String(value).trim().toLowerCase()) {
+          this.fix(index, id, `Normalized ${field} ${JSON.stringify(value)} to ${color}`);
+        }
+        style[field] = color;
+      } else if (field === "strokeColor") {
+        this.fix(index, id, `Replaced unknown strokeColor ${JSON.stringify(value)} with ${DEFAULT_STROKE_COLOR}`);
+        style.strokeColor = DEFAULT_STROKE_COLOR;
+      } else {
+        this.fix(index, id, `Removed unknown backgroundColor ${JSON.stringify(value)}`);
+      }
+    }
+
+    if (raw.fillStyle !== undefined) {
+      if ((FILL_STYLES as readonly unknown[]).includes(raw.fillStyle)) {
+        style.fillStyle = raw.fillStyle as SkeletonStyle["fillStyle"];
+      } else {
+        this.fix(index, id, `Removed unknown fillStyle ${JSON.stringify(raw.fillStyle)}`);
+      }
+    }
+    if (raw.strokeStyle !== undefined) {
+      if ((STROKE_STYLES as readonly unknown[]).includes(raw.strokeStyle)) {
+        style.strokeStyle = raw.strokeStyle as SkeletonStyle["strokeStyle"];
+      } else {
+        this.fix(index, id, `Removed unknown strokeStyle ${JSON.stringify(raw.strokeStyle)}`);
+      }
+    }
+    for (const field of ["strokeWidth", "roughness", "opacity"] as const) {
+      if (raw[field] === undefined) continue;
+      const num = this.number(raw, field, index, id);
+      if (num === undefined) {
+        this.fix(index, id, `Removed non-numeric ${field}`);
+      } else {
+        style[field] = num;
+      }
+    }
+
+    return style;
+  }
+
+  groupIds(
+    raw: Record<string, unknown>,
+    index: number,
+    id: string | undefined,
+  ): string[] | undefined {
+    const value = raw.groupIds;
+    if (value === undefined) return undefined;
+    if (Array.isArray(value) && value.every((g) => typeof g === "string")) {
+      return value.length > 0 ? (value as string[]) : undefined;
+    }
+    this.fix(index, id, "Removed malformed groupIds");
+    return undefined;
+  }
+
+  label(
+    raw: Record<string, unknown>,
+    index: number,
+    id: string | undefined,
+  ): SkeletonLabel | undefined {
+    const value = raw.label;
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "string") {
+      this.fix(index, id, "Wrapped string label in { text }");
+      return value ? { text: value } : undefined;
+    }
+    if (isRecord(value) && typeof value.text === "string") {
+      const label: SkeletonLabel = { text: value.text };
+      const fontSize = toNumber(value.fontSize);
+      if (fontSize !== undefined) label.fontSize = fontSize;
+      return label;
+    }
+    this.fix(index, id, "Removed malformed label");
+    return undefined;
+  }
+
+  endpoint(
+    value: unknown,
+    index: number,
+    id: string | undefined,
+    which: "start" | "end",
+  ): ArrowEndpoint | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "string") {
+      this.fix(index, id, `Wrapped ${which} reference "${value}" in { id }`);
+      return { id: value };
+    }
+    if (isRecord(value) && (typeof value.id === "string" || typeof value.id === "number")) {
+      const endpoint: ArrowEndpoint = { id: String(value.id) };
+      if (isShapeType(value.type)) endpoint.type = value.type;
+      return endpoint;
+    }
+    this.fix(index, id, `Removed ${which} binding without an id`);
+    return undefined;
+  }
+}
+
+function endpointCenter(shape: ShapeSkeleton) {
+  return { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
+}
+
+/**
+ * Validate a parsed `{action, elements}` object against the contract in
+ * SYSTEM_PROMPT, repairing what can be repaired and dropping the rest.
+ */
+export function validateDiagramResponse(
+  value: unknown,
+  options: ValidateOptions = {},
+): ValidationResult {
+  const repairer = new ElementRepairer();
+  const { report } = repairer;
+
+  if (!isRecord(value)) {
+    return { ok: false, error: "Response is not a JSON object", report };
+  }
+
+  let action: DiagramAction = "add";
+  if (value.action === undefined) {
+    repairer.fix(-1, undefined, 'Missing action, defaulted to "add"');
+  } else if ((DIAGRAM_ACTIONS as readonly unknown[]).includes(value.action)) {
+    action = value.action as DiagramAction;
+  } else {
+    repairer.fix(-1, undefined, `Unknown action ${JSON.stringify(value.action)}, defaulted to "add"`);
+  }
+
+  if (!Array.isArray(value.elements)) {
+    return { ok: false, error: 'Response is missing the "elements" array', report };
+  }
+  if (value.elements.length === 0) {
+    return { ok: false, error: 'The "elements" array is empty', report };
+  }
+
+  const elements: SkeletonElement[] = [];
+  // Original index of each accepted element, for reporting in the arrow pass
+  const sourceIndex = new Map<SkeletonElement, number>();
+  const usedIds = new Set<string>();
+
+  value.elements.forEach((raw: unknown, index: number) => {
+    if (!isRecord(raw)) {
+      repairer.drop(index, undefined, "Element is not an object");
+      return;
+    }
+
+    // Resolve the element ID first so every later issue can reference it
+    let id: string | undefined;
+    if (typeof raw.id === "string" && raw.id) {
+      id = raw.id;
+    } else if (typeof raw.id === "number") {
+      id = String(raw.id);
+      repairer.fix(index, id, "Converted numeric id to a string");
+    } else if (raw.id !== undefined) {
+      repairer.fix(index, undefined, "Removed invalid id");
+    }
+    if (id && usedIds.has(id)) {
+      let n = 2;
+      while (usedIds.has(`${id}_${n}`)) n++;
+      repairer.fix(index, id, `Renamed duplicate id to "${id}_${n}"`);
+      id = `${id}_${n}`;
+    }
+
+    let type = typeof raw.type === "string" ? raw.type.toLowerCase() : undefined;
+    const alias = type && typeAlias(type);
+    if (alias) {
+      repairer.fix(index, id, `Mapped type "${type}" to "${alias}"`);
+      type = alias;
+    }
+
+    const x = repairer.number(raw, "x", index, id);
+    const y = repairer.number(raw, "y", index, id);
+    const style = repairer.style(raw, index, id);
+    let element: SkeletonElement;
+
+    if (isShapeType(type)) {
+      if (x === undefined || y === undefined) {
+        repairer.drop(index, id, `${type} is missing numeric x/y coordinates`);
+        return;
+      }
+      const defaults = DEFAULT_SHAPE_SIZE[type];
+      let width = repairer.number(raw, "width", index, id);
+      let height = repairer.number(raw, "height", index, id);
+      if (width === undefined || width === 0) {
+        repairer.fix(index, id, `Missing width, defaulted to ${defaults.width}`);
+        width = defaults.width;
+      }
+      if (height === undefined || height === 0) {
+        repairer.fix(index, id, `Missing height, defaulted to ${defaults.height}`);
+        height = defaults.height;
+      }
+      const shape: ShapeSkeleton = {
+        type,
+        x,
+        y,
+        width: Math.abs(width),
+        height: Math.abs(height),
+        ...style,
+      };
+      // Normalize negative sizes by moving the origin
+      if (width < 0) shape.x += width;
+      if (height < 0) shape.y += height;
+      if (width < 0 || height < 0) {
+        repairer.fix(index, id, "Normalized negative width/height");
+      }
+      const label = repairer.label(raw, index, id);
+      if (label) shape.label = label;
+      if (!shape.label && typeof raw.text === "string" && raw.text) {
+        repairer.fix(index, id, "Moved text property into label");
+        shape.label = { text: raw.text };
+      }
+      element = shape;
+    } else if (type === "text") {
+      if (x === undefined || y === undefined) {
+        repairer.drop(index, id, "text is missing numeric x/y coordinates");
+        return;
+      }
+      let text: string | undefined;
+      if (typeof raw.text === "string") {
+        text = raw.text;
+      } else if (typeof raw.text === "number") {
+        text = String(raw.text);
+      } else if (isRecord(raw.label) && typeof raw.label.text === "string") {
+        repairer.fix(index, id, "Moved label.text into text");
+        text = raw.label.text;
+      }
+      if (!text) {
+        repairer.drop(index, id, "text element has no text");
+        return;
+      }
+      const textEl: TextSkeleton = { type: "text", x, y, text, ...style };
+      if (raw.fontSize !== undefined) {
+        const fontSize = repairer.number(raw, "fontSize", index, id);
+        if (fontSize !== undefined && fontSize > 0) {
+          textEl.fontSize = fontSize;
+        } else {
+          repairer.fix(index, id, "Removed invalid fontSize");
+        }
+      }
+      element = textEl;
+    } else if (type === "arrow" || type === "line") {
+      const linear: LinearSkeleton = {
+        type,
+        x: x ?? NaN,
+        y: y ?? NaN,
+        width: repairer.number(raw, "width", index, id) ?? NaN,
+        height: repairer.number(raw, "height", index, id) ?? NaN,
+        ...style,
+      };
+      const label = repairer.label(raw, index, id);
+      if (label) linear.label = label;
+      if (type === "arrow") {
+        const start = repairer.endpoint(raw.start, index, id, "start");
+        const end = repairer.endpoint(raw.end, index, id, "end");
+        if (start) linear.start = start;
+        if (end) linear.end = end;
+      }
+      // Geometry is checked after all shapes are known; arrows can be
+      // repaired from their endpoints
+      element = linear;
+    } else {
+      repairer.drop(index, id, `Unknown element type ${JSON.stringify(raw.type)}`);
+      return;
+    }
+
+    const groupIds = repairer.groupIds(raw, index, id);
+    if (groupIds) element.groupIds = groupIds;
+    if (id) {
+      element.id = id;
+      usedIds.add(id);
+    }
+    elements.push(element);
+    sourceIndex.set(element, index);
+  });
+
+  // Second pass: resolve arrow bindings and geometry now that all shapes are known
+  const shapesById = new Map<string, ShapeSkeleton>();
+  for (const el of elements) {
+    if (el.id && isShapeType(el.type)) shapesById.set(el.id, el as ShapeSkeleton);
+  }
+  const existingIds = new Set(options.existingIds ?? []);
+
+  const resolveEndpoint = (
+    linear: LinearSkeleton,
+    which: "start" | "end",
+    index: number,
+  ) => {
+    const endpoint = linear[which];
+    if (!endpoint) return;
+    const shape = shapesById.get(endpoint.id);
+    if (shape) {
+      if (endpoint.type !== shape.type) {
+        repairer.fix(index, linear.id, `Set ${which}.type to "${shape.type}" to match "${endpoint.id}"`);
+        endpoint.type = shape.type;
+      }
+      return;
+    }
+    if (existingIds.has(endpoint.id)) {
+      if (!endpoint.type) endpoint.type = "rectangle";
+      return;
+    }
+    repairer.fix(index, linear.id, `Removed ${which} binding to missing shape "${endpoint.id}"`);
+    delete linear[which];
+  };
+
+  const accepted = elements.filter((el) => {
+    if (el.type !== "arrow" && el.type !== "line") return true;
+    const index = sourceIndex.get(el) ?? -1;
+    resolveEndpoint(el, "start", index);
+    resolveEndpoint(el, "end", index);
+
+    const startShape = el.start && shapesById.get(el.start.id);
+    const endShape = el.end && shapesById.get(el.end.id);
+    if (Number.isNaN(el.x) || Number.isNaN(el.y)) {
+      if (startShape && endShape) {
+        const from = endpointCenter(startShape);
+        const to = endpointCenter(endShape);
+        el.x = from.x;
+        el.y = from.y;
+        el.width = to.x - from.x;
+        el.height = to.y - from.y;
+        repairer.fix(index, el.id, "Computed missing coordinates from bound shapes");
+      } else {
+        repairer.drop(index, el.id, `${el.type} is missing numeric x/y coordinates`);
+        return false;
+      }
+    }
+    if (Number.isNaN(el.width)) {
+      repairer.fix(index, el.id, "Missing width, defaulted to 0");
+      el.width = 0;
+    }
+    if (Number.isNaN(el.height)) {
+      repairer.fix(index, el.id, "Missing height, defaulted to 0");
+      el.height = 0;
+    }
+    if (el.width === 0 && el.height === 0 && !(startShape && endShape)) {
+      repairer.drop(index, el.id, `${el.type} has zero length`);
+      return false;
+    }
+    return true;
+  });
+
+  if (accepted.length === 0) {
+    return { ok: false, error: "No valid elements remained after validation", report };
+  }
+
+  return { ok: true, response: { action, elements: accepted }, report };
+}
+
+/**
+ * Parse and validate raw model output in one step.
+ */
+export function parseDiagramResponse(
+  content: string,
+  options: ValidateOptions = {},
+): ValidationResult {
+  const parsed = parseLLMJson(content);
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      error: `Invalid JSON: ${parsed.error}`,
+      report: { fixed: [], dropped: [] },
+    };
+  }
+  return validateDiagramResponse(parsed.value, options);
+}
+
+/**
+ * Validate a coordinate-free `{action, layout, nodes, edges}` response.
+ * Nodes without an id or label are dropped, and so are edges that refer to
+ * nodes that do not exist.
+ */
+export function validateGraphResponse(value: unknown): GraphValidationResult {
+  const repairer = new ElementRepairer();
+  const { report } = repairer;
+
+  if (!isRecord(value)) {
+    return { ok: false, error: "Response is not a JSON object", report };
+  }
+
+  let action: DiagramAction = "add";
+  if (value.action === undefined) {
+    repairer.fix(-1, undefined, 'Missing action, defaulted to "add"');
+  } else if ((DIAGRAM_ACTIONS as readonly unknown[]).includes(value.action)) {
+    action = value.action as DiagramAction;
+  } else {
+    repairer.fix(-1, undefined, `Unknown action ${JSON.stringify(value.action)}, defaulted to "add"`);
+  }
+
+  let layout: LayoutDirection | undefined;
+  if (value.layout !== undefined) {
+    if ((LAYOUT_DIRECTIONS as readonly unknown[]).includes(value.layout)) {
+      layout = value.layout as LayoutDirection;
+    } else {
+      repairer.fix(-1, undefined, `Ignored unknown layout ${JSON.stringify(value.layout)}`);
+    }
+  }
+
+  if (!Array.isArray(value.nodes)) {
+    return { ok: false, error: 'Response is missing the "nodes" array', report };
+  }
+  if (value.nodes.length === 0) {
+    return { ok: false, error: 'The "nodes" array is empty', report };
+  }
+
+  const nodes: GraphNode[] = [];
+  const ids = new Set<string>();
+  value.nodes.forEach((raw: unknown, index: number) => {
+    if (!isRecord(raw)) {
+      repairer.drop(index, undefined, "Node is not an object");
+      return;
+    }
+    const id = typeof raw.id === "string" || typeof raw.id === "number" ? String(raw.id) : "";
+    if (!id) {
+      repairer.drop(index, undefined, "Node has no id");
+      return;
+    }
+    if (ids.has(id)) {
+      repairer.drop(index, id, "Duplicate node id");
+      return;
+    }
+    let label = typeof raw.label === "string" ? raw.label : "";
+    if (!label && isRecord(raw.label) && typeof raw.label.text === "string") {
+      label = raw.label.text;
+    }
+    if (!label) {
+      repairer.fix(index, id, "Missing label, used the id");
+      label = id;
+    }
+    const node: GraphNode = { id, label };
+    if (raw.shape !== undefined) {
+      const shape = typeof raw.shape === "string" ? raw.shape.toLowerCase() : "";
+      const mapped = isShapeType(shape) ? shape : typeAlias(shape);
+      if (isShapeType(mapped)) {
+        node.shape = mapped;
+      } else {
+        repairer.fix(index, id, `Unknown shape ${JSON.stringify(raw.shape)}, used rectangle`);
+      }
+    }
+    if (typeof raw.group === "string" && raw.group) node.group = raw.group;
+    ids.add(id);
+    nodes.push(node);
+  });
+
+  if (nodes.length === 0) {
+    return { ok: false, error: "No valid nodes remained after validation", report };
+  }
+
+  const edges: GraphEdge[] = [];
+  const rawEdges = Array.isArray(value.edges) ? value.edges : [];
+  if (value.edges !== undefined && !Array.isArray(value.edges)) {
+    repairer.fix(-1, undefined, 'Ignored non-array "edges"');
+  }
+  rawEdges.forEach((raw: unknown, index: number) => {
+    if (!isRecord(raw)) {
+      repairer.drop(index, undefined, "Edge is not an object");
+      return;
+    }
+    const from = raw.from !== undefined ? String(raw.from) : "";
+    const to = raw.to !== undefined ? String(raw.to) : "";
+    if (!ids.has(from) || !ids.has(to)) {
+      repairer.drop(index, undefined, `Edge ${from} → ${to} references a missing node`);
+      return;
+    }
+    const edge: GraphEdge = { from, to };
+    if (typeof raw.label === "string" && raw.label) edge.label = raw.label;
+    edges.push(edge);
+  });
+
+  return { ok: true, response: { action, layout, graph: { nodes, edges } }, report };
+}
+
+export function parseGraphResponse(content: string): GraphValidationResult {
+  const parsed = parseLLMJson(content);
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      error: `Invalid JSON: ${parsed.error}`,
+      report: { fixed: [], dropped: [] },
+    };
+  }
+  return validateGraphResponse(parsed.value);
+}
+
+// IDs of a delete or restyle, limited to elements that are on the canvas
+function targetIds(
+  value: Record<string, unknown>,
+  repairer: ElementRepairer,
+  options: ValidateOptions,
+): string[] | string {
+  if (!Array.isArray(value.ids)) return 'Missing the "ids" array';
+  const existing = new Set(options.existingIds ?? []);
+  const ids: string[] = [];
+  value.ids.forEach((raw: unknown, index: number) => {
+    const id = typeof raw === "string" || typeof raw === "number" ? String(raw) : "";
+    if (!id) {
+      repairer.drop(index, undefined, "Invalid id");
+    } else if (!existing.has(id)) {
+      repairer.drop(index, id, "No element with this id on the canvas");
+    } else if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  });
+  return ids.length > 0 ? ids : "None of the ids refer to elements on the canvas";
+}
+
+function validateRestyle(
+  value: Record<string, unknown>,
+  repairer: ElementRepairer,
+): RestyleStyle | string {
+  let raw = value.style;
+  if (!isRecord(raw)) {
+    // Models sometimes put the properties next to "ids"
+    raw = value;
+    repairer.fix(-1, undefined, 'Missing "style" object, used top-level properties');
+  }
+  const source = raw as Record<string, unknown>;
+  const style: RestyleStyle = repairer.style(source, -1, undefined);
+  if (source.fontSize !== undefined) {
+    const fontSize = repairer.number(source, "fontSize", -1, undefined);
+    if (fontSize !== undefined && fontSize > 0) {
+      style.fontSize = fontSize;
+    } else {
+      repairer.fix(-1, undefined, "Removed invalid fontSize");
+    }
+  }
+  return Object.keys(style).length > 0 ? style : "restyle has no style properties to apply";
+}
+
+/**
+ * Validate any operation from the JSON contract: `delete` and `restyle`
+ * take IDs of existing elements, everything else goes through
+ * validateDiagramResponse.
+ */
+export function validateOperation(
+  value: unknown,
+  options: ValidateOptions = {},
+): OperationValidationResult {
+  if (!isRecord(value) || (value.action !== "delete" && value.action !== "restyle")) {
+    return validateDiagramResponse(value, options);
+  }
+
+  const repairer = new ElementRepairer();
+  const { report } = repairer;
+  const ids = targetIds(value, repairer, options);
+  if (typeof ids === "string") return { ok: false, error: ids, report };
+  if (value.action === "delete") {
+    return { ok: true, response: { action: "delete", ids }, report };
+  }
+
+  const style = validateRestyle(value, repairer);
+  if (typeof style === "string") return { ok: false, error: style, report };
+  return { ok: true, response: { action: "restyle", ids, style }, report };
+}
+
+/**
+ * Parse and validate raw model output that may hold any operation.
+ */
+export function parseOperation(
+  content: string,
+  options: ValidateOptions = {},
+): OperationValidationResult {
+  const parsed = parseLLMJson(content);
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      error: `Invalid JSON: ${parsed.error}`,
+      report: { fixed: [], dropped: [] },
+    };
+  }
+  return validateOperation(parsed.value, options);
+}
+
+// One-line human summary of a report, e.g. "fixed 2 issues, dropped 1 element"
+export function summarizeReport(report: ValidationReport): string {
+  const parts: string[] = [];
+  if (report.fixed.length > 0) {
+    parts.push(`fixed ${report.fixed.length} issue${report.fixed.length === 1 ? "" : "s"}`);
+  }
+  if (report.dropped.length > 0) {
+    parts.push(`dropped ${report.dropped.length} element${report.dropped.length === 1 ? "" : "s"}`);
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { parseYaml } from "./yaml";
+
+function value(text: string) {
+  const result = parseYaml(text);
+  if (!result.ok) throw new Error(result.error);
+  return result.value;
+}
+
+describe("parseYaml", () => {
+  it("reads nested mappings and sequences", () => {
+    expect(
+      value(`# comment
+name: api
+servers:
+  - url: https://example.com  # trailing comment
+    primary: true
+  - url: http://localhost
+tags:
+- a
+- b
+`),
+    ).toEqual({
+      name: "api",
+      servers: [{ url: "https://example.com", primary: true }, { url: "http://localhost" }],
+      tags: ["a", "b"],
+    });
+  });
+
+  it("types plain scalars and keeps quoted ones as strings", () => {
+    expect(
+      value(`int: 42
+float: -1.5e3
+yes: true
+nothing: ~
+empty:
+version: "3.0"
+single: 'it''s'
+escaped: "a\\tb\\u0041"
+hash: a#b
+`),
+    ).toEqual({
+      int: 42,
+      float: -1500,
+      yes: true,
+      nothing: null,
+      empty: null,
+      version: "3.0",
+      single: "it's",
+      escaped: "a\tbA",
+      hash: "a#b",
+    });
+  });
+
+  it("reads literal and folded block scalars", () => {
+    expect(value("literal: |\n  one\n  two\nfolded: >\n  one\n  two\nafter: x\n")).toEqual({
+      literal: "one\ntwo\n",
+      folded: "one two\n",
+      after: "x",
+    });
+  });
+
+  it("reads flow collections", () => {
+    expect(value("required: [id, name]\nenum: {a: 1, 'b': [true, null]}\nnone: []\n")).toEqual({
+      required: ["id", "name"],
+      enum: { a: 1, b: [true, null] },
+      none: [],
+    });
+  });
+
+  it("hands JSON to JSON.parse", () => {
+    expect(value('{"a": [1, 2], "b": {"c": null}}')).toEqual({ a: [1, 2], b: { c: null } });
+  });
+
+  it("reports errors with their line", () => {
+    expect(parseYaml("a: [1, 2\nb: 3")).toMatchObject({ ok: false, error: expect.stringMatching(/\(line \d+\)$/) });
+    expect(parseYaml("a:\n  b: 1\n c: 2\n")).toEqual({ ok: false, error: "Unexpected indentation (line 3)" });
+  });
+});
@@ -0,0 +1,337 @@
+// Minimal YAML reader for the subset API descriptions are written in: block
+// mappings and sequences, plain and quoted scalars, literal and folded block
+// scalars, and flow collections ([a, b], {a: 1}). Anchors, tags and
+// multi-document streams are not supported.
+
+export type YamlResult = { ok: true; value: unknown } | { ok: false; error: string };
+
+class YamlError extends Error {
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line + 1})`);
+  }
+}
+
+const KEY_RE = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#{[\]},&*!|>%@`-][^#]*?|-[^\s#][^#]*?)\s*:(?=\s|$)/;
+const NUMBER_RE = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// Cut a trailing "# comment" that is outside of quotes
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function unescapeDouble(body: string): string {
+  return body.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/g, (_, esc: string) => {
+    if (esc[0] === "u" || esc[0] === "x") return String.fromCharCode(parseInt(esc.slice(1), 16));
+    const map: Record<string, string> = { n: "\n", t: "\t", r: "\r", "0": "\0", "/": "/" };
+    return map[esc] ?? esc;
+  });
+}
+
+function parseScalar(text: string): unknown {
+  const value = text.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return unescapeDouble(value.slice(1, -1));
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === "" || value === "~" || value === "null" || value === "Null" || value === "NULL") return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (NUMBER_RE.test(value)) return Number(value);
+  return value;
+}
+
+// Flow collections, parsed from a single string
+class FlowParser {
+  private pos = 0;
+
+  constructor(private readonly text: string, private readonly line: number) {}
+
+  parse(): unknown {
+    const value = this.value();
+    this.space();
+    if (this.pos < this.text.length) throw new YamlError("Unexpected text after flow collection", this.line);
+    return value;
+  }
+
+  private space() {
+    while (/\s/.test(this.text[this.pos] ?? "")) this.pos++;
+  }
+
+  private value(): unknown {
+    this.space();
+    const ch = this.text[this.pos];
+    if (ch === "[") return this.sequence();
+    if (ch === "{") return this.mapping();
+    return parseScalar(this.scalar(false));
+  }
+
+  private scalar(isKey: boolean): string {
+    this.space();
+    const ch = this.text[this.pos];
+    if (ch === '"' || ch === "'") {
+      const start = this.pos++;
+      while (this.pos < this.text.length) {
+        if (ch === '"' && this.text[this.pos] === "\\") this.pos++;
+        else if (this.text[this.pos] === ch) {
+          if (ch === "'" && this.text[this.pos + 1] === "'") this.pos++;
+          else break;
+        }
+        this.pos++;
+      }
+      this.pos++;
+      return this.text.slice(start, this.pos);
+    }
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos];
+      if (c === "," || c === "]" || c === "}") break;
+      if (isKey && c === ":" && /[\s,\]}]/.test(this.text[this.pos + 1] ?? " ")) break;
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos).trim();
+  }
+
+  private sequence(): unknown[] {
+    this.pos++;
+    const items: unknown[] = [];
+    for (;;) {
+      this.space();
+      if (this.text[this.pos] === "]") {
+        this.pos++;
+        return items;
+      }
+      items.push(this.value());
+      this.space();
+      if (this.text[this.pos] === ",") this.pos++;
+      else if (this.text[this.pos] !== "]") throw new YamlError('Expected "," or "]"', this.line);
+    }
+  }
+
+  private mapping(): Record<string, unknown> {
+    this.pos++;
+    const map: Record<string, unknown> = {};
+    for (;;) {
+      this.space();
+      if (this.text[this.pos] === "}") {
+        this.pos++;
+        return map;
+      }
+      const key = String(parseScalar(this.scalar(true)) ?? "");
+      this.space();
+      let value: unknown = null;
+      if (this.text[this.pos] === ":") {
+        this.pos++;
+        value = this.value();
+      }
+      map[key] = value;
+      this.space();
+      if (this.text[this.pos] === ",") this.pos++;
+      else if (this.text[this.pos] !== "}") throw new YamlError('Expected "," or "}"', this.line);
+    }
+  }
+}
+
+class BlockParser {
+  private pos = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  parseDocument(): unknown {
+    const value = this.node(0);
+    const rest = this.nextContent();
+    if (rest !== -1) throw new YamlError("Unexpected indentation", rest);
+    return value;
+  }
+
+  // Index of the next line with content, skipping blank and comment lines
+  private nextContent(): number {
+    while (this.pos < this.lines.length) {
+      const text = this.lines[this.pos].trim();
+      if (text && !text.startsWith("#") && text !== "---") return this.pos;
+      this.pos++;
+    }
+    return -1;
+  }
+
+  private node(minIndent: number): unknown {
+    const index = this.nextContent();
+    if (index === -1) return null;
+    const line = this.lines[index];
+    const indent = indentOf(line);
+    if (indent < minIndent) return null;
+    const text = stripComment(line.trim());
+    if (text === "-" || text.startsWith("- ")) return this.sequence(indent);
+    if (KEY_RE.test(text)) return this.mapping(indent);
+    this.pos++;
+    return this.inline(text, indent, index);
+  }
+
+  // A value written on the same line as its key or dash
+  private inline(text: string, parentIndent: number, index: number): unknown {
+    if (/^[|>][-+0-9]*$/.test(text)) return this.blockScalar(text, parentIndent);
+    if (text.startsWith("[") || text.startsWith("{")) {
+      // Flow collections may continue over the following lines
+      let source = text;
+      while (!this.balanced(source) && this.pos < this.lines.length) {
+        source += " " + stripComment(this.lines[this.pos].trim());
+        this.pos++;
+      }
+      return new FlowParser(source, index).parse();
+    }
+    // Plain and quoted scalars may be folded over more indented lines
+    let source = text;
+    while (this.pos < this.lines.length) {
+      const next = this.lines[this.pos];
+      if (!next.trim() || indentOf(next) <= parentIndent) break;
+      source += " " + stripComment(next.trim());
+      this.pos++;
+    }
+    return parseScalar(source);
+  }
+
+  private balanced(text: string): boolean {
+    let depth = 0;
+    let quote: string | null = null;
+    for (const ch of text) {
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") quote = ch;
+      else if (ch === "[" || ch === "{") depth++;
+      else if (ch === "]" || ch === "}") depth--;
+    }
+    return depth <= 0;
+  }
+
+  private blockScalar(header: string, parentIndent: number): string {
+    const folded = header[0] === ">";
+    const chomp = header.includes("-") ? "strip" : header.includes("+") ? "keep" : "clip";
+    const lines: string[] = [];
+    let indent = -1;
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.trim()) {
+        const lineIndent = indentOf(line);
+        if (lineIndent <= parentIndent) break;
+        if (indent === -1) indent = lineIndent;
+        if (lineIndent < indent) break;
+        lines.push(line.slice(indent));
+      } else {
+        lines.push("");
+      }
+      this.pos++;
+    }
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === "") {
+      lines.pop();
+      trailing++;
+    }
+
+    let text: string;
+    if (folded) {
+      // Lines are joined with spaces; blank lines and indented lines keep breaks
+      text = "";
+      lines.forEach((line, i) => {
+        if (i === 0) text = line;
+        else if (line === "" || line.startsWith(" ") || lines[i - 1] === "" || lines[i - 1].startsWith(" ")) text += "\n" + line;
+        else text += " " + line;
+      });
+    } else {
+      text = lines.join("\n");
+    }
+    if (chomp === "strip" || lines.length === 0) return text;
+    return text + (chomp === "keep" ? "\n".repeat(trailing + 1) : "\n");
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    for (;;) {
+      const index = this.nextContent();
+      if (index === -1 || indentOf(this.lines[index]) !== indent) break;
+      const text = stripComment(this.lines[index].trim());
+      const match = text.match(KEY_RE);
+      if (!match) {
+        if (text === "-" || text.startsWith("- ")) break;
+        throw new YamlError("Expected a key", index);
+      }
+      const key = String(parseScalar(match[1]) ?? "");
+      const rest = text.slice(match[0].length).trim();
+      this.pos++;
+      if (rest) {
+        map[key] = this.inline(rest, indent, index);
+        continue;
+      }
+      // A sequence may sit at the same indentation as its key
+      const next = this.nextContent();
+      const nextText = next === -1 ? "" : this.lines[next].trim();
+      if (next !== -1 && indentOf(this.lines[next]) === indent && (nextText === "-" || nextText.startsWith("- "))) {
+        map[key] = this.sequence(indent);
+      } else {
+        map[key] = this.node(indent + 1);
+      }
+    }
+    return map;
+  }
+
+  private sequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (;;) {
+      const index = this.nextContent();
+      if (index === -1 || indentOf(this.lines[index]) !== indent) break;
+      const text = stripComment(this.lines[index].trim());
+      if (text !== "-" && !text.startsWith("- ")) break;
+      const rest = text.slice(1).trimStart();
+      if (!rest) {
+        this.pos++;
+        items.push(this.node(indent + 1));
+        continue;
+      }
+      // "- key: value" and "- - item" open a nested block at the item's column
+      const column = indent + (text.length - rest.length);
+      if (rest === "-" || rest.startsWith("- ") || KEY_RE.test(rest)) {
+        this.lines[index] = " ".repeat(column) + rest;
+        items.push(this.node(column));
+        continue;
+      }
+      this.pos++;
+      items.push(this.inline(rest, indent, index));
+    }
+    return items;
+  }
+}
+
+/**
+ * Parse a YAML document. JSON is valid YAML and is handed to JSON.parse.
+ */
+export function parseYaml(text: string): YamlResult {
+  const source = text.replace(/^\uFEFF/, "");
+  if (/^\s*[[{]/.test(source)) {
+    try {
+      return { ok: true, value: JSON.parse(source) };
+    } catch {
+      // Fall through: flow-style YAML that is not strict JSON
+    }
+  }
+  try {
+    return { ok: true, value: new BlockParser(source.replace(/\t/g, "  ").split(/\r?\n/)).parseDocument() };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}